@@ -1,74 +1,43 @@
-import { Handler, Hono } from 'hono';
+import { Context, Handler, Hono } from 'hono';
 import { jsxRenderer } from 'hono/jsx-renderer';
 import { Env } from '../../env';
 import { ErrorPage, Result, Template } from './views';
 import { DigitalCredentials } from './views/digitalCredentials';
-import { MdocVerifyHandlerImpl } from 'mdoc-cbor-ts';
 import { GetDI } from '../../di';
+import { DEFAULT_DCQL_QUERY_NAME, parseDcqlVpToken } from '../out/dcql';
 import {
-  EphemeralECDHPrivateJwk,
-  JarmOption,
-} from '@vecrea/oid4vc-verifier-frontend-core';
+  CredentialDocuments,
+  PresentationVerifyResult,
+  groupDocumentsByDoctype,
+} from '../out/verifier';
+import { ISO_MDOC_PROTOCOL } from '../out/mdoc/IsoMdocDcApi';
+import { ageOverElement, parseAgeThreshold } from '../out/mdoc/AgeOver';
+import { evaluatePolicy } from '../out/policy';
+import { acceptsJson, toVerificationResultJson } from './json';
+import {
+  DigitalCredentialsProtocol,
+  DigitalCredentialsProtocolRequest,
+  DigitalCredentialsRequestState,
+  IsoMdocProtocol,
+  OPENID4VP_PROTOCOL,
+  OpenId4VpProtocol,
+  parseDigitalCredentialsRequestState,
+  ReplayedResponseError,
+} from './dcapi';
 
 /**
  * Default root path for Digital Credentials UI
  */
 const DEFAULT_ROOT_PATH = '/digital-credentials';
 
-/**
- * Generate Digital Credentials API request payload
- *
- * @param ecdhPublicJwk - Ephemeral public key to send (JWK with `d` removed)
- * @returns Request object to pass to DC API's `navigator.credentials.get`
- */
-const credentialRequest = (ecdhPublicJwk: Record<string, unknown>) => ({
-  protocol: 'openid4vp-v1-unsigned',
-  request: {
-    client_metadata: {
-      vp_formats_supported: {
-        mso_mdoc: {
-          deviceauth_alg_values: [-7],
-          issuerauth_alg_values: [-7],
-        },
-      },
-      jwks: {
-        keys: [ecdhPublicJwk],
-      },
-    },
-    dcql_query: {
-      credentials: [
-        {
-          claims: [
-            {
-              path: ['org.iso.18013.5.1', 'family_name'],
-            },
-            {
-              path: ['org.iso.18013.5.1', 'given_name'],
-            },
-            {
-              path: ['org.iso.18013.5.1', 'age_over_21'],
-            },
-          ],
-          format: 'mso_mdoc',
-          id: 'cred1',
-          meta: {
-            doctype_value: 'org.iso.18013.5.1.mDL',
-          },
-        },
-      ],
-    },
-    response_mode: 'dc_api.jwt',
-    response_type: 'vp_token',
-    nonce: crypto.randomUUID(),
-  },
-});
-
 /**
  * Digital Credentials frontend API router
  *
  * - Root screen display
  * - Request generation (ephemeral key generation and public key distribution)
- * - Response validation (JARM decryption/validation, mDL validation)
+ *   for a named DCQL query selected with `?query=<name>`, using OpenID4VP or
+ *   ISO/IEC 18013-7 Annex C (`org-iso-mdoc`) selected with `?protocol=<name>`
+ * - Response validation (JARM or HPKE decryption, DCQL matching, mdoc validation)
  * - Verification result display
  *
  * @typeParam T - Hono environment type (subtype of `Env`)
@@ -229,8 +198,23 @@ export class DigitalCredentialsApi<T extends Env> {
           timestamp: new Date().toISOString(),
         });
 
+        const { portsOut } = this.#getDI(c);
+        const queries = portsOut
+          .dcqlQueryRegistry()
+          .entries()
+          .map(({ name, label, description }) => ({
+            name,
+            label,
+            description,
+          }));
+        const protocols = [...this.#protocols(c).values()].map(
+          ({ name, label }) => ({ name, label })
+        );
+
         return c.render(
           <DigitalCredentials
+            queries={queries}
+            protocols={protocols}
             getRequestPath={this.#getRequestPath}
             validateResponsePath={this.#validateResponsePath}
             resultPath={this.#resultPath}
@@ -253,11 +237,32 @@ export class DigitalCredentialsApi<T extends Env> {
     };
   }
 
+  /**
+   * Protocol handlers available for a request
+   *
+   * @param c - Hono context
+   * @returns Handlers keyed by their name
+   * @private
+   */
+  #protocols(c: Context<T>): Map<string, DigitalCredentialsProtocol> {
+    const { config, portsOut } = this.#getDI(c);
+    // Wallets bind their responses to the origin of the calling page
+    const origin = new URL(config.publicUrl()).origin;
+    return new Map<string, DigitalCredentialsProtocol>([
+      [OPENID4VP_PROTOCOL, new OpenId4VpProtocol(portsOut, origin)],
+      [ISO_MDOC_PROTOCOL, new IsoMdocProtocol(origin)],
+    ]);
+  }
+
   /**
    * Request generation handler
    *
-   * - Generate ephemeral ECDH key and save to session
-   * - Return DC API request using public JWK
+   * - Resolve the named DCQL query from `?query=` (defaults to `mDL`), or
+   *   request only `age_over_NN` with `?over=NN`
+   * - Resolve the protocol from `?protocol=` (`openid4vp` by default, or `org-iso-mdoc`)
+   * - Let the protocol handler create the request and its ephemeral keys
+   *   for a fresh nonce, and save the protocol state to session with the
+   *   nonce, the query name and the creation time
    *
    * @returns Hono handler (returns JSON)
    */
@@ -265,17 +270,52 @@ export class DigitalCredentialsApi<T extends Env> {
     try {
       return async (c) => {
         const { portsOut } = this.#getDI(c);
-        const generateEphemeralECDHPrivateJwk =
-          portsOut.generateEphemeralECDHPrivateJwk();
-        const result = await generateEphemeralECDHPrivateJwk();
-        const ecdhPrivateJwk = result.getOrThrow().toJSON();
+        const over = c.req.query('over');
+        let queryName = c.req.query('query') || DEFAULT_DCQL_QUERY_NAME;
+        if (over !== undefined) {
+          try {
+            queryName = ageOverElement(parseAgeThreshold(over));
+          } catch (error) {
+            return c.json(
+              { error: error instanceof Error ? error.message : String(error) },
+              400
+            );
+          }
+        }
+        const namedQuery = portsOut.dcqlQueryRegistry().get(queryName);
+
+        if (!namedQuery) {
+          return c.json({ error: `Unknown query: ${queryName}` }, 404);
+        }
+
+        const protocolName = c.req.query('protocol') || OPENID4VP_PROTOCOL;
+        const protocol = this.#protocols(c).get(protocolName);
 
-        await portsOut.dcSession().save(JSON.stringify({ ecdhPrivateJwk }));
+        if (!protocol) {
+          return c.json({ error: `Unknown protocol: ${protocolName}` }, 400);
+        }
+
+        const nonce = crypto.randomUUID();
+        let created: DigitalCredentialsProtocolRequest;
+        try {
+          created = await protocol.createRequest(namedQuery.query, nonce);
+        } catch (error) {
+          return c.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            400
+          );
+        }
 
-        const ecdhPublicJwk = JSON.parse(ecdhPrivateJwk);
+        const state: DigitalCredentialsRequestState = {
+          ...created.session,
+          protocol: protocol.name,
+          queryName,
+          nonce,
+          createdAt: Date.now(),
+        };
+        await portsOut.dcSession().save(JSON.stringify(state));
 
-        delete ecdhPublicJwk.d;
-        return c.json(credentialRequest(ecdhPublicJwk), 200);
+        return c.json(created.request, 200);
       };
     } catch (error) {
       console.error('Failed to create getRequestHandler:', {
@@ -292,9 +332,24 @@ export class DigitalCredentialsApi<T extends Env> {
   /**
    * Response validation handler
    *
-   * - Decrypt and validate JARM JWT
-   * - Validate mDL format VP Token
+   * - Read the request state saved in session; a replay gets `409`, an
+   *   expired request `400`
+   * - Decrypt the response with the protocol saved in session
+   *   (JARM JWT for OpenID4VP, HPKE for `org-iso-mdoc`) and check that it
+   *   is bound to the nonce and state of the request
+   * - Check the VP Token against the credential ids and `credential_sets`
+   *   of the query saved in session
+   * - Consume the request state, so that a response is accepted only once;
+   *   a failed attempt leaves it for a retry
+   * - Validate every mdoc presentation and, as configured, anchor its issuer
+   *   to a trusted IACA root and check that it is not revoked; when the
+   *   trust store or revocation data cannot be loaded, restore the request
+   *   state and answer `503` with `{ error }`, so that the response can be
+   *   submitted again
+   * - Evaluate the verification policy of the query, if it declares one
    * - Save VP Token to session
+   * - Return the verification result in the schema of
+   *   {@link toVerificationResultJson}
    *
    * @returns Hono handler (returns JSON)
    */
@@ -304,7 +359,6 @@ export class DigitalCredentialsApi<T extends Env> {
       return async (c) => {
         const { portsOut } = this.#getDI(c);
         const credentialResponse = await c.req.json();
-        const jarmJwt = credentialResponse.data.response;
         const dcSession = portsOut.dcSession();
         const data = await dcSession.get();
 
@@ -312,29 +366,104 @@ export class DigitalCredentialsApi<T extends Env> {
           return c.json({ error: 'Session data not found' }, 400);
         }
 
-        const ecdhPrivateJwk = JSON.parse(data).ecdhPrivateJwk;
+        let session: DigitalCredentialsRequestState;
+        try {
+          session = parseDigitalCredentialsRequestState(data);
+        } catch (error) {
+          if (error instanceof ReplayedResponseError) {
+            return c.json({ error: error.message }, 409);
+          }
+          return c.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            400
+          );
+        }
+
+        const { queryName } = session;
+        const protocol = this.#protocols(c).get(session.protocol);
 
-        if (!ecdhPrivateJwk) {
-          return c.json({ error: 'ECDH private key not found' }, 400);
+        if (!protocol) {
+          return c.json(
+            { error: `Unknown protocol: ${session.protocol}` },
+            400
+          );
+        }
+        if (
+          credentialResponse.protocol &&
+          !protocol.protocols.includes(credentialResponse.protocol)
+        ) {
+          return c.json(
+            { error: `Unexpected protocol: ${credentialResponse.protocol}` },
+            400
+          );
         }
 
-        const verifyJarmJwt = portsOut.verifyJarmJwt();
-        const verifyJarmJwtResult = await verifyJarmJwt(
-          new JarmOption.Encrypted('ECDH-ES', 'A128GCM'),
-          new EphemeralECDHPrivateJwk(ecdhPrivateJwk),
-          jarmJwt
-        );
+        const namedQuery = portsOut.dcqlQueryRegistry().get(queryName);
+
+        if (!namedQuery) {
+          return c.json({ error: `Unknown query: ${queryName}` }, 400);
+        }
+
+        let vpToken: string;
+        try {
+          vpToken = await protocol.readResponse(
+            credentialResponse.data ?? {},
+            session,
+            namedQuery.query
+          );
+        } catch (error) {
+          return c.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            400
+          );
+        }
+
+        // Spend the request only once the response was decrypted and matched
+        // against it, so that a failed attempt can be retried; of concurrent
+        // responses only the one consuming the request goes on
+        const consumed = await dcSession.consume();
+        if (consumed !== data) {
+          if (consumed) {
+            await dcSession.save(consumed);
+          }
+          return c.json({ error: new ReplayedResponseError().message }, 409);
+        }
 
-        const vpToken = (
-          verifyJarmJwtResult.getOrThrow().vpToken! as unknown as Record<
-            string,
-            string[]
-          >
-        ).cred1[0];
-        const verifier = new MdocVerifyHandlerImpl();
-        const result = await verifier.verify(vpToken);
-        await dcSession.save(JSON.stringify({ vpToken }));
-        return c.json({ message: 'validateResponseHandler', result }, 200);
+        let result: PresentationVerifyResult;
+        try {
+          result = await portsOut.presentationVerifier().verify(vpToken);
+        } catch (error) {
+          await dcSession.save(data);
+          return c.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            503
+          );
+        }
+        const policy =
+          result.valid && namedQuery.policy
+            ? evaluatePolicy(
+                namedQuery.policy,
+                result.documents,
+                portsOut.clock().now()
+              )
+            : undefined;
+        await dcSession.save(
+          JSON.stringify({
+            queryName,
+            vpToken: parseDcqlVpToken(vpToken) ?? vpToken,
+            completedAt: portsOut.clock().now().getTime(),
+          })
+        );
+        return c.json(
+          toVerificationResultJson(result, {
+            credentials:
+              result.credentials ??
+              groupDocumentsByDoctype(namedQuery.query, result.documents),
+            policy,
+            registry: portsOut.namespaceSchemaRegistry(),
+          }),
+          200
+        );
       };
     } catch (error) {
       console.error('Failed to create validateResponseHandler:', {
@@ -351,10 +480,18 @@ export class DigitalCredentialsApi<T extends Env> {
   /**
    * Verification result display handler
    *
-   * - Retrieve VP Token from session and re-validate
-   * - Render result screen on successful validation
+   * - Retrieve VP Token from session and re-validate; Key Binding JWTs are
+   *   checked as of when the response was accepted, so that the result can
+   *   be opened later; `503` with `{ error }` when the trust store or
+   *   revocation data cannot be loaded
+   * - Group the documents of a single DeviceResponse by the credential ids
+   *   of the query
+   * - Render result screen on successful validation, or flag the documents
+   *   when they are expired or not yet valid
+   * - Return the result as JSON instead when the request accepts
+   *   `application/json` rather than `text/html`
    *
-   * @returns Hono handler (returns HTML)
+   * @returns Hono handler (returns HTML, or JSON when requested)
    */
   resultHandler(): Handler<T> {
     return async (c) => {
@@ -366,24 +503,80 @@ export class DigitalCredentialsApi<T extends Env> {
         return c.json({ error: 'Session data not found' }, 400);
       }
 
-      const vpToken = JSON.parse(data).vpToken;
+      const {
+        queryName = DEFAULT_DCQL_QUERY_NAME,
+        vpToken,
+        completedAt,
+      } = JSON.parse(data);
 
       if (!vpToken) {
         return c.json({ error: 'VP token not found' }, 400);
       }
 
-      const verifier = new MdocVerifyHandlerImpl();
-      const result = await verifier.verify(vpToken);
+      const serializedVpToken =
+        typeof vpToken === 'string'
+          ? vpToken
+          : JSON.stringify(vpToken, null, 2);
+      let result: PresentationVerifyResult;
+      try {
+        result = await portsOut
+          .presentationVerifier(
+            typeof completedAt === 'number' ? new Date(completedAt) : undefined
+          )
+          .verify(serializedVpToken);
+      } catch (error) {
+        return c.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          503
+        );
+      }
+
+      const { valid, validities } = result;
+      const namedQuery = portsOut.dcqlQueryRegistry().get(queryName);
+      const policy =
+        valid && namedQuery?.policy
+          ? evaluatePolicy(
+              namedQuery.policy,
+              result.documents,
+              portsOut.clock().now()
+            )
+          : undefined;
+      const credentials = valid
+        ? result.credentials ??
+          (namedQuery &&
+            groupDocumentsByDoctype(namedQuery.query, result.documents))
+        : undefined;
+
+      if (acceptsJson(c.req.header('Accept'))) {
+        return c.json(
+          toVerificationResultJson(result, {
+            credentials,
+            policy,
+            registry: portsOut.namespaceSchemaRegistry(),
+          })
+        );
+      }
 
-      if (!result.valid) {
+      // Expired or not yet valid documents are flagged on the result page
+      if (!valid && !validities?.some((validity) => !validity.valid)) {
         return c.json({ error: 'Invalid VP token' }, 400);
       }
 
       return c.render(
         <Result
-          data={result.documents}
+          data={valid ? result.documents : undefined}
+          credentials={credentials?.map(
+            ({ id, documents }: CredentialDocuments) => ({
+              id,
+              data: documents,
+            })
+          )}
+          issuers={result.issuers}
+          validities={validities}
+          labels={portsOut.namespaceSchemaRegistry().documentLabels()}
+          policy={policy}
           homePath={this.#rootPath}
-          vpToken={vpToken}
+          vpToken={serializedVpToken}
         />
       );
     };
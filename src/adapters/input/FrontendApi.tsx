@@ -26,7 +26,8 @@ import { GetDI } from '../../di';
  * The API supports the complete OID4VC presentation verification flow:
  *
  * 1. **Home Page** (`/`): Entry point with navigation to start verification
- * 2. **Initialization** (`/init`): Creates presentation requests and wallet redirects
+ * 2. **Initialization** (`/init`, `/init/:key`): Creates presentation requests and wallet redirects
+ *    for the default or a registered presentation definition
  * 3. **Result Processing** (`/result`): Handles wallet responses and displays verification results
  * 4. **Error Handling**: Consistent error pages for all failure scenarios
  *
@@ -90,6 +91,12 @@ export class FrontendApi<T extends Env> {
    */
   readonly #resultPath: string;
 
+  /**
+   * Transactions API path the Init page follows transactions at
+   * @private
+   */
+  readonly #transactionsPath: string | undefined;
+
   /**
    * Dependency injection function for accessing services
    * @private
@@ -107,7 +114,8 @@ export class FrontendApi<T extends Env> {
    * @param initPath - The route path for transaction initialization (e.g., '/init')
    * @param resultPath - The route path for result display (e.g., '/result')
    * @param getDI - Dependency injection function for accessing services and configuration
-   * @param options - Configuration options for API behavior
+   * @param transactionsPath - Path of the transactions API (e.g., '/api/transactions'); when given
+   *   the Init page follows the transaction at its status endpoint
    *
    * @throws {TypeError} When required parameters are invalid
    * @throws {Error} When path validation fails
@@ -127,7 +135,8 @@ export class FrontendApi<T extends Env> {
     homePath: string,
     initPath: string,
     resultPath: string,
-    getDI: GetDI<T>
+    getDI: GetDI<T>,
+    transactionsPath?: string
   ) {
     // Validate required parameters
     if (!homePath || typeof homePath !== 'string') {
@@ -154,6 +163,9 @@ export class FrontendApi<T extends Env> {
     if (!pathRegex.test(resultPath)) {
       throw new Error(`Invalid resultPath format: ${resultPath}`);
     }
+    if (transactionsPath !== undefined && !pathRegex.test(transactionsPath)) {
+      throw new Error(`Invalid transactionsPath format: ${transactionsPath}`);
+    }
 
     // Ensure paths are unique
     const paths = [homePath, initPath, resultPath];
@@ -165,6 +177,7 @@ export class FrontendApi<T extends Env> {
     this.#homePath = homePath;
     this.#initPath = initPath;
     this.#resultPath = resultPath;
+    this.#transactionsPath = transactionsPath;
     this.#getDI = getDI;
 
     console.log('FrontendApi initialized:', {
@@ -220,12 +233,18 @@ export class FrontendApi<T extends Env> {
         )
         .get(this.#homePath, this.homeHandler())
         .get(this.#initPath, this.initHandler())
-        .get(`${this.#initPath}/unifiedID`, this.unifiedIDInitHandler())
+        .get(`${this.#initPath}/:key`, this.definitionInitHandler())
         .get(this.#resultPath, this.resultHandler())
         .get('*', this.notFoundHandler());
 
       console.log('Route configuration completed:', {
-        routes: [this.#homePath, this.#initPath, this.#resultPath, '*'],
+        routes: [
+          this.#homePath,
+          this.#initPath,
+          `${this.#initPath}/:key`,
+          this.#resultPath,
+          '*',
+        ],
         timestamp: new Date().toISOString(),
       });
 
@@ -252,7 +271,7 @@ export class FrontendApi<T extends Env> {
    * ```typescript
    * // The home handler renders a page with:
    * // - Welcome message and instructions
-   * // - "Start Verification" button linking to init path
+   * // - One button per registered presentation definition
    * // - Application branding and navigation
    * ```
    */
@@ -265,7 +284,23 @@ export class FrontendApi<T extends Env> {
           timestamp: new Date().toISOString(),
         });
 
-        return c.render(<Home initTransactionPath={`${c.env.PUBLIC_URL}${this.#initPath}`} />);
+        const { portsOut } = this.#getDI(c);
+        const registry = portsOut.presentationDefinitionRegistry();
+        const definitions = registry
+          .entries()
+          .map(({ key, label, description }) => ({
+            key,
+            label,
+            description,
+            claims: registry.selectableClaims(key),
+          }));
+
+        return c.render(
+          <Home
+            initTransactionPath={`${c.env.PUBLIC_URL}${this.#initPath}`}
+            definitions={definitions}
+          />
+        );
       } catch (error) {
         console.error('Home handler error:', {
           error: error instanceof Error ? error.message : String(error),
@@ -309,41 +344,36 @@ export class FrontendApi<T extends Env> {
    * ```
    */
   initHandler(): Handler<T> {
-    try {
-      const controller = new InitTransactionController(
-        this.#getDI,
-        Init,
-        'mDL',
-        ErrorPage
-      );
-
-      console.log('InitTransactionController created successfully');
-
-      return controller.handler();
-    } catch (error) {
-      console.error('Failed to create InitTransactionController:', {
-        error: error instanceof Error ? error.message : String(error),
-        timestamp: new Date().toISOString(),
-      });
+    return this.createInitHandler('mDL');
+  }
 
-      // Return fallback handler
-      return (c) =>
-        c.render(
-          <ErrorPage
-            error="Transaction initialization is currently unavailable"
-            homePath={this.#homePath}
-          />
-        );
-    }
+  /**
+   * Creates a handler for the `/init/:key` route
+   *
+   * Starts a transaction for the presentation definition registered under the
+   * `key` route parameter. Unknown keys are rendered as a 404 error page.
+   *
+   * @returns Hono handler function for processing initialization requests
+   */
+  definitionInitHandler(): Handler<T> {
+    return this.createInitHandler();
   }
 
-  unifiedIDInitHandler(): Handler<T> {
+  /**
+   * Creates an InitTransactionController handler with a fallback error page
+   *
+   * @param key - Registry key; when omitted the `:key` route parameter is used
+   * @returns Hono handler function for processing initialization requests
+   * @private
+   */
+  private createInitHandler(key?: string): Handler<T> {
     try {
       const controller = new InitTransactionController(
         this.#getDI,
         Init,
-        'unifiedID',
-        ErrorPage
+        key,
+        ErrorPage,
+        this.#transactionsPath
       );
 
       console.log('InitTransactionController created successfully');
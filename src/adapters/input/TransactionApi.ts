@@ -0,0 +1,162 @@
+import { Handler, Hono } from 'hono';
+import { Env } from '../../env';
+import { ErrorPage } from './views';
+import {
+  CreateTransactionController,
+  TransactionStatusController,
+} from './controller';
+import { GetDI } from '../../di';
+
+/**
+ * Default path of the transactions API
+ *
+ * @public
+ */
+export const DEFAULT_TRANSACTIONS_PATH = '/api/transactions';
+
+/**
+ * REST API router for relying parties
+ *
+ * - `POST /api/transactions`: Creates a verification transaction for a
+ *   presentation definition registry key or an inline DCQL query, and
+ *   returns its id, wallet request URI, QR code and status URLs
+ * - `GET /api/transactions/:id`: Status of the transaction (`pending`,
+ *   `completed`, `failed` or `expired`); `?wait=N` holds the request for up
+ *   to `N` seconds until it is no longer pending
+ * - `GET /api/transactions/:id/events`: The status as server-sent events
+ *
+ * Responses are JSON; the transaction is bound to the session cookie set on
+ * the response.
+ *
+ * @typeParam T - Hono environment type (subtype of `Env`)
+ * @public
+ */
+export class TransactionApi<T extends Env> {
+  /**
+   * Transactions route path
+   * @private
+   */
+  readonly #transactionsPath: string;
+
+  /**
+   * Dependency injection function for accessing services
+   * @private
+   */
+  readonly #getDI: GetDI<T>;
+
+  /**
+   * Create a new TransactionApi instance
+   *
+   * @param getDI - DI retrieval function
+   * @param transactionsPath - Transactions path
+   * @throws {TypeError} When parameters are invalid
+   * @throws {Error} When the path format is invalid
+   */
+  constructor(
+    getDI: GetDI<T>,
+    transactionsPath: string = DEFAULT_TRANSACTIONS_PATH
+  ) {
+    if (!getDI || typeof getDI !== 'function') {
+      throw new TypeError('getDI must be a function');
+    }
+    if (!transactionsPath || typeof transactionsPath !== 'string') {
+      throw new TypeError('transactionsPath must be a non-empty string');
+    }
+    if (!/^\/[a-zA-Z0-9\-_/]*$/.test(transactionsPath)) {
+      throw new Error(`Invalid transactionsPath format: ${transactionsPath}`);
+    }
+
+    this.#transactionsPath = transactionsPath;
+    this.#getDI = getDI;
+  }
+
+  /**
+   * Route paths of the API
+   */
+  get paths() {
+    return {
+      transactions: this.#transactionsPath,
+      status: `${this.#transactionsPath}/:id`,
+      events: `${this.#transactionsPath}/:id/events`,
+    } as const;
+  }
+
+  /**
+   * Get Hono router
+   *
+   * @returns `Hono` instance containing routing definitions
+   */
+  get route(): Hono<Env> {
+    const { transactions, status, events } = this.paths;
+    return new Hono<Env>()
+      .post(transactions, this.createTransactionHandler())
+      .get(status, this.statusHandler())
+      .get(events, this.eventsHandler());
+  }
+
+  /**
+   * Transaction creation handler
+   *
+   * @returns Hono handler (returns JSON)
+   */
+  createTransactionHandler(): Handler<T> {
+    try {
+      return new CreateTransactionController(
+        this.#getDI,
+        ErrorPage,
+        this.#transactionsPath
+      ).handler();
+    } catch (error) {
+      console.error('Failed to create CreateTransactionController:', {
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+
+      // Return fallback handler
+      return (c) =>
+        c.json({ error: 'Transaction creation is currently unavailable' }, 503);
+    }
+  }
+
+  /**
+   * Transaction status handler
+   *
+   * @returns Hono handler (returns JSON)
+   */
+  statusHandler(): Handler<T> {
+    return this.#createStatusHandler((controller) => controller.handler());
+  }
+
+  /**
+   * Transaction status events handler
+   *
+   * @returns Hono handler (returns `text/event-stream`)
+   */
+  eventsHandler(): Handler<T> {
+    return this.#createStatusHandler((controller) =>
+      controller.eventsHandler()
+    );
+  }
+
+  /**
+   * Creates a TransactionStatusController handler with a fallback response
+   *
+   * @private
+   */
+  #createStatusHandler(
+    select: (controller: TransactionStatusController<T>) => Handler<T>
+  ): Handler<T> {
+    try {
+      return select(new TransactionStatusController(this.#getDI, ErrorPage));
+    } catch (error) {
+      console.error('Failed to create TransactionStatusController:', {
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+
+      // Return fallback handler
+      return (c) =>
+        c.json({ error: 'Transaction status is currently unavailable' }, 503);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import type { Fetcher } from '@vecrea/oid4vc-verifier-frontend-core';
+import { DigitalCredentialsApi } from '../DigitalCredentialsApi';
+import { OpenId4VpProtocol } from '../dcapi';
+import { Env } from '../../../env';
+import { GetDI } from '../../../di';
+import { DEFAULT_DCQL_QUERIES, DcqlQueryRegistry } from '../../out/dcql';
+import {
+  PresentationVerifier,
+  createCredentialVerifiers,
+} from '../../out/verifier';
+import { StaticTrustStore } from '../../out/trust';
+import { RevocationChecker } from '../../out/revocation';
+import { systemClock } from '../../out/clock';
+import { defaultNamespaceSchemaRegistry } from '../../out/mdoc/namespaces';
+import { issueCertificates } from '../../out/trust/__tests__/certificates';
+import { issuerSignedDeviceResponse } from '../../out/mdoc/__tests__/issuerSignedDeviceResponse';
+
+vi.mock('../dcapi', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../dcapi')>()),
+  OpenId4VpProtocol: vi.fn(),
+}));
+
+const mdl = 'org.iso.18013.5.1.mDL';
+
+const status = new Map([
+  [
+    'status_list',
+    new Map<string, unknown>([
+      ['idx', 0],
+      ['uri', 'https://status.example.com/lists/1'],
+    ]),
+  ],
+]);
+
+/**
+ * DC session keeping its value in memory
+ */
+const createDcSession = (value?: string) => {
+  const dcSession = {
+    value,
+    save: vi.fn(async (next: string) => {
+      dcSession.value = next;
+    }),
+    get: vi.fn(async () => dcSession.value),
+    consume: vi.fn(async () => {
+      const consumed = dcSession.value;
+      dcSession.value = undefined;
+      return consumed;
+    }),
+  };
+  return dcSession;
+};
+
+describe('DigitalCredentialsApi', () => {
+  let get: Mock<Fetcher['get']> & Fetcher['get'];
+  let vpToken: string;
+  let presentationVerifier: () => PresentationVerifier;
+
+  beforeEach(async () => {
+    const { root, documentSigner } = await issueCertificates(
+      'Example IACA',
+      new Date(Date.now() - 24 * 60 * 60 * 1000)
+    );
+    vpToken = JSON.stringify({
+      mdl: [issuerSignedDeviceResponse(mdl, documentSigner, status)],
+    });
+    // The mock type drops the type parameter of get
+    get = vi.fn<Fetcher['get']>(async () => {
+      throw new Error('Network error');
+    }) as Mock<Fetcher['get']> & Fetcher['get'];
+    const revocationChecker = new RevocationChecker(
+      { get, post: vi.fn() },
+      { get: async () => undefined, put: async () => undefined }
+    );
+    presentationVerifier = () =>
+      new PresentationVerifier(
+        createCredentialVerifiers(
+          {
+            verify: async () => ({ valid: true, documents: [] }),
+          } as any,
+          {
+            trustStore: new StaticTrustStore([
+              { certificate: root.toString('pem') },
+            ]),
+            revocationChecker,
+          }
+        )
+      );
+    vi.mocked(OpenId4VpProtocol).mockImplementation(
+      () =>
+        ({
+          name: 'openid4vp',
+          label: 'OpenID4VP',
+          protocols: ['openid4vp'],
+          createRequest: vi.fn(),
+          readResponse: vi.fn(async () => vpToken),
+        } as unknown as OpenId4VpProtocol)
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  const createApi = (dcSession: ReturnType<typeof createDcSession>) =>
+    new DigitalCredentialsApi<Env>(
+      vi.fn().mockReturnValue({
+        config: { publicUrl: () => 'https://verifier.example.com' },
+        portsOut: {
+          dcSession: () => dcSession,
+          dcqlQueryRegistry: () => new DcqlQueryRegistry(DEFAULT_DCQL_QUERIES),
+          presentationVerifier,
+          clock: () => systemClock,
+          namespaceSchemaRegistry: () => defaultNamespaceSchemaRegistry,
+        },
+      }) as unknown as GetDI<Env>
+    );
+
+  describe('validateResponseHandler', () => {
+    const request = JSON.stringify({
+      protocol: 'openid4vp',
+      queryName: 'mDL',
+      nonce: 'nonce',
+      createdAt: Date.now(),
+    });
+
+    const validate = (api: DigitalCredentialsApi<Env>) =>
+      api.route.request('/digital-credentials/validate-response', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ protocol: 'openid4vp', data: {} }),
+      });
+
+    it('should keep the request for a retry when revocation data cannot be fetched', async () => {
+      const dcSession = createDcSession(request);
+      const api = createApi(dcSession);
+
+      const response = await validate(api);
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({
+        error: expect.stringContaining('Revocation check failed'),
+      });
+      expect(get).toHaveBeenCalled();
+      expect(dcSession.value).toBe(request);
+
+      const retried = await validate(api);
+      expect(retried.status).toBe(503);
+    });
+  });
+
+  describe('resultHandler', () => {
+    it('should answer JSON when revocation data cannot be fetched', async () => {
+      const api = createApi(
+        createDcSession(
+          JSON.stringify({
+            queryName: 'mDL',
+            vpToken: JSON.parse(vpToken),
+            completedAt: Date.now(),
+          })
+        )
+      );
+
+      const response = await api.route.request('/digital-credentials/result');
+
+      expect(response.status).toBe(503);
+      expect(await response.json()).toEqual({
+        error: expect.stringContaining('Revocation check failed'),
+      });
+    });
+  });
+});
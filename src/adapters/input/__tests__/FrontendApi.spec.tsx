@@ -153,7 +153,7 @@ describe('FrontendApi', () => {
       expect(consoleLogSpy).toHaveBeenCalledWith(
         'Route configuration completed:',
         expect.objectContaining({
-          routes: ['/home', '/init', '/result', '*'],
+          routes: ['/home', '/init', '/init/:key', '/result', '*'],
           timestamp: expect.any(String),
         }),
       );
@@ -177,6 +177,34 @@ describe('FrontendApi', () => {
       expect(InitTransactionController).toHaveBeenCalled();
     });
 
+    it('should create definitionInitHandler resolving the key from the route', () => {
+      api.definitionInitHandler();
+      expect(InitTransactionController).toHaveBeenCalledWith(
+        mockGetDI,
+        expect.any(Function),
+        undefined,
+        expect.any(Function),
+        undefined,
+      );
+    });
+
+    it('should pass the transactions path to InitTransactionController', () => {
+      new FrontendApi(
+        '/home',
+        '/init',
+        '/result',
+        mockGetDI,
+        '/api/transactions',
+      ).definitionInitHandler();
+      expect(InitTransactionController).toHaveBeenLastCalledWith(
+        mockGetDI,
+        expect.any(Function),
+        undefined,
+        expect.any(Function),
+        '/api/transactions',
+      );
+    });
+
     it('should create resultHandler and instantiate ResultController', () => {
       api.resultHandler();
       expect(ResultController).toHaveBeenCalled();
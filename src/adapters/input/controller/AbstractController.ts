@@ -88,58 +88,8 @@ export abstract class AbstractController<T extends Env>
     error: Error | string,
     status?: ContentfulStatusCode
   ): Promise<Response> {
-    // Determine appropriate status code
-    let errorStatus: ContentfulStatusCode = status || 500;
-    let message = 'Internal Server Error';
-
-    if (error instanceof HTTPException) {
-      errorStatus = error.status;
-      message = error.message;
-    } else if (error instanceof Error) {
-      // Map specific error types to appropriate status codes
-      if (
-        error.message.includes('Session expired') ||
-        error.message.includes('Invalid session')
-      ) {
-        errorStatus = 401;
-        message = 'Session expired';
-      } else if (
-        error.message.includes('Invalid') ||
-        error.message.includes('Missing')
-      ) {
-        errorStatus = 400;
-        message = 'Bad Request';
-      } else if (error.message.includes('Not found')) {
-        errorStatus = 404;
-        message = 'Not Found';
-      } else {
-        message = error.message;
-      }
-    } else if (typeof error === 'string') {
-      message = error;
-    }
-
-    // Log error with context
+    const { status: errorStatus, message } = this.#resolveError(error, status);
     const isDevelopment = process.env.NODE_ENV === 'development';
-    if (isDevelopment) {
-      console.error(`[${this.constructor.name}] Error:`, {
-        message: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined,
-        status: errorStatus,
-        timestamp: new Date().toISOString(),
-      });
-    } else {
-      // Production logging - sanitized
-      console.error(`[${this.constructor.name}] Error occurred`, {
-        status: errorStatus,
-        timestamp: new Date().toISOString(),
-      });
-    }
-
-    // Sanitize error message for production
-    if (!isDevelopment && errorStatus === 500) {
-      message = 'Internal Server Error';
-    }
 
     try {
       // Get home path (may be async)
@@ -193,4 +143,101 @@ export abstract class AbstractController<T extends Env>
       });
     }
   }
+
+  /**
+   * Handles errors of JSON endpoints consistently with {@link handleError}.
+   *
+   * The status code and message are determined and logged the same way,
+   * but are returned as `{ "error": message }` instead of an error page.
+   *
+   * @param context - The Hono context object
+   * @param error - The error that occurred
+   * @param status - Optional HTTP status code
+   * @returns HTTP error response with a JSON body
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   // Some operation that might fail
+   * } catch (error) {
+   *   return this.handleJsonError(c, error);
+   * }
+   * ```
+   */
+  handleJsonError(
+    context: Context<T>,
+    error: Error | string,
+    status?: ContentfulStatusCode
+  ): Response {
+    const { status: errorStatus, message } = this.#resolveError(error, status);
+    return context.json({ error: message }, errorStatus);
+  }
+
+  /**
+   * Determines the status code and message of an error and logs it
+   *
+   * @param error - The error that occurred
+   * @param status - Optional HTTP status code
+   * @returns The status code and the message to return
+   * @private
+   */
+  #resolveError(
+    error: Error | string,
+    status?: ContentfulStatusCode
+  ): { status: ContentfulStatusCode; message: string } {
+    // Determine appropriate status code
+    let errorStatus: ContentfulStatusCode = status || 500;
+    let message = 'Internal Server Error';
+
+    if (error instanceof HTTPException) {
+      errorStatus = error.status;
+      message = error.message;
+    } else if (error instanceof Error) {
+      // Map specific error types to appropriate status codes
+      if (
+        error.message.includes('Session expired') ||
+        error.message.includes('Invalid session')
+      ) {
+        errorStatus = 401;
+        message = 'Session expired';
+      } else if (
+        error.message.includes('Invalid') ||
+        error.message.includes('Missing')
+      ) {
+        errorStatus = 400;
+        message = 'Bad Request';
+      } else if (error.message.includes('Not found')) {
+        errorStatus = 404;
+        message = 'Not Found';
+      } else {
+        message = error.message;
+      }
+    } else if (typeof error === 'string') {
+      message = error;
+    }
+
+    // Log error with context
+    const isDevelopment = process.env.NODE_ENV === 'development';
+    if (isDevelopment) {
+      console.error(`[${this.constructor.name}] Error:`, {
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        status: errorStatus,
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      // Production logging - sanitized
+      console.error(`[${this.constructor.name}] Error occurred`, {
+        status: errorStatus,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // Sanitize error message for production
+    if (!isDevelopment && errorStatus === 500) {
+      message = 'Internal Server Error';
+    }
+
+    return { status: errorStatus, message };
+  }
 }
@@ -0,0 +1,225 @@
+import { Context } from 'hono';
+import { FC } from 'hono/jsx';
+import { toDataURL, toString } from 'qrcode';
+import { z } from 'zod';
+import { Env } from '../../../env';
+import { AbstractController } from './AbstractController';
+import { GetDI } from '../../../di';
+import { ErrorPageProps } from '../views';
+import { AGE_VERIFICATION_KEY } from '../../out/prex';
+import { dcqlQuerySchema } from '../../out/dcql';
+
+/**
+ * Key the core InitTransaction service is called with for inline DCQL queries
+ * @private
+ */
+const INLINE_DCQL_KEY = 'dcql';
+
+/**
+ * Schema of the body of `POST /api/transactions`
+ *
+ * Either a registry entry or an inline DCQL query:
+ *
+ * - `key`: Presentation definition registry key
+ * - `claims`: Ids of the selectable claims of the entry to request
+ * - `ageOver`: Age to attest, for the `age` entry
+ * - `dcqlQuery`: DCQL query sent to the backend as is
+ *
+ * @public
+ */
+export const createTransactionRequestSchema = z.union([
+  z
+    .object({
+      key: z.string().min(1),
+      claims: z.array(z.string().min(1)).min(1).optional(),
+      ageOver: z.number().int().min(1).max(99).optional(),
+    })
+    .strict(),
+  z.object({ dcqlQuery: dcqlQuerySchema }).strict(),
+]);
+
+export type CreateTransactionRequest = z.infer<
+  typeof createTransactionRequestSchema
+>;
+
+/**
+ * Body of the response of `POST /api/transactions`
+ *
+ * @public
+ */
+export interface CreateTransactionResponse {
+  /** Id of the transaction (the presentation id of the backend) */
+  transactionId: string;
+  /** Authorization request URI opening the wallet */
+  requestUri: string;
+  /** QR code of the request URI for cross-device flows */
+  qrCode: {
+    /** SVG document */
+    svg: string;
+    /** PNG data URI */
+    png: string;
+  };
+  /**
+   * URL returning the status of the transaction; `?wait=N` holds the request
+   * for up to `N` seconds until the status changes
+   */
+  statusUrl: string;
+  /** URL streaming the status of the transaction as server-sent events */
+  eventsUrl: string;
+  /**
+   * URL returning the verification result once the transaction completed;
+   * JSON when requested with `Accept: application/json`
+   */
+  resultUrl: string;
+}
+
+/**
+ * Controller creating verification transactions for relying parties
+ *
+ * The JSON counterpart of {@link InitTransactionController}: it starts the
+ * transaction with the core InitTransaction service and returns what the
+ * Init page would render, so that kiosks and mobile apps can drive the flow
+ * without scraping HTML.
+ *
+ * The transaction is kept in the session of the request; clients follow it
+ * at `statusUrl` or `eventsUrl` and fetch `resultUrl` once it completed, with
+ * the session cookie they were given. Errors are returned as
+ * `{ "error": message }`.
+ *
+ * @example
+ * ```typescript
+ * const controller = new CreateTransactionController(
+ *   getDI,
+ *   ErrorPage,
+ *   '/api/transactions'
+ * );
+ * app.post('/api/transactions', controller.handler());
+ * ```
+ *
+ * @template T - The environment type extending the base Env interface
+ * @public
+ */
+export class CreateTransactionController<
+  T extends Env
+> extends AbstractController<T> {
+  /**
+   * Creates a new CreateTransactionController instance
+   *
+   * @param getDI - Dependency injection function for accessing services
+   * @param errorView - React functional component for rendering error pages
+   * @param transactionsPath - Path of the transactions API serving the status of the transactions
+   *
+   * @throws {TypeError} When required dependencies are not provided
+   */
+  constructor(
+    private readonly getDI: GetDI<T>,
+    errorView: FC<ErrorPageProps>,
+    private readonly transactionsPath: string
+  ) {
+    super(errorView);
+
+    if (!getDI || typeof getDI !== 'function') {
+      throw new TypeError('getDI must be a function');
+    }
+    if (!transactionsPath || typeof transactionsPath !== 'string') {
+      throw new TypeError('transactionsPath must be a non-empty string');
+    }
+  }
+
+  /**
+   * Returns a Hono handler creating a transaction
+   *
+   * Responds with `201` and a {@link CreateTransactionResponse}; `400` when
+   * the body is malformed and `404` when the registry key is unknown.
+   *
+   * @returns A Hono handler function for processing HTTP requests
+   */
+  handler() {
+    return async (c: Context<T>) => {
+      const { config, portsIn, portsOut } = this.getDI(c);
+
+      try {
+        const request = await this.#parseRequest(c);
+
+        let key: string;
+        if ('dcqlQuery' in request) {
+          key = INLINE_DCQL_KEY;
+          portsOut.requestDcqlQuery(request.dcqlQuery);
+        } else {
+          key = request.key;
+          if (!portsOut.presentationDefinitionRegistry().has(key)) {
+            throw new Error(`Not found: presentation definition "${key}"`);
+          }
+          if (request.claims) {
+            portsOut.selectClaims(request.claims);
+          }
+          if (request.ageOver !== undefined) {
+            if (key !== AGE_VERIFICATION_KEY) {
+              throw new Error(
+                `Invalid transaction request: ageOver is only supported for "${AGE_VERIFICATION_KEY}"`
+              );
+            }
+            portsOut.requestAgeOver(request.ageOver);
+          }
+        }
+
+        // The core service tells same-device from cross-device flows by it
+        if (!c.req.header('User-Agent')) {
+          throw new Error('Missing User-Agent header');
+        }
+
+        // Start the transaction under a new session id
+        await portsOut.sessionRotator().rotate();
+
+        const service = portsIn.initTransaction(key);
+        const { walletRedirectUri } = await service(c.req.raw);
+        await portsOut.startTransaction(
+          'dcqlQuery' in request ? undefined : key
+        );
+
+        const transactionId = await portsOut.transactionId();
+        if (!transactionId) {
+          throw new Error('Presentation ID not found in session');
+        }
+
+        const statusUrl = `${c.env.PUBLIC_URL}${
+          this.transactionsPath
+        }/${encodeURIComponent(transactionId)}`;
+        const body: CreateTransactionResponse = {
+          transactionId,
+          requestUri: walletRedirectUri,
+          qrCode: {
+            svg: await toString(walletRedirectUri, { type: 'svg' }),
+            png: await toDataURL(walletRedirectUri),
+          },
+          statusUrl,
+          eventsUrl: `${statusUrl}/events`,
+          resultUrl: `${c.env.PUBLIC_URL}${config.resultViewPath()}`,
+        };
+        return c.json(body, 201);
+      } catch (error: any) {
+        return this.handleJsonError(c, error);
+      }
+    };
+  }
+
+  /**
+   * Reads the body of the request
+   *
+   * @throws {Error} `Invalid transaction request ...` when it is not a {@link CreateTransactionRequest}
+   * @private
+   */
+  async #parseRequest(c: Context<T>): Promise<CreateTransactionRequest> {
+    let json: unknown;
+    try {
+      json = await c.req.json();
+    } catch {
+      throw new Error('Invalid transaction request: body is not JSON');
+    }
+    const result = createTransactionRequestSchema.safeParse(json);
+    if (!result.success) {
+      throw new Error(`Invalid transaction request: ${result.error.message}`);
+    }
+    return result.data;
+  }
+}
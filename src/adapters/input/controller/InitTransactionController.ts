@@ -4,7 +4,8 @@ import { AbstractController } from './AbstractController';
 import { GetDI } from '../../../di';
 import { InitProps, ErrorPageProps } from '../views';
 import { FC } from 'hono/jsx';
-import { PRESENTATION_DEFINITIONS } from '../../out/prex';
+import { AGE_VERIFICATION_KEY } from '../../out/prex';
+import { parseAgeThreshold } from '../../out/mdoc/AgeOver';
 
 export class InitTransactionController<
   T extends Env
@@ -15,16 +16,18 @@ export class InitTransactionController<
    * @param getDI - Dependency injection function for accessing services
    * @param generatePresentationDefinition - Function to generate presentation definitions
    * @param View - React functional component for rendering the initialization view
+   * @param key - Presentation definition registry key; when omitted the `:key` route parameter is used
    * @param errorView - React functional component for rendering error pages
-   * @param options - Configuration options for controller behavior
+   * @param transactionsPath - Path of the transactions API the Init page follows the transaction at
    *
    * @throws {TypeError} When required dependencies are not provided
    */
   constructor(
     private readonly getDI: GetDI<T>,
     private readonly View: FC<InitProps>,
-    private readonly key: keyof typeof PRESENTATION_DEFINITIONS,
-    errorView: FC<ErrorPageProps>
+    private readonly key: string | undefined,
+    errorView: FC<ErrorPageProps>,
+    private readonly transactionsPath?: string
   ) {
     // Initialize parent AbstractController with error view
     super(errorView);
@@ -40,19 +43,51 @@ export class InitTransactionController<
 
   handler() {
     return async (c: Context<T>) => {
-      const { config, portsIn } = this.getDI(c);
+      const { config, portsIn, portsOut } = this.getDI(c);
 
       try {
+        // Resolve the presentation definition from the registry
+        const key = this.key ?? c.req.param('key');
+        if (!key || !portsOut.presentationDefinitionRegistry().has(key)) {
+          throw new Error(`Not found: presentation definition "${key}"`);
+        }
+
+        // Narrow the request to the claims selected on the Home page
+        const claims = c.req.queries('claims');
+        if (claims) {
+          portsOut.selectClaims(claims.filter(Boolean));
+        }
+
+        // Ask only for the age given with `/init/age?over=NN`
+        const over = c.req.query('over');
+        if (key === AGE_VERIFICATION_KEY && over !== undefined) {
+          portsOut.requestAgeOver(parseAgeThreshold(over));
+        }
+
+        // Start the transaction under a new session id
+        await portsOut.sessionRotator().rotate();
+
         // Get the service instance
-        const service = portsIn.initTransaction(this.key);
+        const service = portsIn.initTransaction(key);
 
         const { walletRedirectUri, isMobile } = await service(c.req.raw);
+        await portsOut.startTransaction(key);
+
+        // The Init page follows the transaction at its status endpoint
+        const transactionId = await portsOut.transactionId();
+        const statusPath =
+          this.transactionsPath && transactionId
+            ? `${c.env.PUBLIC_URL}${this.transactionsPath}/${encodeURIComponent(
+                transactionId
+              )}`
+            : undefined;
 
         // Generate view component
         const ViewComponent = await this.View({
           redirectUrl: walletRedirectUri,
           homePath: `${c.env.PUBLIC_URL}${config.homeViewPath()}`,
           resultPath: `${c.env.PUBLIC_URL}${config.resultViewPath()}`,
+          statusPath,
           isMobile,
         });
 
@@ -1,9 +1,44 @@
 import { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
 import { Env } from '../../../env';
 import { AbstractController } from './AbstractController';
 import { GetDI } from '../../../di';
 import { ResultProps, ErrorPageProps } from '../views';
 import { FC } from 'hono/jsx';
+import {
+  CredentialDocuments,
+  PresentationVerifyResult,
+} from '../../out/verifier';
+import { evaluatePolicy } from '../../out/policy';
+import { acceptsJson, toVerificationResultJson } from '../json';
+
+/**
+ * Why a presentation failed verification
+ *
+ * @private
+ */
+const invalidReason = ({
+  error,
+  issuers,
+  revocations,
+}: PresentationVerifyResult): string => {
+  if (error) {
+    return error;
+  }
+  const untrusted = issuers?.find(({ trusted }) => !trusted);
+  if (untrusted) {
+    return `untrusted issuer ${untrusted.issuingAuthority}${
+      untrusted.reason ? ` (${untrusted.reason})` : ''
+    }`;
+  }
+  const revoked = revocations?.find(({ revoked }) => revoked);
+  if (revoked) {
+    return `revoked ${revoked.docType}${
+      revoked.reason ? ` (${revoked.reason})` : ''
+    }`;
+  }
+  return 'the presentation could not be verified';
+};
 
 /**
  * Controller for handling wallet response processing and result display
@@ -32,29 +67,39 @@ import { FC } from 'hono/jsx';
  * 3. VP tokens are cryptographically verified for authenticity
  * 4. Credential data is extracted and presented to the user
  *
+ * For DCQL transactions the VP token is keyed by credential id; the verified
+ * documents are grouped by those ids so the view can show which credential
+ * query each document answers.
+ *
+ * Each presentation is verified by the verifier of its format: mdocs,
+ * SD-JWT VCs and W3C `jwt_vp_json` presentations. The format is the one the
+ * wallet declared in the presentation submission of its response, which
+ * the output ports keep when the JARM response is verified.
+ *
+ * mdocs must be within the validity period of their MSO and before their
+ * `expiry_date`. A presentation that fails only for that reason is still
+ * rendered, without its documents, so that the result page can flag the
+ * expired or not yet valid documents. Other invalid presentations are
+ * reported as `400 Bad Request` with the reason that invalidated them, e.g.
+ * a VP token not answering the DCQL query, an untrusted issuer or a revoked
+ * credential.
+ *
+ * When the registry entry the transaction was initiated with declares a
+ * verification policy, its rules are evaluated against the verified claims
+ * and reported along with the overall decision.
+ *
+ * Requests accepting `application/json` rather than `text/html` get the
+ * result as JSON (see {@link toVerificationResultJson}) instead of the result
+ * page, and errors as `{ "error": message }` with the same status codes.
+ *
+ * The transaction handle a same-device redirect was served with is spent
+ * once the result has been retrieved and the session rotated, so that it
+ * cannot serve the session of the transaction again. Handles the session
+ * was not found with are left alone.
+ *
  * @example
  * ```typescript
- * // Basic controller setup
- * const controller = new ResultController(
- *   getDI,
- *   ResultView,
- *   mdocVerifier,
- *   errorController
- * );
- *
- * // With custom options
- * const advancedController = new ResultController(
- *   getDI,
- *   ResultView,
- *   mdocVerifier,
- *   errorController,
- *   {
- *     enableLogging: true,
- *     strictSessionValidation: true,
- *     logVPTokenDetails: false,
- *     maxSessionAge: 1800 // 30 minutes
- *   }
- * );
+ * const controller = new ResultController(getDI, ResultView, ErrorPage);
  *
  * // Integration with Hono router
  * app.get('/result', controller.handler());
@@ -69,9 +114,7 @@ export class ResultController<T extends Env> extends AbstractController<T> {
    *
    * @param getDI - Dependency injection function for accessing services
    * @param View - React functional component for rendering the result view
-   * @param verifier - MDOC verifier for VP token validation
    * @param errorView - React functional component for rendering error pages
-   * @param options - Configuration options for controller behavior
    *
    * @throws {TypeError} When required dependencies are not provided
    */
@@ -120,29 +163,80 @@ export class ResultController<T extends Env> extends AbstractController<T> {
    */
   handler() {
     return async (c: Context<T>) => {
-      const { config, portsIn } = this.getDI(c);
+      const { config, portsIn, portsOut } = this.getDI(c);
+      const json = acceptsJson(c.req.header('Accept'));
 
       try {
         const service = portsIn.getWalletResponse();
         const response = await service(c.req.raw);
 
-        if (!response.valid) {
-          throw new Error(`Wallet returned error: ${response}`);
+        // DCQL responses carry the documents per credential id
+        const { credentials, issuers, validities } =
+          response as PresentationVerifyResult;
+        const { valid } = response;
+        await portsOut.saveTransactionState(valid ? 'completed' : 'failed');
+        // The id the result was retrieved with no longer gives access to it
+        await portsOut.sessionRotator().rotate();
+        // Spend the handle the session was found with only once the result
+        // is safe
+        const handle = portsOut.requestTransactionHandle();
+        if (handle) {
+          await portsOut.transactionHandles().resolve(handle);
+        }
+
+        const policy = valid ? await portsOut.verificationPolicy() : undefined;
+        const evaluation =
+          policy &&
+          evaluatePolicy(policy, response.documents, portsOut.clock().now());
+
+        if (json) {
+          return c.json(
+            toVerificationResultJson(response as PresentationVerifyResult, {
+              policy: evaluation,
+              registry: portsOut.namespaceSchemaRegistry(),
+            }),
+          );
+        }
+
+        if (!valid && !validities?.some((validity) => !validity.valid)) {
+          throw new HTTPException(400, {
+            message: `Wallet returned an invalid presentation: ${invalidReason(
+              response as PresentationVerifyResult,
+            )}`,
+          });
         }
 
+        const vpToken: unknown = response.vpToken;
+
         // Generate view component
         const ViewComponent = this.View({
-          data: response.documents,
+          data: valid ? response.documents : undefined,
+          credentials: (valid ? credentials : undefined)?.map(
+            ({ id, documents }: CredentialDocuments) => ({
+              id,
+              data: documents,
+            }),
+          ),
+          issuers,
+          validities,
+          labels: portsOut.namespaceSchemaRegistry().documentLabels(),
+          policy: evaluation,
           homePath: `${c.env.PUBLIC_URL}${config.homeViewPath()}`,
-          vpToken: response.vpToken!,
+          vpToken:
+            typeof vpToken === 'string'
+              ? vpToken
+              : JSON.stringify(vpToken, null, 2),
         });
 
         if (!ViewComponent) {
-          throw new Error(`Wallet returned error: ${response}`);
+          throw new Error('Failed to render the result view');
         }
 
         return c.render(ViewComponent);
       } catch (error: any) {
+        if (json) {
+          return this.handleJsonError(c, error);
+        }
         return this.handleError(c, config, error);
       }
     };
@@ -0,0 +1,254 @@
+import { Context } from 'hono';
+import { FC } from 'hono/jsx';
+import { streamSSE } from 'hono/streaming';
+import { Env } from '../../../env';
+import { AbstractController } from './AbstractController';
+import { GetDI } from '../../../di';
+import { ErrorPageProps } from '../views';
+import {
+  TransactionStatus,
+  WalletResponseProbe,
+  isFinalTransactionState,
+  resolveTransactionStatus,
+} from '../../out/transaction';
+
+/**
+ * Interval at which pending transactions are checked again when none is given
+ *
+ * @public
+ */
+export const DEFAULT_STATUS_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Shortest interval at which the backend is asked whether the wallet of a
+ * transaction responded when none is given
+ *
+ * @public
+ */
+export const DEFAULT_WALLET_RESPONSE_PROBE_INTERVAL_MS = 5000;
+
+/**
+ * Longest time, in seconds, a status request may wait for a change
+ *
+ * @public
+ */
+export const MAX_STATUS_WAIT_SECONDS = 30;
+
+/**
+ * Controller reporting the status of the transaction of the session
+ *
+ * Replaces polling the result page: the status is read from the session,
+ * where the result page records the outcome. The wallet of a same-device
+ * transaction answers with a redirect to the result page, so the backend is
+ * only asked whether the wallet of a cross-device transaction responded, at
+ * most once per probe interval however many clients follow the transaction.
+ * The response itself is only retrieved and verified by the result page.
+ *
+ * - {@link handler}: the status as JSON; with `?wait=N` the request is held
+ *   for up to `N` seconds until the transaction is no longer pending
+ * - {@link eventsHandler}: server-sent `status` events, one per change,
+ *   until the transaction is no longer pending or for up to
+ *   {@link MAX_STATUS_WAIT_SECONDS}
+ *
+ * The transaction must be the one of the session of the request; any other
+ * id is reported as not found.
+ *
+ * @example
+ * ```typescript
+ * const controller = new TransactionStatusController(getDI, ErrorPage);
+ * app.get('/api/transactions/:id', controller.handler());
+ * app.get('/api/transactions/:id/events', controller.eventsHandler());
+ * ```
+ *
+ * @template T - The environment type extending the base Env interface
+ * @public
+ */
+export class TransactionStatusController<
+  T extends Env
+> extends AbstractController<T> {
+  /**
+   * Creates a new TransactionStatusController instance
+   *
+   * @param getDI - Dependency injection function for accessing services
+   * @param errorView - React functional component for rendering error pages
+   * @param pollInterval - Interval in milliseconds at which pending transactions are checked again
+   * @param probeInterval - Shortest interval in milliseconds at which the backend is asked whether the wallet of a transaction responded
+   *
+   * @throws {TypeError} When required dependencies are not provided
+   */
+  constructor(
+    private readonly getDI: GetDI<T>,
+    errorView: FC<ErrorPageProps>,
+    private readonly pollInterval: number = DEFAULT_STATUS_POLL_INTERVAL_MS,
+    private readonly probeInterval: number = DEFAULT_WALLET_RESPONSE_PROBE_INTERVAL_MS
+  ) {
+    super(errorView);
+
+    if (!getDI || typeof getDI !== 'function') {
+      throw new TypeError('getDI must be a function');
+    }
+    if (!Number.isFinite(pollInterval) || pollInterval <= 0) {
+      throw new TypeError('pollInterval must be a positive number');
+    }
+    if (!Number.isFinite(probeInterval) || probeInterval <= 0) {
+      throw new TypeError('probeInterval must be a positive number');
+    }
+  }
+
+  /**
+   * Returns a Hono handler responding with the {@link TransactionStatus}
+   *
+   * Responds with `400` when `wait` is not a number of seconds and `404`
+   * when the transaction is not the one of the session.
+   *
+   * @returns A Hono handler function for processing HTTP requests
+   */
+  handler() {
+    return async (c: Context<T>) => {
+      try {
+        const wait = this.#parseWait(c.req.query('wait'));
+        const deadline = Date.now() + wait * 1000;
+
+        let status = await this.#status(c);
+        while (
+          !isFinalTransactionState(status.status) &&
+          Date.now() + this.pollInterval <= deadline
+        ) {
+          await sleep(this.pollInterval);
+          status = await this.#status(c);
+        }
+
+        c.header('Cache-Control', 'no-store');
+        return c.json(status);
+      } catch (error: any) {
+        return this.handleJsonError(c, error);
+      }
+    };
+  }
+
+  /**
+   * Returns a Hono handler streaming the status as server-sent events
+   *
+   * Each change is sent as a `status` event carrying the
+   * {@link TransactionStatus}; the stream ends once the transaction is no
+   * longer pending, or after {@link MAX_STATUS_WAIT_SECONDS} so that no
+   * request is held longer than a long poll, e.g. by a runtime buffering the
+   * response; clients reconnect to follow on. Errors raised before the stream
+   * starts are returned as JSON like {@link handler}; later ones end the
+   * stream with an `error` event.
+   *
+   * @returns A Hono handler function for processing HTTP requests
+   */
+  eventsHandler() {
+    return async (c: Context<T>) => {
+      let status: TransactionStatus;
+      try {
+        status = await this.#status(c);
+      } catch (error: any) {
+        return this.handleJsonError(c, error);
+      }
+
+      const deadline = Date.now() + MAX_STATUS_WAIT_SECONDS * 1000;
+      return streamSSE(c, async (stream) => {
+        try {
+          await stream.writeSSE({
+            event: 'status',
+            data: JSON.stringify(status),
+          });
+          while (
+            !isFinalTransactionState(status.status) &&
+            !stream.aborted &&
+            Date.now() + this.pollInterval <= deadline
+          ) {
+            await stream.sleep(this.pollInterval);
+            const next = await this.#status(c);
+            if (next.status !== status.status) {
+              await stream.writeSSE({
+                event: 'status',
+                data: JSON.stringify(next),
+              });
+            }
+            status = next;
+          }
+        } catch (error) {
+          console.error('Failed to stream transaction status:', {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          });
+          await stream.writeSSE({
+            event: 'error',
+            data: JSON.stringify({ error: 'Internal Server Error' }),
+          });
+        }
+      });
+    };
+  }
+
+  /**
+   * Determines the status of the transaction of the route
+   *
+   * @throws {Error} `Not found: transaction ...` when it is not the transaction of the session
+   * @private
+   */
+  async #status(c: Context<T>): Promise<TransactionStatus> {
+    const { config, portsOut } = this.getDI(c);
+    const transactionId = c.req.param('id');
+
+    const record = await portsOut.transactionRecord();
+    if (!record || record.transactionId !== transactionId) {
+      throw new Error(`Not found: transaction "${transactionId}"`);
+    }
+
+    const now = portsOut.clock().now();
+    const status = resolveTransactionStatus(
+      record,
+      now,
+      portsOut.transactionTimeout()
+    );
+    if (
+      status.status !== 'pending' ||
+      record.sameDevice ||
+      (record.probedAt !== undefined &&
+        now.getTime() - record.probedAt < this.probeInterval)
+    ) {
+      return status;
+    }
+
+    await portsOut.saveTransactionProbe(now.getTime());
+
+    const probe = new WalletResponseProbe(
+      portsOut.fetcher(),
+      config.apiBaseUrl(),
+      config.getWalletResponseApiPath()
+    );
+    if (!(await probe.responded(record.transactionId))) {
+      return status;
+    }
+    await portsOut.saveTransactionState('completed');
+    return { ...status, status: 'completed' };
+  }
+
+  /**
+   * Reads the `wait` query parameter
+   *
+   * @throws {Error} `Invalid wait ...` when it is not a number of seconds up to {@link MAX_STATUS_WAIT_SECONDS}
+   * @private
+   */
+  #parseWait(value: string | undefined): number {
+    if (value === undefined || value === '') {
+      return 0;
+    }
+    const wait = Number(value);
+    if (!Number.isInteger(wait) || wait < 0 || wait > MAX_STATUS_WAIT_SECONDS) {
+      throw new Error(`Invalid wait: ${value}`);
+    }
+    return wait;
+  }
+}
+
+/**
+ * Resolves after the given time
+ * @private
+ */
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
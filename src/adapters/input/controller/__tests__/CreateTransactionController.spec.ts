@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { FC } from 'hono/jsx';
+import { CreateTransactionController } from '../CreateTransactionController';
+import { ErrorPageProps } from '../../views';
+import { Env } from '../../../../env';
+import { GetDI } from '../../../../di';
+import {
+  DEFAULT_PRESENTATION_DEFINITION_ENTRIES,
+  PresentationDefinitionRegistry,
+} from '../../../out/prex';
+
+const mockErrorView: FC<ErrorPageProps> = ({ error }) =>
+  ({ type: 'div', props: { children: error } } as any);
+
+const walletRedirectUri =
+  'eudi-openid4vp://?client_id=verifier&request_uri=https%3A%2F%2Fverifier%2Frequest';
+
+const dcqlQuery = {
+  credentials: [
+    {
+      id: 'mdl',
+      format: 'mso_mdoc',
+      meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+      claims: [{ path: ['org.iso.18013.5.1', 'age_over_18'] }],
+    },
+  ],
+};
+
+describe('CreateTransactionController', () => {
+  let service: ReturnType<typeof vi.fn>;
+  let portsIn: { initTransaction: ReturnType<typeof vi.fn> };
+  let portsOut: Record<string, ReturnType<typeof vi.fn>>;
+  let rotate: ReturnType<typeof vi.fn>;
+  let app: Hono<Env>;
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    app.request(
+      '/api/transactions',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Kiosk/1.0',
+          ...headers,
+        },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+      },
+      { PUBLIC_URL: 'https://verifier.example.com' }
+    );
+
+  beforeEach(() => {
+    service = vi.fn().mockResolvedValue({ walletRedirectUri, isMobile: false });
+    portsIn = { initTransaction: vi.fn().mockReturnValue(service) };
+    rotate = vi.fn();
+    portsOut = {
+      presentationDefinitionRegistry: vi
+        .fn()
+        .mockReturnValue(
+          new PresentationDefinitionRegistry(
+            DEFAULT_PRESENTATION_DEFINITION_ENTRIES
+          )
+        ),
+      selectClaims: vi.fn(),
+      requestAgeOver: vi.fn(),
+      requestDcqlQuery: vi.fn(),
+      startTransaction: vi.fn(),
+      sessionRotator: vi.fn().mockReturnValue({ rotate }),
+      transactionId: vi.fn().mockResolvedValue('presentation-id'),
+    };
+    const getDI = vi.fn().mockReturnValue({
+      config: { resultViewPath: () => '/result' },
+      portsIn,
+      portsOut,
+    }) as unknown as GetDI<Env>;
+    app = new Hono<Env>().post(
+      '/api/transactions',
+      new CreateTransactionController(
+        getDI,
+        mockErrorView,
+        '/api/transactions'
+      ).handler()
+    );
+  });
+
+  it('should throw TypeError when getDI is not a function', () => {
+    expect(
+      () =>
+        new CreateTransactionController(
+          null as any,
+          mockErrorView,
+          '/api/transactions'
+        )
+    ).toThrow(TypeError);
+    expect(
+      () => new CreateTransactionController(vi.fn(), mockErrorView, '')
+    ).toThrow(TypeError);
+  });
+
+  it('should create a transaction for a registry key', async () => {
+    const response = await post({ key: 'mDL' });
+
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body).toEqual({
+      transactionId: 'presentation-id',
+      requestUri: walletRedirectUri,
+      qrCode: {
+        svg: expect.stringContaining('<svg'),
+        png: expect.stringMatching(/^data:image\/png;base64,/),
+      },
+      statusUrl:
+        'https://verifier.example.com/api/transactions/presentation-id',
+      eventsUrl:
+        'https://verifier.example.com/api/transactions/presentation-id/events',
+      resultUrl: 'https://verifier.example.com/result',
+    });
+    expect(portsIn.initTransaction).toHaveBeenCalledWith('mDL');
+    expect(portsOut.startTransaction).toHaveBeenCalledWith('mDL');
+  });
+
+  it('should start the transaction under a new session id', async () => {
+    await post({ key: 'mDL' });
+
+    expect(rotate).toHaveBeenCalledOnce();
+    expect(rotate.mock.invocationCallOrder[0]).toBeLessThan(
+      portsIn.initTransaction.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should narrow the request to the selected claims and age', async () => {
+    await post({ key: 'age', ageOver: 20 });
+    await post({ key: 'mDL', claims: ['family_name'] });
+
+    expect(portsOut.requestAgeOver).toHaveBeenCalledWith(20);
+    expect(portsOut.selectClaims).toHaveBeenCalledWith(['family_name']);
+  });
+
+  it('should create a transaction for an inline DCQL query', async () => {
+    const response = await post({ dcqlQuery });
+
+    expect(response.status).toBe(201);
+    expect(portsOut.requestDcqlQuery).toHaveBeenCalledWith(dcqlQuery);
+    expect(portsOut.startTransaction).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should return 404 for an unknown key', async () => {
+    const response = await post({ key: 'unknown' });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Not Found' });
+    expect(service).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a body that is not JSON', 'key=mDL'],
+    ['neither key nor query', {}],
+    ['both key and query', { key: 'mDL', dcqlQuery }],
+    ['an age for another key', { key: 'mDL', ageOver: 20 }],
+  ])('should return 400 for %s', async (_, body) => {
+    const response = await post(body);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Bad Request' });
+    expect(service).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 without a User-Agent header', async () => {
+    const response = await post({ key: 'mDL' }, { 'User-Agent': '' });
+
+    expect(response.status).toBe(400);
+  });
+});
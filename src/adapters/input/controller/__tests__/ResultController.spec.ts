@@ -9,6 +9,8 @@ import {
 import { ResultProps, ErrorPageProps } from '../../views';
 import { Env } from '../../../../env';
 import { GetDI } from '../../../../di';
+import { NamespaceSchemaRegistry } from '../../../out/mdoc/namespaces';
+import { generateTransactionHandle } from '../../../out/transaction';
 
 /**
  * Mock Configuration implementation for testing
@@ -151,12 +153,25 @@ const mockErrorView: FC<ErrorPageProps> = ({ error, homePath }) => {
  */
 const createMockGetDI = (
   config: MockConfiguration,
-  portsIn: MockPortsInput
+  portsIn: MockPortsInput,
+  portsOut: Record<string, unknown> = {}
 ): GetDI<Env> => {
   return vi.fn().mockReturnValue({
     config,
     portsIn,
-    portsOut: {}, // Not used in ResultController tests
+    portsOut: {
+      namespaceSchemaRegistry: () => new NamespaceSchemaRegistry([]),
+      verificationPolicy: async () => undefined,
+      saveTransactionState: async () => undefined,
+      sessionRotator: () => ({ rotate: async () => undefined }),
+      transactionHandles: () => ({
+        bind: async () => undefined,
+        find: async () => undefined,
+        resolve: async () => undefined,
+      }),
+      requestTransactionHandle: () => undefined,
+      ...portsOut,
+    },
   });
 };
 
@@ -164,7 +179,8 @@ const createMockGetDI = (
  * Mock Context for testing
  */
 const createMockContext = (
-  queryParams: Record<string, string> = {}
+  queryParams: Record<string, string> = {},
+  headers: Record<string, string> = {}
 ): Context<Env> => {
   const mockResponse = new Response('test');
   return {
@@ -172,10 +188,17 @@ const createMockContext = (
       query: vi
         .fn()
         .mockImplementation((key: string) => queryParams[key] ?? null),
+      header: vi.fn().mockImplementation((name: string) => headers[name]),
       path: '/test-path',
     },
     status: vi.fn(),
     render: vi.fn().mockReturnValue(mockResponse),
+    json: vi
+      .fn()
+      .mockImplementation(
+        (body: unknown, status = 200) =>
+          new Response(JSON.stringify(body), { status })
+      ),
   } as any;
 };
 
@@ -470,7 +493,8 @@ describe('ResultController', () => {
           mockContext,
           mockConfig,
           expect.objectContaining({
-            message: expect.stringContaining('Wallet returned error'),
+            message:
+              'Wallet returned an invalid presentation: the presentation could not be verified',
           })
         );
         expect(result).toBeInstanceOf(Response);
@@ -499,13 +523,222 @@ describe('ResultController', () => {
         expect(handleErrorSpy).toHaveBeenCalledWith(
           mockContext,
           mockConfig,
-          expect.any(Error)
+          expect.objectContaining({
+            status: 400,
+            message: 'Wallet returned an invalid presentation: invalid_request',
+          })
+        );
+
+        handleErrorSpy.mockRestore();
+      });
+
+      it('should report the issuer that is not trusted', async () => {
+        mockPortsIn.setGetWalletResponseMock(async () => ({
+          valid: false,
+          documents: [],
+          issuers: [
+            {
+              docType: 'org.iso.18013.5.1.mDL',
+              issuingAuthority: 'Example Issuer',
+              trusted: false,
+              reason: 'No trusted root',
+            },
+          ],
+          vpToken: 'token',
+        }));
+
+        const handleErrorSpy = vi
+          .spyOn(controller, 'handleError')
+          .mockResolvedValue(new Response('error'));
+
+        await controller.handler()(mockContext);
+
+        expect(handleErrorSpy).toHaveBeenCalledWith(
+          mockContext,
+          mockConfig,
+          expect.objectContaining({
+            message:
+              'Wallet returned an invalid presentation: untrusted issuer Example Issuer (No trusted root)',
+          })
         );
 
         handleErrorSpy.mockRestore();
       });
     });
 
+    describe('JSON result', () => {
+      const jsonHeaders = { Accept: 'application/json' };
+
+      it('should return the verified documents as JSON', async () => {
+        mockPortsIn.setGetWalletResponseMock(async () => ({
+          valid: true,
+          documents: [
+            {
+              'org.iso.18013.5.1.mDL': {
+                family_name: 'Doe',
+                birth_date: new Date('1990-01-01T00:00:00Z'),
+              },
+            },
+          ],
+          vpToken: 'json_token',
+        }));
+        mockContext = createMockContext({}, jsonHeaders);
+
+        const handler = controller.handler();
+        const result = await handler(mockContext);
+
+        expect(mockContext.render).not.toHaveBeenCalled();
+        expect(result.status).toBe(200);
+        expect(await result.json()).toEqual({
+          valid: true,
+          status: 'verified',
+          documents: [
+            {
+              docType: 'org.iso.18013.5.1.mDL',
+              namespaces: {
+                'org.iso.18013.5.1': {
+                  family_name: 'Doe',
+                  birth_date: {
+                    $type: 'tdate',
+                    value: '1990-01-01T00:00:00.000Z',
+                  },
+                },
+              },
+            },
+          ],
+        });
+      });
+
+      it('should return an invalid presentation without documents', async () => {
+        mockPortsIn.setGetWalletResponseMock(async () => ({
+          valid: false,
+          documents: [],
+          vpToken: undefined,
+        }));
+        mockContext = createMockContext({}, jsonHeaders);
+
+        const handler = controller.handler();
+        const result = await handler(mockContext);
+
+        expect(await result.json()).toEqual({
+          valid: false,
+          status: 'invalid',
+          documents: [],
+        });
+      });
+
+      it('should return errors as JSON', async () => {
+        mockPortsIn.setGetWalletResponseMock(async () => {
+          throw new Error('Invalid session');
+        });
+        mockContext = createMockContext({}, jsonHeaders);
+
+        const handler = controller.handler();
+        const result = await handler(mockContext);
+
+        expect(result.status).toBe(401);
+        expect(await result.json()).toEqual({ error: 'Session expired' });
+      });
+
+      it('should render the result page for browsers', async () => {
+        mockPortsIn.setGetWalletResponseMock(async () => ({
+          valid: true,
+          documents: [],
+          vpToken: 'html_token',
+        }));
+        mockContext = {
+          ...createMockContext(
+            {},
+            { Accept: 'text/html,application/json;q=0.9' }
+          ),
+          env: { PUBLIC_URL: 'http://test-public.com' },
+        } as any;
+
+        const handler = controller.handler();
+        await handler(mockContext);
+
+        expect(mockContext.render).toHaveBeenCalled();
+      });
+    });
+
+    describe('transaction handle', () => {
+      const handle = generateTransactionHandle();
+      const jsonHeaders = { Accept: 'application/json' };
+      let calls: string[];
+      let resolve: ReturnType<typeof vi.fn>;
+      let requestHandle: string | undefined;
+
+      beforeEach(() => {
+        calls = [];
+        requestHandle = handle;
+        resolve = vi.fn(async () => {
+          calls.push('resolve');
+          return 'session-id';
+        });
+        controller = new ResultController(
+          createMockGetDI(mockConfig, mockPortsIn, {
+            sessionRotator: () => ({
+              rotate: async () => {
+                calls.push('rotate');
+              },
+            }),
+            transactionHandles: () => ({ resolve }),
+            requestTransactionHandle: () => requestHandle,
+          }),
+          mockResultView,
+          mockErrorView
+        );
+      });
+
+      it('should spend the handle after rotating the session', async () => {
+        mockPortsIn.setGetWalletResponseMock(async () => ({
+          valid: true,
+          documents: [],
+          vpToken: 'token',
+        }));
+        mockContext = createMockContext(
+          { transaction: handle, response_code: 'code' },
+          jsonHeaders
+        );
+
+        await controller.handler()(mockContext);
+
+        expect(resolve).toHaveBeenCalledWith(handle);
+        expect(calls).toEqual(['rotate', 'resolve']);
+      });
+
+      it('should keep the handle when the result cannot be retrieved', async () => {
+        mockPortsIn.setGetWalletResponseMock(async () => {
+          throw new Error('Network error');
+        });
+        mockContext = createMockContext(
+          { transaction: handle, response_code: 'code' },
+          jsonHeaders
+        );
+
+        await controller.handler()(mockContext);
+
+        expect(resolve).not.toHaveBeenCalled();
+      });
+
+      it('should not spend a handle the session was not found with', async () => {
+        requestHandle = undefined;
+        mockPortsIn.setGetWalletResponseMock(async () => ({
+          valid: true,
+          documents: [],
+          vpToken: 'token',
+        }));
+        mockContext = createMockContext(
+          { transaction: handle, response_code: 'code' },
+          jsonHeaders
+        );
+
+        await controller.handler()(mockContext);
+
+        expect(resolve).not.toHaveBeenCalled();
+      });
+    });
+
     describe('view component errors', () => {
       it('should handle error when View component returns null', async () => {
         const nullView: FC<ResultProps> = () => null as any;
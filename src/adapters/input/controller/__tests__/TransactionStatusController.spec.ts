@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { FC } from 'hono/jsx';
+import { TransactionStatusController } from '../TransactionStatusController';
+import { TransactionStatus } from '../../../out/transaction';
+import { ErrorPageProps } from '../../views';
+import { Env } from '../../../../env';
+import { GetDI } from '../../../../di';
+
+const mockErrorView: FC<ErrorPageProps> = ({ error }) =>
+  ({ type: 'div', props: { children: error } } as any);
+
+const startedAt = Date.parse('2024-01-01T00:00:00Z');
+
+const fetcherError = (status: number) =>
+  Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('TransactionStatusController', () => {
+  let now: Date;
+  let fetcher: { get: ReturnType<typeof vi.fn> };
+  let portsOut: Record<string, ReturnType<typeof vi.fn>>;
+  let app: Hono<Env>;
+
+  const get = (path: string) =>
+    app.request(path, {}, { PUBLIC_URL: 'https://verifier.example.com' });
+
+  beforeEach(() => {
+    now = new Date(startedAt + 1000);
+    fetcher = { get: vi.fn().mockRejectedValue(fetcherError(400)) };
+    portsOut = {
+      transactionRecord: vi
+        .fn()
+        .mockResolvedValue({ transactionId: 'tx', startedAt }),
+      saveTransactionState: vi.fn(),
+      saveTransactionProbe: vi.fn(),
+      transactionTimeout: vi.fn().mockReturnValue(300_000),
+      clock: vi.fn().mockReturnValue({ now: () => now }),
+      fetcher: vi.fn().mockReturnValue(fetcher),
+    };
+    const getDI = vi.fn().mockReturnValue({
+      config: {
+        apiBaseUrl: () => 'https://backend.example.com',
+        getWalletResponseApiPath: () => '/ui/presentations',
+      },
+      portsOut,
+    }) as unknown as GetDI<Env>;
+    const controller = new TransactionStatusController(
+      getDI,
+      mockErrorView,
+      10
+    );
+    app = new Hono<Env>()
+      .get('/api/transactions/:id', controller.handler())
+      .get('/api/transactions/:id/events', controller.eventsHandler());
+  });
+
+  it('should throw TypeError for invalid parameters', () => {
+    expect(
+      () => new TransactionStatusController(null as any, mockErrorView)
+    ).toThrow(TypeError);
+    expect(
+      () => new TransactionStatusController(vi.fn(), mockErrorView, 0)
+    ).toThrow(TypeError);
+    expect(
+      () => new TransactionStatusController(vi.fn(), mockErrorView, 10, 0)
+    ).toThrow(TypeError);
+  });
+
+  it('should report a pending transaction', async () => {
+    const response = await get('/api/transactions/tx');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    expect(await response.json()).toEqual({
+      transactionId: 'tx',
+      status: 'pending',
+      startedAt: '2024-01-01T00:00:00.000Z',
+      expiresAt: '2024-01-01T00:05:00.000Z',
+    });
+    expect(fetcher.get).toHaveBeenCalledWith(
+      'https://backend.example.com',
+      '/ui/presentations/tx',
+      {},
+      expect.anything()
+    );
+    expect(portsOut.saveTransactionProbe).toHaveBeenCalledWith(now.getTime());
+  });
+
+  it('should record the response of the wallet', async () => {
+    fetcher.get.mockResolvedValue({});
+
+    const response = await get('/api/transactions/tx');
+
+    expect(((await response.json()) as TransactionStatus).status).toBe(
+      'completed'
+    );
+    expect(portsOut.saveTransactionState).toHaveBeenCalledWith('completed');
+  });
+
+  it('should not ask the backend about a final transaction', async () => {
+    now = new Date(startedAt + 300_001);
+
+    const response = await get('/api/transactions/tx');
+
+    expect(((await response.json()) as TransactionStatus).status).toBe(
+      'expired'
+    );
+    expect(fetcher.get).not.toHaveBeenCalled();
+  });
+
+  it('should not ask the backend about a same-device transaction', async () => {
+    portsOut.transactionRecord.mockResolvedValue({
+      transactionId: 'tx',
+      startedAt,
+      sameDevice: true,
+    });
+
+    const response = await get('/api/transactions/tx');
+
+    expect(((await response.json()) as TransactionStatus).status).toBe(
+      'pending'
+    );
+    expect(fetcher.get).not.toHaveBeenCalled();
+  });
+
+  it('should ask the backend at most once per probe interval', async () => {
+    const record = { transactionId: 'tx', startedAt, probedAt: now.getTime() };
+    portsOut.transactionRecord.mockResolvedValue(record);
+
+    await get('/api/transactions/tx');
+    now = new Date(record.probedAt + 5000);
+    await get('/api/transactions/tx');
+
+    expect(fetcher.get).toHaveBeenCalledTimes(1);
+    expect(portsOut.saveTransactionProbe).toHaveBeenCalledTimes(1);
+    expect(portsOut.saveTransactionProbe).toHaveBeenCalledWith(
+      record.probedAt + 5000
+    );
+  });
+
+  it('should wait for a change with wait', async () => {
+    fetcher.get
+      .mockRejectedValueOnce(fetcherError(400))
+      .mockRejectedValueOnce(fetcherError(400))
+      .mockResolvedValue({});
+
+    const response = await get('/api/transactions/tx?wait=1');
+
+    expect(((await response.json()) as TransactionStatus).status).toBe(
+      'completed'
+    );
+    expect(fetcher.get).toHaveBeenCalledTimes(3);
+  });
+
+  it.each(['31', '-1', 'soon'])(
+    'should return 400 for wait=%s',
+    async (wait) => {
+      const response = await get(`/api/transactions/tx?wait=${wait}`);
+
+      expect(response.status).toBe(400);
+    }
+  );
+
+  it('should return 404 for another transaction', async () => {
+    const response = await get('/api/transactions/other');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Not Found' });
+  });
+
+  it('should return 404 without a transaction', async () => {
+    portsOut.transactionRecord.mockResolvedValue(undefined);
+
+    const response = await get('/api/transactions/tx/events');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should stream status events until the transaction is final', async () => {
+    fetcher.get.mockRejectedValueOnce(fetcherError(400)).mockResolvedValue({});
+
+    const response = await get('/api/transactions/tx/events');
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const events = (await response.text())
+      .split('\n\n')
+      .filter(Boolean)
+      .map((event) => event.split('\n'));
+    expect(events.map(([name]) => name)).toEqual([
+      'event: status',
+      'event: status',
+    ]);
+    expect(events.map(([, data]) => JSON.parse(data.slice(6)).status)).toEqual([
+      'pending',
+      'completed',
+    ]);
+  });
+
+  it('should end the stream after the longest wait', async () => {
+    let time = Date.now();
+    const clock = vi
+      .spyOn(Date, 'now')
+      .mockImplementation(() => (time += 10_000));
+
+    const response = await get('/api/transactions/tx/events');
+    const text = await response.text();
+    clock.mockRestore();
+
+    expect(text.match(/event: status/g)).toHaveLength(1);
+    expect(fetcher.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should end the stream with an error event', async () => {
+    fetcher.get
+      .mockRejectedValueOnce(fetcherError(400))
+      .mockRejectedValue(fetcherError(502));
+
+    const response = await get('/api/transactions/tx/events');
+
+    expect(await response.text()).toContain(
+      'event: error\ndata: {"error":"Internal Server Error"}'
+    );
+  });
+});
@@ -9,6 +9,8 @@
  * @public
  */
 export * from './InitTransactionController';
+export * from './CreateTransactionController';
+export * from './TransactionStatusController';
 export * from './ResultController';
 export * from './Controller';
 export * from './AbstractController';
@@ -0,0 +1,72 @@
+import { DcqlQuery } from '../../out/dcql';
+import { DigitalCredentialsRequestState } from './DigitalCredentialsRequestState';
+
+/**
+ * Request returned to the browser for `navigator.credentials.get`
+ *
+ * @public
+ */
+export interface DigitalCredentialsRequest {
+  /** Digital Credentials API protocol identifier */
+  protocol: string;
+  /** Protocol specific request data */
+  request: Record<string, unknown>;
+}
+
+/**
+ * Request created by a protocol handler
+ *
+ * @public
+ */
+export interface DigitalCredentialsProtocolRequest {
+  /** Request returned to the browser */
+  request: DigitalCredentialsRequest;
+  /** Protocol state kept in `DigitalCredentialsSession` until the response arrives */
+  session: Record<string, unknown>;
+}
+
+/**
+ * Protocol handler of the Digital Credentials API flow
+ *
+ * A handler creates the request for a DCQL query and turns the credential
+ * response back into a VP token accepted by `PresentationVerifier`: either a
+ * DCQL VP token (JSON) or a single base64url DeviceResponse.
+ *
+ * @public
+ */
+export interface DigitalCredentialsProtocol {
+  /** Name selecting the handler with `?protocol=<name>` */
+  readonly name: string;
+
+  /** Label shown on the Digital Credentials page */
+  readonly label: string;
+
+  /** Protocol identifiers the browser may report for the response */
+  readonly protocols: readonly string[];
+
+  /**
+   * Creates the request for a DCQL query
+   *
+   * @param query - DCQL query selected for the request
+   * @param nonce - Nonce the presentations must be bound to
+   */
+  createRequest(
+    query: DcqlQuery,
+    nonce: string
+  ): Promise<DigitalCredentialsProtocolRequest>;
+
+  /**
+   * Decrypts and checks a credential response
+   *
+   * @param data - `data` member of the credential returned by the browser
+   * @param session - Request state saved with the request, including the protocol state
+   * @param query - DCQL query of the request
+   * @returns VP token to verify
+   * @throws {Error} With an `Invalid`/`Missing` message when the response is rejected
+   */
+  readResponse(
+    data: Record<string, unknown>,
+    session: DigitalCredentialsRequestState,
+    query: DcqlQuery
+  ): Promise<string>;
+}
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+
+/**
+ * How long a Digital Credentials request accepts a response (5 minutes)
+ *
+ * @public
+ */
+export const DC_REQUEST_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Error thrown when a response arrives for a request that was already answered
+ *
+ * @public
+ */
+export class ReplayedResponseError extends Error {
+  constructor() {
+    super('Replayed response: the request was already answered');
+    this.name = 'ReplayedResponseError';
+  }
+}
+
+/**
+ * Schema of the request state saved in `DigitalCredentialsSession`
+ *
+ * Protocol specific members (ephemeral keys, EncryptionInfo...) are kept as is.
+ *
+ * @public
+ */
+export const digitalCredentialsRequestStateSchema = z
+  .object({
+    /** Name of the protocol handler that created the request */
+    protocol: z.string().min(1),
+    /** Name of the DCQL query of the request */
+    queryName: z.string().min(1),
+    /** Nonce the presentations must be bound to */
+    nonce: z.string().min(1),
+    /** `state` sent with the request, when the protocol uses one */
+    state: z.string().min(1).optional(),
+    /** Creation time of the request (milliseconds since epoch) */
+    createdAt: z.number().int().nonnegative(),
+  })
+  .passthrough();
+
+/**
+ * Request state saved in `DigitalCredentialsSession`
+ *
+ * @public
+ */
+export type DigitalCredentialsRequestState = z.infer<
+  typeof digitalCredentialsRequestStateSchema
+>;
+
+/**
+ * Parses the request state read from `DigitalCredentialsSession`
+ *
+ * @param data - Stored session value
+ * @param now - Current time (milliseconds since epoch)
+ * @param maxAge - How long the request accepts a response (milliseconds)
+ * @returns Request state
+ * @throws {ReplayedResponseError} When the session holds a verified result
+ * @throws {Error} `Invalid session` when the value is not a pending request,
+ *   `Expired request` when the request is too old
+ *
+ * @public
+ */
+export const parseDigitalCredentialsRequestState = (
+  data: string,
+  now: number = Date.now(),
+  maxAge: number = DC_REQUEST_MAX_AGE_MS
+): DigitalCredentialsRequestState => {
+  let value: unknown;
+  try {
+    value = JSON.parse(data);
+  } catch {
+    throw new Error('Invalid session: not JSON');
+  }
+
+  const result = digitalCredentialsRequestStateSchema.safeParse(value);
+  if (!result.success) {
+    if (value && typeof value === 'object' && 'completedAt' in value) {
+      throw new ReplayedResponseError();
+    }
+    throw new Error('Invalid session: no pending request');
+  }
+  if (now - result.data.createdAt > maxAge) {
+    throw new Error('Expired request');
+  }
+  return result.data;
+};
@@ -0,0 +1,114 @@
+import { DcqlQuery, matchDcqlResponse } from '../../out/dcql';
+import { generateHpkeKeyPair } from '../../out/hpke';
+import {
+  ISO_MDOC_PROTOCOL,
+  createDcapiSessionTranscript,
+  createIsoMdocRequest,
+  deviceResponseDocTypes,
+  openIsoMdocResponse,
+} from '../../out/mdoc/IsoMdocDcApi';
+import { verifyDeviceAuthentication } from '../../out/mdoc/DeviceAuthentication';
+import {
+  DigitalCredentialsProtocol,
+  DigitalCredentialsProtocolRequest,
+} from './DigitalCredentialsProtocol';
+import { DigitalCredentialsRequestState } from './DigitalCredentialsRequestState';
+
+/**
+ * ISO/IEC 18013-7 Annex C (`org-iso-mdoc`) over the Digital Credentials API
+ *
+ * - The `mso_mdoc` credentials of the DCQL query are sent as a CBOR DeviceRequest,
+ *   with the nonce of the request in the EncryptionInfo
+ * - The response is HPKE encrypted to a key kept in the session, with the
+ *   `dcapi` SessionTranscript (EncryptionInfo and origin) as info
+ * - Every document must be device signed over the same SessionTranscript
+ * - The returned document types must satisfy the credential ids and
+ *   `credential_sets` of the query
+ *
+ * @public
+ */
+export class IsoMdocProtocol implements DigitalCredentialsProtocol {
+  readonly name = ISO_MDOC_PROTOCOL;
+
+  readonly label = 'ISO/IEC 18013-7 Annex C (org-iso-mdoc)';
+
+  readonly protocols = [ISO_MDOC_PROTOCOL];
+
+  readonly #origin: string;
+
+  /**
+   * @param origin - Origin of the page calling the Digital Credentials API
+   * @throws {TypeError} When the origin is missing
+   */
+  constructor(origin: string) {
+    if (!origin || typeof origin !== 'string') {
+      throw new TypeError('origin must be a non-empty string');
+    }
+    this.#origin = origin;
+  }
+
+  async createRequest(
+    query: DcqlQuery,
+    nonce: string
+  ): Promise<DigitalCredentialsProtocolRequest> {
+    const { privateJwk, publicJwk } = await generateHpkeKeyPair();
+    const data = createIsoMdocRequest(query, publicJwk, nonce);
+
+    return {
+      request: { protocol: ISO_MDOC_PROTOCOL, request: { ...data } },
+      session: {
+        hpkePrivateJwk: privateJwk,
+        encryptionInfo: data.encryptionInfo,
+        origin: this.#origin,
+      },
+    };
+  }
+
+  async readResponse(
+    data: Record<string, unknown>,
+    session: DigitalCredentialsRequestState,
+    query: DcqlQuery
+  ): Promise<string> {
+    const { hpkePrivateJwk, encryptionInfo, origin } = session;
+    if (
+      !hpkePrivateJwk ||
+      typeof hpkePrivateJwk !== 'object' ||
+      typeof encryptionInfo !== 'string' ||
+      typeof origin !== 'string'
+    ) {
+      throw new Error('Missing HPKE request state in session');
+    }
+    if (typeof data.response !== 'string') {
+      throw new Error('Missing response');
+    }
+
+    const sessionTranscript = await createDcapiSessionTranscript(
+      encryptionInfo,
+      origin
+    );
+    const deviceResponse = await openIsoMdocResponse(
+      data.response,
+      hpkePrivateJwk,
+      sessionTranscript
+    );
+
+    // Map the returned documents to credential ids to apply the DCQL rules
+    const presentations: Record<string, string[]> = {};
+    for (const docType of deviceResponseDocTypes(deviceResponse)) {
+      const credential = query.credentials.find(
+        ({ format, meta }) =>
+          format === 'mso_mdoc' && meta?.doctype_value === docType
+      );
+      if (!credential) {
+        throw new Error(
+          `Invalid vp_token: undeclared document type ${docType}`
+        );
+      }
+      (presentations[credential.id] ??= []).push(deviceResponse);
+    }
+    matchDcqlResponse(query, presentations);
+    await verifyDeviceAuthentication(deviceResponse, sessionTranscript);
+
+    return deviceResponse;
+  }
+}
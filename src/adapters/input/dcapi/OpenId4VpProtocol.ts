@@ -0,0 +1,221 @@
+import {
+  EphemeralECDHPrivateJwk,
+  JarmOption,
+} from '@vecrea/oid4vc-verifier-frontend-core';
+import { calculateJwkThumbprint, decodeJwt, JWK } from 'jose';
+import { AbstractExtendedPortsOut } from '../../../di/AbstractExtendedPortsOut';
+import { PresentationDefinitions } from '../../out/prex';
+import {
+  DcqlQuery,
+  dcqlVctValues,
+  matchDcqlResponse,
+  parseDcqlVpToken,
+} from '../../out/dcql';
+import {
+  createOpenId4VpDcApiSessionTranscript,
+  verifyDeviceAuthentication,
+} from '../../out/mdoc/DeviceAuthentication';
+import { SD_JWT_VC_FORMAT, verifyKeyBinding } from '../../out/sdjwt';
+import {
+  DigitalCredentialsProtocol,
+  DigitalCredentialsProtocolRequest,
+} from './DigitalCredentialsProtocol';
+import { DigitalCredentialsRequestState } from './DigitalCredentialsRequestState';
+
+/**
+ * Name of the OpenID4VP protocol handler
+ *
+ * @public
+ */
+export const OPENID4VP_PROTOCOL = 'openid4vp';
+
+/**
+ * Generate OpenID4VP request parameters
+ *
+ * @param ecdhPublicJwk - Ephemeral public key to send (JWK with `d` removed)
+ * @param dcqlQuery - DCQL query selected for the request
+ * @param nonce - Nonce the presentations must be bound to
+ * @param state - State the wallet echoes in the response
+ * @returns Unsigned request parameters
+ */
+const requestParameters = (
+  ecdhPublicJwk: Record<string, unknown>,
+  dcqlQuery: DcqlQuery,
+  nonce: string,
+  state: string
+) => ({
+  client_metadata: {
+    vp_formats_supported: {
+      mso_mdoc: {
+        deviceauth_alg_values: [-7],
+        issuerauth_alg_values: [-7],
+      },
+      [SD_JWT_VC_FORMAT]: {
+        'sd-jwt_alg_values': ['ES256'],
+        'kb-jwt_alg_values': ['ES256'],
+      },
+    },
+    jwks: {
+      keys: [ecdhPublicJwk],
+    },
+  },
+  dcql_query: dcqlQuery,
+  response_mode: 'dc_api.jwt',
+  response_type: 'vp_token',
+  nonce,
+  state,
+});
+
+/**
+ * OpenID4VP over the Digital Credentials API
+ *
+ * - Requests are sent as `openid4vp-v1-unsigned`, or as a signed request
+ *   object (`openid4vp-v1-signed`) when a signing key is configured
+ * - Responses are JARM JWTs encrypted to an ephemeral ECDH key; a `state`
+ *   in the response must be the one sent with the request
+ * - The VP token must match the credential ids and `credential_sets` of the query
+ * - `mso_mdoc` presentations must carry a device signature over the
+ *   `OpenID4VPDCAPIHandover` SessionTranscript of the origin and nonce kept
+ *   in the session, so a response captured on another site or in another
+ *   session is rejected
+ * - `dc+sd-jwt` presentations must carry a Key Binding JWT over the nonce,
+ *   with the `client_id` of a signed request or `origin:<origin>` as audience,
+ *   and have one of the `vct_values` of the query
+ *
+ * @public
+ */
+export class OpenId4VpProtocol implements DigitalCredentialsProtocol {
+  readonly name = OPENID4VP_PROTOCOL;
+
+  readonly label = 'OpenID4VP';
+
+  readonly protocols = ['openid4vp-v1-unsigned', 'openid4vp-v1-signed'];
+
+  readonly #portsOut: AbstractExtendedPortsOut<PresentationDefinitions>;
+
+  readonly #origin: string;
+
+  /**
+   * @param portsOut - Output ports providing key generation, JARM and signing
+   * @param origin - Origin of the page calling the Digital Credentials API
+   * @throws {TypeError} When the origin is missing
+   */
+  constructor(
+    portsOut: AbstractExtendedPortsOut<PresentationDefinitions>,
+    origin: string
+  ) {
+    if (!origin || typeof origin !== 'string') {
+      throw new TypeError('origin must be a non-empty string');
+    }
+    this.#portsOut = portsOut;
+    this.#origin = origin;
+  }
+
+  async createRequest(
+    query: DcqlQuery,
+    nonce: string
+  ): Promise<DigitalCredentialsProtocolRequest> {
+    const generateEphemeralECDHPrivateJwk =
+      this.#portsOut.generateEphemeralECDHPrivateJwk();
+    const result = await generateEphemeralECDHPrivateJwk();
+    const ecdhPrivateJwk = result.getOrThrow().toJSON();
+
+    const ecdhPublicJwk = JSON.parse(ecdhPrivateJwk);
+    delete ecdhPublicJwk.d;
+
+    const state = crypto.randomUUID();
+    const parameters = requestParameters(ecdhPublicJwk, query, nonce, state);
+    const signer = this.#portsOut.requestObjectSigner();
+    const request = signer
+      ? {
+          protocol: 'openid4vp-v1-signed',
+          request: { request: await signer.sign(parameters) },
+        }
+      : { protocol: 'openid4vp-v1-unsigned', request: parameters };
+
+    return {
+      request,
+      session: { ecdhPrivateJwk, state, origin: this.#origin },
+    };
+  }
+
+  async readResponse(
+    data: Record<string, unknown>,
+    session: DigitalCredentialsRequestState,
+    query: DcqlQuery
+  ): Promise<string> {
+    const { ecdhPrivateJwk, nonce, origin } = session;
+    if (typeof ecdhPrivateJwk !== 'string') {
+      throw new Error('Missing ECDH private key in session');
+    }
+    if (typeof origin !== 'string') {
+      throw new Error('Missing origin in session');
+    }
+    if (typeof data.response !== 'string') {
+      throw new Error('Missing response');
+    }
+
+    const verifyJarmJwt = this.#portsOut.verifyJarmJwt();
+    const verifyJarmJwtResult = await verifyJarmJwt(
+      new JarmOption.Encrypted('ECDH-ES', 'A128GCM'),
+      new EphemeralECDHPrivateJwk(ecdhPrivateJwk),
+      data.response
+    );
+
+    const response = verifyJarmJwtResult.getOrThrow();
+    if (response.state !== undefined && response.state !== session.state) {
+      throw new Error('Invalid response: state does not match the request');
+    }
+
+    const vpToken = parseDcqlVpToken(response.vpToken);
+    if (!vpToken) {
+      throw new Error('Invalid vp_token');
+    }
+
+    // Keep the presentations in the order the query declared them
+    const credentialIds = matchDcqlResponse(query, vpToken);
+
+    // The thumbprint only covers the public members of the key
+    const sessionTranscript = await createOpenId4VpDcApiSessionTranscript({
+      origin,
+      nonce,
+      jwkThumbprint: await calculateJwkThumbprint(
+        JSON.parse(ecdhPrivateJwk) as JWK
+      ),
+    });
+    for (const { id, format } of query.credentials) {
+      if (format !== 'mso_mdoc' || !vpToken[id]) {
+        continue;
+      }
+      for (const presentation of vpToken[id]) {
+        await verifyDeviceAuthentication(presentation, sessionTranscript);
+      }
+    }
+
+    // Unsigned requests have no client_id; wallets use the origin instead
+    const audience =
+      this.#portsOut.requestObjectSigner()?.clientId ?? `origin:${origin}`;
+    for (const credential of query.credentials) {
+      if (credential.format !== SD_JWT_VC_FORMAT) {
+        continue;
+      }
+      const vctValues = dcqlVctValues(credential);
+      for (const presentation of vpToken[credential.id] ?? []) {
+        await verifyKeyBinding(presentation, {
+          nonce,
+          audience,
+          now: this.#portsOut.clock().now(),
+          clockSkew: this.#portsOut.clockSkew(),
+        });
+        const { vct } = decodeJwt(presentation.split('~')[0]);
+        if (vctValues && !vctValues.includes(String(vct))) {
+          throw new Error(`Invalid vp_token: unexpected vct ${String(vct)}`);
+        }
+      }
+    }
+
+    return JSON.stringify(
+      Object.fromEntries(credentialIds.map((id) => [id, vpToken[id]]))
+    );
+  }
+}
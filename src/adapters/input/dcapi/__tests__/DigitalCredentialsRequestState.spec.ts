@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DC_REQUEST_MAX_AGE_MS,
+  parseDigitalCredentialsRequestState,
+  ReplayedResponseError,
+} from '../DigitalCredentialsRequestState';
+
+const now = 1_700_000_000_000;
+
+const state = {
+  protocol: 'openid4vp',
+  queryName: 'mDL',
+  nonce: 'request-nonce',
+  state: 'request-state',
+  createdAt: now - 1000,
+  ecdhPrivateJwk: '{}',
+};
+
+describe('parseDigitalCredentialsRequestState', () => {
+  it('should keep the protocol state', () => {
+    expect(
+      parseDigitalCredentialsRequestState(JSON.stringify(state), now)
+    ).toEqual(state);
+  });
+
+  it('should accept requests without state', () => {
+    const { state: _state, ...withoutState } = state;
+
+    expect(
+      parseDigitalCredentialsRequestState(JSON.stringify(withoutState), now)
+    ).toEqual(withoutState);
+  });
+
+  it('should reject expired requests', () => {
+    expect(() =>
+      parseDigitalCredentialsRequestState(
+        JSON.stringify({
+          ...state,
+          createdAt: now - DC_REQUEST_MAX_AGE_MS - 1,
+        }),
+        now
+      )
+    ).toThrow('Expired request');
+  });
+
+  it('should reject sessions without a pending request', () => {
+    const { nonce: _nonce, ...withoutNonce } = state;
+
+    expect(() =>
+      parseDigitalCredentialsRequestState(JSON.stringify(withoutNonce), now)
+    ).toThrow('Invalid session: no pending request');
+    expect(() => parseDigitalCredentialsRequestState('{', now)).toThrow(
+      'Invalid session: not JSON'
+    );
+  });
+
+  it('should report responses to an answered request as replays', () => {
+    const completed = JSON.stringify({
+      queryName: 'mDL',
+      vpToken: { mdl: ['presentation'] },
+      completedAt: now,
+    });
+
+    expect(() => parseDigitalCredentialsRequestState(completed, now)).toThrow(
+      ReplayedResponseError
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import { Decoder, Encoder } from 'cbor-x';
+import { Buffer } from 'node:buffer';
+import { DcqlQuery } from '../../../out/dcql';
+import { hpkeSeal } from '../../../out/hpke';
+import { createDcapiSessionTranscript } from '../../../out/mdoc/IsoMdocDcApi';
+import { signedDeviceResponse } from '../../../out/mdoc/__tests__/signedDeviceResponse';
+import { IsoMdocProtocol } from '../IsoMdocProtocol';
+
+const decoder = new Decoder({ mapsAsObjects: false });
+const encoder = new Encoder({
+  useRecords: false,
+  mapsAsObjects: false,
+  tagUint8Array: false,
+});
+
+const origin = 'https://verifier.example.com';
+
+const query: DcqlQuery = {
+  credentials: [
+    {
+      id: 'mdl',
+      format: 'mso_mdoc',
+      meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+      claims: [{ path: ['org.iso.18013.5.1', 'family_name'] }],
+    },
+  ],
+};
+
+/**
+ * Encrypts a DeviceResponse to the recipient key of a request for the given origin
+ */
+const encryptResponse = async (
+  encryptionInfo: string,
+  responseOrigin: string,
+  response: string
+) => {
+  const [, info] = decoder.decode(Buffer.from(encryptionInfo, 'base64url'));
+  const recipientPublicKey: Map<number, Uint8Array> =
+    info.get('recipientPublicKey');
+  const sealed = await hpkeSeal(
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      x: Buffer.from(recipientPublicKey.get(-2)!).toString('base64url'),
+      y: Buffer.from(recipientPublicKey.get(-3)!).toString('base64url'),
+    },
+    Buffer.from(response, 'base64url'),
+    await createDcapiSessionTranscript(encryptionInfo, responseOrigin)
+  );
+  return {
+    response: Buffer.from(
+      encoder.encode([
+        'dcapi',
+        new Map<string, Uint8Array>([
+          ['enc', sealed.enc],
+          ['cipherText', sealed.cipherText],
+        ]),
+      ])
+    ).toString('base64url'),
+  };
+};
+
+/**
+ * Answers a request the way a wallet does for the given origin
+ */
+const walletResponse = async (
+  request: Record<string, unknown>,
+  responseOrigin: string,
+  ...docTypes: string[]
+) => {
+  const encryptionInfo = request.encryptionInfo as string;
+  const response = await signedDeviceResponse(
+    await createDcapiSessionTranscript(encryptionInfo, responseOrigin),
+    ...docTypes
+  );
+  return {
+    response,
+    data: await encryptResponse(encryptionInfo, responseOrigin, response),
+  };
+};
+
+/**
+ * Creates a request and the request state the API saves for it
+ */
+const createRequest = async (
+  protocol: IsoMdocProtocol,
+  nonce: string = crypto.randomUUID()
+) => {
+  const { request, session } = await protocol.createRequest(query, nonce);
+  return {
+    request,
+    session: {
+      ...session,
+      protocol: protocol.name,
+      queryName: 'mDL',
+      nonce,
+      createdAt: Date.now(),
+    },
+  };
+};
+
+describe('IsoMdocProtocol', () => {
+  it('should reject an empty origin', () => {
+    expect(() => new IsoMdocProtocol('')).toThrow(
+      'origin must be a non-empty string'
+    );
+  });
+
+  it('should create an org-iso-mdoc request and keep the HPKE key in the session', async () => {
+    const { request, session } = await new IsoMdocProtocol(
+      origin
+    ).createRequest(query, 'request-nonce');
+
+    expect(request.protocol).toBe('org-iso-mdoc');
+    expect(request.request).toEqual({
+      deviceRequest: expect.any(String),
+      encryptionInfo: expect.any(String),
+    });
+    expect(session).toEqual({
+      hpkePrivateJwk: expect.objectContaining({ d: expect.any(String) }),
+      encryptionInfo: request.request.encryptionInfo,
+      origin,
+    });
+
+    const [, info] = decoder.decode(
+      Buffer.from(request.request.encryptionInfo as string, 'base64url')
+    );
+    expect(Buffer.from(info.get('nonce')).toString()).toBe('request-nonce');
+  });
+
+  it('should decrypt the response to the DeviceResponse', async () => {
+    const protocol = new IsoMdocProtocol(origin);
+    const { request, session } = await createRequest(protocol);
+    const { response, data } = await walletResponse(
+      request.request,
+      origin,
+      'org.iso.18013.5.1.mDL'
+    );
+
+    await expect(protocol.readResponse(data, session, query)).resolves.toBe(
+      response
+    );
+  });
+
+  it('should reject a response produced for another origin', async () => {
+    const protocol = new IsoMdocProtocol(origin);
+    const { request, session } = await createRequest(protocol);
+
+    const { data } = await walletResponse(
+      request.request,
+      'https://evil.example',
+      'org.iso.18013.5.1.mDL'
+    );
+
+    await expect(protocol.readResponse(data, session, query)).rejects.toThrow(
+      'Invalid HPKE ciphertext'
+    );
+  });
+
+  it('should reject documents signed for another session', async () => {
+    const protocol = new IsoMdocProtocol(origin);
+    const { request, session } = await createRequest(protocol);
+    const previous = await createRequest(protocol);
+
+    // Replays a presentation of an earlier request, re-encrypted to this one
+    const { response } = await walletResponse(
+      previous.request.request,
+      origin,
+      'org.iso.18013.5.1.mDL'
+    );
+    const data = await encryptResponse(
+      request.request.encryptionInfo as string,
+      origin,
+      response
+    );
+
+    await expect(protocol.readResponse(data, session, query)).rejects.toThrow(
+      'is not bound to this session'
+    );
+  });
+
+  it('should reject undeclared and missing documents', async () => {
+    const protocol = new IsoMdocProtocol(origin);
+    const { request, session } = await createRequest(protocol);
+
+    await expect(
+      protocol.readResponse(
+        (
+          await walletResponse(
+            request.request,
+            origin,
+            'org.iso.23220.photoID.1'
+          )
+        ).data,
+        session,
+        query
+      )
+    ).rejects.toThrow('Invalid vp_token: undeclared document type');
+    await expect(
+      protocol.readResponse(
+        (
+          await walletResponse(request.request, origin)
+        ).data,
+        session,
+        query
+      )
+    ).rejects.toThrow('Missing credentials for query: mdl');
+  });
+
+  it('should require the request state in the session', async () => {
+    await expect(
+      new IsoMdocProtocol(origin).readResponse(
+        { response: 'AA' },
+        {
+          protocol: 'org-iso-mdoc',
+          queryName: 'mDL',
+          nonce: 'request-nonce',
+          createdAt: Date.now(),
+        },
+        query
+      )
+    ).rejects.toThrow('Missing HPKE request state in session');
+  });
+});
@@ -0,0 +1,4 @@
+export * from './DigitalCredentialsProtocol';
+export * from './DigitalCredentialsRequestState';
+export * from './IsoMdocProtocol';
+export * from './OpenId4VpProtocol';
@@ -0,0 +1,334 @@
+import { Tag } from 'cbor-x';
+import { Buffer } from 'node:buffer';
+import {
+  DocumentRevocation,
+  DocumentValidity,
+  IssuerTrust,
+  VerifiedDocument,
+} from '../../../ports/out/verifier';
+import {
+  CredentialDocuments,
+  PresentationVerifyResult,
+} from '../../out/verifier';
+import { NamespaceSchemaRegistry } from '../../out/mdoc/namespaces';
+import { PolicyEvaluation } from '../../out/policy';
+
+/**
+ * CBOR tag of `full-date` (RFC 8943)
+ * @private
+ */
+const FULL_DATE_TAG = 1004;
+
+/**
+ * Namespaces of document types whose schemas are not registered
+ * @private
+ */
+const WELL_KNOWN_NAMESPACES: Record<string, string> = {
+  'org.iso.18013.5.1.mDL': 'org.iso.18013.5.1',
+};
+
+/**
+ * Claim value that JSON cannot carry as is, tagged with its type
+ *
+ * - `full-date`: `2030-01-31`
+ * - `tdate`: ISO 8601 date-time, e.g. `2024-01-01T00:00:00.000Z`
+ * - `image`: base64 encoded image, e.g. an mdoc `portrait`
+ * - `bytes`: other byte strings, base64url encoded
+ * - `tag`: any other CBOR tagged value
+ *
+ * @public
+ */
+export type TypedClaimValue =
+  | { $type: 'full-date'; value: string }
+  | { $type: 'tdate'; value: string }
+  | { $type: 'image'; mediaType: string; value: string }
+  | { $type: 'bytes'; value: string }
+  | { $type: 'tag'; tag: number; value: ClaimValue };
+
+/**
+ * Claim value of the JSON result
+ *
+ * @public
+ */
+export type ClaimValue =
+  | null
+  | boolean
+  | number
+  | string
+  | TypedClaimValue
+  | ClaimValue[]
+  | { [key: string]: ClaimValue };
+
+/**
+ * Verified document of the JSON result
+ *
+ * @public
+ */
+export interface DocumentJson {
+  /** Document type, or the `vct` of an SD-JWT VC */
+  docType: string;
+  /** Credential id of the DCQL query the document answers */
+  credentialId?: string;
+  /** Claims keyed by namespace, then by claim name */
+  namespaces: Record<string, Record<string, ClaimValue>>;
+}
+
+/**
+ * Verification result returned to headless integrators
+ *
+ * @public
+ */
+export interface VerificationResultJson {
+  /** Whether every presentation was verified */
+  valid: boolean;
+  /**
+   * `verified` when the presentation was verified and its policy, if any,
+   * accepted it; `rejected` when the policy rejected it; `invalid` otherwise
+   */
+  status: 'verified' | 'rejected' | 'invalid';
+  /** Verified documents; empty when the presentation is invalid */
+  documents: DocumentJson[];
+  /** Trust of the issuer of each document, when checked */
+  issuers?: IssuerTrust[];
+  /** Revocation status of each document, when checked */
+  revocations?: DocumentRevocation[];
+  /** Validity period of each document, when checked */
+  validities?: DocumentValidity[];
+  /** Outcome of the verification policy, when one is declared */
+  policy?: PolicyEvaluation;
+}
+
+/**
+ * Options of {@link toVerificationResultJson}
+ *
+ * @public
+ */
+export interface VerificationResultJsonOptions {
+  /** Documents per DCQL credential id; those of the result when omitted */
+  credentials?: CredentialDocuments[];
+  /** Outcome of the verification policy */
+  policy?: PolicyEvaluation;
+  /** Registry the namespace of each claim is looked up in */
+  registry?: NamespaceSchemaRegistry;
+}
+
+/**
+ * Detects the media type of an image from its leading bytes
+ * @private
+ */
+const imageMediaType = (bytes: Uint8Array): string | undefined => {
+  const starts = (...magic: number[]) =>
+    magic.every((byte, index) => bytes[index] === byte);
+  if (starts(0xff, 0xd8, 0xff)) {
+    return 'image/jpeg';
+  }
+  if (starts(0x89, 0x50, 0x4e, 0x47)) {
+    return 'image/png';
+  }
+  if (
+    starts(0x00, 0x00, 0x00, 0x0c, 0x6a, 0x50, 0x20, 0x20) ||
+    starts(0xff, 0x4f, 0xff, 0x51)
+  ) {
+    return 'image/jp2';
+  }
+  return undefined;
+};
+
+/**
+ * Encodes a claim value as JSON
+ *
+ * JSON values are kept as they are; dates, byte strings and CBOR tags are
+ * tagged with their type (see {@link TypedClaimValue}).
+ *
+ * @param value - Claim value of a verified document
+ * @returns The JSON value
+ *
+ * @public
+ */
+export const encodeClaimValue = (value: unknown): ClaimValue => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return value;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return { $type: 'tdate', value: value.toISOString() };
+  }
+  if (value instanceof Tag) {
+    if (value.tag === FULL_DATE_TAG) {
+      const date = value.value;
+      return {
+        $type: 'full-date',
+        value:
+          date instanceof Date ? date.toISOString().slice(0, 10) : String(date),
+      };
+    }
+    if (value.tag === 0) {
+      const date = new Date(value.value);
+      return {
+        $type: 'tdate',
+        value: Number.isNaN(date.getTime())
+          ? String(value.value)
+          : date.toISOString(),
+      };
+    }
+    return {
+      $type: 'tag',
+      tag: value.tag,
+      value: encodeClaimValue(value.value),
+    };
+  }
+  if (value instanceof Uint8Array) {
+    const mediaType = imageMediaType(value);
+    return mediaType
+      ? {
+          $type: 'image',
+          mediaType,
+          value: Buffer.from(value).toString('base64'),
+        }
+      : { $type: 'bytes', value: Buffer.from(value).toString('base64url') };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeClaimValue);
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries(
+      [...value].map(([key, entry]) => [String(key), encodeClaimValue(entry)])
+    );
+  }
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        encodeClaimValue(entry),
+      ])
+    );
+  }
+  return String(value);
+};
+
+/**
+ * Groups the claims of a document by namespace
+ *
+ * Verified documents merge the elements of all namespaces, so a claim is
+ * assigned to the registered namespace of the document type declaring it.
+ * Other claims, and those of SD-JWT VCs, are keyed by the well-known
+ * namespace of the document type (`org.iso.18013.5.1` for mDLs) or by the
+ * document type itself.
+ * @private
+ */
+const groupByNamespace = (
+  docType: string,
+  claims: Record<string, unknown>,
+  registry: NamespaceSchemaRegistry | undefined
+): Record<string, Record<string, ClaimValue>> => {
+  const namespaces = (registry?.namespacesOf(docType) ?? []).map(
+    ({ namespace }) => ({
+      namespace,
+      claimNames: new Set(registry?.claimNames(namespace)),
+    })
+  );
+  const fallback = WELL_KNOWN_NAMESPACES[docType] ?? docType;
+  const grouped: Record<string, Record<string, ClaimValue>> = {};
+  for (const [claim, value] of Object.entries(claims ?? {})) {
+    const namespace =
+      namespaces.find(({ claimNames }) => claimNames.has(claim))?.namespace ??
+      fallback;
+    (grouped[namespace] ??= {})[claim] = encodeClaimValue(value);
+  }
+  return grouped;
+};
+
+/**
+ * Converts verified documents keyed by document type
+ * @private
+ */
+const toDocumentsJson = (
+  documents: VerifiedDocument[],
+  registry: NamespaceSchemaRegistry | undefined,
+  credentialId?: string
+): DocumentJson[] =>
+  documents.flatMap((document) =>
+    Object.entries(document ?? {}).map(([docType, claims]) => ({
+      docType,
+      ...(credentialId !== undefined && { credentialId }),
+      namespaces: groupByNamespace(docType, claims, registry),
+    }))
+  );
+
+/**
+ * Converts a verification result to the JSON returned to headless
+ * integrators
+ *
+ * The claims of an invalid presentation are not returned.
+ *
+ * @example
+ * ```typescript
+ * return c.json(
+ *   toVerificationResultJson(result, {
+ *     policy: evaluatePolicy(policy, result.documents),
+ *     registry: portsOut.namespaceSchemaRegistry(),
+ *   })
+ * );
+ * ```
+ *
+ * @param result - Result of the presentation verifier
+ * @param options - Credentials, policy outcome and namespace registry
+ * @returns The JSON result
+ *
+ * @public
+ */
+export const toVerificationResultJson = (
+  result: PresentationVerifyResult,
+  { credentials, policy, registry }: VerificationResultJsonOptions = {}
+): VerificationResultJson => {
+  const { valid, issuers, revocations, validities } = result;
+  const grouped = credentials ?? result.credentials;
+  const documents = !valid
+    ? []
+    : grouped
+    ? grouped.flatMap(({ id, documents }) =>
+        toDocumentsJson(documents, registry, id)
+      )
+    : toDocumentsJson(result.documents ?? [], registry);
+
+  return {
+    valid,
+    status: !valid
+      ? 'invalid'
+      : policy?.decision === 'reject'
+      ? 'rejected'
+      : 'verified',
+    documents,
+    ...(issuers && { issuers }),
+    ...(revocations && { revocations }),
+    ...(validities && { validities }),
+    ...(valid && policy && { policy }),
+  };
+};
+
+/**
+ * Tells whether a request asks for JSON rather than HTML
+ *
+ * Browsers list `text/html` in their `Accept` header, so only requests
+ * accepting `application/json` but not `text/html` get JSON.
+ *
+ * @param accept - `Accept` header of the request
+ * @returns `true` when the JSON result should be returned
+ *
+ * @public
+ */
+export const acceptsJson = (accept: string | undefined): boolean => {
+  const types = (accept ?? '')
+    .split(',')
+    .map((type) => type.split(';')[0].trim().toLowerCase());
+  return types.includes('application/json') && !types.includes('text/html');
+};
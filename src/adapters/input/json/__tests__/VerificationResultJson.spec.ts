@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { Tag } from 'cbor-x';
+import {
+  acceptsJson,
+  encodeClaimValue,
+  toVerificationResultJson,
+} from '../VerificationResultJson';
+import {
+  PHOTO_ID_DOCTYPE,
+  defaultNamespaceSchemaRegistry,
+} from '../../../out/mdoc/namespaces';
+
+const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+describe('VerificationResultJson', () => {
+  describe('encodeClaimValue', () => {
+    it('should keep JSON values', () => {
+      expect(encodeClaimValue('Doe')).toBe('Doe');
+      expect(encodeClaimValue(42)).toBe(42);
+      expect(encodeClaimValue(true)).toBe(true);
+      expect(encodeClaimValue(undefined)).toBeNull();
+      expect(encodeClaimValue({ '18': true, list: ['JP'] })).toEqual({
+        '18': true,
+        list: ['JP'],
+      });
+    });
+
+    it('should tag dates', () => {
+      expect(encodeClaimValue(new Tag('2030-01-31', 1004))).toEqual({
+        $type: 'full-date',
+        value: '2030-01-31',
+      });
+      expect(encodeClaimValue(new Date('2024-01-01T00:00:00Z'))).toEqual({
+        $type: 'tdate',
+        value: '2024-01-01T00:00:00.000Z',
+      });
+      expect(encodeClaimValue(new Tag('2024-01-01T00:00:00Z', 0))).toEqual({
+        $type: 'tdate',
+        value: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should encode images and byte strings', () => {
+      expect(encodeClaimValue(jpeg)).toEqual({
+        $type: 'image',
+        mediaType: 'image/jpeg',
+        value: Buffer.from(jpeg).toString('base64'),
+      });
+      expect(encodeClaimValue(new Uint8Array([0xfb, 0xff]))).toEqual({
+        $type: 'bytes',
+        value: '-_8',
+      });
+    });
+
+    it('should encode other tags and maps', () => {
+      expect(encodeClaimValue(new Tag(7, 24))).toEqual({
+        $type: 'tag',
+        tag: 24,
+        value: 7,
+      });
+      expect(
+        encodeClaimValue(new Map([['codes', [new Tag('2030-01-31', 1004)]]]))
+      ).toEqual({ codes: [{ $type: 'full-date', value: '2030-01-31' }] });
+    });
+  });
+
+  describe('toVerificationResultJson', () => {
+    it('should group claims by namespace', () => {
+      const json = toVerificationResultJson(
+        {
+          valid: true,
+          documents: [
+            {
+              [PHOTO_ID_DOCTYPE]: {
+                family_name: 'Doe',
+                portrait: jpeg,
+                travel_document_number: 'TD1234',
+              },
+            },
+            { 'org.iso.18013.5.1.mDL': { age_over_18: true } },
+          ],
+        },
+        { registry: defaultNamespaceSchemaRegistry }
+      );
+
+      expect(json.status).toBe('verified');
+      expect(json.documents).toEqual([
+        {
+          docType: PHOTO_ID_DOCTYPE,
+          namespaces: {
+            'org.iso.23220.1': {
+              family_name: 'Doe',
+              portrait: expect.objectContaining({ $type: 'image' }),
+            },
+            'org.iso.23220.photoID.1': { travel_document_number: 'TD1234' },
+          },
+        },
+        {
+          docType: 'org.iso.18013.5.1.mDL',
+          namespaces: { 'org.iso.18013.5.1': { age_over_18: true } },
+        },
+      ]);
+    });
+
+    it('should key documents by credential id', () => {
+      const json = toVerificationResultJson({
+        valid: true,
+        documents: [],
+        credentials: [
+          {
+            id: 'pid',
+            documents: [{ 'urn:eudi:pid:1': { given_name: 'Erika' } }],
+          },
+        ],
+      });
+
+      expect(json.documents).toEqual([
+        {
+          docType: 'urn:eudi:pid:1',
+          credentialId: 'pid',
+          namespaces: { 'urn:eudi:pid:1': { given_name: 'Erika' } },
+        },
+      ]);
+    });
+
+    it('should report the policy outcome', () => {
+      const json = toVerificationResultJson(
+        { valid: true, documents: [] },
+        {
+          policy: {
+            decision: 'reject',
+            outcomes: [
+              {
+                rule: 'age_over_18 == true',
+                passed: false,
+                reason: 'claim not disclosed',
+              },
+            ],
+          },
+        }
+      );
+
+      expect(json.status).toBe('rejected');
+      expect(json.policy?.decision).toBe('reject');
+    });
+
+    it('should omit the claims of an invalid presentation', () => {
+      const validities = [
+        {
+          docType: 'org.iso.18013.5.1.mDL',
+          valid: false,
+          reason: 'Expired: valid until 2024-01-01T00:00:00.000Z',
+        },
+      ];
+      const json = toVerificationResultJson({
+        valid: false,
+        documents: [{ 'org.iso.18013.5.1.mDL': { family_name: 'Doe' } }],
+        validities,
+      });
+
+      expect(json).toEqual({
+        valid: false,
+        status: 'invalid',
+        documents: [],
+        validities,
+      });
+    });
+  });
+
+  describe('acceptsJson', () => {
+    it('should tell JSON clients from browsers', () => {
+      expect(acceptsJson('application/json')).toBe(true);
+      expect(acceptsJson('application/json; charset=utf-8')).toBe(true);
+      expect(acceptsJson('text/html,application/xhtml+xml,*/*;q=0.8')).toBe(
+        false
+      );
+      expect(acceptsJson('text/html, application/json')).toBe(false);
+      expect(acceptsJson(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { FC } from 'hono/jsx';
+
+/**
+ * Outcome of an age verification
+ *
+ * @public
+ */
+export interface AgeVerdictResult {
+  /** Age attestations keyed by age, e.g. `{ 20: true }` */
+  ageOver: Record<string, boolean>;
+  /** Whether every attestation holds */
+  passed: boolean;
+}
+
+/**
+ * Reads the outcome of an age verification from verified documents
+ *
+ * A presentation is an age verification when its documents disclose
+ * nothing but age attestations: mdoc `age_over_NN` data elements or the
+ * SD-JWT VC `age_equal_or_over` claim.
+ *
+ * @param data - Verified documents keyed by document type
+ * @returns The outcome, or `undefined` when other attributes were disclosed
+ *
+ * @public
+ */
+export const readAgeVerdict = (
+  data: Record<string, Record<string, unknown>>[] | undefined
+): AgeVerdictResult | undefined => {
+  const ageOver: Record<string, boolean> = {};
+  for (const document of data ?? []) {
+    for (const claims of Object.values(document ?? {})) {
+      for (const [key, value] of Object.entries(claims ?? {})) {
+        const age = /^age_over_(\d+)$/.exec(key)?.[1];
+        if (age && typeof value === 'boolean') {
+          ageOver[age] = value;
+        } else if (key === 'age_equal_or_over' && value) {
+          for (const [equalOrOver, attested] of Object.entries(value)) {
+            if (!/^\d+$/.test(equalOrOver) || typeof attested !== 'boolean') {
+              return undefined;
+            }
+            ageOver[equalOrOver] = attested;
+          }
+        } else {
+          return undefined;
+        }
+      }
+    }
+  }
+  const attested = Object.values(ageOver);
+  if (attested.length === 0) {
+    return undefined;
+  }
+  return { ageOver, passed: attested.every(Boolean) };
+};
+
+/**
+ * Props interface for the AgeVerdict component
+ *
+ * @public
+ */
+export interface AgeVerdictProps {
+  /** Outcome read with {@link readAgeVerdict} */
+  verdict: AgeVerdictResult;
+}
+
+/**
+ * Large pass/fail verdict of an age verification
+ *
+ * @param props - Component properties
+ * @returns JSX element representing the verdict
+ *
+ * @public
+ */
+export const AgeVerdict: FC<AgeVerdictProps> = ({ verdict }) => {
+  const ages = Object.keys(verdict.ageOver).join(', ');
+
+  return (
+    <section
+      class={`rounded-lg p-6 m-1 text-center border-2 ${
+        verdict.passed
+          ? 'bg-green-50 border-green-500 text-green-700'
+          : 'bg-red-50 border-red-500 text-red-700'
+      }`}
+      role="status"
+      aria-label="Age verification result"
+    >
+      <p class="text-6xl font-bold">{verdict.passed ? 'PASS' : 'FAIL'}</p>
+      <p class="mt-2 text-lg">
+        {verdict.passed ? `Over ${ages}` : `Not over ${ages}`}
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,143 @@
+import { Tag } from 'cbor-x';
+import { FC } from 'hono/jsx';
+
+/**
+ * Keys verified PIDs are reported under: the mdoc document type and the
+ * SD-JWT VC type
+ * @private
+ */
+const PID_DOCUMENT_IDS = ['eu.europa.ec.eudi.pid.1', 'urn:eudi:pid:1'];
+
+/**
+ * Attributes of a PID summarised on the result page
+ *
+ * @public
+ */
+export interface PidAttributes {
+  familyName?: unknown;
+  givenName?: unknown;
+  birthDate?: unknown;
+  nationality?: unknown;
+  /** Age attestations keyed by age, e.g. `{ 18: true }` */
+  ageOver: Record<string, boolean>;
+  issuingCountry?: unknown;
+}
+
+/**
+ * Reads the summarised attributes of a verified PID
+ *
+ * Both encodings of the PID rulebook are read: mdoc data elements
+ * (`birth_date`, `age_over_18`) and SD-JWT VC claims (`birthdate`,
+ * `age_equal_or_over`).
+ *
+ * @param documentId - Key the document is reported under
+ * @param data - Disclosed attributes
+ * @returns The attributes, or `undefined` when the document is not a PID
+ *
+ * @public
+ */
+export const readPidAttributes = (
+  documentId: string,
+  data: Record<string, unknown>
+): PidAttributes | undefined => {
+  if (!PID_DOCUMENT_IDS.includes(documentId)) {
+    return undefined;
+  }
+  const ageOver: Record<string, boolean> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const age = /^age_over_(\d+)$/.exec(key)?.[1];
+    if (age && typeof value === 'boolean') {
+      ageOver[age] = value;
+    }
+  }
+  const { age_equal_or_over: ageEqualOrOver } = data;
+  if (ageEqualOrOver && typeof ageEqualOrOver === 'object') {
+    for (const [age, value] of Object.entries(ageEqualOrOver)) {
+      if (/^\d+$/.test(age) && typeof value === 'boolean') {
+        ageOver[age] = value;
+      }
+    }
+  }
+  return {
+    familyName: data.family_name,
+    givenName: data.given_name,
+    birthDate: data.birth_date ?? data.birthdate,
+    nationality: data.nationality ?? data.nationalities,
+    ageOver,
+    issuingCountry: data.issuing_country,
+  };
+};
+
+/**
+ * Formats an attribute value for display
+ * @private
+ */
+const formatValue = (value: unknown): string => {
+  if (value instanceof Tag) {
+    return formatValue(value.value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ');
+  }
+  return String(value);
+};
+
+/**
+ * Props interface for the PidSummary component
+ *
+ * @public
+ */
+export interface PidSummaryProps {
+  /** Attributes read with {@link readPidAttributes} */
+  attributes: PidAttributes;
+}
+
+/**
+ * Summary of the identity attributes of a verified PID
+ *
+ * Shows family name, birth date, nationality, age attestations and issuing
+ * country, as far as the wallet disclosed them.
+ *
+ * @param props - Component properties
+ * @returns JSX element representing the summary
+ *
+ * @public
+ */
+export const PidSummary: FC<PidSummaryProps> = ({ attributes }) => {
+  const { familyName, givenName, birthDate, nationality, issuingCountry } =
+    attributes;
+  const rows: [string, unknown][] = [
+    ['Family name', familyName],
+    ['Given name', givenName],
+    ['Birth date', birthDate],
+    ['Nationality', nationality],
+    ...Object.entries(attributes.ageOver).map(
+      ([age, value]): [string, unknown] => [
+        `Age over ${age}`,
+        value ? 'Yes' : 'No',
+      ]
+    ),
+    ['Issuing country', issuingCountry],
+  ];
+
+  return (
+    <section
+      class="bg-green-50 rounded-lg p-2 m-1 border border-green-200"
+      aria-label="Person identification data"
+    >
+      <dl class="grid grid-cols-2 gap-x-4 gap-y-1">
+        {rows
+          .filter(([, value]) => value !== undefined && value !== null)
+          .map(([label, value]) => (
+            <>
+              <dt class="text-sm text-gray-500">{label}</dt>
+              <dd class="text-gray-900">{formatValue(value)}</dd>
+            </>
+          ))}
+      </dl>
+    </section>
+  );
+};
@@ -8,6 +8,13 @@ import { Buffer } from 'node:buffer';
  */
 const IMAGE_MIME_TYPE = 'image/png';
 
+/**
+ * Pattern of base64 image data URLs
+ * @private
+ */
+const IMAGE_DATA_URL =
+  /^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/=]+$/;
+
 /**
  * Props interface for the PresentationDetail component
  *
@@ -18,6 +25,8 @@ export interface PresentationDetailProps {
   title: string;
   /** The credential data containing various fields and values */
   data: Record<string, unknown>;
+  /** Labels of the top-level fields, keyed by field name; the field name is shown when omitted */
+  labels?: Record<string, string>;
 }
 
 /**
@@ -31,6 +40,7 @@ export interface PresentationDetailProps {
  * ## Supported Data Types
  *
  * - **Uint8Array**: Rendered as base64-encoded images (typically portraits)
+ * - **Image data URLs**: Rendered as images (SD-JWT VC portraits, e.g. `picture`)
  * - **CBOR Tags**: Special handling for tagged values (dates, etc.)
  * - **Arrays**: Recursive rendering of array elements
  * - **Objects**: Recursive rendering of nested object properties
@@ -97,6 +107,7 @@ export interface PresentationDetailProps {
 export const PresentationDetail: FC<PresentationDetailProps> = ({
   title,
   data,
+  labels,
 }) => {
   // Validate required props
   if (!title || typeof title !== 'string') {
@@ -152,12 +163,13 @@ export const PresentationDetail: FC<PresentationDetailProps> = ({
     return Object.entries(data).map(([key, value], index) => {
       // Generate unique key for React reconciliation
       const elementKey = `${depth}-${index}-${key}`;
+      const label = (depth === 0 && labels?.[key]) || key;
 
       try {
         return (
           <div key={elementKey}>
             <p class="text-sm text-gray-500" title={`Field: ${key}`}>
-              {key}
+              {label}
             </p>
             {renderValue(value, depth + 1)}
           </div>
@@ -166,7 +178,7 @@ export const PresentationDetail: FC<PresentationDetailProps> = ({
         console.error(`Error rendering field ${key}:`, error);
         return (
           <div key={elementKey}>
-            <p class="text-sm text-gray-500">{key}</p>
+            <p class="text-sm text-gray-500">{label}</p>
             <p class="text-red-600 text-sm">Error displaying value</p>
           </div>
         );
@@ -205,6 +217,17 @@ export const PresentationDetail: FC<PresentationDetailProps> = ({
       }
     }
 
+    // Handle image data URLs (JSON credentials carry images as strings)
+    if (typeof value === 'string' && IMAGE_DATA_URL.test(value)) {
+      return (
+        <img
+          class="max-w-24 max-h-24"
+          src={value}
+          alt="Credential image data"
+        />
+      );
+    }
+
     // Handle CBOR Tags (special encoded values)
     if (value instanceof Tag) {
       const tagValue =
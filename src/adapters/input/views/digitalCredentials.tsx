@@ -2,9 +2,37 @@ import { FC } from 'hono/jsx';
 import { Card } from './components/card';
 import { html } from 'hono/html';
 
+/**
+ * Named DCQL query offered on the Digital Credentials page
+ *
+ * @public
+ */
+export interface DigitalCredentialsQuery {
+  /** Query name, sent as `?query=<name>` to the request generation endpoint */
+  name: string;
+  /** Button label */
+  label: string;
+  /** Optional helper text shown below the button */
+  description?: string;
+}
+
+/**
+ * Protocol offered on the Digital Credentials page
+ *
+ * @public
+ */
+export interface DigitalCredentialsProtocolOption {
+  /** Protocol name, sent as `?protocol=<name>` to the request generation endpoint */
+  name: string;
+  /** Option label */
+  label: string;
+}
+
 /**
  * Digital Credentials view properties
  *
+ * - `queries`: Named DCQL queries, one button is rendered per query
+ * - `protocols`: Protocols the user can choose from (the first one is selected)
  * - `getRequestPath`: Request generation endpoint
  * - `validateResponsePath`: Response validation endpoint
  * - `resultPath`: Result display path
@@ -12,6 +40,10 @@ import { html } from 'hono/html';
  * @public
  */
 export interface DigitalCredentialsProps {
+  /** Named DCQL queries */
+  queries: DigitalCredentialsQuery[];
+  /** Selectable protocols */
+  protocols: DigitalCredentialsProtocolOption[];
   /** Request generation endpoint */
   getRequestPath: string;
   /** Response validation endpoint */
@@ -31,6 +63,8 @@ export interface DigitalCredentialsProps {
  * @public
  */
 export const DigitalCredentials: FC<DigitalCredentialsProps> = ({
+  queries,
+  protocols,
   getRequestPath,
   validateResponsePath,
   resultPath,
@@ -38,21 +72,49 @@ export const DigitalCredentials: FC<DigitalCredentialsProps> = ({
   return (
     <Card title="Start Verification">
       <>
-        <a
-          class="block text-center text-lg text-white bg-green-500 hover:bg-green-700 py-2 px-4 rounded mb-4"
-          role="button"
-          aria-label="Start mDL verification process"
-          id="mdl-verification-button"
-          onClick={(e) => {
-            e.preventDefault();
-          }}
-        >
-          mDL Verification
-        </a>
+        {protocols.length > 1 && (
+          <div class="mb-4">
+            <label class="block text-sm text-gray-600 mb-1" for="dc-protocol">
+              Protocol
+            </label>
+            <select
+              id="dc-protocol"
+              class="block w-full border border-gray-300 rounded py-2 px-3"
+            >
+              {protocols.map(({ name, label }) => (
+                <option value={name}>{label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {queries.map(({ name, label, description }) => (
+          <div class="mb-4">
+            <a
+              class="block text-center text-lg text-white bg-green-500 hover:bg-green-700 py-2 px-4 rounded"
+              role="button"
+              aria-label={`Start ${label} process`}
+              data-dcql-query={name}
+              onClick={(e) => {
+                e.preventDefault();
+              }}
+            >
+              {label}
+            </a>
+            {description && (
+              <p class="text-sm text-gray-600 mt-1">{description}</p>
+            )}
+          </div>
+        ))}
         {html`
           <script type="module">
-            const getRequest = async () => {
-              const response = await fetch('${getRequestPath}', {
+            const getRequest = async (query) => {
+              const url = new URL('${getRequestPath}', window.location.href);
+              url.searchParams.set('query', query);
+              const protocol = document.getElementById('dc-protocol');
+              if (protocol) {
+                url.searchParams.set('protocol', protocol.value);
+              }
+              const response = await fetch(url, {
                 headers: { Accept: 'application/json' },
               });
               if (!response.ok) {
@@ -78,8 +140,8 @@ export const DigitalCredentials: FC<DigitalCredentialsProps> = ({
               return data;
             };
 
-            const execute = async () => {
-              const request = await getRequest();
+            const execute = async (query) => {
+              const request = await getRequest(query);
               console.log('request', request);
               const credentialResponse = await navigator.credentials.get({
                 digital: {
@@ -113,10 +175,13 @@ export const DigitalCredentials: FC<DigitalCredentialsProps> = ({
                 window.location.pathname = '${resultPath}';
               }
             };
-            const button = document.getElementById('mdl-verification-button');
-            button.addEventListener('click', () => {
-              execute();
-            });
+            document
+              .querySelectorAll('[data-dcql-query]')
+              .forEach((button) => {
+                button.addEventListener('click', () => {
+                  execute(button.dataset.dcqlQuery);
+                });
+              });
           </script>
         `}
       </>
@@ -9,6 +9,36 @@ import { Card } from './components/card';
 export interface HomeProps {
   /** The route path for transaction initialization (e.g., '/init') */
   initTransactionPath: string;
+  /** Registered presentation definitions, one button is rendered per entry */
+  definitions: HomeDefinition[];
+}
+
+/**
+ * Presentation definition entry listed on the Home page
+ *
+ * @public
+ */
+export interface HomeDefinition {
+  /** Registry key, linked as `${initTransactionPath}/${key}` */
+  key: string;
+  /** Button label */
+  label: string;
+  /** Optional helper text shown below the button */
+  description?: string;
+  /** Claims the operator can leave out; rendered as checkboxes when present */
+  claims?: HomeClaim[];
+}
+
+/**
+ * Claim of a presentation definition the operator can leave out of a request
+ *
+ * @public
+ */
+export interface HomeClaim {
+  /** Claim id, sent as a `claims` query parameter */
+  id: string;
+  /** Checkbox label */
+  label: string;
 }
 
 /**
@@ -16,11 +46,13 @@ export interface HomeProps {
  *
  * This component serves as the landing page and entry point for the credential
  * verification process. It provides users with a clear call-to-action to begin
- * the mDL (mobile Driver's License) verification workflow.
+ * the verification workflow for each registered presentation definition.
  *
  * ## Features
  *
- * - **Clear Navigation**: Prominent button to start the verification process
+ * - **Clear Navigation**: One button per registered presentation definition
+ * - **Selective Disclosure**: Checkboxes to request only the claims needed,
+ *   for definitions with selectable claims
  * - **User-Friendly Interface**: Simple, intuitive design with clear messaging
  * - **Responsive Design**: Adapts to different screen sizes through the Card component
  * - **Accessibility**: Semantic HTML with proper link structure
@@ -29,18 +61,23 @@ export interface HomeProps {
  *
  * The home page represents the first step in the OID4VC verification flow:
  * 1. User lands on the home page
- * 2. User clicks "mDL Verification" button
+ * 2. User clicks the button of the credential to present (e.g. "mDL Verification")
  * 3. User is redirected to the transaction initialization page
  * 4. Verification process begins
  *
  * @example
  * ```typescript
  * // Usage in routing
- * return c.render(<Home initTransactionPath="/init" />);
+ * return c.render(
+ *   <Home
+ *     initTransactionPath="/init"
+ *     definitions={[{ key: 'mDL', label: 'mDL Verification' }]}
+ *   />
+ * );
  *
  * // The component renders a card with:
  * // - "Start Verification" title
- * // - "mDL Verification" button linking to initTransactionPath
+ * // - "mDL Verification" button linking to `${initTransactionPath}/mDL`
  * ```
  *
  * @param props - Component properties
@@ -48,7 +85,7 @@ export interface HomeProps {
  *
  * @public
  */
-export const Home: FC<HomeProps> = ({ initTransactionPath }) => {
+export const Home: FC<HomeProps> = ({ initTransactionPath, definitions }) => {
   // Validate required props
   if (!initTransactionPath || typeof initTransactionPath !== 'string') {
     console.error(
@@ -68,22 +105,51 @@ export const Home: FC<HomeProps> = ({ initTransactionPath }) => {
   return (
     <Card title="Start Verification">
       <>
-        <a
-          href={initTransactionPath}
-          class="block text-center text-lg text-white bg-green-500 hover:bg-green-700 py-2 px-4 rounded mb-4"
-          role="button"
-          aria-label="Start mDL verification process"
-        >
-          mDL Verification
-        </a>
-        <a
-          href={`${initTransactionPath}/unifiedID`}
-          class="block text-center text-lg text-white bg-green-500 hover:bg-green-700 py-2 px-4 rounded mb-4"
-          role="button"
-          aria-label="Start unifiedID verification process"
-        >
-          UnifiedID Verification
-        </a>
+        {definitions.map(({ key, label, description, claims }) => (
+          <div class="mb-4">
+            {claims && claims.length > 0 ? (
+              <form method="get" action={`${initTransactionPath}/${key}`}>
+                <input type="hidden" name="claims" value="" />
+                <button
+                  type="submit"
+                  class="block w-full text-center text-lg text-white bg-green-500 hover:bg-green-700 py-2 px-4 rounded"
+                  aria-label={`Start ${label} process`}
+                >
+                  {label}
+                </button>
+                <fieldset class="mt-1">
+                  <legend class="text-sm text-gray-600">
+                    Attributes to request
+                  </legend>
+                  {claims.map((claim) => (
+                    <label class="inline-block text-sm text-gray-700 mr-3">
+                      <input
+                        type="checkbox"
+                        name="claims"
+                        value={claim.id}
+                        checked
+                        class="mr-1"
+                      />
+                      {claim.label}
+                    </label>
+                  ))}
+                </fieldset>
+              </form>
+            ) : (
+              <a
+                href={`${initTransactionPath}/${key}`}
+                class="block text-center text-lg text-white bg-green-500 hover:bg-green-700 py-2 px-4 rounded"
+                role="button"
+                aria-label={`Start ${label} process`}
+              >
+                {label}
+              </a>
+            )}
+            {description && (
+              <p class="text-sm text-gray-600 mt-1">{description}</p>
+            )}
+          </div>
+        ))}
       </>
     </Card>
   );
@@ -17,6 +17,11 @@ export interface InitProps {
   isMobile?: boolean;
   /** The route path to the result page for polling */
   resultPath?: string;
+  /**
+   * The URL of the status endpoint of the transaction; when given the page
+   * follows the transaction there instead of polling the result page
+   */
+  statusPath?: string;
 }
 
 /**
@@ -32,7 +37,10 @@ export interface InitProps {
  * - **QR Code Display**: Shows QR code for non-mobile devices for easy scanning
  * - **Direct Wallet Link**: Provides clickable link to redirect to wallet application
  * - **Device Detection**: Adapts interface based on detected device type
- * - **Auto-Polling**: Automatically checks for completion on non-mobile devices
+ * - **Live Status**: Follows the transaction on non-mobile devices and shows
+ *   whether it waits for the wallet, the wallet was opened from the link
+ *   (the page lost focus to it), the response is being verified, or it
+ *   failed or expired, with a button to try again
  * - **Navigation**: Back button to return to home page
  * - **Error Handling**: Graceful handling of QR code generation failures
  *
@@ -41,12 +49,16 @@ export interface InitProps {
  * ### Mobile Devices
  * - QR code is hidden (users are on the same device)
  * - Direct wallet redirect button is prominent
- * - No auto-polling (user will be redirected back)
+ * - No status updates (user will be redirected back)
  *
  * ### Desktop/Non-Mobile Devices
  * - QR code is displayed for mobile wallet scanning
  * - Wallet redirect button available as fallback
- * - Auto-polling checks result endpoint every second for 5 minutes
+ * - Server-sent status events from the status endpoint, reconnecting when
+ *   the server ends the stream and falling back to long polling when the
+ *   events cannot be received (e.g. behind buffering proxies) or the stream
+ *   fails; without a status endpoint the result page is polled every second
+ *   for 5 minutes
  *
  * ## Security Considerations
  *
@@ -63,6 +75,7 @@ export interface InitProps {
  *     homePath="/home"
  *     device="mobile"
  *     resultPath="/result"
+ *     statusPath="/api/transactions/abc123"
  *   />
  * );
  * ```
@@ -77,6 +90,7 @@ export const Init: FC<InitProps> = async ({
   homePath,
   isMobile,
   resultPath,
+  statusPath,
 }) => {
   // Validate required props
   if (!redirectUrl || typeof redirectUrl !== 'string') {
@@ -120,7 +134,8 @@ export const Init: FC<InitProps> = async ({
   }
 
   const shouldShowQR = !isMobile && qrCodeSvg;
-  const shouldEnablePolling = !isMobile && resultPath;
+  const shouldFollowStatus = !isMobile && resultPath && statusPath;
+  const shouldEnablePolling = !isMobile && resultPath && !statusPath;
 
   return (
     <Card title="Verification Started">
@@ -150,6 +165,22 @@ export const Init: FC<InitProps> = async ({
           Redirect to Wallet
         </a>
 
+        {shouldFollowStatus && (
+          <div class="text-center mb-4">
+            <p id="transaction-status" class="text-gray-600" aria-live="polite">
+              Waiting for the wallet...
+            </p>
+            <button
+              id="transaction-retry"
+              type="button"
+              class="mt-2 text-white bg-blue-500 hover:bg-blue-700 py-1 px-4 rounded"
+              hidden
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
         <a
           href={homePath}
           className="text-blue-500 hover:underline"
@@ -158,6 +189,176 @@ export const Init: FC<InitProps> = async ({
           Go back to Home
         </a>
 
+        {shouldFollowStatus &&
+          html`
+            <script>
+              (function () {
+                const STATUS_PATH = '${statusPath}';
+                const RESULT_PATH = '${resultPath}';
+                const LONG_POLL_WAIT = 25; // seconds
+                const RETRY_DELAY = 2000; // 2 seconds
+                const EXPIRY_GRACE = 5000; // 5 seconds
+                const BUFFERED_AFTER = 5000; // 5 seconds
+                const LAUNCH_WINDOW = 3000; // 3 seconds
+                const MESSAGES = {
+                  opened: 'Wallet opened. Waiting for the response...',
+                  completed: 'Verifying the response...',
+                  failed: 'The response of the wallet could not be verified.',
+                  expired: 'The request expired before the wallet responded.',
+                  unavailable: 'The status of the request is unavailable.',
+                };
+
+                const statusElement =
+                  document.getElementById('transaction-status');
+                const retryButton =
+                  document.getElementById('transaction-retry');
+                let source = null;
+                let expiryTimer = null;
+                let launchedAt = 0;
+                let done = false;
+
+                const show = (message) => {
+                  statusElement.textContent = message;
+                };
+
+                const finish = (state) => {
+                  done = true;
+                  clearTimeout(expiryTimer);
+                  if (source) {
+                    source.close();
+                  }
+                  show(MESSAGES[state]);
+                  if (state === 'completed') {
+                    window.location.href = RESULT_PATH;
+                    return;
+                  }
+                  statusElement.className = 'text-red-600';
+                  retryButton.hidden = false;
+                };
+
+                const update = (status) => {
+                  if (done) {
+                    return;
+                  }
+                  if (status.status !== 'pending') {
+                    finish(status.status);
+                    return;
+                  }
+                  // Give up shortly after the transaction should have expired
+                  clearTimeout(expiryTimer);
+                  const remaining = Date.parse(status.expiresAt) - Date.now();
+                  expiryTimer = setTimeout(
+                    () => finish('expired'),
+                    Math.max(remaining, 0) + EXPIRY_GRACE,
+                  );
+                };
+
+                const longPoll = async () => {
+                  while (!done) {
+                    try {
+                      const response = await fetch(
+                        STATUS_PATH + '?wait=' + LONG_POLL_WAIT,
+                        { headers: { Accept: 'application/json' } },
+                      );
+                      if (response.status === 404) {
+                        finish('unavailable');
+                        return;
+                      }
+                      if (response.ok) {
+                        update(await response.json());
+                        continue;
+                      }
+                    } catch (error) {
+                      console.warn('Status request failed:', error);
+                    }
+                    await new Promise((resolve) =>
+                      setTimeout(resolve, RETRY_DELAY),
+                    );
+                  }
+                };
+
+                const fallBack = () => {
+                  source.close();
+                  source = null;
+                  if (!done) {
+                    longPoll();
+                  }
+                };
+
+                const subscribe = () => {
+                  if (!window.EventSource) {
+                    longPoll();
+                    return;
+                  }
+                  const connectedAt = Date.now();
+                  let received = false;
+                  source = new EventSource(STATUS_PATH + '/events');
+                  source.addEventListener('status', (event) => {
+                    // The first event is sent at once unless a proxy buffers
+                    // the stream
+                    if (
+                      !received &&
+                      Date.now() - connectedAt > BUFFERED_AFTER
+                    ) {
+                      fallBack();
+                      return;
+                    }
+                    received = true;
+                    update(JSON.parse(event.data));
+                  });
+                  // Raised by the server (with data), when the stream ends or
+                  // when it cannot be received
+                  source.addEventListener('error', (event) => {
+                    if (
+                      event.data === undefined &&
+                      received &&
+                      source.readyState === EventSource.CONNECTING
+                    ) {
+                      // The server ended the stream after its longest wait
+                      source.close();
+                      source = null;
+                      if (!done) {
+                        subscribe();
+                      }
+                      return;
+                    }
+                    fallBack();
+                  });
+                };
+
+                // The wallet took over when the page loses focus right after
+                // its link was followed
+                const opened = () => {
+                  if (!done && Date.now() - launchedAt < LAUNCH_WINDOW) {
+                    show(MESSAGES.opened);
+                  }
+                };
+                document
+                  .querySelector('a[role="button"][href]')
+                  .addEventListener('click', () => {
+                    launchedAt = Date.now();
+                  });
+                window.addEventListener('blur', opened);
+                document.addEventListener('visibilitychange', () => {
+                  if (document.hidden) {
+                    opened();
+                  }
+                });
+                retryButton.addEventListener('click', () => {
+                  window.location.reload();
+                });
+                window.addEventListener('beforeunload', () => {
+                  done = true;
+                  if (source) {
+                    source.close();
+                  }
+                });
+
+                subscribe();
+              })();
+            </script>
+          `}
+
         {shouldEnablePolling &&
           html`
             <script>
@@ -1,6 +1,8 @@
 import { FC } from 'hono/jsx';
 import { Card } from './components/card';
 import { PresentationDetail } from './components/presntationDetail';
+import { PidSummary, readPidAttributes } from './components/pidSummary';
+import { AgeVerdict, readAgeVerdict } from './components/ageVerdict';
 
 /**
  * Props interface for the Result component
@@ -13,12 +15,135 @@ export interface ResultProps {
    * Array of credential documents with their respective data fields
    */
   data: Record<string, Record<string, unknown>>[] | undefined;
+  /**
+   * Verified documents grouped by DCQL credential id
+   * When present, documents are rendered under their credential id instead of `data`
+   */
+  credentials?: ResultCredential[];
+  /**
+   * Trust status of the issuer of each document
+   * Only present when a trust store of IACA roots is configured
+   */
+  issuers?: ResultIssuer[];
+  /**
+   * Validity period of each document
+   * Documents that are expired or not yet valid are flagged
+   */
+  validities?: ResultValidity[];
+  /**
+   * Names of document types and labels of their fields, keyed by document type
+   * Documents of other types are shown with their raw identifiers
+   */
+  labels?: Record<string, ResultDocumentLabels>;
+  /**
+   * Outcome of the verification policy of the presentation definition
+   * Only present when the presentation definition declares a policy
+   */
+  policy?: ResultPolicy;
   /** The raw VP (Verifiable Presentation) token string */
   vpToken: string;
   /** The route path to the home page for navigation */
   homePath: string;
 }
 
+/**
+ * Documents verified for one DCQL credential id
+ *
+ * @public
+ */
+export interface ResultCredential {
+  /** Credential id declared in the DCQL query */
+  id: string;
+  /** Verified credential documents returned for the id */
+  data: Record<string, Record<string, unknown>>[] | undefined;
+}
+
+/**
+ * Name and field labels of one document type
+ *
+ * @public
+ */
+export interface ResultDocumentLabels {
+  /** Name of the document type */
+  name: string;
+  /** Labels of the fields, keyed by field name */
+  claims: Record<string, string>;
+}
+
+/**
+ * Validity period of one document
+ *
+ * @public
+ */
+export interface ResultValidity {
+  /** Document type */
+  docType: string;
+  /** Whether the document is valid at the time of verification */
+  valid: boolean;
+  /** End of the validity period of the MSO (ISO 8601) */
+  validUntil?: string;
+  /** Expiry date of the document */
+  expiryDate?: string;
+  /** Whether the issuer expected to have updated the MSO by now */
+  updateOverdue?: boolean;
+  /** Why the document is not valid */
+  reason?: string;
+}
+
+/**
+ * Outcome of a verification policy
+ *
+ * @public
+ */
+export interface ResultPolicy {
+  /** `accept` when every rule holds, otherwise `reject` */
+  decision: 'accept' | 'reject';
+  /** Outcome of each rule */
+  outcomes: { rule: string; passed: boolean; reason?: string }[];
+}
+
+/**
+ * Trust status of the issuer of one document
+ *
+ * @public
+ */
+export interface ResultIssuer {
+  /** Document type */
+  docType: string;
+  /** Issuing authority named by the document signer certificate */
+  issuingAuthority: string;
+  /** Whether the document signer chain ends at a trusted IACA root */
+  trusted: boolean;
+  /** Why the chain is not trusted */
+  reason?: string;
+}
+
+/**
+ * Renders each document of a credential list
+ * @private
+ */
+const renderDocuments = (
+  data: Record<string, Record<string, unknown>>[] | undefined,
+  keyPrefix: string,
+  labels: Record<string, ResultDocumentLabels> | undefined,
+) =>
+  data?.map((credential, credentialIndex) =>
+    Object.entries(credential).map(([documentId, documentData], entryIndex) => {
+      const pid = readPidAttributes(documentId, documentData);
+      return (
+        <>
+          {pid && <PidSummary attributes={pid} />}
+          <PresentationDetail
+            key={`${keyPrefix}${credentialIndex}-${entryIndex}-${documentId}`}
+            title={labels?.[documentId]?.name ?? documentId}
+            data={documentData}
+            labels={labels?.[documentId]?.claims}
+          />
+        </>
+      );
+    }),
+  );
+
 /**
  * Verification result display component for the OID4VC verifier frontend
  *
@@ -30,6 +155,18 @@ export interface ResultProps {
  *
  * - **Credential Display**: Shows verified credential data in organized sections
  * - **Raw Token Access**: Provides expandable section with raw VP token
+ * - **Validity**: Flags documents that are expired or not yet valid, and
+ *   MSOs the issuer expected to have updated, when `validities` is provided
+ * - **Issuer Trust**: Shows the issuing authority of each document and
+ *   whether its certificate chain is trusted, when `issuers` is provided
+ * - **Field Labels**: Shows document type names and field labels of the
+ *   registered mdoc namespaces, when `labels` is provided
+ * - **PID Summary**: Summarises family name, birth date, nationality, age
+ *   attestations and issuing country of EU PIDs (mdoc and SD-JWT VC)
+ * - **Age Verdict**: Shows a large pass/fail verdict instead of the
+ *   documents when nothing but age attestations was disclosed
+ * - **Verification Policy**: Shows the outcome of each policy rule and the
+ *   overall decision, when `policy` is provided
  * - **Error Handling**: Graceful handling of missing or invalid data
  * - **Navigation**: Back button to return to home page
  * - **Accessibility**: Proper labeling and semantic structure
@@ -40,7 +177,8 @@ export interface ResultProps {
  * The component processes credential data by:
  * 1. Iterating through verified credential documents
  * 2. Extracting document IDs and associated data
- * 3. Rendering each document using PresentationDetail component
+ * 3. Rendering each document using PresentationDetail component, grouped by
+ *    DCQL credential id when `credentials` is provided
  * 4. Handling various data types (text, images, dates, objects)
  *
  * ## Security Considerations
@@ -79,7 +217,16 @@ export interface ResultProps {
  *
  * @public
  */
-export const Result: FC<ResultProps> = ({ data, vpToken, homePath }) => {
+export const Result: FC<ResultProps> = ({
+  data,
+  credentials,
+  issuers,
+  validities,
+  labels,
+  policy,
+  vpToken,
+  homePath,
+}) => {
   // Validate required props
   if (!vpToken || typeof vpToken !== 'string') {
     console.error('Result component: vpToken is required and must be a string');
@@ -127,23 +274,92 @@ export const Result: FC<ResultProps> = ({ data, vpToken, homePath }) => {
         typeof credential === 'object' &&
         Object.keys(credential).length > 0,
     );
+  const ageVerdict = hasValidCredentials ? readAgeVerdict(data) : undefined;
 
   return (
     <Card title="Presentation Result">
       <>
-        <div role="region" aria-label="Verified credential information">
-          {hasValidCredentials ? (
-            data?.map((credential, credentialIndex) =>
-              Object.entries(credential).map(
-                ([documentId, documentData], entryIndex) => (
-                  <PresentationDetail
-                    key={`${credentialIndex}-${entryIndex}-${documentId}`}
-                    title={documentId}
-                    data={documentData}
-                  />
+        {validities && validities.length > 0 && (
+          <section className="mb-4" aria-label="Validity">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">
+              Validity
+            </h3>
+            <ul>
+              {validities.map(
+                (
+                  {
+                    docType,
+                    valid,
+                    validUntil,
+                    expiryDate,
+                    updateOverdue,
+                    reason,
+                  },
+                  index,
+                ) => (
+                  <li key={`${index}-${docType}`} className="mb-1">
+                    <span className="font-medium">{docType}: </span>
+                    {valid ? (
+                      <span className="text-green-600">
+                        Valid until {expiryDate ?? validUntil}
+                      </span>
+                    ) : (
+                      <span className="text-red-600" role="alert">
+                        {reason ?? 'Not valid'}
+                      </span>
+                    )}
+                    {updateOverdue && (
+                      <span className="text-yellow-600"> (update overdue)</span>
+                    )}
+                  </li>
                 ),
-              ),
-            )
+              )}
+            </ul>
+          </section>
+        )}
+
+        {policy && (
+          <section className="mb-4" aria-label="Verification policy">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">
+              Verification Policy:{' '}
+              {policy.decision === 'accept' ? (
+                <span className="text-green-600">Accepted</span>
+              ) : (
+                <span className="text-red-600">Rejected</span>
+              )}
+            </h3>
+            <ul>
+              {policy.outcomes.map(({ rule, passed, reason }, index) => (
+                <li key={`${index}-${rule}`} className="mb-1">
+                  <span className={passed ? 'text-green-600' : 'text-red-600'}>
+                    {passed ? 'Passed' : 'Failed'}
+                  </span>
+                  <span className="text-gray-800">: {rule}</span>
+                  {reason && <span className="text-gray-500"> ({reason})</span>}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <div role="region" aria-label="Verified credential information">
+          {ageVerdict ? (
+            <AgeVerdict verdict={ageVerdict} />
+          ) : hasValidCredentials && credentials?.length ? (
+            credentials.map(({ id, data: credentialData }) => (
+              <section
+                key={id}
+                className="mb-4"
+                aria-label={`Credential ${id}`}
+              >
+                <h3 className="text-lg font-semibold text-gray-800 mb-2">
+                  {id}
+                </h3>
+                {renderDocuments(credentialData, `${id}-`, labels)}
+              </section>
+            ))
+          ) : hasValidCredentials ? (
+            renderDocuments(data, '', labels)
           ) : (
             <div className="text-center text-gray-600 mb-4">
               <p>No credential data available to display.</p>
@@ -157,6 +373,31 @@ export const Result: FC<ResultProps> = ({ data, vpToken, homePath }) => {
           )}
         </div>
 
+        {issuers && issuers.length > 0 && (
+          <section className="mt-4" aria-label="Issuing authorities">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">
+              Issuing Authority
+            </h3>
+            <ul>
+              {issuers.map(
+                ({ docType, issuingAuthority, trusted, reason }, index) => (
+                  <li key={`${index}-${docType}`} className="mb-1">
+                    <span className="font-medium">{issuingAuthority}</span>
+                    <span className="text-gray-600"> ({docType}): </span>
+                    {trusted ? (
+                      <span className="text-green-600">Trusted</span>
+                    ) : (
+                      <span className="text-red-600" title={reason}>
+                        Not trusted
+                      </span>
+                    )}
+                  </li>
+                ),
+              )}
+            </ul>
+          </section>
+        )}
+
         <details class="mt-6" role="region" aria-label="Raw verification token">
           <summary className="cursor-pointer text-gray-700 hover:text-gray-900">
             Raw VP Token
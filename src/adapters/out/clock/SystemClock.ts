@@ -0,0 +1,36 @@
+import { Clock } from '../../../ports/out/clock';
+
+/**
+ * Clock skew tolerated when no `CLOCK_SKEW_SECONDS` is configured
+ *
+ * @public
+ */
+export const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Clock reading the time of the system
+ *
+ * @public
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Reads the clock skew tolerated between the verifier and issuers
+ *
+ * @param value - Skew in seconds, typically the `CLOCK_SKEW_SECONDS` binding
+ * @returns The skew in milliseconds, {@link DEFAULT_CLOCK_SKEW_SECONDS} when `value` is empty
+ * @throws {Error} `Invalid clock skew ...` when the value is not a number of seconds
+ *
+ * @public
+ */
+export const parseClockSkew = (value?: string): number => {
+  if (!value || !value.trim()) {
+    return DEFAULT_CLOCK_SKEW_SECONDS * 1000;
+  }
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`Invalid clock skew: ${value}`);
+  }
+  return Number(value) * 1000;
+};
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CLOCK_SKEW_SECONDS, parseClockSkew } from '../SystemClock';
+
+describe('parseClockSkew', () => {
+  it('should read the skew in seconds as milliseconds', () => {
+    expect(parseClockSkew('120')).toBe(120000);
+    expect(parseClockSkew(' 0 ')).toBe(0);
+  });
+
+  it('should default when no skew is configured', () => {
+    expect(parseClockSkew()).toBe(DEFAULT_CLOCK_SKEW_SECONDS * 1000);
+    expect(parseClockSkew('  ')).toBe(DEFAULT_CLOCK_SKEW_SECONDS * 1000);
+  });
+
+  it.each(['-1', '1.5', 'a minute'])('should reject %j', (value) => {
+    expect(() => parseClockSkew(value)).toThrow(`Invalid clock skew: ${value}`);
+  });
+});
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+
+/**
+ * Parses and validates a JSON or YAML configuration document
+ *
+ * YAML is a superset of JSON, so both formats go through the YAML parser.
+ *
+ * @param source - Configuration document
+ * @param schema - Schema the document is validated against
+ * @param name - Name of the configuration used in error messages
+ * @returns The validated document
+ * @throws {Error} When the document cannot be parsed or fails validation
+ *
+ * @public
+ */
+export const parseConfigDocument = <S extends z.ZodTypeAny>(
+  source: string,
+  schema: S,
+  name: string
+): z.output<S> => {
+  let document: unknown;
+  try {
+    document = parseYaml(source);
+  } catch (error) {
+    throw new Error(
+      `Invalid ${name} configuration: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const result = schema.safeParse(document);
+  if (!result.success) {
+    throw new Error(`Invalid ${name} configuration: ${result.error.message}`);
+  }
+  return result.data;
+};
+
+/**
+ * Creates a loader of the object configured by a document
+ *
+ * Parsed objects are cached per source so that the configuration is
+ * validated once per isolate rather than once per request.
+ *
+ * @example
+ * ```typescript
+ * const loadTrustStore = createConfigLoader(StaticTrustStore.parse, undefined);
+ * const trustStore = loadTrustStore(env.IACA_TRUST_ANCHORS);
+ * ```
+ *
+ * @param parse - Builds the object from a configuration document
+ * @param fallback - Returned when no configuration is provided
+ * @returns Loader taking the document, typically an environment binding
+ *
+ * @public
+ */
+export const createConfigLoader = <T, F>(
+  parse: (source: string) => T,
+  fallback: F
+): ((source?: string) => T | F) => {
+  const cache = new Map<string, T>();
+
+  return (source) => {
+    if (!source || !source.trim()) {
+      return fallback;
+    }
+
+    const cached = cache.get(source);
+    if (cached) {
+      return cached;
+    }
+
+    const parsed = parse(source);
+    cache.set(source, parsed);
+    return parsed;
+  };
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { createConfigLoader, parseConfigDocument } from '../ConfigDocument';
+
+const schema = z.object({ names: z.array(z.string()) });
+
+describe('parseConfigDocument', () => {
+  it('should parse a JSON document', () => {
+    expect(parseConfigDocument('{"names": ["a"]}', schema, 'name')).toEqual({
+      names: ['a'],
+    });
+  });
+
+  it('should parse a YAML document', () => {
+    expect(parseConfigDocument('names:\n  - a\n', schema, 'name')).toEqual({
+      names: ['a'],
+    });
+  });
+
+  it('should reject a malformed document', () => {
+    expect(() => parseConfigDocument('names: [a', schema, 'name')).toThrow(
+      'Invalid name configuration'
+    );
+  });
+
+  it('should reject a document failing validation', () => {
+    expect(() => parseConfigDocument('names: a', schema, 'name')).toThrow(
+      'Invalid name configuration'
+    );
+  });
+});
+
+describe('createConfigLoader', () => {
+  it('should return the fallback without a source', () => {
+    const parse = vi.fn();
+    const load = createConfigLoader(parse, 'fallback');
+
+    expect(load()).toBe('fallback');
+    expect(load('  ')).toBe('fallback');
+    expect(parse).not.toHaveBeenCalled();
+  });
+
+  it('should parse each source once', () => {
+    const parse = vi.fn((source: string) => ({ source }));
+    const load = createConfigLoader(parse, undefined);
+
+    const first = load('a');
+    expect(load('a')).toBe(first);
+    expect(load('b')).not.toBe(first);
+    expect(parse).toHaveBeenCalledTimes(2);
+  });
+});
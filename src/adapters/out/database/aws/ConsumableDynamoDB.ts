@@ -0,0 +1,59 @@
+import { DynamoDB } from '@vecrea/oid4vc-core';
+import { DeleteCommand, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+/**
+ * DynamoDB wrapper that can also take items
+ *
+ * Items are stored the same way as by the wrapped `DynamoDB` of
+ * `@vecrea/oid4vc-core` (`key`, `value` and `expiresAt` attributes).
+ *
+ * @example
+ * ```typescript
+ * const dynamoDB = new ConsumableDynamoDB(documentClient, tableName);
+ * const value = await dynamoDB.take('dc:<sessionId>');
+ * ```
+ *
+ * @public
+ */
+export class ConsumableDynamoDB extends DynamoDB {
+  readonly #client: DynamoDBDocumentClient;
+  readonly #tableName: string;
+
+  /**
+   * @param client - DynamoDB document client
+   * @param tableName - Name of the DynamoDB table
+   */
+  constructor(client: DynamoDBDocumentClient, tableName: string) {
+    super(client, tableName);
+    this.#client = client;
+    this.#tableName = tableName;
+  }
+
+  /**
+   * Deletes an item and returns its value
+   *
+   * The item is read and deleted by a single `DeleteItem` request, so that
+   * concurrent callers never both receive the value. Expired items, which
+   * DynamoDB only removes eventually, are taken as missing.
+   *
+   * @param key - Key of the item
+   * @returns The value of the deleted item, or `null` when there was none
+   */
+  async take(key: string): Promise<string | null> {
+    const { Attributes } = await this.#client.send(
+      new DeleteCommand({
+        TableName: this.#tableName,
+        Key: { key },
+        ReturnValues: 'ALL_OLD',
+      })
+    );
+    if (
+      typeof Attributes?.value !== 'string' ||
+      (typeof Attributes.expiresAt === 'number' &&
+        Attributes.expiresAt <= Math.floor(Date.now() / 1000))
+    ) {
+      return null;
+    }
+    return Attributes.value;
+  }
+}
@@ -1,15 +1,6 @@
 import { DurableObject } from 'cloudflare:workers';
 import { Env } from 'hono';
 
-/** Default session expiration time in seconds (24 hours) */
-const EXPIRATION_TTL = 24 * 60 * 60;
-
-/**
- * Duration for setting the next alarm for garbage collection (24 hours in milliseconds).
- * @constant {number}
- */
-const ALARM_DURATION_MS = 24 * 60 * 60 * 1000;
-
 /**
  * Presentation information stored within the Durable Object
  *
@@ -19,7 +10,7 @@ interface StoredSession {
   /** Presentation JSON data or string format */
   data: string;
 
-  /** Expiration timestamp in milliseconds */
+  /** Expiration timestamp in milliseconds; `Infinity` when never removed */
   expiresAt: number;
 }
 
@@ -37,31 +28,55 @@ export class DurableObjectBase extends DurableObject {
   /**
    * Saves presentation data
    *
+   * The data expires after the given time: it is no longer returned and is
+   * removed by the next garbage collection.
+   *
    * @param key - The key to store under
    * @param data - Presentation JSON data or string
+   * @param ttl - Expiration time in seconds
    * @returns Promise that resolves when save is complete
    *
    * @example
    * ```typescript
-   * await durableObject.save('presentation:123', presentationJson);
+   * await durableObject.save('presentation:123', presentationJson, 86400);
    * ```
    */
-  async save(key: string, data: string): Promise<void> {
+  async save(key: string, data: string, ttl: number): Promise<void> {
+    const expiresAt = Date.now() + ttl * 1000;
+
     // Store data with expiration timestamp
+    await this.ctx.storage.put<StoredSession>(key, { data, expiresAt });
+
+    // Ensure garbage collection runs when the data expires
+    await this.scheduleAlarm(expiresAt);
+  }
+
+  /**
+   * Saves data that is never removed by garbage collection
+   *
+   * For long-lived copies such as the VICAL, as opposed to session data.
+   *
+   * @param key - The key to store under
+   * @param data - Data to store
+   * @returns Promise that resolves when save is complete
+   *
+   * @example
+   * ```typescript
+   * await durableObject.persist('vical', encodedVical);
+   * ```
+   */
+  async persist(key: string, data: string): Promise<void> {
     await this.ctx.storage.put<StoredSession>(key, {
       data,
-      expiresAt: Date.now() + EXPIRATION_TTL,
+      expiresAt: Number.POSITIVE_INFINITY,
     });
-
-    // Ensure garbage collection alarm is set
-    await this.setNextAlarm();
   }
 
   /**
    * Retrieves presentation data for the specified key
    *
    * @param key - The key to retrieve
-   * @returns Presentation data or undefined if not found
+   * @returns Presentation data or undefined if not found or expired
    *
    * @example
    * ```typescript
@@ -73,7 +88,7 @@ export class DurableObjectBase extends DurableObject {
    */
   async get(key: string): Promise<string | undefined> {
     // Retrieve stored data from Durable Object storage
-    const storedData = await this.ctx.storage.get<StoredSession>(key);
+    const storedData = await this.load(key);
 
     // Return undefined if data doesn't exist
     if (!storedData) {
@@ -85,29 +100,69 @@ export class DurableObjectBase extends DurableObject {
   }
 
   /**
-   * Sets the next alarm for garbage collection
+   * Retrieves and deletes data for the specified key
+   *
+   * Runs as a single Durable Object call, so concurrent requests
+   * cannot both read the same value.
+   *
+   * @param key - The key to retrieve
+   * @returns Stored data or undefined if not found or expired
+   *
+   * @example
+   * ```typescript
+   * const data = await durableObject.take('dc:123');
+   * ```
+   */
+  async take(key: string): Promise<string | undefined> {
+    const storedData = await this.load(key);
+    if (!storedData) {
+      return undefined;
+    }
+
+    await this.ctx.storage.delete(key);
+    return storedData.data;
+  }
+
+  /**
+   * Reads stored data, treating expired data as absent
+   *
+   * Expired data is deleted right away instead of waiting for the garbage
+   * collection.
+   *
+   * @private
+   */
+  private async load(key: string): Promise<StoredSession | undefined> {
+    const storedData = await this.ctx.storage.get<StoredSession>(key);
+    if (storedData && storedData.expiresAt <= Date.now()) {
+      await this.ctx.storage.delete(key);
+      return undefined;
+    }
+    return storedData;
+  }
+
+  /**
+   * Schedules garbage collection for the given expiration time
    *
-   * Does nothing if an alarm is already set.
-   * Sets an alarm 24 hours from now for garbage collection.
+   * Does nothing if an alarm is already set at or before that time, so the
+   * alarm always follows the earliest expiration.
    *
    * @private
    */
-  private async setNextAlarm() {
-    // Check if an alarm is already scheduled
+  private async scheduleAlarm(expiresAt: number) {
+    // Check if an earlier alarm is already scheduled
     const alarm = await this.ctx.storage.getAlarm();
-    if (alarm && alarm > 0) {
-      return; // Alarm already exists, nothing to do
+    if (alarm !== null && alarm <= expiresAt) {
+      return;
     }
 
-    // Schedule the next garbage collection alarm
-    await this.ctx.storage.setAlarm(Date.now() + ALARM_DURATION_MS);
+    await this.ctx.storage.setAlarm(expiresAt);
   }
 
   /**
    * Alarm handler for garbage collection of expired data
    *
-   * Executed periodically to automatically delete presentation data
-   * that has passed its expiration time. Sets the next alarm after completion.
+   * Deletes presentation data that has passed its expiration time, then sets
+   * the next alarm to the earliest expiration of the remaining data.
    *
    * @async
    */
@@ -117,14 +172,19 @@ export class DurableObjectBase extends DurableObject {
     // Get all stored data for expiration check
     const allData = await this.ctx.storage.list<StoredSession>();
 
-    // Delete expired entries
+    // Delete expired entries and find the next expiration
+    let nextExpiresAt = Number.POSITIVE_INFINITY;
     for (const [key, value] of allData) {
-      if (value.expiresAt < now) {
+      if (value.expiresAt <= now) {
         await this.ctx.storage.delete(key);
+      } else if (value.expiresAt < nextExpiresAt) {
+        nextExpiresAt = value.expiresAt;
       }
     }
 
-    // Schedule the next garbage collection cycle
-    await this.setNextAlarm();
+    // Schedule the next garbage collection, unless only persisted data is left
+    if (Number.isFinite(nextExpiresAt)) {
+      await this.scheduleAlarm(nextExpiresAt);
+    }
   }
 }
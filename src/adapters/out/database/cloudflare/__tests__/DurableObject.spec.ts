@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('cloudflare:workers', () => ({
+  DurableObject: class {
+    constructor(protected ctx: unknown, protected env: unknown) {}
+  },
+}));
+
+import { DurableObjectBase } from '../DurableObject';
+
+const createStorage = () => {
+  const entries = new Map<string, unknown>();
+  let alarm: number | null = null;
+  return {
+    entries,
+    get: vi.fn(async (key: string) => entries.get(key)),
+    put: vi.fn(async (key: string, value: unknown) => {
+      entries.set(key, structuredClone(value));
+    }),
+    delete: vi.fn(async (key: string) => entries.delete(key)),
+    list: vi.fn(async () => new Map(entries)),
+    getAlarm: vi.fn(async () => alarm),
+    setAlarm: vi.fn(async (time: number) => {
+      alarm = time;
+    }),
+    clearAlarm: () => {
+      alarm = null;
+    },
+  };
+};
+
+describe('DurableObjectBase', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+  let storage: ReturnType<typeof createStorage>;
+  let durableObject: DurableObjectBase;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    storage = createStorage();
+    durableObject = new DurableObjectBase({ storage } as any, {} as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep data for the TTL in seconds', async () => {
+    await durableObject.save('key', 'data', 600);
+
+    vi.setSystemTime(now + 599_999);
+    await expect(durableObject.get('key')).resolves.toBe('data');
+
+    vi.setSystemTime(now + 600_000);
+    await expect(durableObject.get('key')).resolves.toBeUndefined();
+    expect(storage.entries.has('key')).toBe(false);
+  });
+
+  it('should not take expired data', async () => {
+    await durableObject.save('key', 'data', 60);
+
+    vi.setSystemTime(now + 60_000);
+
+    await expect(durableObject.take('key')).resolves.toBeUndefined();
+  });
+
+  it('should set the alarm to the earliest expiration', async () => {
+    await durableObject.save('long', 'data', 600);
+    expect(await storage.getAlarm()).toBe(now + 600_000);
+
+    await durableObject.save('short', 'data', 60);
+    expect(await storage.getAlarm()).toBe(now + 60_000);
+
+    await durableObject.save('longer', 'data', 6000);
+    expect(await storage.getAlarm()).toBe(now + 60_000);
+  });
+
+  it('should remove expired data and follow the next expiration', async () => {
+    await durableObject.save('short', 'data', 60);
+    await durableObject.save('long', 'data', 600);
+    await durableObject.persist('vical', 'data');
+
+    vi.setSystemTime(now + 60_000);
+    storage.clearAlarm();
+    await durableObject.alarm();
+
+    expect([...storage.entries.keys()]).toEqual(['long', 'vical']);
+    expect(await storage.getAlarm()).toBe(now + 600_000);
+  });
+
+  it('should keep persisted data without an alarm', async () => {
+    await durableObject.persist('vical', 'data');
+
+    vi.setSystemTime(now + 365 * 24 * 60 * 60 * 1000);
+    await durableObject.alarm();
+
+    await expect(durableObject.get('vical')).resolves.toBe('data');
+    expect(await storage.getAlarm()).toBeNull();
+  });
+});
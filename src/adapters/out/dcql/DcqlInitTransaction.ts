@@ -0,0 +1,141 @@
+import {
+  CreateInitTransactionServiceConfig,
+  EphemeralECDHPublicJwk,
+  InitTransaction,
+  InitTransactionResponse,
+  InitTransactionServiceError,
+  initTransactionResponseSchema,
+  storeTransactionInSession,
+  validateUserAgent,
+} from '@vecrea/oid4vc-verifier-frontend-core';
+import { DcqlQuery } from './DcqlQuery';
+
+/**
+ * Configuration of the DCQL InitTransaction service
+ *
+ * Same as the core InitTransaction service, with the DCQL query in place of
+ * the presentation definition.
+ *
+ * @public
+ */
+export type CreateDcqlInitTransactionServiceConfig = Omit<
+  CreateInitTransactionServiceConfig,
+  'generatePresentationDefinition' | 'presentationDefinitionMode'
+> & {
+  /** DCQL query sent to the backend */
+  dcqlQuery: DcqlQuery;
+};
+
+/**
+ * Creates an InitTransaction service requesting a DCQL query
+ *
+ * Mirrors the core InitTransaction service, but the request sent to the
+ * backend carries a `dcql_query` instead of a `presentation_definition`.
+ * The transaction is kept in the session the same way, so that the core
+ * GetWalletResponse service retrieves its result.
+ *
+ * @example
+ * ```typescript
+ * const service = createDcqlInitTransactionService({ ...config, dcqlQuery });
+ * const { walletRedirectUri, isMobile } = await service(c.req.raw);
+ * ```
+ *
+ * @param config - Configuration of the service
+ * @returns The InitTransaction service
+ * @throws {InitTransactionServiceError} When required parameters are missing
+ *
+ * @public
+ */
+export const createDcqlInitTransactionService = ({
+  apiBaseUrl,
+  apiPath,
+  publicUrl,
+  walletUrl,
+  walletResponseRedirectPath,
+  walletResponseRedirectQueryTemplate,
+  isMobile,
+  tokenType,
+  generateNonce,
+  responseMode,
+  jarMode,
+  generateWalletResponseRedirectUriTemplate,
+  post,
+  session,
+  generateWalletRedirectUri,
+  generateEphemeralECDHPrivateJwk,
+  dcqlQuery,
+}: CreateDcqlInitTransactionServiceConfig): InitTransaction => {
+  if (!apiBaseUrl || !apiPath || !publicUrl || !walletUrl || !dcqlQuery) {
+    throw new InitTransactionServiceError(
+      'INVALID_RESPONSE',
+      'Required configuration parameters are missing'
+    );
+  }
+
+  return async (request) => {
+    try {
+      const mobile = isMobile(validateUserAgent(request));
+      const nonce = generateNonce();
+      const privateJwk = (await generateEphemeralECDHPrivateJwk()).getOrThrow();
+      const { d: _d, ...publicJwk } = JSON.parse(privateJwk.toJSON());
+
+      const body = {
+        type: tokenType,
+        dcql_query: dcqlQuery,
+        ephemeral_ecdh_public_jwk: new EphemeralECDHPublicJwk(
+          JSON.stringify(publicJwk)
+        ).toJSON(),
+        nonce,
+        response_mode: responseMode,
+        jar_mode: jarMode,
+        wallet_response_redirect_uri_template: mobile
+          ? generateWalletResponseRedirectUriTemplate(
+              publicUrl,
+              walletResponseRedirectPath,
+              walletResponseRedirectQueryTemplate
+            )
+          : undefined,
+      };
+
+      let response: InitTransactionResponse;
+      try {
+        const { data } = await post(
+          apiBaseUrl,
+          apiPath,
+          JSON.stringify(body),
+          initTransactionResponseSchema
+        );
+        response = InitTransactionResponse.fromJSON(data);
+      } catch (error) {
+        throw new InitTransactionServiceError(
+          'API_REQUEST_FAILED',
+          'Failed to communicate with InitTransaction API',
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+
+      await storeTransactionInSession(
+        session,
+        response.presentationId,
+        nonce,
+        privateJwk
+      );
+
+      return {
+        walletRedirectUri: generateWalletRedirectUri(
+          walletUrl,
+          response.toWalletRedirectParams()
+        ),
+        isMobile: mobile,
+      };
+    } catch (error) {
+      throw error instanceof InitTransactionServiceError
+        ? error
+        : new InitTransactionServiceError(
+            'API_REQUEST_FAILED',
+            'Unexpected error during transaction initialization',
+            error instanceof Error ? error : new Error(String(error))
+          );
+    }
+  };
+};
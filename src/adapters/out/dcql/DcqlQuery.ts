@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+/**
+ * Schema of a DCQL claims query
+ *
+ * @see https://openid.net/specs/openid-4-verifiable-presentations-1_0.html#name-claims-query
+ * @public
+ */
+export const dcqlClaimsQuerySchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    path: z.array(z.union([z.string(), z.number().int(), z.null()])).min(1),
+    values: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    intent_to_retain: z.boolean().optional(),
+  })
+  .passthrough();
+
+/**
+ * Schema of a DCQL credential query
+ *
+ * @see https://openid.net/specs/openid-4-verifiable-presentations-1_0.html#name-credential-query
+ * @public
+ */
+export const dcqlCredentialQuerySchema = z
+  .object({
+    id: z
+      .string()
+      .regex(
+        /^[a-zA-Z0-9\-_]+$/,
+        'id must only contain letters, digits, "-" and "_"'
+      ),
+    format: z.string().min(1),
+    multiple: z.boolean().optional(),
+    meta: z.record(z.unknown()).optional(),
+    claims: z.array(dcqlClaimsQuerySchema).min(1).optional(),
+    claim_sets: z.array(z.array(z.string()).min(1)).min(1).optional(),
+  })
+  .passthrough();
+
+/**
+ * Schema of a DCQL credential set query
+ *
+ * @see https://openid.net/specs/openid-4-verifiable-presentations-1_0.html#name-credential-set-query
+ * @public
+ */
+export const dcqlCredentialSetQuerySchema = z
+  .object({
+    options: z.array(z.array(z.string()).min(1)).min(1),
+    required: z.boolean().optional(),
+  })
+  .passthrough();
+
+/**
+ * Schema of a DCQL query
+ *
+ * Besides the structural checks, credential ids must be unique and every id
+ * referenced from `credential_sets` must be declared in `credentials`.
+ *
+ * @public
+ */
+export const dcqlQuerySchema = z
+  .object({
+    credentials: z.array(dcqlCredentialQuerySchema).min(1),
+    credential_sets: z.array(dcqlCredentialSetQuerySchema).min(1).optional(),
+  })
+  .passthrough()
+  .superRefine(({ credentials, credential_sets }, ctx) => {
+    const ids = new Set<string>();
+    credentials.forEach(({ id }, index) => {
+      if (ids.has(id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate credential id: ${id}`,
+          path: ['credentials', index, 'id'],
+        });
+      }
+      ids.add(id);
+    });
+
+    credential_sets?.forEach(({ options }, setIndex) =>
+      options.forEach((option, optionIndex) =>
+        option
+          .filter((id) => !ids.has(id))
+          .forEach((id) =>
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `Unknown credential id in credential_sets: ${id}`,
+              path: ['credential_sets', setIndex, 'options', optionIndex],
+            })
+          )
+      )
+    );
+  });
+
+export type DcqlClaimsQuery = z.infer<typeof dcqlClaimsQuerySchema>;
+export type DcqlCredentialQuery = z.infer<typeof dcqlCredentialQuerySchema>;
+export type DcqlCredentialSetQuery = z.infer<
+  typeof dcqlCredentialSetQuerySchema
+>;
+export type DcqlQuery = z.infer<typeof dcqlQuerySchema>;
+
+/**
+ * Gets the ids of all credentials declared by a DCQL query
+ *
+ * @param query - DCQL query
+ * @returns Credential ids in declaration order
+ *
+ * @public
+ */
+export const dcqlCredentialIds = (query: DcqlQuery): string[] =>
+  query.credentials.map(({ id }) => id);
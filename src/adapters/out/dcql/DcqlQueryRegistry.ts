@@ -0,0 +1,260 @@
+import { z } from 'zod';
+import { dcqlQuerySchema } from './DcqlQuery';
+import { AGE_OVER_PATTERN, ageOverElement } from '../mdoc/AgeOver';
+import { verificationPolicySchema } from '../policy';
+import { createConfigLoader, parseConfigDocument } from '../config';
+
+/**
+ * Schema of a named DCQL query
+ *
+ * - `name`: URL-safe identifier, selected with `?query=<name>`
+ * - `label`: Button label shown on the Digital Credentials page
+ * - `description`: Optional helper text shown below the button
+ * - `policy`: Optional rules the verified claims are checked against
+ * - `query`: DCQL query sent to the wallet
+ *
+ * @public
+ */
+export const namedDcqlQuerySchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-zA-Z0-9\-_]+$/,
+      'name must only contain letters, digits, "-" and "_"'
+    ),
+  label: z.string().min(1),
+  description: z.string().optional(),
+  policy: verificationPolicySchema.optional(),
+  query: dcqlQuerySchema,
+});
+
+/**
+ * Schema of the DCQL query configuration document (JSON or YAML)
+ *
+ * ```yaml
+ * includeDefaults: true
+ * queries:
+ *   - name: mdl_or_unified_id
+ *     label: mDL or UnifiedID
+ *     query:
+ *       credentials:
+ *         - id: mdl
+ *           format: mso_mdoc
+ *           meta: { doctype_value: org.iso.18013.5.1.mDL }
+ *           claims:
+ *             - path: [org.iso.18013.5.1, family_name]
+ *         - id: unified_id
+ *           format: mso_mdoc
+ *           meta: { doctype_value: com.dentsusoken.vecrea.UnifiedID }
+ *           claims:
+ *             - path: [com.dentsusoken.vecrea, unified_id]
+ *       credential_sets:
+ *         - options: [[mdl], [unified_id]]
+ * ```
+ *
+ * @public
+ */
+export const dcqlQueryRegistrySchema = z
+  .object({
+    includeDefaults: z.boolean().default(true),
+    queries: z.array(namedDcqlQuerySchema),
+  })
+  .superRefine(({ queries }, ctx) => {
+    const seen = new Set<string>();
+    queries.forEach(({ name }, index) => {
+      if (seen.has(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate DCQL query name: ${name}`,
+          path: ['queries', index, 'name'],
+        });
+      }
+      seen.add(name);
+    });
+  });
+
+export type NamedDcqlQuery = z.infer<typeof namedDcqlQuerySchema>;
+
+export type DcqlQueryRegistryConfig = z.infer<typeof dcqlQueryRegistrySchema>;
+
+/**
+ * Name of the query used when the request does not select one
+ *
+ * @public
+ */
+export const DEFAULT_DCQL_QUERY_NAME = 'mDL';
+
+/**
+ * Creates a query requesting only the `age_over_NN` attestation of an mDL
+ *
+ * The query is named after the data element, e.g. `age_over_20`.
+ *
+ * @param age - Age to attest
+ * @returns The named query
+ *
+ * @public
+ */
+export const ageOverDcqlQuery = (age: number): NamedDcqlQuery => {
+  const name = ageOverElement(age);
+  return {
+    name,
+    label: `Age Verification (${age}+)`,
+    query: {
+      credentials: [
+        {
+          id: 'mdl',
+          format: 'mso_mdoc',
+          meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+          claims: [{ path: ['org.iso.18013.5.1', name] }],
+        },
+      ],
+    },
+  };
+};
+
+/**
+ * Built-in named queries available when no configuration is provided
+ *
+ * @public
+ */
+export const DEFAULT_DCQL_QUERIES: NamedDcqlQuery[] = [
+  {
+    name: DEFAULT_DCQL_QUERY_NAME,
+    label: 'mDL Verification',
+    query: {
+      credentials: [
+        {
+          id: 'mdl',
+          format: 'mso_mdoc',
+          meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+          claims: [
+            { path: ['org.iso.18013.5.1', 'family_name'] },
+            { path: ['org.iso.18013.5.1', 'given_name'] },
+            { path: ['org.iso.18013.5.1', 'age_over_21'] },
+          ],
+        },
+      ],
+    },
+  },
+  ageOverDcqlQuery(18),
+  {
+    name: 'unifiedID',
+    label: 'UnifiedID Verification',
+    query: {
+      credentials: [
+        {
+          id: 'unified_id',
+          format: 'mso_mdoc',
+          meta: { doctype_value: 'com.dentsusoken.vecrea.UnifiedID' },
+          claims: [
+            { path: ['com.dentsusoken.vecrea', 'type'] },
+            { path: ['com.dentsusoken.vecrea', 'service'] },
+            { path: ['com.dentsusoken.vecrea', 'user_id'] },
+            { path: ['com.dentsusoken.vecrea', 'unified_id'] },
+            { path: ['com.dentsusoken.vecrea', 'issue_date'] },
+            { path: ['com.dentsusoken.vecrea', 'expiry_date'] },
+          ],
+        },
+      ],
+    },
+  },
+];
+
+/**
+ * Registry of named DCQL queries offered through the Digital Credentials API
+ *
+ * @example
+ * ```typescript
+ * const registry = DcqlQueryRegistry.parse(env.DCQL_QUERIES);
+ * const { query } = registry.getOrThrow('age_over_18');
+ * ```
+ *
+ * @public
+ */
+export class DcqlQueryRegistry {
+  readonly #queries: Map<string, NamedDcqlQuery>;
+
+  /**
+   * @param queries - Named queries; later queries override earlier ones with the same name
+   */
+  constructor(queries: NamedDcqlQuery[]) {
+    this.#queries = new Map(queries.map((query) => [query.name, query]));
+  }
+
+  /**
+   * Builds a registry from a JSON or YAML configuration document
+   *
+   * @param source - Configuration document
+   * @returns Registry containing the configured queries (and the defaults unless disabled)
+   * @throws {Error} When the document cannot be parsed or fails validation
+   */
+  static parse(source: string): DcqlQueryRegistry {
+    const { includeDefaults, queries } = parseConfigDocument(
+      source,
+      dcqlQueryRegistrySchema,
+      'DCQL query'
+    );
+    return new DcqlQueryRegistry(
+      includeDefaults ? [...DEFAULT_DCQL_QUERIES, ...queries] : queries
+    );
+  }
+
+  /**
+   * Checks whether a name is registered
+   */
+  has(name: string): boolean {
+    return this.#queries.has(name);
+  }
+
+  /**
+   * Gets the query registered under a name
+   *
+   * Unregistered `age_over_NN` names resolve to {@link ageOverDcqlQuery},
+   * so any age can be verified without configuring a query for it.
+   */
+  get(name: string): NamedDcqlQuery | undefined {
+    const query = this.#queries.get(name);
+    if (query) {
+      return query;
+    }
+    const age = AGE_OVER_PATTERN.exec(name)?.[1];
+    return age && Number(age) > 0 ? ageOverDcqlQuery(Number(age)) : undefined;
+  }
+
+  /**
+   * Gets the query registered under a name
+   *
+   * @throws {Error} When the name is not registered
+   */
+  getOrThrow(name: string): NamedDcqlQuery {
+    const query = this.get(name);
+    if (!query) {
+      throw new Error(`Not found: DCQL query "${name}"`);
+    }
+    return query;
+  }
+
+  /**
+   * Gets all registered queries in registration order
+   */
+  entries(): NamedDcqlQuery[] {
+    return [...this.#queries.values()];
+  }
+}
+
+/**
+ * Registry used when no configuration is provided
+ * @private
+ */
+const defaultRegistry = new DcqlQueryRegistry(DEFAULT_DCQL_QUERIES);
+
+/**
+ * Loads the DCQL query registry for a configuration source
+ *
+ * @param source - JSON or YAML document, typically the `DCQL_QUERIES` binding
+ * @returns The configured registry, or the built-in defaults when `source` is empty
+ *
+ * @public
+ */
+export const loadDcqlQueryRegistry: (source?: string) => DcqlQueryRegistry =
+  createConfigLoader(DcqlQueryRegistry.parse, defaultRegistry);
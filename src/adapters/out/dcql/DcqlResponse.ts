@@ -0,0 +1,67 @@
+import { DcqlQuery } from './DcqlQuery';
+import { DcqlVpToken } from './DcqlVpToken';
+
+/**
+ * Checks a DCQL VP token against the query it answers
+ *
+ * The token must only contain credential ids declared by the query, must not
+ * carry several presentations for a credential unless `multiple` is set, and
+ * must satisfy the query:
+ *
+ * - without `credential_sets`, every declared credential is required
+ * - with `credential_sets`, every required set (`required` defaults to
+ *   `true`) needs at least one option whose credentials are all present
+ *
+ * @param query - DCQL query sent to the wallet
+ * @param vpToken - Presentations keyed by credential id
+ * @returns Credential ids of the token in query declaration order
+ * @throws {Error} `Invalid vp_token ...` when the token contains unexpected presentations
+ * @throws {Error} `Missing credentials ...` when the query is not satisfied
+ *
+ * @public
+ */
+export const matchDcqlResponse = (
+  query: DcqlQuery,
+  vpToken: DcqlVpToken
+): string[] => {
+  const declared = new Map(
+    query.credentials.map((credential) => [credential.id, credential])
+  );
+
+  for (const [id, presentations] of Object.entries(vpToken)) {
+    const credential = declared.get(id);
+    if (!credential) {
+      throw new Error(`Invalid vp_token: undeclared credential id "${id}"`);
+    }
+    if (!credential.multiple && presentations.length > 1) {
+      throw new Error(
+        `Invalid vp_token: multiple presentations for credential id "${id}"`
+      );
+    }
+  }
+
+  const present = (id: string) => (vpToken[id]?.length ?? 0) > 0;
+
+  if (!query.credential_sets) {
+    const missing = query.credentials
+      .map(({ id }) => id)
+      .filter((id) => !present(id));
+    if (missing.length > 0) {
+      throw new Error(`Missing credentials for query: ${missing.join(', ')}`);
+    }
+  } else {
+    query.credential_sets
+      .filter(({ required }) => required !== false)
+      .forEach(({ options }) => {
+        if (!options.some((option) => option.every(present))) {
+          throw new Error(
+            `Missing credentials for query: one of ${options
+              .map((option) => `[${option.join(', ')}]`)
+              .join(' or ')}`
+          );
+        }
+      });
+  }
+
+  return query.credentials.map(({ id }) => id).filter(present);
+};
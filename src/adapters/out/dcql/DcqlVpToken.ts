@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+/**
+ * Schema of a VP token returned for a DCQL query
+ *
+ * The token is a JSON object keyed by the credential ids of the query.
+ * OpenID4VP 1.0 uses an array of presentations per id; earlier drafts used a
+ * single presentation, which is normalized to a one-element array.
+ *
+ * @public
+ */
+export const dcqlVpTokenSchema = z.record(
+  z
+    .union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+    .transform((value) => (Array.isArray(value) ? value : [value]))
+);
+
+/**
+ * VP token of a DCQL response: presentations keyed by credential id
+ *
+ * @public
+ */
+export type DcqlVpToken = z.infer<typeof dcqlVpTokenSchema>;
+
+/**
+ * Parses a VP token as a DCQL response
+ *
+ * Accepts the token either as an object or as its JSON serialization.
+ * Presentation Exchange tokens (a single presentation string or an array of
+ * presentations) are not DCQL responses and yield `undefined`.
+ *
+ * @param vpToken - VP token taken from the wallet response
+ * @returns Presentations keyed by credential id, or `undefined` for non-DCQL tokens
+ *
+ * @public
+ */
+export const parseDcqlVpToken = (vpToken: unknown): DcqlVpToken | undefined => {
+  let value = vpToken;
+  if (typeof value === 'string') {
+    if (!value.trimStart().startsWith('{')) {
+      return undefined;
+    }
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const result = dcqlVpTokenSchema.safeParse(value);
+  return result.success ? result.data : undefined;
+};
@@ -0,0 +1,63 @@
+import { DcqlCredentialQuery, DcqlQuery } from './DcqlQuery';
+
+/**
+ * Creates a DCQL credential query requesting an SD-JWT VC (`dc+sd-jwt`)
+ *
+ * @param id - Credential id
+ * @param vctValues - Accepted credential types (`vct`)
+ * @param claims - Claims to request, as paths below the credential root
+ * @returns The credential query
+ *
+ * @example
+ * ```typescript
+ * const query = sdJwtVcCredentialQuery('pid', ['urn:eudi:pid:1'], [
+ *   ['family_name'],
+ *   ['address', 'locality'],
+ * ]);
+ * ```
+ *
+ * @public
+ */
+export const sdJwtVcCredentialQuery = (
+  id: string,
+  vctValues: string[],
+  claims: (string | number | null)[][]
+): DcqlCredentialQuery => ({
+  id,
+  format: 'dc+sd-jwt',
+  meta: { vct_values: vctValues },
+  claims: claims.map((path) => ({ path })),
+});
+
+/**
+ * Gets the credential types (`vct`) a DCQL credential query accepts
+ *
+ * @param credential - DCQL credential query
+ * @returns `meta.vct_values`, or `undefined` when the query does not restrict the type
+ *
+ * @public
+ */
+export const dcqlVctValues = (
+  credential: DcqlCredentialQuery
+): string[] | undefined => {
+  const vctValues = credential.meta?.vct_values;
+  return Array.isArray(vctValues) &&
+    vctValues.every((vct) => typeof vct === 'string')
+    ? vctValues
+    : undefined;
+};
+
+/**
+ * Gets the credential types (`vct`) any credential query of a DCQL query
+ * accepts
+ *
+ * @param query - DCQL query
+ * @returns Credential types in query order, without duplicates
+ *
+ * @public
+ */
+export const dcqlQueryVctValues = (query: DcqlQuery): string[] => [
+  ...new Set(
+    query.credentials.flatMap((credential) => dcqlVctValues(credential) ?? [])
+  ),
+];
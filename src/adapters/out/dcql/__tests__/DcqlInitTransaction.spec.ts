@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  EphemeralECDHPrivateJwk,
+  InitTransactionServiceError,
+  Nonce,
+} from '@vecrea/oid4vc-verifier-frontend-core';
+import { Result } from '@vecrea/oid4vc-core/utils';
+import { createDcqlInitTransactionService } from '../DcqlInitTransaction';
+import { DcqlQuery } from '../DcqlQuery';
+
+const dcqlQuery: DcqlQuery = {
+  credentials: [
+    {
+      id: 'mdl',
+      format: 'mso_mdoc',
+      meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+    },
+  ],
+};
+
+const privateJwk = {
+  kty: 'EC',
+  crv: 'P-256',
+  x: 'x',
+  y: 'y',
+  d: 'd',
+};
+
+const request = new Request('https://verifier.example.com/init', {
+  headers: { 'user-agent': 'Mozilla/5.0 (iPhone)' },
+});
+
+describe('createDcqlInitTransactionService', () => {
+  let post: ReturnType<typeof vi.fn>;
+  let session: { set: ReturnType<typeof vi.fn> };
+  let config: Parameters<typeof createDcqlInitTransactionService>[0];
+
+  beforeEach(() => {
+    post = vi.fn().mockResolvedValue({
+      data: { presentation_id: 'presentation-id', client_id: 'client-id' },
+      metadata: {},
+    });
+    session = { set: vi.fn() };
+    config = {
+      apiBaseUrl: 'https://backend',
+      apiPath: '/ui/presentations',
+      publicUrl: 'https://verifier.example.com',
+      walletUrl: 'eudi-openid4vp://',
+      walletResponseRedirectPath: '/result',
+      walletResponseRedirectQueryTemplate: '{RESPONSE_CODE}',
+      isMobile: vi.fn().mockReturnValue(true),
+      tokenType: 'vp_token',
+      generateNonce: () => 'nonce' as Nonce,
+      generateWalletResponseRedirectUriTemplate: (base, path, placeholder) =>
+        `${base}${path}?response_code=${placeholder}`,
+      post,
+      session: session as any,
+      generateWalletRedirectUri: (walletUrl, { client_id }) =>
+        `${walletUrl}?client_id=${client_id}`,
+      generateEphemeralECDHPrivateJwk: async () =>
+        Result.success(new EphemeralECDHPrivateJwk(JSON.stringify(privateJwk))),
+      dcqlQuery,
+    };
+  });
+
+  it('should validate the configuration', () => {
+    expect(() =>
+      createDcqlInitTransactionService({ ...config, apiBaseUrl: '' })
+    ).toThrow(InitTransactionServiceError);
+    expect(() =>
+      createDcqlInitTransactionService({
+        ...config,
+        dcqlQuery: undefined as any,
+      })
+    ).toThrow(InitTransactionServiceError);
+  });
+
+  it('should send the DCQL query instead of a presentation definition', async () => {
+    const result = await createDcqlInitTransactionService(config)(request);
+
+    const [baseUrl, path, body] = post.mock.calls[0];
+    expect(baseUrl).toBe('https://backend');
+    expect(path).toBe('/ui/presentations');
+    const sent = JSON.parse(body);
+    expect(sent).toEqual({
+      type: 'vp_token',
+      dcql_query: dcqlQuery,
+      ephemeral_ecdh_public_jwk: expect.any(String),
+      nonce: 'nonce',
+      wallet_response_redirect_uri_template:
+        'https://verifier.example.com/result?response_code={RESPONSE_CODE}',
+    });
+    expect(JSON.parse(sent.ephemeral_ecdh_public_jwk)).not.toHaveProperty('d');
+    expect(result).toEqual({
+      walletRedirectUri: 'eudi-openid4vp://?client_id=client-id',
+      isMobile: true,
+    });
+  });
+
+  it('should keep the transaction in the session', async () => {
+    await createDcqlInitTransactionService(config)(request);
+
+    expect(session.set).toHaveBeenCalledWith(
+      'presentationId',
+      'presentation-id'
+    );
+    expect(session.set).toHaveBeenCalledWith('nonce', 'nonce');
+    expect(session.set).toHaveBeenCalledWith(
+      'ephemeralECDHPrivateJwk',
+      JSON.stringify(privateJwk)
+    );
+  });
+
+  it('should fail when the backend cannot be reached', async () => {
+    post.mockRejectedValue(new Error('Network error'));
+
+    await expect(
+      createDcqlInitTransactionService(config)(request)
+    ).rejects.toMatchObject({ errorType: 'API_REQUEST_FAILED' });
+    expect(session.set).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { dcqlCredentialIds, dcqlQuerySchema } from '../DcqlQuery';
+
+const mdlCredential = {
+  id: 'mdl',
+  format: 'mso_mdoc',
+  meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+  claims: [{ path: ['org.iso.18013.5.1', 'family_name'] }],
+};
+
+describe('dcqlQuerySchema', () => {
+  it('should accept a query with credential sets', () => {
+    const query = dcqlQuerySchema.parse({
+      credentials: [mdlCredential, { ...mdlCredential, id: 'pid' }],
+      credential_sets: [{ options: [['mdl'], ['pid']] }],
+    });
+
+    expect(dcqlCredentialIds(query)).toEqual(['mdl', 'pid']);
+  });
+
+  it('should keep unknown properties', () => {
+    const query = dcqlQuerySchema.parse({
+      credentials: [{ ...mdlCredential, trusted_authorities: [] }],
+    });
+
+    expect(query.credentials[0]).toHaveProperty('trusted_authorities');
+  });
+
+  it('should reject a query without credentials', () => {
+    expect(dcqlQuerySchema.safeParse({ credentials: [] }).success).toBe(false);
+  });
+
+  it('should reject duplicate credential ids', () => {
+    const result = dcqlQuerySchema.safeParse({
+      credentials: [mdlCredential, mdlCredential],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe(
+      'Duplicate credential id: mdl'
+    );
+  });
+
+  it('should reject credential sets referencing unknown ids', () => {
+    const result = dcqlQuerySchema.safeParse({
+      credentials: [mdlCredential],
+      credential_sets: [{ options: [['mdl', 'pid']] }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe(
+      'Unknown credential id in credential_sets: pid'
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DCQL_QUERY_NAME,
+  DcqlQueryRegistry,
+  loadDcqlQueryRegistry,
+} from '../DcqlQueryRegistry';
+
+const yamlSource = `
+queries:
+  - name: mdl_or_unified_id
+    label: mDL or UnifiedID
+    query:
+      credentials:
+        - id: mdl
+          format: mso_mdoc
+          meta:
+            doctype_value: org.iso.18013.5.1.mDL
+        - id: unified_id
+          format: mso_mdoc
+          meta:
+            doctype_value: com.dentsusoken.vecrea.UnifiedID
+      credential_sets:
+        - options: [[mdl], [unified_id]]
+`;
+
+describe('DcqlQueryRegistry', () => {
+  it('should provide the built-in queries by default', () => {
+    const registry = loadDcqlQueryRegistry();
+
+    expect(registry.entries().map(({ name }) => name)).toEqual([
+      DEFAULT_DCQL_QUERY_NAME,
+      'age_over_18',
+      'unifiedID',
+    ]);
+    expect(
+      registry.getOrThrow('age_over_18').query.credentials[0].claims
+    ).toEqual([{ path: ['org.iso.18013.5.1', 'age_over_18'] }]);
+  });
+
+  it('should resolve unregistered age_over_NN names to an age query', () => {
+    const registry = DcqlQueryRegistry.parse(
+      `includeDefaults: false\n${yamlSource}`
+    );
+
+    expect(registry.get('age_over_20')).toEqual({
+      name: 'age_over_20',
+      label: 'Age Verification (20+)',
+      query: {
+        credentials: [
+          {
+            id: 'mdl',
+            format: 'mso_mdoc',
+            meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+            claims: [{ path: ['org.iso.18013.5.1', 'age_over_20'] }],
+          },
+        ],
+      },
+    });
+    expect(registry.has('age_over_20')).toBe(false);
+    expect(registry.get('age_over_00')).toBeUndefined();
+    expect(registry.get('age_over_5')).toBeUndefined();
+  });
+
+  it('should add configured queries to the defaults', () => {
+    const registry = DcqlQueryRegistry.parse(yamlSource);
+
+    expect(registry.has('mDL')).toBe(true);
+    expect(
+      registry.getOrThrow('mdl_or_unified_id').query.credential_sets
+    ).toEqual([{ options: [['mdl'], ['unified_id']] }]);
+  });
+
+  it('should drop the defaults when includeDefaults is false', () => {
+    const registry = DcqlQueryRegistry.parse(
+      `includeDefaults: false\n${yamlSource}`
+    );
+
+    expect(registry.has('mDL')).toBe(false);
+    expect(registry.has('mdl_or_unified_id')).toBe(true);
+  });
+
+  it('should reject invalid queries', () => {
+    expect(() =>
+      DcqlQueryRegistry.parse(
+        JSON.stringify({
+          queries: [
+            {
+              name: 'broken',
+              label: 'Broken',
+              query: {
+                credentials: [{ id: 'mdl', format: 'mso_mdoc' }],
+                credential_sets: [{ options: [['pid']] }],
+              },
+            },
+          ],
+        })
+      )
+    ).toThrow('Invalid DCQL query configuration');
+  });
+
+  it('should reject duplicate names', () => {
+    const query = {
+      name: 'mdl',
+      label: 'mDL',
+      query: { credentials: [{ id: 'mdl', format: 'mso_mdoc' }] },
+    };
+
+    expect(() =>
+      DcqlQueryRegistry.parse(JSON.stringify({ queries: [query, query] }))
+    ).toThrow('Duplicate DCQL query name: mdl');
+  });
+
+  it('should throw a not found error for unknown names', () => {
+    expect(() => loadDcqlQueryRegistry().getOrThrow('unknown')).toThrow(
+      'Not found'
+    );
+  });
+});
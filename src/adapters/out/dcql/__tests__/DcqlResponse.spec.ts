@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { DcqlQuery } from '../DcqlQuery';
+import { matchDcqlResponse } from '../DcqlResponse';
+
+const credential = (id: string, multiple?: boolean) => ({
+  id,
+  format: 'mso_mdoc',
+  ...(multiple === undefined ? {} : { multiple }),
+});
+
+describe('matchDcqlResponse', () => {
+  describe('without credential_sets', () => {
+    const query: DcqlQuery = {
+      credentials: [credential('mdl'), credential('unified_id')],
+    };
+
+    it('should return the ids in declaration order', () => {
+      expect(
+        matchDcqlResponse(query, { unified_id: ['b'], mdl: ['a'] })
+      ).toEqual(['mdl', 'unified_id']);
+    });
+
+    it('should require every credential', () => {
+      expect(() => matchDcqlResponse(query, { mdl: ['a'] })).toThrow(
+        'Missing credentials for query: unified_id'
+      );
+    });
+
+    it('should reject undeclared credential ids', () => {
+      expect(() =>
+        matchDcqlResponse(query, {
+          mdl: ['a'],
+          unified_id: ['b'],
+          pid: ['c'],
+        })
+      ).toThrow('Invalid vp_token: undeclared credential id "pid"');
+    });
+  });
+
+  describe('multiple', () => {
+    it('should reject several presentations unless multiple is set', () => {
+      expect(() =>
+        matchDcqlResponse(
+          { credentials: [credential('mdl')] },
+          { mdl: ['a', 'b'] }
+        )
+      ).toThrow('Invalid vp_token: multiple presentations');
+    });
+
+    it('should accept several presentations when multiple is set', () => {
+      expect(
+        matchDcqlResponse(
+          { credentials: [credential('mdl', true)] },
+          { mdl: ['a', 'b'] }
+        )
+      ).toEqual(['mdl']);
+    });
+  });
+
+  describe('with credential_sets', () => {
+    const query: DcqlQuery = {
+      credentials: [
+        credential('mdl'),
+        credential('pid'),
+        credential('unified_id'),
+      ],
+      credential_sets: [
+        { options: [['mdl'], ['pid']] },
+        { options: [['unified_id']], required: false },
+      ],
+    };
+
+    it('should accept any option of a required set', () => {
+      expect(matchDcqlResponse(query, { pid: ['a'] })).toEqual(['pid']);
+    });
+
+    it('should include optional credentials when present', () => {
+      expect(
+        matchDcqlResponse(query, { mdl: ['a'], unified_id: ['b'] })
+      ).toEqual(['mdl', 'unified_id']);
+    });
+
+    it('should reject responses that satisfy no option', () => {
+      expect(() => matchDcqlResponse(query, { unified_id: ['b'] })).toThrow(
+        'Missing credentials for query: one of [mdl] or [pid]'
+      );
+    });
+  });
+});
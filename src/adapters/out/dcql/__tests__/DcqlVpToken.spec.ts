@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { parseDcqlVpToken } from '../DcqlVpToken';
+
+describe('parseDcqlVpToken', () => {
+  it('should parse an object keyed by credential id', () => {
+    expect(parseDcqlVpToken({ mdl: ['a', 'b'], pid: ['c'] })).toEqual({
+      mdl: ['a', 'b'],
+      pid: ['c'],
+    });
+  });
+
+  it('should parse a JSON serialized token', () => {
+    expect(parseDcqlVpToken(JSON.stringify({ mdl: ['a'] }))).toEqual({
+      mdl: ['a'],
+    });
+  });
+
+  it('should normalize single presentations to arrays', () => {
+    expect(parseDcqlVpToken({ mdl: 'a' })).toEqual({ mdl: ['a'] });
+  });
+
+  it('should return undefined for Presentation Exchange tokens', () => {
+    expect(parseDcqlVpToken('o2d2ZXJzaW9uYzEuMA')).toBeUndefined();
+    expect(parseDcqlVpToken(['a', 'b'])).toBeUndefined();
+    expect(parseDcqlVpToken(undefined)).toBeUndefined();
+  });
+
+  it('should return undefined for malformed tokens', () => {
+    expect(parseDcqlVpToken('{not json')).toBeUndefined();
+    expect(parseDcqlVpToken({ mdl: [] })).toBeUndefined();
+    expect(parseDcqlVpToken({ mdl: 1 })).toBeUndefined();
+  });
+});
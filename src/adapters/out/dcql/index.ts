@@ -0,0 +1,5 @@
+export * from './DcqlQuery';
+export * from './DcqlQueryRegistry';
+export * from './DcqlResponse';
+export * from './DcqlVpToken';
+export * from './SdJwtVcQuery';
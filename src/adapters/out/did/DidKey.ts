@@ -0,0 +1,185 @@
+import { Buffer } from 'node:buffer';
+import type { JWK } from 'jose';
+
+/**
+ * Alphabet of base58btc, the multibase encoding of `did:key` (prefix `z`)
+ * @private
+ */
+const BASE58_ALPHABET =
+  '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Multicodec codes of the public keys `did:key` can carry
+ * @private
+ */
+const ED25519_PUB = 0xed;
+const P256_PUB = 0x1200;
+const P384_PUB = 0x1201;
+const JWK_JCS_PUB = 0xeb51;
+
+/**
+ * Parameters of the NIST curves, for point decompression
+ *
+ * Both fields satisfy p ≡ 3 (mod 4), so a square root is a single
+ * exponentiation.
+ * @private
+ */
+const CURVES: Record<
+  number,
+  { crv: string; size: number; p: bigint; b: bigint }
+> = {
+  [P256_PUB]: {
+    crv: 'P-256',
+    size: 32,
+    p: BigInt(
+      '0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff'
+    ),
+    b: BigInt(
+      '0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b'
+    ),
+  },
+  [P384_PUB]: {
+    crv: 'P-384',
+    size: 48,
+    p: BigInt(
+      '0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffeffffffff0000000000000000ffffffff'
+    ),
+    b: BigInt(
+      '0xb3312fa7e23ee7e4988e056be3f82d19181d9c6efe8141120314088f5013875ac656398d8a2ed19d2a85c8edd3ec2aef'
+    ),
+  },
+};
+
+/**
+ * Decodes a base58btc string
+ * @private
+ */
+const decodeBase58 = (value: string): Uint8Array => {
+  let number = BigInt(0);
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error('Invalid did:key: not base58btc');
+    }
+    number = number * BigInt(58) + BigInt(digit);
+  }
+  const bytes: number[] = [];
+  while (number > BigInt(0)) {
+    bytes.unshift(Number(number % BigInt(256)));
+    number /= BigInt(256);
+  }
+  const leadingZeros = value.length - value.replace(/^1+/, '').length;
+  return new Uint8Array([...new Array(leadingZeros).fill(0), ...bytes]);
+};
+
+/**
+ * Reads the unsigned varint multicodec prefix of a key
+ * @private
+ */
+const readMulticodec = (bytes: Uint8Array) => {
+  let code = 0;
+  for (let i = 0; i < Math.min(bytes.length, 4); i++) {
+    code += (bytes[i] & 0x7f) * 2 ** (7 * i);
+    if ((bytes[i] & 0x80) === 0) {
+      return { code, key: bytes.subarray(i + 1) };
+    }
+  }
+  throw new Error('Invalid did:key: malformed multicodec prefix');
+};
+
+/**
+ * Computes `base ** exponent mod modulus`
+ * @private
+ */
+const modPow = (base: bigint, exponent: bigint, modulus: bigint) => {
+  let result = BigInt(1);
+  base %= modulus;
+  while (exponent > BigInt(0)) {
+    if (exponent & BigInt(1)) {
+      result = (result * base) % modulus;
+    }
+    base = (base * base) % modulus;
+    exponent >>= BigInt(1);
+  }
+  return result;
+};
+
+/**
+ * Encodes an unsigned integer as a fixed size base64url string
+ * @private
+ */
+const toBase64Url = (value: bigint, size: number) =>
+  Buffer.from(value.toString(16).padStart(size * 2, '0'), 'hex').toString(
+    'base64url'
+  );
+
+/**
+ * Decompresses a SEC1 compressed point of a NIST curve into a JWK
+ * @private
+ */
+const decompressPoint = (code: number, key: Uint8Array): JWK => {
+  const { crv, size, p, b } = CURVES[code];
+  if (key.length !== size + 1 || (key[0] !== 0x02 && key[0] !== 0x03)) {
+    throw new Error(`Invalid did:key: malformed ${crv} key`);
+  }
+  const x = BigInt(`0x${Buffer.from(key.subarray(1)).toString('hex')}`);
+  const ySquared =
+    (modPow(x, BigInt(3), p) - BigInt(3) * x + b + BigInt(3) * p) % p;
+  let y = modPow(ySquared, (p + BigInt(1)) / BigInt(4), p);
+  if ((y * y) % p !== ySquared) {
+    throw new Error(`Invalid did:key: ${crv} key is not on the curve`);
+  }
+  if (Number(y & BigInt(1)) !== (key[0] & 1)) {
+    y = p - y;
+  }
+  return {
+    kty: 'EC',
+    crv,
+    x: toBase64Url(x, size),
+    y: toBase64Url(y, size),
+  };
+};
+
+/**
+ * Decodes the public key of a multibase (base58btc) multicodec value, as
+ * used by `did:key` identifiers and `Multikey` verification methods
+ *
+ * Ed25519, P-256, P-384 and JCS-encoded JWK (`jwk_jcs-pub`) keys are
+ * supported.
+ *
+ * @param multibase - Value starting with `z`, e.g. `zDnae...`
+ * @returns The public key
+ * @throws {Error} `Invalid did:key ...` when the value cannot be decoded
+ *
+ * @public
+ */
+export const decodeMultibaseKey = (multibase: string): JWK => {
+  if (!multibase.startsWith('z')) {
+    throw new Error('Invalid did:key: only base58btc multibase is supported');
+  }
+  const { code, key } = readMulticodec(decodeBase58(multibase.slice(1)));
+  switch (code) {
+    case ED25519_PUB:
+      if (key.length !== 32) {
+        throw new Error('Invalid did:key: malformed Ed25519 key');
+      }
+      return {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: Buffer.from(key).toString('base64url'),
+      };
+    case P256_PUB:
+    case P384_PUB:
+      return decompressPoint(code, key);
+    case JWK_JCS_PUB:
+      try {
+        return JSON.parse(Buffer.from(key).toString('utf8'));
+      } catch {
+        throw new Error('Invalid did:key: malformed JWK');
+      }
+    default:
+      throw new Error(
+        `Invalid did:key: unsupported key type 0x${code.toString(16)}`
+      );
+  }
+};
@@ -0,0 +1,264 @@
+import { Buffer } from 'node:buffer';
+import type { Fetcher } from '@vecrea/oid4vc-verifier-frontend-core';
+import type { JWK } from 'jose';
+import { z } from 'zod';
+import { decodeMultibaseKey } from './DidKey';
+
+/**
+ * Schema of a public JWK
+ * @private
+ */
+const publicJwkSchema = z
+  .object({ kty: z.string(), d: z.undefined() })
+  .passthrough();
+
+/**
+ * Schema of a verification method of a DID document
+ *
+ * Keys are read from `publicKeyJwk` (`JsonWebKey`, `JsonWebKey2020`) or
+ * `publicKeyMultibase` (`Multikey`).
+ *
+ * @public
+ */
+export const verificationMethodSchema = z
+  .object({
+    id: z.string(),
+    type: z.string(),
+    controller: z.string(),
+    publicKeyJwk: publicJwkSchema.optional(),
+    publicKeyMultibase: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Verification relationships a key can be looked up for
+ *
+ * - `assertionMethod`: keys signing credentials (issuers)
+ * - `authentication`: keys proving control of the DID (holders)
+ *
+ * @public
+ */
+export type VerificationRelationship = 'assertionMethod' | 'authentication';
+
+/**
+ * Schema of a DID document
+ *
+ * @public
+ */
+export const didDocumentSchema = z
+  .object({
+    id: z.string(),
+    verificationMethod: z.array(verificationMethodSchema).default([]),
+    assertionMethod: z
+      .array(z.union([z.string(), verificationMethodSchema]))
+      .optional(),
+    authentication: z
+      .array(z.union([z.string(), verificationMethodSchema]))
+      .optional(),
+  })
+  .passthrough();
+
+export type VerificationMethod = z.infer<typeof verificationMethodSchema>;
+export type DidDocument = z.infer<typeof didDocumentSchema>;
+
+/**
+ * Splits a DID URL into the DID and its fragment
+ * @private
+ */
+const splitDidUrl = (didUrl: string) => {
+  const [did, fragment] = didUrl.split('#', 2);
+  if (!/^did:[a-z0-9]+:[\w.%:-]+$/i.test(did)) {
+    throw new Error(`Invalid DID: ${didUrl}`);
+  }
+  return { did, fragment };
+};
+
+/**
+ * DID document of a single key, as generated for `did:key` and `did:jwk`
+ * @private
+ */
+const singleKeyDocument = (
+  did: string,
+  fragment: string,
+  publicKeyJwk: JWK
+): DidDocument => {
+  const id = `${did}#${fragment}`;
+  return didDocumentSchema.parse({
+    id: did,
+    verificationMethod: [
+      { id, type: 'JsonWebKey2020', controller: did, publicKeyJwk },
+    ],
+    assertionMethod: [id],
+    authentication: [id],
+  });
+};
+
+/**
+ * URL of the DID document of a `did:web` identifier
+ *
+ * `did:web:example.com` resolves to `https://example.com/.well-known/did.json`
+ * and `did:web:example.com:users:alice` to
+ * `https://example.com/users/alice/did.json`; a port is encoded as `%3A`.
+ *
+ * @param did - `did:web` identifier
+ * @returns URL of its DID document
+ * @throws {Error} `Invalid DID ...` when the identifier is malformed
+ *
+ * @public
+ */
+export const didWebUrl = (did: string): string => {
+  const [host, ...path] = did.slice('did:web:'.length).split(':');
+  const url = new URL(`https://${decodeURIComponent(host)}`);
+  if (!host || url.pathname !== '/' || url.username || url.search) {
+    throw new Error(`Invalid DID: ${did}`);
+  }
+  return path.length > 0
+    ? `${url.origin}/${path.map(decodeURIComponent).join('/')}/did.json`
+    : `${url.origin}/.well-known/did.json`;
+};
+
+/**
+ * Resolver of the DID methods used by W3C credentials
+ *
+ * - `did:key`: the key is decoded from the identifier
+ * - `did:jwk`: the key is the base64url encoded JWK of the identifier
+ * - `did:web`: the document is fetched from the host named by the identifier
+ *
+ * @example
+ * ```typescript
+ * const resolver = new DidResolver(fetcher);
+ * const jwk = await resolver.resolveKey(kid, 'assertionMethod');
+ * ```
+ *
+ * @public
+ */
+export class DidResolver {
+  readonly #fetcher: Fetcher | undefined;
+
+  /**
+   * @param fetcher - Fetcher of `did:web` documents; `did:web` is not resolved when omitted
+   */
+  constructor(fetcher?: Fetcher) {
+    this.#fetcher = fetcher;
+  }
+
+  /**
+   * Resolves a DID to its document
+   *
+   * @param did - DID, without fragment
+   * @returns The DID document
+   * @throws {Error} `Invalid DID ...` when the DID cannot be resolved
+   */
+  async resolve(did: string): Promise<DidDocument> {
+    if (splitDidUrl(did).fragment !== undefined) {
+      throw new Error(`Invalid DID: ${did}`);
+    }
+    const method = did.split(':', 2)[1];
+    const value = did.slice(`did:${method}:`.length);
+    switch (method) {
+      case 'key':
+        return singleKeyDocument(did, value, decodeMultibaseKey(value));
+      case 'jwk':
+        return singleKeyDocument(did, '0', this.#decodeJwk(value));
+      case 'web':
+        return this.#resolveWeb(did);
+      default:
+        throw new Error(`Invalid DID: unsupported method did:${method}`);
+    }
+  }
+
+  /**
+   * Resolves the public key of a verification method
+   *
+   * Without a fragment, the DID must have exactly one key for the
+   * relationship.
+   *
+   * @param didUrl - DID URL of the method (e.g. a JWT `kid`), or a DID
+   * @param relationship - What the key must be authorized for
+   * @returns The public key
+   * @throws {Error} `Invalid DID ...` when no such key exists
+   */
+  async resolveKey(
+    didUrl: string,
+    relationship: VerificationRelationship
+  ): Promise<JWK> {
+    const { did, fragment } = splitDidUrl(didUrl);
+    const document = await this.resolve(did);
+    const methods = (document[relationship] ?? []).map((reference) =>
+      typeof reference === 'string'
+        ? document.verificationMethod.find(
+            ({ id }) =>
+              this.#absolute(did, id) === this.#absolute(did, reference)
+          )
+        : reference
+    );
+    const candidates = methods.filter(
+      (method): method is VerificationMethod =>
+        !!method &&
+        (fragment === undefined ||
+          this.#absolute(did, method.id) === `${did}#${fragment}`)
+    );
+    if (candidates.length !== 1) {
+      throw new Error(
+        `Invalid DID: no single ${relationship} key found for ${didUrl}`
+      );
+    }
+
+    const [{ publicKeyJwk, publicKeyMultibase }] = candidates;
+    if (publicKeyJwk) {
+      return publicKeyJwk as JWK;
+    }
+    if (publicKeyMultibase) {
+      return decodeMultibaseKey(publicKeyMultibase);
+    }
+    throw new Error(`Invalid DID: verification method of ${didUrl} has no key`);
+  }
+
+  /**
+   * Turns a relative method id (`#key-1`) into a DID URL
+   * @private
+   */
+  #absolute(did: string, id: string) {
+    return id.startsWith('#') ? `${did}${id}` : id;
+  }
+
+  /**
+   * Decodes the JWK of a `did:jwk` identifier
+   * @private
+   */
+  #decodeJwk(value: string): JWK {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid DID: did:jwk is not a base64url encoded JWK');
+    }
+    const jwk = publicJwkSchema.safeParse(decoded);
+    if (!jwk.success) {
+      throw new Error('Invalid DID: did:jwk is not a public JWK');
+    }
+    return jwk.data as JWK;
+  }
+
+  /**
+   * Fetches the DID document of a `did:web` identifier
+   * @private
+   */
+  async #resolveWeb(did: string) {
+    if (!this.#fetcher) {
+      throw new Error('Invalid DID: did:web is not resolved');
+    }
+    const { data } = await this.#fetcher.get(
+      didWebUrl(did),
+      '',
+      {},
+      didDocumentSchema
+    );
+    // The fetcher types its data as the schema input, before defaults apply
+    const document = didDocumentSchema.parse(data);
+    if (document.id !== did) {
+      throw new Error(`Invalid DID: document of ${did} has another id`);
+    }
+    return document;
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { exportJWK, generateKeyPair } from 'jose';
+import { DidResolver, didWebUrl } from '../DidResolver';
+import { decodeMultibaseKey } from '../DidKey';
+import { didJwk, didKey, stubFetcher } from './dids';
+
+describe('decodeMultibaseKey', () => {
+  it('should decode compressed P-256 and P-384 keys', async () => {
+    for (const alg of ['ES256', 'ES384']) {
+      const { publicKey } = await generateKeyPair(alg);
+      const { kty, crv, x, y } = await exportJWK(publicKey);
+
+      const did = didKey({ kty, crv, x, y });
+
+      expect(decodeMultibaseKey(did.slice('did:key:'.length))).toEqual({
+        kty,
+        crv,
+        x,
+        y,
+      });
+    }
+  });
+
+  it('should decode Ed25519 keys', () => {
+    expect(
+      decodeMultibaseKey('z6MkiTBz1ymuepAQ4HEHYSF1H8quG5GLVVQR3djdX3mDooWp')
+    ).toEqual({
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: 'O2onvM62pC1io6jQKm8Nc2UyFXcd4kOmOsBIoYtZ2ik',
+    });
+  });
+
+  it('should reject unsupported key types', () => {
+    // secp256k1-pub (0xe7)
+    expect(() =>
+      decodeMultibaseKey('zQ3shokFTS3brHcDQrn82RUDfCZESWL1ZdCEJwekUDPQiYBme')
+    ).toThrow('unsupported key type 0xe7');
+  });
+});
+
+describe('didWebUrl', () => {
+  it('should locate the DID document of a domain, a path and a port', () => {
+    expect(didWebUrl('did:web:issuer.example.com')).toBe(
+      'https://issuer.example.com/.well-known/did.json'
+    );
+    expect(didWebUrl('did:web:issuer.example.com:tenants:a')).toBe(
+      'https://issuer.example.com/tenants/a/did.json'
+    );
+    expect(didWebUrl('did:web:localhost%3A8443')).toBe(
+      'https://localhost:8443/.well-known/did.json'
+    );
+  });
+});
+
+describe('DidResolver', () => {
+  it('should resolve the key of a did:key and a did:jwk', async () => {
+    const { publicKey } = await generateKeyPair('ES256');
+    const jwk = await exportJWK(publicKey);
+    const resolver = new DidResolver();
+
+    const key = didKey(jwk);
+    const fromDidKey = await resolver.resolveKey(
+      `${key}#${key.slice('did:key:'.length)}`,
+      'authentication'
+    );
+    const fromDidJwk = await resolver.resolveKey(
+      `${didJwk(jwk)}#0`,
+      'assertionMethod'
+    );
+
+    expect(fromDidKey).toEqual(jwk);
+    expect(fromDidJwk).toEqual(jwk);
+  });
+
+  it('should reject a did:jwk carrying a private key', async () => {
+    const { privateKey } = await generateKeyPair('ES256', {
+      extractable: true,
+    });
+
+    await expect(
+      new DidResolver().resolve(didJwk(await exportJWK(privateKey)))
+    ).rejects.toThrow('not a public JWK');
+  });
+
+  it('should resolve did:web keys of the requested relationship', async () => {
+    const { publicKey } = await generateKeyPair('ES256');
+    const jwk = await exportJWK(publicKey);
+    const did = 'did:web:issuer.example.com';
+    const resolver = new DidResolver(
+      stubFetcher({
+        'https://issuer.example.com/.well-known/did.json': {
+          id: did,
+          verificationMethod: [
+            {
+              id: '#assertion',
+              type: 'JsonWebKey2020',
+              controller: did,
+              publicKeyJwk: jwk,
+            },
+            {
+              id: `${did}#multikey`,
+              type: 'Multikey',
+              controller: did,
+              publicKeyMultibase: didKey(jwk).slice('did:key:'.length),
+            },
+          ],
+          assertionMethod: ['#assertion'],
+          authentication: [`${did}#multikey`],
+        },
+      })
+    );
+
+    expect(
+      await resolver.resolveKey(`${did}#assertion`, 'assertionMethod')
+    ).toEqual(jwk);
+    expect(await resolver.resolveKey(did, 'authentication')).toEqual(jwk);
+    await expect(
+      resolver.resolveKey(`${did}#assertion`, 'authentication')
+    ).rejects.toThrow('no single authentication key');
+  });
+
+  it('should reject did:web documents of another DID', async () => {
+    const resolver = new DidResolver(
+      stubFetcher({
+        'https://issuer.example.com/.well-known/did.json': {
+          id: 'did:web:other.example.com',
+        },
+      })
+    );
+
+    await expect(
+      resolver.resolve('did:web:issuer.example.com')
+    ).rejects.toThrow('has another id');
+  });
+});
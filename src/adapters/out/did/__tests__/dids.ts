@@ -0,0 +1,71 @@
+import { Buffer } from 'node:buffer';
+import { JWK } from 'jose';
+import { z } from 'zod';
+
+const BASE58_ALPHABET =
+  '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encodes bytes as base58btc
+ */
+const encodeBase58 = (bytes: Uint8Array) => {
+  let number = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+  let encoded = '';
+  while (number > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(number % BigInt(58))] + encoded;
+    number /= BigInt(58);
+  }
+  const leadingZeros = bytes.findIndex((byte) => byte !== 0);
+  return '1'.repeat(leadingZeros < 0 ? bytes.length : leadingZeros) + encoded;
+};
+
+/**
+ * Multicodec prefixes of the supported curves
+ */
+const MULTICODEC_PREFIXES: Record<string, number[]> = {
+  'P-256': [0x80, 0x24],
+  'P-384': [0x81, 0x24],
+};
+
+/**
+ * Creates the `did:key` of a P-256 or P-384 public key
+ */
+export const didKey = (jwk: JWK) => {
+  const x = Buffer.from(jwk.x!, 'base64url');
+  const y = Buffer.from(jwk.y!, 'base64url');
+  const compressed = [0x02 | (y[y.length - 1] & 1), ...x];
+  return `did:key:z${encodeBase58(
+    new Uint8Array([...MULTICODEC_PREFIXES[jwk.crv!], ...compressed])
+  )}`;
+};
+
+/**
+ * Creates the `did:jwk` of a public key
+ */
+export const didJwk = (jwk: JWK) =>
+  `did:jwk:${Buffer.from(JSON.stringify(jwk)).toString('base64url')}`;
+
+/**
+ * Creates a fetcher serving documents from memory, as a local stand-in for
+ * `did:web` hosts
+ */
+export const stubFetcher = (documents: Record<string, unknown>) => ({
+  get: async <T>(
+    baseUrl: string,
+    path: string,
+    _query: Record<string, string>,
+    schema: z.ZodSchema<T>
+  ) => {
+    const url = `${baseUrl}${path}`;
+    if (!(url in documents)) {
+      throw new Error(`Not found: ${url}`);
+    }
+    return {
+      data: schema.parse(documents[url]),
+      metadata: { status: 200, statusText: 'OK', headers: {}, url, ok: true },
+    };
+  },
+  post: async () => {
+    throw new Error('Not supported');
+  },
+});
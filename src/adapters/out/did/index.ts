@@ -0,0 +1,2 @@
+export * from './DidKey';
+export * from './DidResolver';
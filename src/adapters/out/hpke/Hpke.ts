@@ -0,0 +1,362 @@
+import { Buffer } from 'node:buffer';
+
+/**
+ * Result of a single-shot HPKE encryption
+ *
+ * @public
+ */
+export interface HpkeSealed {
+  /** Encapsulated ephemeral public key (uncompressed P-256 point) */
+  enc: Uint8Array;
+  /** AES-128-GCM ciphertext including the authentication tag */
+  cipherText: Uint8Array;
+}
+
+/*
+ * HPKE (RFC 9180) base mode with the cipher suite used by ISO/IEC 18013-7
+ * Annex C: DHKEM(P-256, HKDF-SHA256), HKDF-SHA256 and AES-128-GCM.
+ * Only single-shot encryption is supported.
+ */
+
+/** KEM identifier of DHKEM(P-256, HKDF-SHA256) */
+const KEM_ID = 0x0010;
+/** KDF identifier of HKDF-SHA256 */
+const KDF_ID = 0x0001;
+/** AEAD identifier of AES-128-GCM */
+const AEAD_ID = 0x0001;
+/** HPKE base mode */
+const MODE_BASE = 0x00;
+/** Length of the KEM shared secret */
+const N_SECRET = 32;
+/** Length of the AEAD key */
+const N_K = 16;
+/** Length of the AEAD nonce */
+const N_N = 12;
+/** Output length of SHA-256 */
+const N_H = 32;
+
+const encoder = new TextEncoder();
+
+/**
+ * Big-endian encoding of a non-negative integer
+ * @private
+ */
+const i2osp = (value: number, length: number) => {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value >>= 8;
+  }
+  return bytes;
+};
+
+/**
+ * Concatenates byte arrays
+ * @private
+ */
+const concat = (...parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+/**
+ * Copies bytes into an `ArrayBuffer` backed array as required by WebCrypto
+ * @private
+ */
+const buffer = (bytes: Uint8Array) => new Uint8Array(bytes);
+
+const KEM_SUITE_ID = concat(encoder.encode('KEM'), i2osp(KEM_ID, 2));
+const HPKE_SUITE_ID = concat(
+  encoder.encode('HPKE'),
+  i2osp(KEM_ID, 2),
+  i2osp(KDF_ID, 2),
+  i2osp(AEAD_ID, 2)
+);
+const HPKE_VERSION = encoder.encode('HPKE-v1');
+
+/**
+ * HMAC-SHA256
+ * @private
+ */
+const hmac = async (key: Uint8Array, data: Uint8Array) => {
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    // An empty salt is equivalent to a zero-filled key of the hash length
+    key.length > 0 ? buffer(key) : new Uint8Array(N_H),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(
+    await crypto.subtle.sign('HMAC', hmacKey, buffer(data))
+  );
+};
+
+/**
+ * HKDF-Expand (RFC 5869)
+ * @private
+ */
+const expand = async (prk: Uint8Array, info: Uint8Array, length: number) => {
+  const okm = new Uint8Array(length);
+  let previous = new Uint8Array(0);
+  for (let i = 0, offset = 0; offset < length; i++) {
+    previous = await hmac(prk, concat(previous, info, new Uint8Array([i + 1])));
+    okm.set(previous.subarray(0, length - offset), offset);
+    offset += previous.length;
+  }
+  return okm;
+};
+
+/**
+ * LabeledExtract of RFC 9180
+ * @private
+ */
+const labeledExtract = (
+  suiteId: Uint8Array,
+  salt: Uint8Array,
+  label: string,
+  ikm: Uint8Array
+) => hmac(salt, concat(HPKE_VERSION, suiteId, encoder.encode(label), ikm));
+
+/**
+ * LabeledExpand of RFC 9180
+ * @private
+ */
+const labeledExpand = (
+  suiteId: Uint8Array,
+  prk: Uint8Array,
+  label: string,
+  info: Uint8Array,
+  length: number
+) =>
+  expand(
+    prk,
+    concat(
+      i2osp(length, 2),
+      HPKE_VERSION,
+      suiteId,
+      encoder.encode(label),
+      info
+    ),
+    length
+  );
+
+/**
+ * Derives the KEM shared secret from a Diffie-Hellman result
+ * @private
+ */
+const extractAndExpand = async (dh: Uint8Array, kemContext: Uint8Array) => {
+  const eaePrk = await labeledExtract(
+    KEM_SUITE_ID,
+    new Uint8Array(0),
+    'eae_prk',
+    dh
+  );
+  return labeledExpand(
+    KEM_SUITE_ID,
+    eaePrk,
+    'shared_secret',
+    kemContext,
+    N_SECRET
+  );
+};
+
+/**
+ * Derives the AEAD key and nonce of the base mode key schedule
+ * @private
+ */
+const keySchedule = async (sharedSecret: Uint8Array, info: Uint8Array) => {
+  const empty = new Uint8Array(0);
+  const pskIdHash = await labeledExtract(
+    HPKE_SUITE_ID,
+    empty,
+    'psk_id_hash',
+    empty
+  );
+  const infoHash = await labeledExtract(
+    HPKE_SUITE_ID,
+    empty,
+    'info_hash',
+    info
+  );
+  const context = concat(new Uint8Array([MODE_BASE]), pskIdHash, infoHash);
+  const secret = await labeledExtract(
+    HPKE_SUITE_ID,
+    sharedSecret,
+    'secret',
+    empty
+  );
+  const key = await labeledExpand(HPKE_SUITE_ID, secret, 'key', context, N_K);
+  const nonce = await labeledExpand(
+    HPKE_SUITE_ID,
+    secret,
+    'base_nonce',
+    context,
+    N_N
+  );
+  return {
+    key: await crypto.subtle.importKey('raw', key, 'AES-GCM', false, [
+      'encrypt',
+      'decrypt',
+    ]),
+    nonce,
+  };
+};
+
+/**
+ * Uncompressed point encoding of a P-256 public JWK
+ * @private
+ */
+const serializePublicKey = (jwk: JsonWebKey) => {
+  if (jwk.kty !== 'EC' || jwk.crv !== 'P-256' || !jwk.x || !jwk.y) {
+    throw new TypeError('HPKE keys must be P-256 EC keys');
+  }
+  return concat(
+    new Uint8Array([0x04]),
+    Buffer.from(jwk.x, 'base64url'),
+    Buffer.from(jwk.y, 'base64url')
+  );
+};
+
+/**
+ * Elliptic-curve Diffie-Hellman returning the x coordinate
+ * @private
+ */
+const diffieHellman = async (privateKey: CryptoKey, publicKey: CryptoKey) =>
+  new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: 'ECDH', public: publicKey },
+      privateKey,
+      256
+    )
+  );
+
+const ECDH_P256 = { name: 'ECDH', namedCurve: 'P-256' } as const;
+
+/**
+ * Encrypts a message to a recipient public key
+ *
+ * @param recipientPublicJwk - P-256 public key of the recipient
+ * @param plaintext - Message to encrypt
+ * @param info - Application supplied context bound to the key schedule
+ * @param aad - Additional authenticated data
+ * @returns Encapsulated key and ciphertext
+ *
+ * @public
+ */
+export const hpkeSeal = async (
+  recipientPublicJwk: JsonWebKey,
+  plaintext: Uint8Array,
+  info: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Promise<HpkeSealed> => {
+  const pkRm = serializePublicKey(recipientPublicJwk);
+  const pkR = await crypto.subtle.importKey('raw', pkRm, ECDH_P256, false, []);
+  const ephemeral = (await crypto.subtle.generateKey(ECDH_P256, true, [
+    'deriveBits',
+  ])) as CryptoKeyPair;
+  const enc = new Uint8Array(
+    await crypto.subtle.exportKey('raw', ephemeral.publicKey)
+  );
+
+  const dh = await diffieHellman(ephemeral.privateKey, pkR);
+  const sharedSecret = await extractAndExpand(dh, concat(enc, pkRm));
+  const { key, nonce } = await keySchedule(sharedSecret, info);
+  const cipherText = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: nonce, additionalData: buffer(aad) },
+      key,
+      buffer(plaintext)
+    )
+  );
+
+  return { enc, cipherText };
+};
+
+/**
+ * Decrypts a message encrypted to a recipient key pair
+ *
+ * @param recipientPrivateJwk - P-256 private key of the recipient (with `x`/`y`)
+ * @param sealed - Encapsulated key and ciphertext
+ * @param info - Application supplied context bound to the key schedule
+ * @param aad - Additional authenticated data
+ * @returns Decrypted message
+ * @throws {Error} When the message cannot be decrypted
+ *
+ * @public
+ */
+export const hpkeOpen = async (
+  recipientPrivateJwk: JsonWebKey,
+  { enc, cipherText }: HpkeSealed,
+  info: Uint8Array,
+  aad: Uint8Array = new Uint8Array(0)
+): Promise<Uint8Array> => {
+  const pkRm = serializePublicKey(recipientPrivateJwk);
+  const skR = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      x: recipientPrivateJwk.x,
+      y: recipientPrivateJwk.y,
+      d: recipientPrivateJwk.d,
+    },
+    ECDH_P256,
+    false,
+    ['deriveBits']
+  );
+
+  let pkE: CryptoKey;
+  try {
+    pkE = await crypto.subtle.importKey(
+      'raw',
+      buffer(enc),
+      ECDH_P256,
+      false,
+      []
+    );
+  } catch {
+    throw new Error('Invalid HPKE encapsulated key');
+  }
+
+  const dh = await diffieHellman(skR, pkE);
+  const sharedSecret = await extractAndExpand(dh, concat(enc, pkRm));
+  const { key, nonce } = await keySchedule(sharedSecret, info);
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: nonce, additionalData: buffer(aad) },
+        key,
+        buffer(cipherText)
+      )
+    );
+  } catch {
+    throw new Error('Invalid HPKE ciphertext');
+  }
+};
+
+/**
+ * Generates a recipient key pair
+ *
+ * @returns P-256 private and public keys as JWKs
+ *
+ * @public
+ */
+export const generateHpkeKeyPair = async (): Promise<{
+  privateJwk: JsonWebKey;
+  publicJwk: JsonWebKey;
+}> => {
+  const keyPair = (await crypto.subtle.generateKey(ECDH_P256, true, [
+    'deriveBits',
+  ])) as CryptoKeyPair;
+  const [privateJwk, publicJwk] = await Promise.all([
+    crypto.subtle.exportKey('jwk', keyPair.privateKey),
+    crypto.subtle.exportKey('jwk', keyPair.publicKey),
+  ]);
+  return { privateJwk, publicJwk };
+};
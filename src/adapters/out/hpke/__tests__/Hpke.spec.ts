@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { Buffer } from 'node:buffer';
+import { generateHpkeKeyPair, hpkeOpen, hpkeSeal } from '../Hpke';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Sealed with an independent RFC 9180 implementation (DHKEM(P-256), HKDF-SHA256, AES-128-GCM)
+const vector = {
+  privateJwk: {
+    kty: 'EC',
+    crv: 'P-256',
+    x: 'qHFt8HSdoY2EinPUBbwJvS4V5QnELWyXlfijdX2RqD0',
+    y: '0nXSxG1FR4R4G8aYSf5Lt_7f_IqyZUZ6kAfzUqE2SEg',
+    d: '5XvtpPNMgHli_zChaPgnH4urcvthuzsvVkOhxV-J68o',
+  },
+  info: 'org-iso-mdoc',
+  plaintext: 'DeviceResponse',
+  enc: '043ba6a47696d922e897c090fdba9349aa35f7ae2686b201bc32f102b54b4379f96ae7d10de4ea2679cc6d74e3ca741427b00eb64d34208579cc16fcb7b6411aa1',
+  cipherText: 'a7edd735d19641b0a2b4e899110ae176f3970b8abccac5d0f09bbe93950c',
+};
+
+describe('Hpke', () => {
+  it('should open a message sealed by another implementation', async () => {
+    const plaintext = await hpkeOpen(
+      vector.privateJwk,
+      {
+        enc: Buffer.from(vector.enc, 'hex'),
+        cipherText: Buffer.from(vector.cipherText, 'hex'),
+      },
+      encoder.encode(vector.info)
+    );
+
+    expect(decoder.decode(plaintext)).toBe(vector.plaintext);
+  });
+
+  it('should open what it seals', async () => {
+    const { privateJwk, publicJwk } = await generateHpkeKeyPair();
+    const info = encoder.encode('session transcript');
+
+    const sealed = await hpkeSeal(publicJwk, encoder.encode('hello'), info);
+
+    expect(sealed.enc).toHaveLength(65);
+    expect(sealed.enc[0]).toBe(0x04);
+    expect(decoder.decode(await hpkeOpen(privateJwk, sealed, info))).toBe(
+      'hello'
+    );
+  });
+
+  it('should reject a different info', async () => {
+    const { privateJwk, publicJwk } = await generateHpkeKeyPair();
+    const sealed = await hpkeSeal(
+      publicJwk,
+      encoder.encode('hello'),
+      encoder.encode('https://verifier.example.com')
+    );
+
+    await expect(
+      hpkeOpen(privateJwk, sealed, encoder.encode('https://evil.example'))
+    ).rejects.toThrow('Invalid HPKE ciphertext');
+  });
+
+  it('should reject a different additional authenticated data', async () => {
+    const { privateJwk, publicJwk } = await generateHpkeKeyPair();
+    const info = encoder.encode('info');
+    const sealed = await hpkeSeal(
+      publicJwk,
+      encoder.encode('hello'),
+      info,
+      encoder.encode('aad')
+    );
+
+    await expect(hpkeOpen(privateJwk, sealed, info)).rejects.toThrow(
+      'Invalid HPKE ciphertext'
+    );
+  });
+
+  it('should reject a malformed encapsulated key', async () => {
+    const { privateJwk } = await generateHpkeKeyPair();
+
+    await expect(
+      hpkeOpen(
+        privateJwk,
+        { enc: new Uint8Array(65), cipherText: new Uint8Array(32) },
+        new Uint8Array(0)
+      )
+    ).rejects.toThrow('Invalid HPKE encapsulated key');
+  });
+
+  it('should reject keys on other curves', async () => {
+    await expect(
+      hpkeSeal(
+        { kty: 'OKP', crv: 'X25519', x: 'AAAA' },
+        new Uint8Array(0),
+        new Uint8Array(0)
+      )
+    ).rejects.toThrow('HPKE keys must be P-256 EC keys');
+  });
+});
@@ -0,0 +1,126 @@
+import { z, type ZodSchema } from 'zod';
+import { Buffer } from 'node:buffer';
+import type {
+  Fetcher,
+  GetRequest,
+  PostRequest,
+  HttpRequestBody,
+  HttpRequestOptions,
+  HttpResponse,
+} from '@vecrea/oid4vc-verifier-frontend-core';
+
+/**
+ * Default request timeout (10 seconds)
+ * @private
+ */
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Schema of the response of {@link RawContentFetcher}
+ *
+ * - `contentType`: `Content-Type` of the response, empty when missing
+ * - `body`: Response body, base64 encoded
+ *
+ * @public
+ */
+export const rawContentSchema = z.object({
+  contentType: z.string(),
+  body: z.string(),
+});
+
+export type RawContent = z.infer<typeof rawContentSchema>;
+
+/**
+ * Fetcher returning response bodies as is
+ *
+ * The core fetchers parse every response as JSON. Revocation data is binary
+ * (CRLs, CWTs) or a compact JWT, so this fetcher hands the body back as a
+ * {@link RawContent} document instead, which is then validated by the given
+ * schema like any other response. Use {@link rawContentSchema} as schema.
+ *
+ * @example
+ * ```typescript
+ * const fetcher = new RawContentFetcher();
+ * const { data } = await fetcher.get(crlUrl, '', {}, rawContentSchema);
+ * const der = Buffer.from(data.body, 'base64');
+ * ```
+ *
+ * @public
+ */
+export class RawContentFetcher implements Fetcher {
+  /**
+   * Performs a GET request
+   */
+  get: GetRequest = <T>(
+    baseUrl: string,
+    path: string,
+    query: Record<string, string>,
+    schema: ZodSchema<T>,
+    options?: HttpRequestOptions
+  ): Promise<HttpResponse<T>> =>
+    this.#request('GET', baseUrl, path, query, schema, undefined, options);
+
+  /**
+   * Performs a POST request, sending objects as JSON
+   */
+  post: PostRequest = <T>(
+    baseUrl: string,
+    path: string,
+    body: HttpRequestBody,
+    schema: ZodSchema<T>,
+    options?: HttpRequestOptions
+  ): Promise<HttpResponse<T>> =>
+    this.#request('POST', baseUrl, path, {}, schema, body, options);
+
+  async #request<T>(
+    method: string,
+    baseUrl: string,
+    path: string,
+    query: Record<string, string>,
+    schema: ZodSchema<T>,
+    body: HttpRequestBody | undefined,
+    options: HttpRequestOptions = {}
+  ): Promise<HttpResponse<T>> {
+    const url = new URL(`${baseUrl}${path}`);
+    Object.entries(query).forEach(([name, value]) =>
+      url.searchParams.set(name, value)
+    );
+
+    const isJson =
+      typeof body === 'object' &&
+      body !== null &&
+      Object.getPrototypeOf(body) === Object.prototype;
+    const response = await fetch(url, {
+      ...options.fetchOptions,
+      method,
+      headers: {
+        ...(isJson && { 'Content-Type': 'application/json' }),
+        ...options.headers,
+      },
+      body: isJson ? JSON.stringify(body) : (body as BodyInit | undefined),
+      signal:
+        options.signal ??
+        AbortSignal.timeout(options.timeout ?? DEFAULT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `HTTP ${response.status}: ${response.statusText} (${url.toString()})`
+      );
+    }
+
+    const headers = Object.fromEntries(response.headers.entries());
+    return {
+      data: schema.parse({
+        contentType: response.headers.get('Content-Type') ?? '',
+        body: Buffer.from(await response.arrayBuffer()).toString('base64'),
+      }),
+      metadata: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        url: response.url,
+        ok: response.ok,
+      },
+    };
+  }
+}
@@ -0,0 +1,251 @@
+import { JWK, SignJWT, importJWK } from 'jose';
+
+/**
+ * Client identifier prefixes supported for signed requests
+ *
+ * - `x509_san_dns`: the request is signed with the key of an X.509
+ *   certificate whose DNS SAN matches the client identifier; the chain is
+ *   sent in the `x5c` header
+ * - `verifier_attestation`: the request is signed with the key bound to a
+ *   Verifier Attestation JWT, sent in the `jwt` header
+ *
+ * @public
+ */
+export type ClientIdPrefix = 'x509_san_dns' | 'verifier_attestation';
+
+/**
+ * Options of {@link RequestObjectSigner}
+ *
+ * @public
+ */
+export interface RequestObjectSignerOptions {
+  /** Private signing key */
+  privateJwk: JWK;
+  /** Client identifier including its prefix, e.g. `x509_san_dns:verifier.example.com` */
+  clientId: string;
+  /** Origins the wallet must see the request coming from */
+  expectedOrigins: string[];
+  /** Base64 DER certificate chain, leaf first (`x509_san_dns`) */
+  x5c?: string[];
+  /** Verifier Attestation JWT (`verifier_attestation`) */
+  verifierAttestation?: string;
+}
+
+/**
+ * JWS algorithms derived from the curve of the signing key
+ * @private
+ */
+const ALG_BY_CURVE: Record<string, string> = {
+  'P-256': 'ES256',
+  'P-384': 'ES384',
+  'P-521': 'ES512',
+  Ed25519: 'EdDSA',
+};
+
+/**
+ * Signs OpenID4VP request objects (JAR) for the `openid4vp-v1-signed` protocol
+ *
+ * The signed request carries the verifier's `client_id` and the
+ * `expected_origins` the wallet compares with the origin reported by the
+ * browser, so that a request cannot be replayed from another site.
+ *
+ * @example
+ * ```typescript
+ * const signer = new RequestObjectSigner({
+ *   privateJwk,
+ *   clientId: 'x509_san_dns:verifier.example.com',
+ *   expectedOrigins: ['https://verifier.example.com'],
+ *   x5c: [leafCertificate],
+ * });
+ * const request = await signer.sign({ dcql_query, nonce, ... });
+ * ```
+ *
+ * @public
+ */
+export class RequestObjectSigner {
+  readonly #options: RequestObjectSignerOptions;
+  readonly #alg: string;
+  readonly #clientIdPrefix: ClientIdPrefix;
+
+  /**
+   * @param options - Signing key, client identifier and certificate or attestation
+   * @throws {TypeError} When the options are inconsistent
+   */
+  constructor(options: RequestObjectSignerOptions) {
+    const { privateJwk, clientId, expectedOrigins, x5c, verifierAttestation } =
+      options;
+
+    if (!privateJwk || typeof privateJwk !== 'object' || !privateJwk.d) {
+      throw new TypeError('privateJwk must be a private JWK');
+    }
+    const alg = privateJwk.alg ?? ALG_BY_CURVE[privateJwk.crv ?? ''];
+    if (!alg) {
+      throw new TypeError(
+        `Unsupported signing key: ${privateJwk.kty}/${privateJwk.crv}`
+      );
+    }
+    if (!Array.isArray(expectedOrigins) || expectedOrigins.length === 0) {
+      throw new TypeError('expectedOrigins must be a non-empty array');
+    }
+
+    const prefix = clientId?.slice(0, clientId.indexOf(':'));
+    if (prefix === 'x509_san_dns') {
+      if (!x5c || x5c.length === 0) {
+        throw new TypeError('x5c is required for the x509_san_dns prefix');
+      }
+    } else if (prefix === 'verifier_attestation') {
+      if (!verifierAttestation) {
+        throw new TypeError(
+          'verifierAttestation is required for the verifier_attestation prefix'
+        );
+      }
+    } else {
+      throw new TypeError(
+        'clientId must start with "x509_san_dns:" or "verifier_attestation:"'
+      );
+    }
+
+    this.#options = options;
+    this.#alg = alg;
+    this.#clientIdPrefix = prefix;
+  }
+
+  /**
+   * Client identifier including its prefix
+   */
+  get clientId(): string {
+    return this.#options.clientId;
+  }
+
+  /**
+   * Client identifier prefix
+   */
+  get clientIdPrefix(): ClientIdPrefix {
+    return this.#clientIdPrefix;
+  }
+
+  /**
+   * Origins written to `expected_origins`
+   */
+  get expectedOrigins(): string[] {
+    return [...this.#options.expectedOrigins];
+  }
+
+  /**
+   * Signs request parameters as a request object
+   *
+   * `client_id` and `expected_origins` are added to the parameters.
+   *
+   * @param parameters - Authorization request parameters
+   * @returns Compact JWS with `typ` `oauth-authz-req+jwt`
+   */
+  async sign(parameters: Record<string, unknown>): Promise<string> {
+    const { privateJwk, clientId, expectedOrigins, x5c, verifierAttestation } =
+      this.#options;
+    const key = await importJWK(privateJwk, this.#alg);
+
+    return new SignJWT({
+      ...parameters,
+      client_id: clientId,
+      expected_origins: expectedOrigins,
+    })
+      .setProtectedHeader({
+        alg: this.#alg,
+        typ: 'oauth-authz-req+jwt',
+        ...(this.#clientIdPrefix === 'x509_san_dns'
+          ? { x5c }
+          : { jwt: verifierAttestation }),
+      })
+      .setIssuedAt()
+      .sign(key);
+  }
+}
+
+/**
+ * Deployment settings for signed Digital Credentials API requests
+ *
+ * @public
+ */
+export interface RequestObjectSignerSettings {
+  /** `signed` or `unsigned` (default) */
+  DC_API_REQUEST_MODE?: string;
+  /** Client identifier including its prefix */
+  DC_API_CLIENT_ID?: string;
+  /** Private signing key as a JWK JSON document */
+  DC_API_SIGNING_JWK?: string;
+  /** Certificate chain: JSON array or comma separated base64 DER certificates */
+  DC_API_SIGNING_X5C?: string;
+  /** Verifier Attestation JWT */
+  DC_API_VERIFIER_ATTESTATION?: string;
+  /** Comma separated expected origins; defaults to the origin of `PUBLIC_URL` */
+  DC_API_EXPECTED_ORIGINS?: string;
+  /** Public URL of the frontend */
+  PUBLIC_URL?: string;
+}
+
+/**
+ * Splits a JSON array or comma separated list
+ * @private
+ */
+const parseList = (value?: string): string[] | undefined => {
+  if (!value || !value.trim()) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  const items: unknown = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split(',');
+  if (!Array.isArray(items)) {
+    throw new Error(`Invalid list: ${value}`);
+  }
+  return items.map((item) => String(item).trim()).filter(Boolean);
+};
+
+/**
+ * Creates the request object signer configured for the deployment
+ *
+ * @param settings - Deployment bindings
+ * @returns The signer, or `undefined` when requests are sent unsigned
+ * @throws {Error} When signed requests are enabled but the settings are invalid
+ *
+ * @public
+ */
+export const createRequestObjectSigner = (
+  settings: RequestObjectSignerSettings
+): RequestObjectSigner | undefined => {
+  const mode = settings.DC_API_REQUEST_MODE?.trim() || 'unsigned';
+  if (mode === 'unsigned') {
+    return undefined;
+  }
+  if (mode !== 'signed') {
+    throw new Error(`Invalid DC_API_REQUEST_MODE: ${mode}`);
+  }
+  if (!settings.DC_API_SIGNING_JWK) {
+    throw new Error('Missing DC_API_SIGNING_JWK for signed requests');
+  }
+  if (!settings.DC_API_CLIENT_ID) {
+    throw new Error('Missing DC_API_CLIENT_ID for signed requests');
+  }
+
+  let privateJwk: JWK;
+  try {
+    privateJwk = JSON.parse(settings.DC_API_SIGNING_JWK);
+  } catch {
+    throw new Error('Invalid DC_API_SIGNING_JWK: not a JSON document');
+  }
+
+  const expectedOrigins = parseList(settings.DC_API_EXPECTED_ORIGINS);
+  if (!expectedOrigins && !settings.PUBLIC_URL) {
+    throw new Error(
+      'Missing DC_API_EXPECTED_ORIGINS or PUBLIC_URL for signed requests'
+    );
+  }
+
+  return new RequestObjectSigner({
+    privateJwk,
+    clientId: settings.DC_API_CLIENT_ID,
+    expectedOrigins: expectedOrigins ?? [new URL(settings.PUBLIC_URL!).origin],
+    x5c: parseList(settings.DC_API_SIGNING_X5C),
+    verifierAttestation: settings.DC_API_VERIFIER_ATTESTATION,
+  });
+};
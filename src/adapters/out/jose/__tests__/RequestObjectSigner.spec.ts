@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  JWK,
+  decodeProtectedHeader,
+  exportJWK,
+  generateKeyPair,
+  jwtVerify,
+} from 'jose';
+import {
+  RequestObjectSigner,
+  createRequestObjectSigner,
+} from '../RequestObjectSigner';
+
+const x5c = ['MIIBdummyLeafCertificate'];
+const verifierAttestation =
+  'eyJhbGciOiJFUzI1NiJ9.eyJzdWIiOiJ2ZXJpZmllciJ9.c2ln';
+
+describe('RequestObjectSigner', () => {
+  let privateJwk: JWK;
+  let publicKey: CryptoKey;
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair('ES256', { extractable: true });
+    privateJwk = await exportJWK(keyPair.privateKey);
+    publicKey = keyPair.publicKey as CryptoKey;
+  });
+
+  describe('sign', () => {
+    it('should sign an x509_san_dns request object', async () => {
+      const signer = new RequestObjectSigner({
+        privateJwk,
+        clientId: 'x509_san_dns:verifier.example.com',
+        expectedOrigins: ['https://verifier.example.com'],
+        x5c,
+      });
+
+      const jws = await signer.sign({
+        nonce: 'nonce',
+        response_type: 'vp_token',
+      });
+      const { payload, protectedHeader } = await jwtVerify(jws, publicKey);
+
+      expect(protectedHeader).toEqual({
+        alg: 'ES256',
+        typ: 'oauth-authz-req+jwt',
+        x5c,
+      });
+      expect(payload).toMatchObject({
+        nonce: 'nonce',
+        response_type: 'vp_token',
+        client_id: 'x509_san_dns:verifier.example.com',
+        expected_origins: ['https://verifier.example.com'],
+      });
+      expect(payload.iat).toBeTypeOf('number');
+    });
+
+    it('should send the attestation for verifier_attestation', async () => {
+      const signer = new RequestObjectSigner({
+        privateJwk,
+        clientId: 'verifier_attestation:verifier.example.com',
+        expectedOrigins: ['https://verifier.example.com'],
+        verifierAttestation,
+      });
+
+      const jws = await signer.sign({ nonce: 'nonce' });
+
+      expect(signer.clientIdPrefix).toBe('verifier_attestation');
+      expect(decodeProtectedHeader(jws)).toEqual({
+        alg: 'ES256',
+        typ: 'oauth-authz-req+jwt',
+        jwt: verifierAttestation,
+      });
+    });
+
+    it('should not let parameters override client_id', async () => {
+      const signer = new RequestObjectSigner({
+        privateJwk,
+        clientId: 'x509_san_dns:verifier.example.com',
+        expectedOrigins: ['https://verifier.example.com'],
+        x5c,
+      });
+
+      const jws = await signer.sign({ client_id: 'x509_san_dns:evil.example' });
+      const { payload } = await jwtVerify(jws, publicKey);
+
+      expect(payload.client_id).toBe('x509_san_dns:verifier.example.com');
+    });
+  });
+
+  describe('constructor', () => {
+    it('should reject public keys', () => {
+      const { d: _d, ...publicJwk } = privateJwk;
+
+      expect(
+        () =>
+          new RequestObjectSigner({
+            privateJwk: publicJwk,
+            clientId: 'x509_san_dns:verifier.example.com',
+            expectedOrigins: ['https://verifier.example.com'],
+            x5c,
+          })
+      ).toThrow('privateJwk must be a private JWK');
+    });
+
+    it('should require x5c for x509_san_dns', () => {
+      expect(
+        () =>
+          new RequestObjectSigner({
+            privateJwk,
+            clientId: 'x509_san_dns:verifier.example.com',
+            expectedOrigins: ['https://verifier.example.com'],
+          })
+      ).toThrow('x5c is required');
+    });
+
+    it('should reject unsupported client identifier prefixes', () => {
+      expect(
+        () =>
+          new RequestObjectSigner({
+            privateJwk,
+            clientId: 'redirect_uri:https://verifier.example.com',
+            expectedOrigins: ['https://verifier.example.com'],
+            x5c,
+          })
+      ).toThrow('clientId must start with');
+    });
+
+    it('should require expected origins', () => {
+      expect(
+        () =>
+          new RequestObjectSigner({
+            privateJwk,
+            clientId: 'x509_san_dns:verifier.example.com',
+            expectedOrigins: [],
+            x5c,
+          })
+      ).toThrow('expectedOrigins must be a non-empty array');
+    });
+  });
+
+  describe('createRequestObjectSigner', () => {
+    it('should return undefined for unsigned deployments', () => {
+      expect(createRequestObjectSigner({})).toBeUndefined();
+      expect(
+        createRequestObjectSigner({ DC_API_REQUEST_MODE: 'unsigned' })
+      ).toBeUndefined();
+    });
+
+    it('should create a signer from the bindings', () => {
+      const signer = createRequestObjectSigner({
+        DC_API_REQUEST_MODE: 'signed',
+        DC_API_CLIENT_ID: 'x509_san_dns:verifier.example.com',
+        DC_API_SIGNING_JWK: JSON.stringify(privateJwk),
+        DC_API_SIGNING_X5C: JSON.stringify(x5c),
+        PUBLIC_URL: 'https://verifier.example.com/app',
+      });
+
+      expect(signer?.clientId).toBe('x509_san_dns:verifier.example.com');
+      expect(signer?.expectedOrigins).toEqual(['https://verifier.example.com']);
+    });
+
+    it('should split comma separated expected origins', () => {
+      const signer = createRequestObjectSigner({
+        DC_API_REQUEST_MODE: 'signed',
+        DC_API_CLIENT_ID: 'verifier_attestation:verifier.example.com',
+        DC_API_SIGNING_JWK: JSON.stringify(privateJwk),
+        DC_API_VERIFIER_ATTESTATION: verifierAttestation,
+        DC_API_EXPECTED_ORIGINS:
+          'https://verifier.example.com, https://www.verifier.example.com',
+      });
+
+      expect(signer?.expectedOrigins).toEqual([
+        'https://verifier.example.com',
+        'https://www.verifier.example.com',
+      ]);
+    });
+
+    it('should reject invalid settings', () => {
+      expect(() =>
+        createRequestObjectSigner({ DC_API_REQUEST_MODE: 'jar' })
+      ).toThrow('Invalid DC_API_REQUEST_MODE: jar');
+      expect(() =>
+        createRequestObjectSigner({ DC_API_REQUEST_MODE: 'signed' })
+      ).toThrow('Missing DC_API_SIGNING_JWK');
+      expect(() =>
+        createRequestObjectSigner({
+          DC_API_REQUEST_MODE: 'signed',
+          DC_API_SIGNING_JWK: '{',
+          DC_API_CLIENT_ID: 'x509_san_dns:verifier.example.com',
+        })
+      ).toThrow('Invalid DC_API_SIGNING_JWK');
+      expect(() =>
+        createRequestObjectSigner({
+          DC_API_REQUEST_MODE: 'signed',
+          DC_API_SIGNING_JWK: JSON.stringify(privateJwk),
+          DC_API_CLIENT_ID: 'x509_san_dns:verifier.example.com',
+          DC_API_SIGNING_X5C: x5c.join(','),
+        })
+      ).toThrow('Missing DC_API_EXPECTED_ORIGINS or PUBLIC_URL');
+    });
+  });
+});
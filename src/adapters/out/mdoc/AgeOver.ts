@@ -0,0 +1,41 @@
+/**
+ * Age the age verification mode checks when none is requested
+ *
+ * @public
+ */
+export const DEFAULT_AGE_THRESHOLD = 18;
+
+/**
+ * Pattern of `age_over_NN` data elements (ISO/IEC 18013-5 §7.2.5)
+ *
+ * @public
+ */
+export const AGE_OVER_PATTERN = /^age_over_(\d{2})$/;
+
+/**
+ * Reads the age of an age verification request
+ *
+ * @param value - Age as given in a request, e.g. `20`
+ * @returns The age, between 1 and 99
+ * @throws {Error} `Invalid age threshold ...` when the value is not such an age
+ *
+ * @public
+ */
+export const parseAgeThreshold = (value: string): number => {
+  const age = /^\d{1,2}$/.test(value.trim()) ? Number(value) : NaN;
+  if (!(age >= 1 && age <= 99)) {
+    throw new Error(`Invalid age threshold: ${value}`);
+  }
+  return age;
+};
+
+/**
+ * Identifier of the data element attesting an age
+ *
+ * @param age - Age between 1 and 99
+ * @returns The identifier, e.g. `age_over_18`
+ *
+ * @public
+ */
+export const ageOverElement = (age: number): string =>
+  `age_over_${String(age).padStart(2, '0')}`;
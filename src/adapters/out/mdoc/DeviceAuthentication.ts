@@ -0,0 +1,228 @@
+import { Tag } from 'cbor-x';
+import { Buffer } from 'node:buffer';
+import {
+  COSE_ALGORITHMS,
+  decodeTag24,
+  mdocCbor,
+  readCoseSign1,
+} from './MdocCbor';
+
+/**
+ * Inputs of the OpenID4VP Digital Credentials API handover
+ *
+ * @public
+ */
+export interface OpenId4VpDcApiHandoverInfo {
+  /** Origin of the page that called the Digital Credentials API */
+  origin: string;
+  /** `nonce` of the authorization request */
+  nonce: string;
+  /** JWK SHA-256 thumbprint (base64url) of the response encryption key, if encrypted */
+  jwkThumbprint?: string;
+}
+
+/**
+ * JWK curve names by COSE curve identifier
+ * @private
+ */
+const COSE_CURVES: Record<number, string> = {
+  1: 'P-256',
+  2: 'P-384',
+  3: 'P-521',
+};
+
+/**
+ * Builds the SessionTranscript of the OpenID4VP Digital Credentials API handover
+ *
+ * `[null, null, ["OpenID4VPDCAPIHandover", SHA-256([origin, nonce, jwk_thumbprint])]]`
+ *
+ * The client identifier of a Digital Credentials API request is derived from
+ * the origin (or checked by the wallet against `expected_origins` for signed
+ * requests), so binding the origin also binds the client.
+ *
+ * @param info - Origin, nonce and encryption key thumbprint of the request
+ * @returns Encoded SessionTranscript
+ *
+ * @public
+ */
+export const createOpenId4VpDcApiSessionTranscript = async ({
+  origin,
+  nonce,
+  jwkThumbprint,
+}: OpenId4VpDcApiHandoverInfo): Promise<Uint8Array> => {
+  const handoverInfo = mdocCbor.encode([
+    origin,
+    nonce,
+    jwkThumbprint ? Buffer.from(jwkThumbprint, 'base64url') : null,
+  ]);
+  const handoverInfoHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new Uint8Array(handoverInfo))
+  );
+  return mdocCbor.encode([
+    null,
+    null,
+    ['OpenID4VPDCAPIHandover', handoverInfoHash],
+  ]);
+};
+
+/**
+ * Reads a COSE_Sign1 structure of the response
+ * @private
+ */
+const coseSign1 = (value: unknown, name: string) => {
+  const sign1 = readCoseSign1(value);
+  if (!sign1) {
+    throw new Error(`Invalid device authentication: malformed ${name}`);
+  }
+  return sign1;
+};
+
+/**
+ * Decodes CBOR wrapped in a byte string tagged 24
+ * @private
+ */
+const embedded = (value: unknown, name: string): unknown => {
+  const decoded = decodeTag24(value);
+  if (decoded === undefined) {
+    throw new Error(`Invalid device authentication: malformed ${name}`);
+  }
+  return decoded;
+};
+
+/**
+ * Imports the device key from the MobileSecurityObject
+ * @private
+ */
+const importDeviceKey = async (issuerAuth: unknown, alg: number) => {
+  const { payload } = coseSign1(issuerAuth, 'issuerAuth');
+  if (!(payload instanceof Uint8Array)) {
+    throw new Error('Invalid device authentication: missing MSO');
+  }
+  const mso = embedded(mdocCbor.decode(payload), 'MSO');
+  const deviceKey =
+    mso instanceof Map && mso.get('deviceKeyInfo') instanceof Map
+      ? mso.get('deviceKeyInfo').get('deviceKey')
+      : undefined;
+
+  if (!(deviceKey instanceof Map) || deviceKey.get(1) !== 2) {
+    throw new Error('Invalid device authentication: unsupported device key');
+  }
+  const namedCurve = COSE_CURVES[deviceKey.get(-1)];
+  if (namedCurve !== COSE_ALGORITHMS[alg].namedCurve) {
+    throw new Error('Invalid device authentication: key and algorithm differ');
+  }
+
+  return crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: namedCurve,
+      x: Buffer.from(deviceKey.get(-2)).toString('base64url'),
+      y: Buffer.from(deviceKey.get(-3)).toString('base64url'),
+    },
+    { name: 'ECDSA', namedCurve },
+    false,
+    ['verify']
+  );
+};
+
+/**
+ * Verifies the device signature of every document of a DeviceResponse
+ *
+ * The signature must cover the DeviceAuthentication structure built from
+ * the SessionTranscript of the request, which proves that the presentation
+ * was produced for this origin and nonce and not replayed from elsewhere.
+ * Only `deviceSignature` is supported; `deviceMac` needs a reader key, which
+ * the Digital Credentials API flow does not use.
+ *
+ * @param deviceResponse - base64url encoded DeviceResponse
+ * @param sessionTranscript - Encoded SessionTranscript of the request
+ * @throws {Error} `Invalid device authentication ...` when a document is not bound to the transcript
+ *
+ * @public
+ */
+export const verifyDeviceAuthentication = async (
+  deviceResponse: string,
+  sessionTranscript: Uint8Array
+): Promise<void> => {
+  let decoded: unknown;
+  try {
+    decoded = mdocCbor.decode(Buffer.from(deviceResponse, 'base64url'));
+  } catch {
+    throw new Error(
+      'Invalid device authentication: DeviceResponse is not CBOR'
+    );
+  }
+  const documents = decoded instanceof Map ? decoded.get('documents') : [];
+  if (!Array.isArray(documents) || documents.length === 0) {
+    throw new Error('Invalid device authentication: no documents');
+  }
+
+  const transcript = mdocCbor.decode(sessionTranscript);
+
+  for (const document of documents) {
+    const docType = document instanceof Map && document.get('docType');
+    const deviceSigned =
+      document instanceof Map ? document.get('deviceSigned') : undefined;
+    const issuerSigned =
+      document instanceof Map ? document.get('issuerSigned') : undefined;
+    if (
+      typeof docType !== 'string' ||
+      !(deviceSigned instanceof Map) ||
+      !(issuerSigned instanceof Map)
+    ) {
+      throw new Error('Invalid device authentication: malformed document');
+    }
+
+    const deviceAuth = deviceSigned.get('deviceAuth');
+    if (!(deviceAuth instanceof Map) || !deviceAuth.has('deviceSignature')) {
+      throw new Error(
+        `Invalid device authentication: ${docType} has no deviceSignature`
+      );
+    }
+
+    const { protectedHeader, signature } = coseSign1(
+      deviceAuth.get('deviceSignature'),
+      'deviceSignature'
+    );
+    const alg = (mdocCbor.decode(protectedHeader) as Map<number, number>).get(
+      1
+    );
+    if (alg === undefined || !COSE_ALGORITHMS[alg]) {
+      throw new Error(
+        `Invalid device authentication: unsupported algorithm ${alg}`
+      );
+    }
+
+    const deviceNameSpacesBytes = deviceSigned.get('nameSpaces');
+    embedded(deviceNameSpacesBytes, 'DeviceNameSpaces');
+    const deviceAuthenticationBytes = new Tag(
+      mdocCbor.encode([
+        'DeviceAuthentication',
+        transcript,
+        docType,
+        deviceNameSpacesBytes,
+      ]),
+      24
+    );
+    const sigStructure = mdocCbor.encode([
+      'Signature1',
+      protectedHeader,
+      new Uint8Array(0),
+      mdocCbor.encode(deviceAuthenticationBytes),
+    ]);
+
+    const key = await importDeviceKey(issuerSigned.get('issuerAuth'), alg);
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: COSE_ALGORITHMS[alg].hash },
+      key,
+      new Uint8Array(signature),
+      new Uint8Array(sigStructure)
+    );
+    if (!valid) {
+      throw new Error(
+        `Invalid device authentication: ${docType} is not bound to this session`
+      );
+    }
+  }
+};
@@ -0,0 +1,94 @@
+import { X509Certificate } from '@peculiar/x509';
+import { TrustStore } from '../../../ports/out/trust';
+import { DocumentRevocation } from '../../../ports/out/verifier';
+import { RevocationChecker, readStatusReference } from '../revocation';
+import {
+  MDOC_DS_EXTENDED_KEY_USAGE,
+  validateCertificateChain,
+} from '../trust/CertificateChain';
+import { readDocumentSigners } from './DocumentSigner';
+
+/**
+ * Finds the certificate that issued the document signer certificate
+ *
+ * Taken from the x5chain when it carries more than the leaf, otherwise
+ * from the trusted roots.
+ * @private
+ */
+const findIssuer = async (
+  chain: X509Certificate[],
+  roots: string[]
+): Promise<X509Certificate | undefined> => {
+  if (chain.length > 1) {
+    return chain[1];
+  }
+  for (const root of roots) {
+    const certificate = new X509Certificate(root);
+    if (
+      chain[0].issuer === certificate.subject &&
+      (await chain[0].verify({ publicKey: certificate, signatureOnly: true }))
+    ) {
+      return certificate;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Checks whether the documents of a DeviceResponse are revoked
+ *
+ * - Revocation data is only fetched for documents whose signer is anchored
+ *   to a root trusted for the document type, so that the distribution points
+ *   and status list URIs of untrusted issuers are never requested
+ * - The document signer certificate is checked against the CRL of its
+ *   distribution points, when its issuer is known (carried in the x5chain or
+ *   among the trusted roots)
+ * - The credential is checked against the IETF Token Status List referenced
+ *   by the `status` field of its MSO, if any; the status list must be signed
+ *   under a root trusted for the document type
+ *
+ * @param deviceResponse - base64url encoded DeviceResponse
+ * @param checker - Revocation checker
+ * @param trustStore - Trusted IACA roots per document type
+ * @param date - Validation time of the signer chain
+ * @returns Revocation status per document, in response order
+ * @throws {Error} `Revocation check failed ...` when a document signer is not trusted or the revocation data cannot be obtained
+ *
+ * @public
+ */
+export const verifyRevocation = async (
+  deviceResponse: string,
+  checker: RevocationChecker,
+  trustStore: TrustStore,
+  date: Date = new Date()
+): Promise<DocumentRevocation[]> => {
+  const results: DocumentRevocation[] = [];
+  for (const { docType, chain, mso } of readDocumentSigners(deviceResponse)) {
+    const roots = await trustStore.roots(docType);
+    const { trusted, reason } = await validateCertificateChain(
+      chain,
+      roots,
+      date,
+      MDOC_DS_EXTENDED_KEY_USAGE
+    );
+    if (!trusted) {
+      throw new Error(`Revocation check failed: ${reason}`);
+    }
+
+    const issuer = await findIssuer(chain, roots);
+    const certificate = issuer
+      ? await checker.checkCertificate(chain[0], issuer)
+      : { revoked: false };
+    if (certificate.revoked) {
+      results.push({ docType, ...certificate });
+      continue;
+    }
+
+    const reference = readStatusReference(mso?.get('status'));
+    const credential = reference
+      ? await checker.checkStatus(reference, roots)
+      : { revoked: false };
+    results.push({ docType, ...credential });
+  }
+  return results;
+};
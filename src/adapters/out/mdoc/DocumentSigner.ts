@@ -0,0 +1,111 @@
+import { X509Certificate } from '@peculiar/x509';
+import { Buffer } from 'node:buffer';
+import { decodeTag24, mdocCbor, readCoseSign1 } from './MdocCbor';
+
+/**
+ * COSE header label of the certificate chain (`x5chain`)
+ * @private
+ */
+const X5CHAIN = 33;
+
+/**
+ * Issuer data of one document of a DeviceResponse
+ *
+ * @public
+ */
+export interface DocumentSigner {
+  /** Document type */
+  docType: string;
+  /** Document signer certificate chain from the issuerAuth, leaf first */
+  chain: X509Certificate[];
+  /** MobileSecurityObject, when the issuerAuth payload can be decoded */
+  mso?: Map<unknown, unknown>;
+}
+
+/**
+ * Reads the document signer chain from the issuerAuth headers
+ * @private
+ */
+const readX5Chain = (
+  protectedHeader: Map<unknown, unknown>,
+  unprotectedHeader: Map<unknown, unknown>
+): X509Certificate[] => {
+  const x5chain =
+    unprotectedHeader.get(X5CHAIN) ?? protectedHeader.get(X5CHAIN);
+  const certificates = Array.isArray(x5chain) ? x5chain : [x5chain];
+  if (!certificates.every((value) => value instanceof Uint8Array)) {
+    throw new Error('Invalid issuerAuth: missing x5chain');
+  }
+  return certificates.map(
+    (certificate: Uint8Array) =>
+      new X509Certificate(new Uint8Array(certificate))
+  );
+};
+
+/**
+ * Decodes the MobileSecurityObject of an issuerAuth payload
+ * @private
+ */
+const readMso = (payload: Uint8Array | null) => {
+  if (!payload || payload.length === 0) {
+    return undefined;
+  }
+  try {
+    const mso = decodeTag24(mdocCbor.decode(payload));
+    return mso instanceof Map ? mso : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads the document signer of every document of a DeviceResponse
+ *
+ * Signatures are not checked; this only extracts what issuer validation
+ * needs.
+ *
+ * @param deviceResponse - base64url encoded DeviceResponse
+ * @returns Document signers, in response order
+ * @throws {Error} `Invalid DeviceResponse` / `Invalid issuerAuth` when the response is malformed
+ *
+ * @public
+ */
+export const readDocumentSigners = (
+  deviceResponse: string
+): DocumentSigner[] => {
+  let decoded: unknown;
+  try {
+    decoded = mdocCbor.decode(Buffer.from(deviceResponse, 'base64url'));
+  } catch {
+    throw new Error('Invalid DeviceResponse: not CBOR');
+  }
+  const documents = decoded instanceof Map ? decoded.get('documents') : [];
+  if (!Array.isArray(documents)) {
+    throw new Error('Invalid DeviceResponse: missing documents');
+  }
+
+  return documents.map((document) => {
+    const docType = document instanceof Map && document.get('docType');
+    const issuerSigned =
+      document instanceof Map ? document.get('issuerSigned') : undefined;
+    if (typeof docType !== 'string' || !(issuerSigned instanceof Map)) {
+      throw new Error('Invalid DeviceResponse: malformed document');
+    }
+
+    const sign1 = readCoseSign1(issuerSigned.get('issuerAuth'));
+    if (!sign1) {
+      throw new Error('Invalid issuerAuth: not a COSE_Sign1');
+    }
+    const protectedHeader =
+      sign1.protectedHeader.length > 0
+        ? (mdocCbor.decode(sign1.protectedHeader) as Map<unknown, unknown>)
+        : new Map();
+    const mso = readMso(sign1.payload);
+
+    return {
+      docType,
+      chain: readX5Chain(protectedHeader, sign1.unprotectedHeader),
+      ...(mso && { mso }),
+    };
+  });
+};
@@ -0,0 +1,125 @@
+import { Tag } from 'cbor-x';
+import { Clock } from '../../../ports/out/clock';
+import {
+  DocumentValidity,
+  VerifiedDocument,
+} from '../../../ports/out/verifier';
+import { readDocumentSigners } from './DocumentSigner';
+
+/**
+ * Reads a `tdate` (tag 0) or epoch time (tag 1) of the MSO
+ * @private
+ */
+const readTime = (value: unknown): Date | undefined => {
+  const time = value instanceof Tag ? value.value : value;
+  const date =
+    time instanceof Date
+      ? time
+      : typeof time === 'string'
+      ? new Date(time)
+      : typeof time === 'number'
+      ? new Date(time * 1000)
+      : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+};
+
+/**
+ * Reads the `expiry_date` disclosed for a document type
+ *
+ * @returns The date and the end of its last valid day
+ * @private
+ */
+const readExpiryDate = (
+  documents: VerifiedDocument[],
+  docType: string
+): { date: string; end: number } | undefined => {
+  for (const document of documents) {
+    const claim = document[docType]?.expiry_date;
+    const value = claim instanceof Tag ? claim.value : claim;
+    const date =
+      value instanceof Date ? value.toISOString().slice(0, 10) : value;
+    if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      const end = Date.parse(`${date}T23:59:59.999Z`);
+      if (!Number.isNaN(end)) {
+        return { date, end };
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Checks the validity period of the documents of a DeviceResponse
+ *
+ * - The MSO `validityInfo` must have been signed and be valid now:
+ *   `validFrom <= now <= validUntil`
+ * - The document must not have passed its `expiry_date`, when disclosed;
+ *   it stays valid throughout that day
+ * - A passed `expectedUpdate` is reported but does not invalidate the document
+ *
+ * Every bound is relaxed by the clock skew.
+ *
+ * @param deviceResponse - base64url encoded DeviceResponse
+ * @param clock - Clock giving the time of verification
+ * @param clockSkew - Tolerated clock skew in milliseconds
+ * @param documents - Verified documents the `expiry_date` is read from
+ * @returns Validity per document, in response order
+ * @throws {Error} `Invalid DeviceResponse` / `Invalid issuerAuth` when the response is malformed
+ *
+ * @public
+ */
+export const verifyValidity = (
+  deviceResponse: string,
+  clock: Clock,
+  clockSkew = 0,
+  documents: VerifiedDocument[] = []
+): DocumentValidity[] => {
+  const now = clock.now().getTime();
+  return readDocumentSigners(deviceResponse).map(({ docType, mso }) => {
+    const validityInfo = mso?.get('validityInfo');
+    if (!(validityInfo instanceof Map)) {
+      return {
+        docType,
+        valid: false,
+        reason: 'Invalid MSO: missing validityInfo',
+      };
+    }
+    const signed = readTime(validityInfo.get('signed'));
+    const validFrom = readTime(validityInfo.get('validFrom'));
+    const validUntil = readTime(validityInfo.get('validUntil'));
+    const expectedUpdate = readTime(validityInfo.get('expectedUpdate'));
+    if (!signed || !validFrom || !validUntil) {
+      return {
+        docType,
+        valid: false,
+        reason: 'Invalid MSO: malformed validityInfo',
+      };
+    }
+    const expiryDate = readExpiryDate(documents, docType);
+
+    const reason =
+      signed.getTime() - clockSkew > now
+        ? `Not yet valid: signed ${signed.toISOString()}`
+        : validFrom.getTime() - clockSkew > now
+        ? `Not yet valid: valid from ${validFrom.toISOString()}`
+        : validUntil.getTime() + clockSkew < now
+        ? `Expired: valid until ${validUntil.toISOString()}`
+        : expiryDate && expiryDate.end + clockSkew < now
+        ? `Expired: expiry date ${expiryDate.date}`
+        : undefined;
+
+    return {
+      docType,
+      valid: !reason,
+      signed: signed.toISOString(),
+      validFrom: validFrom.toISOString(),
+      validUntil: validUntil.toISOString(),
+      ...(expectedUpdate && {
+        expectedUpdate: expectedUpdate.toISOString(),
+        ...(expectedUpdate.getTime() < now && { updateOverdue: true }),
+      }),
+      ...(expiryDate && { expiryDate: expiryDate.date }),
+      ...(reason && { reason }),
+    };
+  });
+};
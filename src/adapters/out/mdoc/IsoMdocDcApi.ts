@@ -0,0 +1,255 @@
+import { Tag } from 'cbor-x';
+import { Buffer } from 'node:buffer';
+import { DcqlQuery } from '../dcql';
+import { hpkeOpen } from '../hpke';
+import { mdocCbor } from './MdocCbor';
+
+/**
+ * Digital Credentials API protocol identifier of ISO/IEC 18013-7 Annex C
+ *
+ * @public
+ */
+export const ISO_MDOC_PROTOCOL = 'org-iso-mdoc';
+
+/**
+ * Request data passed to `navigator.credentials.get` for `org-iso-mdoc`
+ *
+ * @public
+ */
+export interface IsoMdocRequestData {
+  /** base64url encoded CBOR DeviceRequest */
+  deviceRequest: string;
+  /** base64url encoded CBOR EncryptionInfo */
+  encryptionInfo: string;
+}
+
+/**
+ * Encodes bytes as base64url without padding
+ * @private
+ */
+const toBase64Url = (bytes: Uint8Array): string =>
+  Buffer.from(bytes).toString('base64url');
+
+/**
+ * Builds a CBOR DeviceRequest from the `mso_mdoc` credentials of a DCQL query
+ *
+ * Every credential becomes a DocRequest for its `meta.doctype_value`; claims
+ * with a `[namespace, element]` path are requested with their
+ * `intent_to_retain` flag (default `false`).
+ *
+ * @param query - DCQL query
+ * @returns Encoded DeviceRequest
+ * @throws {Error} When the query has no `mso_mdoc` credential that can be requested
+ *
+ * @public
+ */
+export const createDeviceRequest = (query: DcqlQuery): Uint8Array => {
+  const docRequests = query.credentials
+    .filter(({ format }) => format === 'mso_mdoc')
+    .map(({ id, meta, claims }) => {
+      const docType = meta?.doctype_value;
+      if (typeof docType !== 'string') {
+        throw new Error(`Invalid DCQL query: ${id} has no doctype_value`);
+      }
+
+      const nameSpaces = new Map<string, Map<string, boolean>>();
+      for (const { path, intent_to_retain } of claims ?? []) {
+        const [nameSpace, element] = path;
+        if (
+          path.length !== 2 ||
+          typeof nameSpace !== 'string' ||
+          typeof element !== 'string'
+        ) {
+          throw new Error(
+            `Invalid DCQL query: ${id} has an invalid claim path`
+          );
+        }
+        if (!nameSpaces.has(nameSpace)) {
+          nameSpaces.set(nameSpace, new Map());
+        }
+        nameSpaces.get(nameSpace)!.set(element, intent_to_retain ?? false);
+      }
+
+      const itemsRequest = new Map<string, unknown>([
+        ['docType', docType],
+        ['nameSpaces', nameSpaces],
+      ]);
+      return new Map([
+        ['itemsRequest', new Tag(mdocCbor.encode(itemsRequest), 24)],
+      ]);
+    });
+
+  if (docRequests.length === 0) {
+    throw new Error('Invalid DCQL query: no mso_mdoc credentials');
+  }
+
+  return mdocCbor.encode(
+    new Map<string, unknown>([
+      ['version', '1.0'],
+      ['docRequests', docRequests],
+    ])
+  );
+};
+
+/**
+ * Builds a CBOR EncryptionInfo carrying the HPKE recipient key
+ *
+ * @param nonce - Random nonce of at least 16 bytes
+ * @param recipientPublicJwk - P-256 public key the response is encrypted to
+ * @returns Encoded EncryptionInfo
+ *
+ * @public
+ */
+export const createEncryptionInfo = (
+  nonce: Uint8Array,
+  recipientPublicJwk: JsonWebKey
+): Uint8Array => {
+  if (!recipientPublicJwk.x || !recipientPublicJwk.y) {
+    throw new TypeError('recipientPublicJwk must be a P-256 public key');
+  }
+  const recipientPublicKey = new Map<number, unknown>([
+    [1, 2], // kty: EC2
+    [-1, 1], // crv: P-256
+    [-2, Buffer.from(recipientPublicJwk.x, 'base64url')],
+    [-3, Buffer.from(recipientPublicJwk.y, 'base64url')],
+  ]);
+  return mdocCbor.encode([
+    'dcapi',
+    new Map<string, unknown>([
+      ['nonce', nonce],
+      ['recipientPublicKey', recipientPublicKey],
+    ]),
+  ]);
+};
+
+/**
+ * Creates the `org-iso-mdoc` request data for a DCQL query
+ *
+ * @param query - DCQL query
+ * @param recipientPublicJwk - P-256 public key the response is encrypted to
+ * @param nonce - Nonce of the request, sent as UTF-8 bytes (random bytes when omitted)
+ * @returns Request data with the DeviceRequest and EncryptionInfo
+ *
+ * @public
+ */
+export const createIsoMdocRequest = (
+  query: DcqlQuery,
+  recipientPublicJwk: JsonWebKey,
+  nonce?: string
+): IsoMdocRequestData => ({
+  deviceRequest: toBase64Url(createDeviceRequest(query)),
+  encryptionInfo: toBase64Url(
+    createEncryptionInfo(
+      nonce
+        ? new TextEncoder().encode(nonce)
+        : crypto.getRandomValues(new Uint8Array(16)),
+      recipientPublicJwk
+    )
+  ),
+});
+
+/**
+ * Builds the SessionTranscript of the `dcapi` handover
+ *
+ * `[null, null, ["dcapi", SHA-256([encryptionInfo, origin])]]`
+ *
+ * @param encryptionInfo - base64url EncryptionInfo sent in the request
+ * @param origin - Origin of the page that called the Digital Credentials API
+ * @returns Encoded SessionTranscript
+ *
+ * @public
+ */
+export const createDcapiSessionTranscript = async (
+  encryptionInfo: string,
+  origin: string
+): Promise<Uint8Array> => {
+  const dcapiInfoHash = new Uint8Array(
+    await crypto.subtle.digest(
+      'SHA-256',
+      new Uint8Array(mdocCbor.encode([encryptionInfo, origin]))
+    )
+  );
+  return mdocCbor.encode([null, null, ['dcapi', dcapiInfoHash]]);
+};
+
+/**
+ * Decrypts an `org-iso-mdoc` response
+ *
+ * The response is a base64url CBOR `["dcapi", {enc, cipherText}]` encrypted
+ * with HPKE using the SessionTranscript as info, so a response produced for
+ * another origin or request cannot be decrypted.
+ *
+ * @param response - `response` member of the credential data
+ * @param recipientPrivateJwk - HPKE private key saved with the request
+ * @param sessionTranscript - Encoded SessionTranscript of the request
+ * @returns base64url encoded DeviceResponse
+ * @throws {Error} When the response is malformed or cannot be decrypted
+ *
+ * @public
+ */
+export const openIsoMdocResponse = async (
+  response: string,
+  recipientPrivateJwk: JsonWebKey,
+  sessionTranscript: Uint8Array
+): Promise<string> => {
+  let encryptedResponse: unknown;
+  try {
+    encryptedResponse = mdocCbor.decode(Buffer.from(response, 'base64url'));
+  } catch {
+    throw new Error('Invalid org-iso-mdoc response: not CBOR');
+  }
+
+  if (
+    !Array.isArray(encryptedResponse) ||
+    encryptedResponse[0] !== 'dcapi' ||
+    !(encryptedResponse[1] instanceof Map)
+  ) {
+    throw new Error('Invalid org-iso-mdoc response: not a dcapi response');
+  }
+
+  const enc = encryptedResponse[1].get('enc');
+  const cipherText = encryptedResponse[1].get('cipherText');
+  if (!(enc instanceof Uint8Array) || !(cipherText instanceof Uint8Array)) {
+    throw new Error('Invalid org-iso-mdoc response: missing enc or cipherText');
+  }
+
+  const deviceResponse = await hpkeOpen(
+    recipientPrivateJwk,
+    { enc, cipherText },
+    sessionTranscript
+  );
+  return toBase64Url(deviceResponse);
+};
+
+/**
+ * Lists the document types contained in a DeviceResponse
+ *
+ * @param deviceResponse - base64url encoded DeviceResponse
+ * @returns `docType` of every returned document
+ * @throws {Error} When the DeviceResponse is malformed
+ *
+ * @public
+ */
+export const deviceResponseDocTypes = (deviceResponse: string): string[] => {
+  let decoded: unknown;
+  try {
+    decoded = mdocCbor.decode(Buffer.from(deviceResponse, 'base64url'));
+  } catch {
+    throw new Error('Invalid DeviceResponse: not CBOR');
+  }
+
+  if (!(decoded instanceof Map)) {
+    throw new Error('Invalid DeviceResponse: not a map');
+  }
+  const documents = decoded.get('documents') ?? [];
+  if (!Array.isArray(documents)) {
+    throw new Error('Invalid DeviceResponse: documents must be an array');
+  }
+  return documents.map((document: unknown) => {
+    const docType = document instanceof Map && document.get('docType');
+    if (typeof docType !== 'string') {
+      throw new Error('Invalid DeviceResponse: document without docType');
+    }
+    return docType;
+  });
+};
@@ -0,0 +1,59 @@
+import { X509Certificate } from '@peculiar/x509';
+import { TrustStore } from '../../../ports/out/trust';
+import { IssuerTrust } from '../../../ports/out/verifier';
+import {
+  MDOC_DS_EXTENDED_KEY_USAGE,
+  validateCertificateChain,
+} from '../trust/CertificateChain';
+import { readDocumentSigners } from './DocumentSigner';
+
+/**
+ * Names the issuing authority of a document signer certificate
+ * @private
+ */
+const issuingAuthorityOf = (certificate: X509Certificate) => {
+  const { issuerName } = certificate;
+  return (
+    issuerName.getField('O')[0] ??
+    issuerName.getField('CN')[0] ??
+    certificate.issuer
+  );
+};
+
+/**
+ * Anchors the document signer chain of every document of a DeviceResponse
+ * to the IACA roots trusted for its document type
+ *
+ * The issuer signature itself is checked by the mdoc verifier; this only
+ * decides whether the signer is trusted.
+ *
+ * @param deviceResponse - base64url encoded DeviceResponse
+ * @param trustStore - Trusted IACA roots per document type
+ * @param date - Validation time
+ * @returns Trust status per document, in response order
+ * @throws {Error} `Invalid DeviceResponse` / `Invalid issuerAuth` when the response is malformed
+ *
+ * @public
+ */
+export const verifyIssuerTrust = async (
+  deviceResponse: string,
+  trustStore: TrustStore,
+  date: Date = new Date()
+): Promise<IssuerTrust[]> => {
+  const results: IssuerTrust[] = [];
+  for (const { docType, chain } of readDocumentSigners(deviceResponse)) {
+    const { trusted, reason } = await validateCertificateChain(
+      chain,
+      await trustStore.roots(docType),
+      date,
+      MDOC_DS_EXTENDED_KEY_USAGE
+    );
+    results.push({
+      docType,
+      issuingAuthority: issuingAuthorityOf(chain[0]),
+      trusted,
+      ...(reason && { reason }),
+    });
+  }
+  return results;
+};
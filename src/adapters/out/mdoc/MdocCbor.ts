@@ -0,0 +1,87 @@
+import { Encoder, Tag } from 'cbor-x';
+
+/**
+ * CBOR encoder for ISO/IEC 18013-5 structures
+ *
+ * Encodes plain maps, untagged byte strings and definite lengths, and decodes
+ * maps as `Map` so that integer keys (COSE) are preserved.
+ *
+ * @public
+ */
+export const mdocCbor = new Encoder({
+  useRecords: false,
+  mapsAsObjects: false,
+  variableMapSize: true,
+  tagUint8Array: false,
+});
+
+/**
+ * ECDSA parameters by COSE algorithm (ES256, ES384, ES512)
+ *
+ * @public
+ */
+export const COSE_ALGORITHMS: Record<
+  number,
+  { hash: string; namedCurve: string }
+> = {
+  [-7]: { hash: 'SHA-256', namedCurve: 'P-256' },
+  [-35]: { hash: 'SHA-384', namedCurve: 'P-384' },
+  [-36]: { hash: 'SHA-512', namedCurve: 'P-521' },
+};
+
+/**
+ * Members of a COSE_Sign1 structure
+ *
+ * @public
+ */
+export interface CoseSign1 {
+  /** Encoded protected header */
+  protectedHeader: Uint8Array;
+  /** Unprotected header */
+  unprotectedHeader: Map<unknown, unknown>;
+  /** Payload, `null` when detached */
+  payload: Uint8Array | null;
+  /** Signature */
+  signature: Uint8Array;
+}
+
+/**
+ * Reads a decoded COSE_Sign1 structure, optionally tagged (18)
+ *
+ * @param value - Decoded CBOR value
+ * @returns The structure, or `undefined` when the value is not a COSE_Sign1
+ *
+ * @public
+ */
+export const readCoseSign1 = (value: unknown): CoseSign1 | undefined => {
+  const sign1 = value instanceof Tag && value.tag === 18 ? value.value : value;
+  if (
+    !Array.isArray(sign1) ||
+    sign1.length !== 4 ||
+    !(sign1[0] instanceof Uint8Array) ||
+    !(sign1[1] instanceof Map) ||
+    !(sign1[2] === null || sign1[2] instanceof Uint8Array) ||
+    !(sign1[3] instanceof Uint8Array)
+  ) {
+    return undefined;
+  }
+  return {
+    protectedHeader: sign1[0],
+    unprotectedHeader: sign1[1],
+    payload: sign1[2],
+    signature: sign1[3],
+  };
+};
+
+/**
+ * Decodes CBOR embedded in a byte string tagged 24
+ *
+ * @param value - Decoded CBOR value
+ * @returns The embedded value, or `undefined` when the value is not tagged 24
+ *
+ * @public
+ */
+export const decodeTag24 = (value: unknown): unknown =>
+  value instanceof Tag && value.tag === 24 && value.value instanceof Uint8Array
+    ? mdocCbor.decode(value.value)
+    : undefined;
@@ -0,0 +1,155 @@
+import type { MdocVerifyHandlerImpl } from 'mdoc-cbor-ts';
+import { Clock } from '../../../ports/out/clock';
+import { TrustStore } from '../../../ports/out/trust';
+import {
+  CredentialVerification,
+  CredentialVerifier,
+} from '../../../ports/out/verifier';
+import { RevocationChecker } from '../revocation';
+import { verifyIssuerTrust } from './IssuerTrust';
+import { verifyRevocation } from './DocumentRevocation';
+import { verifyValidity } from './DocumentValidity';
+
+/**
+ * Credential format identifier of mdocs
+ *
+ * @public
+ */
+export const MSO_MDOC_FORMAT = 'mso_mdoc';
+
+/**
+ * Issuer checks of {@link MdocCredentialVerifier}
+ *
+ * @public
+ */
+export interface MdocCredentialVerifierOptions {
+  /** Trusted IACA roots; issuers are not checked when omitted */
+  trustStore?: TrustStore;
+  /** Revocation checker; revocation is not checked when omitted or without a trust store */
+  revocationChecker?: RevocationChecker;
+  /** Clock validity periods are checked against; validity is not checked when omitted */
+  clock?: Clock;
+  /** Tolerated clock skew in milliseconds; none when omitted */
+  clockSkew?: number;
+}
+
+/**
+ * Verifier of mdoc presentations (`mso_mdoc`)
+ *
+ * The DeviceResponse is verified by the wrapped verifier. With a clock,
+ * every document must be within the validity period of its MSO and before
+ * its `expiry_date`; the validity of each document is reported in
+ * `validities`. With a trust store, the document signer chain of every document must also end at an
+ * IACA root trusted for its document type; the trust status of each
+ * document is reported in `issuers`. With a revocation checker and a trust
+ * store, no document may be revoked; the status of each document is
+ * reported in `revocations`.
+ * Each check only runs while the presentation is still valid.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new MdocCredentialVerifier(new MdocVerifyHandlerImpl(), {
+ *   trustStore,
+ * });
+ * const { valid, documents, issuers } = await verifier.verify(deviceResponse);
+ * ```
+ *
+ * @public
+ */
+export class MdocCredentialVerifier implements CredentialVerifier {
+  readonly #verifier: Pick<MdocVerifyHandlerImpl, 'verify'>;
+
+  readonly #trustStore: TrustStore | undefined;
+
+  readonly #revocationChecker: RevocationChecker | undefined;
+
+  readonly #clock: Clock | undefined;
+
+  readonly #clockSkew: number;
+
+  /**
+   * @param verifier - Verifier of a single DeviceResponse
+   * @param options - Issuer checks; none when omitted
+   */
+  constructor(
+    verifier: Pick<MdocVerifyHandlerImpl, 'verify'>,
+    {
+      trustStore,
+      revocationChecker,
+      clock,
+      clockSkew = 0,
+    }: MdocCredentialVerifierOptions = {}
+  ) {
+    if (!verifier) {
+      throw new TypeError('verifier is required');
+    }
+    this.#verifier = verifier;
+    this.#trustStore = trustStore;
+    this.#revocationChecker = revocationChecker;
+    this.#clock = clock;
+    this.#clockSkew = clockSkew;
+  }
+
+  /**
+   * Tells whether a presentation is a base64url encoded DeviceResponse
+   * rather than a JWT or an SD-JWT
+   */
+  accepts(presentation: string): boolean {
+    return !/[.~]/.test(presentation);
+  }
+
+  /**
+   * Verifies a DeviceResponse and, as configured, its validity, issuers and
+   * revocation
+   *
+   * @param presentation - Base64url encoded DeviceResponse
+   * @returns The result of the wrapped verifier, with `validities`, `issuers` and `revocations` as checked
+   */
+  async verify(presentation: string): Promise<CredentialVerification> {
+    const result = await this.#verifier.verify(presentation);
+    let valid = !!result.valid;
+
+    const validities =
+      this.#clock && valid
+        ? verifyValidity(
+            presentation,
+            this.#clock,
+            this.#clockSkew,
+            result.documents as CredentialVerification['documents']
+          )
+        : undefined;
+    valid = valid && (validities ?? []).every((validity) => validity.valid);
+
+    const issuers =
+      this.#trustStore && valid
+        ? await verifyIssuerTrust(
+            presentation,
+            this.#trustStore,
+            this.#clock?.now()
+          )
+        : undefined;
+    valid = valid && (issuers ?? []).every(({ trusted }) => trusted);
+
+    const revocations =
+      this.#revocationChecker && this.#trustStore && valid
+        ? await verifyRevocation(
+            presentation,
+            this.#revocationChecker,
+            this.#trustStore,
+            this.#clock?.now()
+          )
+        : undefined;
+    valid = valid && (revocations ?? []).every(({ revoked }) => !revoked);
+
+    if (!validities && !issuers && !revocations) {
+      return result as CredentialVerification;
+    }
+    return {
+      ...result,
+      valid,
+      ...(validities && { validities }),
+      ...(issuers && { issuers }),
+      ...(revocations && { revocations }),
+    } as CredentialVerification;
+  }
+}
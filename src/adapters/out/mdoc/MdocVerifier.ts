@@ -1,6 +1,31 @@
 import { MdocVerifyHandlerImpl } from 'mdoc-cbor-ts';
 import { mdlSchema } from 'mdoc-cbor-ts';
+import { MdocCredentialVerifier } from './MdocCredentialVerifier';
+import {
+  NamespaceSchemaRegistry,
+  defaultNamespaceSchemaRegistry,
+} from './namespaces';
 
-export const mdocVerifier = new MdocVerifyHandlerImpl({
-  'org.iso.18013.5.1': mdlSchema,
-});
+/**
+ * Creates a verifier of a single DeviceResponse
+ *
+ * @param registry - Schemas of the namespaces besides the mDL one
+ * @returns The verify handler
+ */
+export const createMdocVerifyHandler = (
+  registry: NamespaceSchemaRegistry = defaultNamespaceSchemaRegistry
+) =>
+  new MdocVerifyHandlerImpl({
+    'org.iso.18013.5.1': mdlSchema,
+    ...registry.schemas(),
+  });
+
+/**
+ * Verifier of a single DeviceResponse, shared by the mdoc credential verifiers
+ */
+export const mdocVerifyHandler = createMdocVerifyHandler();
+
+/**
+ * mdoc credential verifier without issuer checks
+ */
+export const mdocVerifier = new MdocCredentialVerifier(mdocVerifyHandler);
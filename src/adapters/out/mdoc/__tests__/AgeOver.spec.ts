@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { ageOverElement, parseAgeThreshold } from '../AgeOver';
+
+describe('AgeOver', () => {
+  it('should parse ages between 1 and 99', () => {
+    expect(parseAgeThreshold('20')).toBe(20);
+    expect(parseAgeThreshold(' 7 ')).toBe(7);
+    expect(parseAgeThreshold('99')).toBe(99);
+  });
+
+  it.each(['', '0', '100', '-1', '18.5', 'abc'])(
+    'should reject %j',
+    (value) => {
+      expect(() => parseAgeThreshold(value)).toThrow(
+        `Invalid age threshold: ${value}`
+      );
+    }
+  );
+
+  it('should name the data element with a two digit age', () => {
+    expect(ageOverElement(18)).toBe('age_over_18');
+    expect(ageOverElement(7)).toBe('age_over_07');
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { Buffer } from 'node:buffer';
+import {
+  createOpenId4VpDcApiSessionTranscript,
+  verifyDeviceAuthentication,
+} from '../DeviceAuthentication';
+import { mdocCbor } from '../MdocCbor';
+import { signedDeviceResponse } from './signedDeviceResponse';
+
+const origin = 'https://verifier.example.com';
+const nonce = 'c2VjcmV0LW5vbmNl';
+const jwkThumbprint = 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs';
+
+describe('DeviceAuthentication', () => {
+  describe('createOpenId4VpDcApiSessionTranscript', () => {
+    it('should build the OpenID4VPDCAPIHandover transcript', async () => {
+      const [deviceEngagement, eReaderKey, handover] = mdocCbor.decode(
+        await createOpenId4VpDcApiSessionTranscript({
+          origin,
+          nonce,
+          jwkThumbprint,
+        })
+      );
+
+      expect(deviceEngagement).toBeNull();
+      expect(eReaderKey).toBeNull();
+      expect(handover[0]).toBe('OpenID4VPDCAPIHandover');
+
+      const expected = await crypto.subtle.digest(
+        'SHA-256',
+        new Uint8Array(
+          mdocCbor.encode([
+            origin,
+            nonce,
+            Buffer.from(jwkThumbprint, 'base64url'),
+          ])
+        )
+      );
+      expect(Buffer.from(handover[1]).equals(Buffer.from(expected))).toBe(true);
+    });
+
+    it('should change with the origin and the nonce', async () => {
+      const transcript = await createOpenId4VpDcApiSessionTranscript({
+        origin,
+        nonce,
+      });
+
+      expect(
+        await createOpenId4VpDcApiSessionTranscript({
+          origin: 'https://evil.example',
+          nonce,
+        })
+      ).not.toEqual(transcript);
+      expect(
+        await createOpenId4VpDcApiSessionTranscript({ origin, nonce: 'other' })
+      ).not.toEqual(transcript);
+    });
+  });
+
+  describe('verifyDeviceAuthentication', () => {
+    it('should accept documents signed over the session transcript', async () => {
+      const transcript = await createOpenId4VpDcApiSessionTranscript({
+        origin,
+        nonce,
+      });
+      const deviceResponse = await signedDeviceResponse(
+        transcript,
+        'org.iso.18013.5.1.mDL',
+        'org.iso.23220.photoID.1'
+      );
+
+      await expect(
+        verifyDeviceAuthentication(deviceResponse, transcript)
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject a presentation made for another origin', async () => {
+      const deviceResponse = await signedDeviceResponse(
+        await createOpenId4VpDcApiSessionTranscript({
+          origin: 'https://evil.example',
+          nonce,
+        }),
+        'org.iso.18013.5.1.mDL'
+      );
+
+      await expect(
+        verifyDeviceAuthentication(
+          deviceResponse,
+          await createOpenId4VpDcApiSessionTranscript({ origin, nonce })
+        )
+      ).rejects.toThrow(
+        'Invalid device authentication: org.iso.18013.5.1.mDL is not bound to this session'
+      );
+    });
+
+    it('should reject a presentation made for another session', async () => {
+      const deviceResponse = await signedDeviceResponse(
+        await createOpenId4VpDcApiSessionTranscript({
+          origin,
+          nonce: 'previous',
+        }),
+        'org.iso.18013.5.1.mDL'
+      );
+
+      await expect(
+        verifyDeviceAuthentication(
+          deviceResponse,
+          await createOpenId4VpDcApiSessionTranscript({ origin, nonce })
+        )
+      ).rejects.toThrow('is not bound to this session');
+    });
+
+    it('should reject documents without a device signature', async () => {
+      const deviceResponse = Buffer.from(
+        mdocCbor.encode(
+          new Map<string, unknown>([
+            [
+              'documents',
+              [
+                new Map<string, unknown>([
+                  ['docType', 'org.iso.18013.5.1.mDL'],
+                  ['issuerSigned', new Map()],
+                  [
+                    'deviceSigned',
+                    new Map([['deviceAuth', new Map([['deviceMac', []]])]]),
+                  ],
+                ]),
+              ],
+            ],
+          ])
+        )
+      ).toString('base64url');
+
+      await expect(
+        verifyDeviceAuthentication(deviceResponse, new Uint8Array([0xf6]))
+      ).rejects.toThrow('org.iso.18013.5.1.mDL has no deviceSignature');
+    });
+
+    it('should reject responses without documents', async () => {
+      await expect(
+        verifyDeviceAuthentication(
+          Buffer.from(mdocCbor.encode(new Map([['status', 0]]))).toString(
+            'base64url'
+          ),
+          new Uint8Array([0xf6])
+        )
+      ).rejects.toThrow('Invalid device authentication: no documents');
+    });
+  });
+});
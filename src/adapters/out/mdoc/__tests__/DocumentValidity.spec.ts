@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { Tag } from 'cbor-x';
+import { issueCertificates } from '../../trust/__tests__/certificates';
+import { verifyValidity } from '../DocumentValidity';
+import { issuerSignedDeviceResponse } from './issuerSignedDeviceResponse';
+
+const mDL = 'org.iso.18013.5.1.mDL';
+
+const clockAt = (time: string) => ({ now: () => new Date(time) });
+
+const validityInfo = (entries: Record<string, string>) =>
+  new Map(
+    Object.entries(entries).map(([key, value]) => [key, new Tag(value, 0)])
+  );
+
+const period = validityInfo({
+  signed: '2025-01-01T00:00:00Z',
+  validFrom: '2025-01-01T00:00:00Z',
+  validUntil: '2026-01-01T00:00:00Z',
+  expectedUpdate: '2025-07-01T00:00:00Z',
+});
+
+describe('verifyValidity', () => {
+  it('should accept documents within the validity period of their MSO', async () => {
+    const { documentSigner } = await issueCertificates('Tokyo IACA');
+
+    expect(
+      verifyValidity(
+        issuerSignedDeviceResponse(mDL, documentSigner, undefined, period),
+        clockAt('2025-03-01T00:00:00Z')
+      )
+    ).toEqual([
+      {
+        docType: mDL,
+        valid: true,
+        signed: '2025-01-01T00:00:00.000Z',
+        validFrom: '2025-01-01T00:00:00.000Z',
+        validUntil: '2026-01-01T00:00:00.000Z',
+        expectedUpdate: '2025-07-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('should report a passed expectedUpdate without invalidating the document', async () => {
+    const { documentSigner } = await issueCertificates('Tokyo IACA');
+
+    const [validity] = verifyValidity(
+      issuerSignedDeviceResponse(mDL, documentSigner, undefined, period),
+      clockAt('2025-08-01T00:00:00Z')
+    );
+
+    expect(validity.valid).toBe(true);
+    expect(validity.updateOverdue).toBe(true);
+  });
+
+  it.each([
+    ['2024-12-31T23:00:00Z', 'Not yet valid: signed 2025-01-01T00:00:00.000Z'],
+    ['2026-01-01T01:00:00Z', 'Expired: valid until 2026-01-01T00:00:00.000Z'],
+  ])('should reject documents at %s', async (now, reason) => {
+    const { documentSigner } = await issueCertificates('Tokyo IACA');
+
+    const [validity] = verifyValidity(
+      issuerSignedDeviceResponse(mDL, documentSigner, undefined, period),
+      clockAt(now)
+    );
+
+    expect(validity.valid).toBe(false);
+    expect(validity.reason).toBe(reason);
+  });
+
+  it('should reject documents valid only in the future', async () => {
+    const { documentSigner } = await issueCertificates('Tokyo IACA');
+
+    const [validity] = verifyValidity(
+      issuerSignedDeviceResponse(
+        mDL,
+        documentSigner,
+        undefined,
+        validityInfo({
+          signed: '2025-01-01T00:00:00Z',
+          validFrom: '2025-02-01T00:00:00Z',
+          validUntil: '2026-01-01T00:00:00Z',
+        })
+      ),
+      clockAt('2025-01-15T00:00:00Z')
+    );
+
+    expect(validity.reason).toBe(
+      'Not yet valid: valid from 2025-02-01T00:00:00.000Z'
+    );
+  });
+
+  it('should tolerate the clock skew', async () => {
+    const { documentSigner } = await issueCertificates('Tokyo IACA');
+    const deviceResponse = issuerSignedDeviceResponse(
+      mDL,
+      documentSigner,
+      undefined,
+      period
+    );
+
+    expect(
+      verifyValidity(deviceResponse, clockAt('2026-01-01T00:00:30Z'), 60000)[0]
+        .valid
+    ).toBe(true);
+    expect(
+      verifyValidity(deviceResponse, clockAt('2024-12-31T23:59:30Z'), 60000)[0]
+        .valid
+    ).toBe(true);
+    expect(
+      verifyValidity(deviceResponse, clockAt('2026-01-01T00:00:30Z'))[0].valid
+    ).toBe(false);
+  });
+
+  it('should reject documents past their expiry date', async () => {
+    const { documentSigner } = await issueCertificates('Tokyo IACA');
+    const deviceResponse = issuerSignedDeviceResponse(
+      mDL,
+      documentSigner,
+      undefined,
+      period
+    );
+    const documents = [{ [mDL]: { expiry_date: new Tag('2025-05-31', 1004) } }];
+
+    expect(
+      verifyValidity(
+        deviceResponse,
+        clockAt('2025-05-31T23:00:00Z'),
+        0,
+        documents
+      )[0]
+    ).toMatchObject({ valid: true, expiryDate: '2025-05-31' });
+    expect(
+      verifyValidity(
+        deviceResponse,
+        clockAt('2025-06-01T00:00:00Z'),
+        0,
+        documents
+      )[0]
+    ).toMatchObject({
+      valid: false,
+      expiryDate: '2025-05-31',
+      reason: 'Expired: expiry date 2025-05-31',
+    });
+  });
+
+  it('should reject MSOs without validityInfo', async () => {
+    const { documentSigner } = await issueCertificates('Tokyo IACA');
+
+    expect(
+      verifyValidity(
+        issuerSignedDeviceResponse(mDL, documentSigner),
+        clockAt('2025-03-01T00:00:00Z')
+      )
+    ).toEqual([
+      {
+        docType: mDL,
+        valid: false,
+        reason: 'Invalid MSO: missing validityInfo',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect } from 'vitest';
+import { Decoder, Encoder, Tag } from 'cbor-x';
+import { Buffer } from 'node:buffer';
+import { DcqlQuery } from '../../dcql';
+import { generateHpkeKeyPair, hpkeSeal } from '../../hpke';
+import {
+  createDcapiSessionTranscript,
+  createDeviceRequest,
+  createEncryptionInfo,
+  createIsoMdocRequest,
+  deviceResponseDocTypes,
+  openIsoMdocResponse,
+} from '../IsoMdocDcApi';
+
+const decoder = new Decoder({ mapsAsObjects: false });
+const encoder = new Encoder({
+  useRecords: false,
+  mapsAsObjects: false,
+  tagUint8Array: false,
+});
+
+const origin = 'https://verifier.example.com';
+
+const query: DcqlQuery = {
+  credentials: [
+    {
+      id: 'mdl',
+      format: 'mso_mdoc',
+      meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+      claims: [
+        { path: ['org.iso.18013.5.1', 'family_name'] },
+        { path: ['org.iso.18013.5.1', 'portrait'], intent_to_retain: true },
+      ],
+    },
+    {
+      id: 'sd_jwt',
+      format: 'dc+sd-jwt',
+      claims: [{ path: ['family_name'] }],
+    },
+  ],
+};
+
+const deviceResponse = (...docTypes: string[]) =>
+  Buffer.from(
+    encoder.encode(
+      new Map<string, unknown>([
+        ['version', '1.0'],
+        [
+          'documents',
+          docTypes.map((docType) => new Map([['docType', docType]])),
+        ],
+        ['status', 0],
+      ])
+    )
+  ).toString('base64url');
+
+/**
+ * Encrypts a DeviceResponse the way a wallet answers an org-iso-mdoc request
+ */
+const walletResponse = async (
+  encryptionInfo: string,
+  responseOrigin: string,
+  response: string
+) => {
+  const [, info] = decoder.decode(Buffer.from(encryptionInfo, 'base64url'));
+  const recipientPublicKey: Map<number, Uint8Array> =
+    info.get('recipientPublicKey');
+  const sealed = await hpkeSeal(
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      x: Buffer.from(recipientPublicKey.get(-2)!).toString('base64url'),
+      y: Buffer.from(recipientPublicKey.get(-3)!).toString('base64url'),
+    },
+    Buffer.from(response, 'base64url'),
+    await createDcapiSessionTranscript(encryptionInfo, responseOrigin)
+  );
+  return Buffer.from(
+    encoder.encode([
+      'dcapi',
+      new Map<string, Uint8Array>([
+        ['enc', sealed.enc],
+        ['cipherText', sealed.cipherText],
+      ]),
+    ])
+  ).toString('base64url');
+};
+
+describe('IsoMdocDcApi', () => {
+  describe('createDeviceRequest', () => {
+    it('should request the mso_mdoc credentials of the query', () => {
+      const deviceRequest = decoder.decode(createDeviceRequest(query));
+
+      expect(deviceRequest.get('version')).toBe('1.0');
+      expect(deviceRequest.get('docRequests')).toHaveLength(1);
+
+      const itemsRequest = deviceRequest
+        .get('docRequests')[0]
+        .get('itemsRequest');
+      expect(itemsRequest).toBeInstanceOf(Tag);
+      expect(itemsRequest.tag).toBe(24);
+
+      const items = decoder.decode(itemsRequest.value);
+      expect(items.get('docType')).toBe('org.iso.18013.5.1.mDL');
+      expect(items.get('nameSpaces')).toEqual(
+        new Map([
+          [
+            'org.iso.18013.5.1',
+            new Map([
+              ['family_name', false],
+              ['portrait', true],
+            ]),
+          ],
+        ])
+      );
+    });
+
+    it('should reject queries without mso_mdoc credentials', () => {
+      expect(() =>
+        createDeviceRequest({ credentials: [query.credentials[1]] })
+      ).toThrow('no mso_mdoc credentials');
+    });
+
+    it('should reject claim paths that are not [namespace, element]', () => {
+      expect(() =>
+        createDeviceRequest({
+          credentials: [
+            { ...query.credentials[0], claims: [{ path: ['family_name'] }] },
+          ],
+        })
+      ).toThrow('invalid claim path');
+    });
+  });
+
+  describe('createEncryptionInfo', () => {
+    it('should encode the recipient key as a COSE_Key', async () => {
+      const { publicJwk } = await generateHpkeKeyPair();
+      const nonce = new Uint8Array(16).fill(7);
+
+      const [type, info] = decoder.decode(
+        createEncryptionInfo(nonce, publicJwk)
+      );
+
+      expect(type).toBe('dcapi');
+      expect(new Uint8Array(info.get('nonce'))).toEqual(nonce);
+      const coseKey = info.get('recipientPublicKey');
+      expect(coseKey.get(1)).toBe(2);
+      expect(coseKey.get(-1)).toBe(1);
+      expect(Buffer.from(coseKey.get(-2)).toString('base64url')).toBe(
+        publicJwk.x
+      );
+    });
+  });
+
+  describe('createDcapiSessionTranscript', () => {
+    it('should bind the EncryptionInfo and the origin', async () => {
+      const transcript = decoder.decode(
+        await createDcapiSessionTranscript('info', origin)
+      );
+
+      expect(transcript[0]).toBeNull();
+      expect(transcript[1]).toBeNull();
+      expect(transcript[2][0]).toBe('dcapi');
+      expect(transcript[2][1]).toHaveLength(32);
+      expect(
+        await createDcapiSessionTranscript('info', 'https://evil.example')
+      ).not.toEqual(await createDcapiSessionTranscript('info', origin));
+    });
+  });
+
+  describe('openIsoMdocResponse', () => {
+    it('should decrypt a wallet response', async () => {
+      const { privateJwk, publicJwk } = await generateHpkeKeyPair();
+      const { encryptionInfo } = createIsoMdocRequest(query, publicJwk);
+      const expected = deviceResponse('org.iso.18013.5.1.mDL');
+
+      const response = await walletResponse(encryptionInfo, origin, expected);
+
+      await expect(
+        openIsoMdocResponse(
+          response,
+          privateJwk,
+          await createDcapiSessionTranscript(encryptionInfo, origin)
+        )
+      ).resolves.toBe(expected);
+    });
+
+    it('should reject a response produced for another origin', async () => {
+      const { privateJwk, publicJwk } = await generateHpkeKeyPair();
+      const { encryptionInfo } = createIsoMdocRequest(query, publicJwk);
+
+      const response = await walletResponse(
+        encryptionInfo,
+        'https://evil.example',
+        deviceResponse('org.iso.18013.5.1.mDL')
+      );
+
+      await expect(
+        openIsoMdocResponse(
+          response,
+          privateJwk,
+          await createDcapiSessionTranscript(encryptionInfo, origin)
+        )
+      ).rejects.toThrow('Invalid HPKE ciphertext');
+    });
+
+    it('should reject responses that are not dcapi responses', async () => {
+      const { privateJwk } = await generateHpkeKeyPair();
+
+      await expect(
+        openIsoMdocResponse(
+          Buffer.from(encoder.encode(['other', {}])).toString('base64url'),
+          privateJwk,
+          new Uint8Array(0)
+        )
+      ).rejects.toThrow('not a dcapi response');
+    });
+  });
+
+  describe('deviceResponseDocTypes', () => {
+    it('should list the returned document types', () => {
+      expect(
+        deviceResponseDocTypes(
+          deviceResponse('org.iso.18013.5.1.mDL', 'org.iso.23220.photoID.1')
+        )
+      ).toEqual(['org.iso.18013.5.1.mDL', 'org.iso.23220.photoID.1']);
+    });
+
+    it('should reject malformed responses', () => {
+      expect(() =>
+        deviceResponseDocTypes(
+          Buffer.from(encoder.encode(['not', 'a', 'map'])).toString('base64url')
+        )
+      ).toThrow('Invalid DeviceResponse');
+    });
+  });
+});
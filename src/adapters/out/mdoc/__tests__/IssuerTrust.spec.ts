@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { Buffer } from 'node:buffer';
+import { StaticTrustStore } from '../../trust';
+import { issueCertificates } from '../../trust/__tests__/certificates';
+import { verifyIssuerTrust } from '../IssuerTrust';
+import { mdocCbor } from '../MdocCbor';
+import { issuerSignedDeviceResponse } from './issuerSignedDeviceResponse';
+
+const date = new Date('2026-06-01T00:00:00Z');
+
+describe('verifyIssuerTrust', () => {
+  it('should report the issuing authority of trusted documents', async () => {
+    const { root, documentSigner } = await issueCertificates('Tokyo IACA');
+    const trustStore = new StaticTrustStore([
+      {
+        certificate: root.toString('pem'),
+        docTypes: ['org.iso.18013.5.1.mDL'],
+      },
+    ]);
+
+    expect(
+      await verifyIssuerTrust(
+        issuerSignedDeviceResponse('org.iso.18013.5.1.mDL', documentSigner),
+        trustStore,
+        date
+      )
+    ).toEqual([
+      {
+        docType: 'org.iso.18013.5.1.mDL',
+        issuingAuthority: 'Tokyo IACA',
+        trusted: true,
+      },
+    ]);
+  });
+
+  it('should not trust roots configured for other document types', async () => {
+    const { root, documentSigner } = await issueCertificates('Tokyo IACA');
+    const trustStore = new StaticTrustStore([
+      {
+        certificate: root.toString('pem'),
+        docTypes: ['org.iso.18013.5.1.mDL'],
+      },
+    ]);
+
+    const [result] = await verifyIssuerTrust(
+      issuerSignedDeviceResponse(
+        'com.dentsusoken.vecrea.UnifiedID',
+        documentSigner
+      ),
+      trustStore,
+      date
+    );
+
+    expect(result).toEqual({
+      docType: 'com.dentsusoken.vecrea.UnifiedID',
+      issuingAuthority: 'Tokyo IACA',
+      trusted: false,
+      reason: 'No trusted root configured',
+    });
+  });
+
+  it('should reject documents without x5chain', async () => {
+    const response = Buffer.from(
+      mdocCbor.encode(
+        new Map<string, unknown>([
+          [
+            'documents',
+            [
+              new Map<string, unknown>([
+                ['docType', 'org.iso.18013.5.1.mDL'],
+                [
+                  'issuerSigned',
+                  new Map([
+                    [
+                      'issuerAuth',
+                      [
+                        new Uint8Array(0),
+                        new Map(),
+                        new Uint8Array(0),
+                        new Uint8Array(64),
+                      ],
+                    ],
+                  ]),
+                ],
+              ]),
+            ],
+          ],
+        ])
+      )
+    ).toString('base64url');
+
+    await expect(
+      verifyIssuerTrust(response, new StaticTrustStore([]), date)
+    ).rejects.toThrow('Invalid issuerAuth: missing x5chain');
+  });
+});
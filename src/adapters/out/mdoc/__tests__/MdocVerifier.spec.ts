@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { mdocVerifier } from '../MdocVerifier';
 import { MdocVerifyHandlerImpl } from 'mdoc-cbor-ts';
 import { mdlSchema } from 'mdoc-cbor-ts';
+import { defaultNamespaceSchemaRegistry } from '../namespaces';
 
 // Mock the mdoc-cbor-ts module
 vi.mock('mdoc-cbor-ts', () => ({
@@ -20,6 +21,7 @@ describe('MdocVerifier', () => {
     it('should create MdocVerifyHandlerImpl with correct schema configuration', () => {
       expect(MdocVerifyHandlerImpl).toHaveBeenCalledWith({
         'org.iso.18013.5.1': mdlSchema,
+        ...defaultNamespaceSchemaRegistry.schemas(),
       });
     });
 
@@ -46,13 +48,18 @@ describe('MdocVerifier', () => {
   });
 
   describe('schema configuration', () => {
-    it('should configure only the mDL schema', () => {
+    it('should configure the mDL schema and the registered namespaces', () => {
       const constructorCall = vi.mocked(MdocVerifyHandlerImpl).mock.calls[0];
       const config = constructorCall[0];
       const schemaKeys = Object.keys(config ?? {});
 
-      expect(schemaKeys).toHaveLength(1);
-      expect(schemaKeys[0]).toBe('org.iso.18013.5.1');
+      expect(schemaKeys).toEqual([
+        'org.iso.18013.5.1',
+        'eu.europa.ec.eudi.pid.1',
+        'org.iso.23220.1',
+        'org.iso.23220.photoID.1',
+        'com.dentsusoken.vecrea',
+      ]);
     });
 
     it('should use the imported mdlSchema without modification', () => {
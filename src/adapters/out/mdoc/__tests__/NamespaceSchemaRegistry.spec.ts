@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { Tag } from 'cbor-x';
+import { z } from 'zod';
+import {
+  EU_PID_DOCTYPE,
+  NamespaceSchemaRegistry,
+  PHOTO_ID_DOCTYPE,
+  UNIFIED_ID_DOCTYPE,
+  defaultNamespaceSchemaRegistry,
+} from '../namespaces';
+
+describe('NamespaceSchemaRegistry', () => {
+  const registry = defaultNamespaceSchemaRegistry;
+
+  it('should key the schemas by namespace', () => {
+    expect(Object.keys(registry.schemas())).toEqual([
+      'eu.europa.ec.eudi.pid.1',
+      'org.iso.23220.1',
+      'org.iso.23220.photoID.1',
+      'com.dentsusoken.vecrea',
+    ]);
+  });
+
+  it('should list the namespaces of a document type', () => {
+    expect(
+      registry.namespacesOf(PHOTO_ID_DOCTYPE).map(({ namespace }) => namespace)
+    ).toEqual(['org.iso.23220.1', 'org.iso.23220.photoID.1']);
+    expect(registry.namespacesOf(UNIFIED_ID_DOCTYPE)).toHaveLength(1);
+  });
+
+  it('should list the data elements of a namespace', () => {
+    expect(registry.claimNames('com.dentsusoken.vecrea')).toEqual([
+      'type',
+      'service',
+      'user_id',
+      'unified_id',
+      'issue_date',
+      'expiry_date',
+    ]);
+    expect(registry.claimNames(EU_PID_DOCTYPE)).toContain('age_over_18');
+    expect(() => registry.claimNames('org.example')).toThrow(
+      'Not found: namespace schema "org.example"'
+    );
+  });
+
+  it('should accept selectively disclosed elements', () => {
+    const elements = {
+      family_name: 'Yamada',
+      birth_date: new Tag('1990-01-01', 1004),
+      nationality: ['JP'],
+      age_over_18: true,
+    };
+
+    expect(registry.parse(EU_PID_DOCTYPE, elements)).toEqual(elements);
+  });
+
+  it('should reject elements that do not match the schema', () => {
+    expect(() =>
+      registry.parse(EU_PID_DOCTYPE, { age_over_18: 'yes' })
+    ).toThrow('Invalid eu.europa.ec.eudi.pid.1');
+    expect(() =>
+      registry.parse('com.dentsusoken.vecrea', { issue_date: '2024/01/01' })
+    ).toThrow('Invalid com.dentsusoken.vecrea');
+  });
+
+  it('should label documents with the descriptions of their elements', () => {
+    const labels = registry.documentLabels();
+
+    expect(labels[EU_PID_DOCTYPE].name).toBe('EU Person Identification Data');
+    expect(labels[EU_PID_DOCTYPE].claims).toMatchObject({
+      family_name: 'Family name',
+      birth_date: 'Birth date',
+      age_over_18: 'Age over 18',
+      issuing_country: 'Issuing country',
+    });
+    expect(labels[PHOTO_ID_DOCTYPE].claims).toMatchObject({
+      family_name: 'Family name',
+      person_id: 'Person ID',
+    });
+  });
+
+  it('should let later namespaces override earlier ones', () => {
+    const custom = new NamespaceSchemaRegistry([
+      ...registry.namespaces(),
+      {
+        namespace: 'com.dentsusoken.vecrea',
+        docType: UNIFIED_ID_DOCTYPE,
+        documentName: 'Custom ID',
+        schema: z.object({ id: z.string().describe('ID') }).partial(),
+      },
+    ]);
+
+    expect(custom.claimNames('com.dentsusoken.vecrea')).toEqual(['id']);
+    expect(custom.documentLabels()[UNIFIED_ID_DOCTYPE]).toEqual({
+      name: 'Custom ID',
+      claims: { id: 'ID' },
+    });
+  });
+});
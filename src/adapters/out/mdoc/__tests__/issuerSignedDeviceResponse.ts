@@ -0,0 +1,55 @@
+import { X509Certificate } from '@peculiar/x509';
+import { Tag } from 'cbor-x';
+import { Buffer } from 'node:buffer';
+import { mdocCbor } from '../MdocCbor';
+
+/**
+ * Builds a DeviceResponse with one document whose issuerAuth carries the
+ * document signer certificate in its x5chain header, and an MSO holding
+ * `status` and `validityInfo` when given.
+ *
+ * The issuer signature is not valid; only the certificate chain is exercised.
+ */
+export const issuerSignedDeviceResponse = (
+  docType: string,
+  x5chain: X509Certificate,
+  status?: Map<string, unknown>,
+  validityInfo?: Map<string, unknown>
+) => {
+  const mso = new Map<string, unknown>([
+    ...(status ? [['status', status] as const] : []),
+    ...(validityInfo ? [['validityInfo', validityInfo] as const] : []),
+  ]);
+  return Buffer.from(
+    mdocCbor.encode(
+      new Map<string, unknown>([
+        ['version', '1.0'],
+        [
+          'documents',
+          [
+            new Map<string, unknown>([
+              ['docType', docType],
+              [
+                'issuerSigned',
+                new Map([
+                  [
+                    'issuerAuth',
+                    [
+                      mdocCbor.encode(new Map([[1, -7]])),
+                      new Map([[33, new Uint8Array(x5chain.rawData)]]),
+                      mso.size > 0
+                        ? mdocCbor.encode(new Tag(mdocCbor.encode(mso), 24))
+                        : new Uint8Array(0),
+                      new Uint8Array(64),
+                    ],
+                  ],
+                ]),
+              ],
+            ]),
+          ],
+        ],
+        ['status', 0],
+      ])
+    )
+  ).toString('base64url');
+};
@@ -0,0 +1,113 @@
+import { Tag } from 'cbor-x';
+import { Buffer } from 'node:buffer';
+import { mdocCbor } from '../MdocCbor';
+
+/**
+ * Builds a DeviceResponse whose documents are signed by a fresh device key
+ * over the given SessionTranscript, as a wallet does.
+ *
+ * The issuer signature is not valid; only device authentication is exercised.
+ */
+export const signedDeviceResponse = async (
+  sessionTranscript: Uint8Array,
+  ...docTypes: string[]
+): Promise<string> => {
+  const { privateKey, publicKey } = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify']
+  );
+  const { x, y } = await crypto.subtle.exportKey('jwk', publicKey);
+
+  const mso = new Map<string, unknown>([
+    ['version', '1.0'],
+    ['digestAlgorithm', 'SHA-256'],
+    [
+      'deviceKeyInfo',
+      new Map([
+        [
+          'deviceKey',
+          new Map<number, unknown>([
+            [1, 2],
+            [-1, 1],
+            [-2, Buffer.from(x!, 'base64url')],
+            [-3, Buffer.from(y!, 'base64url')],
+          ]),
+        ],
+      ]),
+    ],
+  ]);
+  const protectedHeader = mdocCbor.encode(new Map([[1, -7]]));
+  const transcript = mdocCbor.decode(sessionTranscript);
+
+  const documents = [];
+  for (const docType of docTypes) {
+    const nameSpaces = new Tag(mdocCbor.encode(new Map()), 24);
+    const deviceAuthentication = new Tag(
+      mdocCbor.encode([
+        'DeviceAuthentication',
+        transcript,
+        docType,
+        nameSpaces,
+      ]),
+      24
+    );
+    const signature = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      privateKey,
+      new Uint8Array(
+        mdocCbor.encode([
+          'Signature1',
+          protectedHeader,
+          new Uint8Array(0),
+          mdocCbor.encode(deviceAuthentication),
+        ])
+      )
+    );
+
+    documents.push(
+      new Map<string, unknown>([
+        ['docType', docType],
+        [
+          'issuerSigned',
+          new Map([
+            [
+              'issuerAuth',
+              [
+                protectedHeader,
+                new Map(),
+                mdocCbor.encode(new Tag(mdocCbor.encode(mso), 24)),
+                new Uint8Array(64),
+              ],
+            ],
+          ]),
+        ],
+        [
+          'deviceSigned',
+          new Map<string, unknown>([
+            ['nameSpaces', nameSpaces],
+            [
+              'deviceAuth',
+              new Map([
+                [
+                  'deviceSignature',
+                  [protectedHeader, new Map(), null, new Uint8Array(signature)],
+                ],
+              ]),
+            ],
+          ]),
+        ],
+      ])
+    );
+  }
+
+  return Buffer.from(
+    mdocCbor.encode(
+      new Map<string, unknown>([
+        ['version', '1.0'],
+        ['documents', documents],
+        ['status', 0],
+      ])
+    )
+  ).toString('base64url');
+};
@@ -0,0 +1,174 @@
+import { z } from 'zod';
+import { EU_PID_NAMESPACE } from './pid';
+import { PHOTO_ID_NAMESPACES } from './photoID';
+import { UNIFIED_ID_NAMESPACE } from './unifiedID';
+
+/**
+ * Schema of the data elements of one mdoc namespace
+ *
+ * The description of each element (`z.string().describe('Family name')`)
+ * is the label it is rendered with.
+ *
+ * @public
+ */
+export interface NamespaceSchema {
+  /** Namespace, e.g. `eu.europa.ec.eudi.pid.1` */
+  namespace: string;
+  /** Document type the namespace is issued in */
+  docType: string;
+  /** Name of the document type shown to users */
+  documentName: string;
+  /** Schema of the data elements; elements are optional as wallets disclose them selectively */
+  schema: z.AnyZodObject;
+}
+
+/**
+ * Labels a verified document is rendered with
+ *
+ * @public
+ */
+export interface DocumentLabels {
+  /** Name of the document type */
+  name: string;
+  /** Labels of the data elements, keyed by element identifier */
+  claims: Record<string, string>;
+}
+
+/**
+ * Namespaces registered by default: EU PID, ISO 23220 PhotoID and Unified ID
+ *
+ * The mDL namespace (`org.iso.18013.5.1`) is validated with the schema
+ * bundled with the mdoc library.
+ *
+ * @public
+ */
+export const DEFAULT_NAMESPACE_SCHEMAS: NamespaceSchema[] = [
+  EU_PID_NAMESPACE,
+  ...PHOTO_ID_NAMESPACES,
+  UNIFIED_ID_NAMESPACE,
+];
+
+/**
+ * Registry of mdoc namespace schemas
+ *
+ * The schemas validate the data elements of verified DeviceResponses, name
+ * the elements presentation definitions can request and label the elements
+ * on the result page.
+ *
+ * @example
+ * ```typescript
+ * const registry = new NamespaceSchemaRegistry(DEFAULT_NAMESPACE_SCHEMAS);
+ * const handler = new MdocVerifyHandlerImpl(registry.schemas());
+ * registry.claimNames('com.dentsusoken.vecrea'); // ['type', 'service', ...]
+ * ```
+ *
+ * @public
+ */
+export class NamespaceSchemaRegistry {
+  readonly #namespaces: Map<string, NamespaceSchema>;
+
+  /**
+   * @param namespaces - Namespace schemas; later entries override earlier ones with the same namespace
+   */
+  constructor(namespaces: NamespaceSchema[]) {
+    this.#namespaces = new Map(
+      namespaces.map((namespace) => [namespace.namespace, namespace])
+    );
+  }
+
+  /**
+   * Gets the schema registered for a namespace
+   */
+  get(namespace: string): NamespaceSchema | undefined {
+    return this.#namespaces.get(namespace);
+  }
+
+  /**
+   * Gets all registered namespaces in registration order
+   */
+  namespaces(): NamespaceSchema[] {
+    return [...this.#namespaces.values()];
+  }
+
+  /**
+   * Gets the namespaces of a document type in registration order
+   */
+  namespacesOf(docType: string): NamespaceSchema[] {
+    return this.namespaces().filter((entry) => entry.docType === docType);
+  }
+
+  /**
+   * Gets the schemas keyed by namespace, as taken by the mdoc verify handler
+   */
+  schemas(): Record<string, z.AnyZodObject> {
+    return Object.fromEntries(
+      this.namespaces().map(({ namespace, schema }) => [namespace, schema])
+    );
+  }
+
+  /**
+   * Gets the identifiers of the data elements of a namespace
+   *
+   * @param namespace - Registered namespace
+   * @returns Element identifiers in schema order
+   * @throws {Error} When the namespace is not registered
+   */
+  claimNames(namespace: string): string[] {
+    return Object.keys(this.#getOrThrow(namespace).schema.shape);
+  }
+
+  /**
+   * Validates the data elements of a namespace
+   *
+   * @param namespace - Registered namespace
+   * @param elements - Data elements keyed by identifier
+   * @returns The elements known to the schema
+   * @throws {Error} `Invalid <namespace> ...` when an element does not match the schema
+   */
+  parse(namespace: string, elements: unknown): Record<string, unknown> {
+    const result = this.#getOrThrow(namespace).schema.safeParse(elements);
+    if (!result.success) {
+      throw new Error(`Invalid ${namespace}: ${result.error.message}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Gets the labels of every registered document type
+   *
+   * Elements of all namespaces of a document type are merged, as verified
+   * documents are.
+   *
+   * @returns Labels keyed by document type
+   */
+  documentLabels(): Record<string, DocumentLabels> {
+    const labels: Record<string, DocumentLabels> = {};
+    for (const { docType, documentName, schema } of this.namespaces()) {
+      const document = (labels[docType] ??= { name: documentName, claims: {} });
+      for (const [claim, element] of Object.entries(schema.shape)) {
+        const { description } = element as z.ZodTypeAny;
+        if (description) {
+          document.claims[claim] = description;
+        }
+      }
+    }
+    return labels;
+  }
+
+  #getOrThrow(namespace: string): NamespaceSchema {
+    const entry = this.#namespaces.get(namespace);
+    if (!entry) {
+      throw new Error(`Not found: namespace schema "${namespace}"`);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Registry of the default namespaces
+ *
+ * @public
+ */
+export const defaultNamespaceSchemaRegistry = new NamespaceSchemaRegistry(
+  DEFAULT_NAMESPACE_SCHEMAS
+);
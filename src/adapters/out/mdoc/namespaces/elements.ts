@@ -0,0 +1,54 @@
+import { Tag } from 'cbor-x';
+import { z } from 'zod';
+
+/**
+ * Schema of a `full-date` data element
+ *
+ * Decoded as the tagged value (tag 1004), a `Date` or the plain
+ * `YYYY-MM-DD` string some issuers encode.
+ *
+ * @public
+ */
+export const fullDateSchema = z.union([
+  z.instanceof(Tag),
+  z.date(),
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+]);
+
+/**
+ * Schema of a `tdate` data element (tag 0), or a date-time string
+ *
+ * @public
+ */
+export const dateTimeSchema = z.union([
+  z.instanceof(Tag),
+  z.date(),
+  z.string().datetime({ offset: true }),
+]);
+
+/**
+ * Schema of a binary data element, e.g. a JPEG portrait
+ *
+ * @public
+ */
+export const bytesSchema = z.instanceof(Uint8Array);
+
+/**
+ * Schema of an ISO 3166-1 alpha-2 country code
+ *
+ * @public
+ */
+export const countryCodeSchema = z.string().regex(/^[A-Z]{2}$/);
+
+/**
+ * Schema of an ISO/IEC 5218 sex code (0 not known, 1 male, 2 female, 9 not
+ * applicable)
+ *
+ * @public
+ */
+export const sexSchema = z.union([
+  z.literal(0),
+  z.literal(1),
+  z.literal(2),
+  z.literal(9),
+]);
@@ -0,0 +1,5 @@
+export * from './elements';
+export * from './NamespaceSchemaRegistry';
+export * from './pid';
+export * from './photoID';
+export * from './unifiedID';
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import {
+  bytesSchema,
+  countryCodeSchema,
+  fullDateSchema,
+  sexSchema,
+} from './elements';
+import type { NamespaceSchema } from './NamespaceSchemaRegistry';
+
+/**
+ * Document type of the ISO/IEC TS 23220-4 PhotoID
+ *
+ * @public
+ */
+export const PHOTO_ID_DOCTYPE = 'org.iso.23220.photoID.1';
+
+/**
+ * Schema of the `org.iso.23220.1` namespace, the data elements ISO/IEC
+ * 23220-2 defines for every mdoc
+ *
+ * @public
+ */
+export const iso23220Schema = z
+  .object({
+    family_name: z.string().describe('Family name'),
+    given_name: z.string().describe('Given name'),
+    birth_date: fullDateSchema.describe('Birth date'),
+    portrait: bytesSchema.describe('Portrait'),
+    issue_date: fullDateSchema.describe('Issue date'),
+    expiry_date: fullDateSchema.describe('Expiry date'),
+    issuing_authority_unicode: z.string().describe('Issuing authority'),
+    issuing_country: countryCodeSchema.describe('Issuing country'),
+    age_in_years: z.number().int().nonnegative().describe('Age in years'),
+    age_over_18: z.boolean().describe('Age over 18'),
+    age_birth_year: z.number().int().positive().describe('Birth year'),
+    sex: sexSchema.describe('Sex'),
+    nationality: countryCodeSchema.describe('Nationality'),
+    birthplace: z.string().describe('Place of birth'),
+    resident_address_unicode: z.string().describe('Resident address'),
+    resident_city_unicode: z.string().describe('Resident city'),
+    resident_postal_code: z.string().describe('Resident postal code'),
+    resident_country: countryCodeSchema.describe('Resident country'),
+    document_number: z.string().describe('Document number'),
+  })
+  .partial();
+
+/**
+ * Schema of the `org.iso.23220.photoID.1` namespace, the data elements
+ * specific to the PhotoID
+ *
+ * @public
+ */
+export const photoIDSchema = z
+  .object({
+    person_id: z.string().describe('Person ID'),
+    birth_country: countryCodeSchema.describe('Country of birth'),
+    birth_state: z.string().describe('State of birth'),
+    birth_city: z.string().describe('City of birth'),
+    administrative_number: z.string().describe('Administrative number'),
+    resident_street: z.string().describe('Resident street'),
+    resident_house_number: z.string().describe('Resident house number'),
+    resident_state: z.string().describe('Resident state'),
+    travel_document_number: z.string().describe('Travel document number'),
+  })
+  .partial();
+
+/**
+ * Namespaces of the PhotoID
+ *
+ * @public
+ */
+export const PHOTO_ID_NAMESPACES: NamespaceSchema[] = [
+  {
+    namespace: 'org.iso.23220.1',
+    docType: PHOTO_ID_DOCTYPE,
+    documentName: 'Photo ID',
+    schema: iso23220Schema,
+  },
+  {
+    namespace: PHOTO_ID_DOCTYPE,
+    docType: PHOTO_ID_DOCTYPE,
+    documentName: 'Photo ID',
+    schema: photoIDSchema,
+  },
+];
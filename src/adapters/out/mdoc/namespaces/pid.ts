@@ -0,0 +1,96 @@
+import { z } from 'zod';
+import {
+  bytesSchema,
+  countryCodeSchema,
+  dateTimeSchema,
+  fullDateSchema,
+} from './elements';
+import type { NamespaceSchema } from './NamespaceSchemaRegistry';
+
+/**
+ * Document type and namespace of the EU Person Identification Data
+ *
+ * @public
+ */
+export const EU_PID_DOCTYPE = 'eu.europa.ec.eudi.pid.1';
+
+/**
+ * Ages `age_over_NN` is defined for by the PID rulebook
+ *
+ * @public
+ */
+export const EU_PID_AGE_OVER_THRESHOLDS = [
+  12, 14, 16, 18, 21, 25, 60, 65, 68,
+] as const;
+
+/**
+ * Schema of the `eu.europa.ec.eudi.pid.1` namespace (PID rulebook of the
+ * EUDI Wallet Architecture and Reference Framework)
+ *
+ * Every element is optional, as wallets only release the requested ones.
+ *
+ * @public
+ */
+export const euPidSchema = z
+  .object({
+    family_name: z.string().describe('Family name'),
+    given_name: z.string().describe('Given name'),
+    birth_date: fullDateSchema.describe('Birth date'),
+    ...(Object.fromEntries(
+      EU_PID_AGE_OVER_THRESHOLDS.map((age) => [
+        `age_over_${age}`,
+        z.boolean().describe(`Age over ${age}`),
+      ])
+    ) as Record<
+      `age_over_${(typeof EU_PID_AGE_OVER_THRESHOLDS)[number]}`,
+      z.ZodBoolean
+    >),
+    age_in_years: z.number().int().nonnegative().describe('Age in years'),
+    age_birth_year: z.number().int().positive().describe('Birth year'),
+    family_name_birth: z.string().describe('Family name at birth'),
+    given_name_birth: z.string().describe('Given name at birth'),
+    birth_place: z.string().describe('Place of birth'),
+    birth_country: countryCodeSchema.describe('Country of birth'),
+    birth_state: z.string().describe('State of birth'),
+    birth_city: z.string().describe('City of birth'),
+    resident_address: z.string().describe('Resident address'),
+    resident_country: countryCodeSchema.describe('Resident country'),
+    resident_state: z.string().describe('Resident state'),
+    resident_city: z.string().describe('Resident city'),
+    resident_postal_code: z.string().describe('Resident postal code'),
+    resident_street: z.string().describe('Resident street'),
+    resident_house_number: z.string().describe('Resident house number'),
+    gender: z.number().int().describe('Gender'),
+    nationality: z
+      .union([countryCodeSchema, z.array(countryCodeSchema)])
+      .describe('Nationality'),
+    issuance_date: z
+      .union([fullDateSchema, dateTimeSchema])
+      .describe('Issuance date'),
+    expiry_date: z
+      .union([fullDateSchema, dateTimeSchema])
+      .describe('Expiry date'),
+    issuing_authority: z.string().describe('Issuing authority'),
+    document_number: z.string().describe('Document number'),
+    personal_administrative_number: z
+      .string()
+      .describe('Personal administrative number'),
+    issuing_country: countryCodeSchema.describe('Issuing country'),
+    issuing_jurisdiction: z.string().describe('Issuing jurisdiction'),
+    portrait: bytesSchema.describe('Portrait'),
+    email_address: z.string().describe('Email address'),
+    mobile_phone_number: z.string().describe('Mobile phone number'),
+  })
+  .partial();
+
+/**
+ * EU PID namespace
+ *
+ * @public
+ */
+export const EU_PID_NAMESPACE: NamespaceSchema = {
+  namespace: EU_PID_DOCTYPE,
+  docType: EU_PID_DOCTYPE,
+  documentName: 'EU Person Identification Data',
+  schema: euPidSchema,
+};
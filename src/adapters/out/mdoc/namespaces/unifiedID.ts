@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { fullDateSchema } from './elements';
+import type { NamespaceSchema } from './NamespaceSchemaRegistry';
+
+/**
+ * Document type of the Unified ID
+ *
+ * @public
+ */
+export const UNIFIED_ID_DOCTYPE = 'com.dentsusoken.vecrea.UnifiedID';
+
+/**
+ * Schema of the `com.dentsusoken.vecrea` namespace of the Unified ID, which
+ * links a user account of a service to a unified identifier
+ *
+ * @public
+ */
+export const unifiedIDSchema = z
+  .object({
+    type: z.string().describe('Type'),
+    service: z.string().describe('Service'),
+    user_id: z.string().describe('User ID'),
+    unified_id: z.string().describe('Unified ID'),
+    issue_date: fullDateSchema.describe('Issue date'),
+    expiry_date: fullDateSchema.describe('Expiry date'),
+  })
+  .partial();
+
+/**
+ * Unified ID namespace
+ *
+ * @public
+ */
+export const UNIFIED_ID_NAMESPACE: NamespaceSchema = {
+  namespace: 'com.dentsusoken.vecrea',
+  docType: UNIFIED_ID_DOCTYPE,
+  documentName: 'Unified ID',
+  schema: unifiedIDSchema,
+};
@@ -0,0 +1,297 @@
+import { z } from 'zod';
+import { Tag } from 'cbor-x';
+
+/**
+ * Claim a rule reads: a claim name, or a path into nested claims such as
+ * `[age_equal_or_over, '18']` of SD-JWT VCs
+ * @private
+ */
+const claimSchema = z.union([z.string().min(1), z.array(z.string()).min(1)]);
+
+/**
+ * Fields shared by all rules
+ * @private
+ */
+const ruleBaseSchema = z.object({
+  claim: claimSchema,
+  docType: z.string().optional(),
+  description: z.string().optional(),
+});
+
+/**
+ * Schema of a single policy rule
+ *
+ * - `operator`: `equals`, `in`, `within` or `notExpired`
+ * - `claim`: Claim the rule reads, looked up in every verified document
+ * - `docType`: Optional document type (or SD-JWT VC type) to read the claim from
+ * - `description`: Optional text reported instead of the generated one
+ *
+ * ```yaml
+ * policy:
+ *   - { operator: notExpired, claim: expiry_date }
+ *   - { operator: equals, claim: age_over_18, value: true }
+ *   - { operator: in, claim: issuing_country, values: [JP, US] }
+ *   - { operator: within, claim: issue_date, years: 5 }
+ * ```
+ *
+ * @public
+ */
+export const policyRuleSchema = z.discriminatedUnion('operator', [
+  ruleBaseSchema.extend({
+    operator: z.literal('equals'),
+    value: z.union([z.string(), z.number(), z.boolean()]),
+  }),
+  ruleBaseSchema.extend({
+    operator: z.literal('in'),
+    values: z.array(z.union([z.string(), z.number()])).min(1),
+  }),
+  ruleBaseSchema.extend({
+    operator: z.literal('within'),
+    years: z.number().int().positive().optional(),
+    months: z.number().int().positive().optional(),
+    days: z.number().int().positive().optional(),
+  }),
+  ruleBaseSchema.extend({
+    operator: z.literal('notExpired'),
+  }),
+]);
+
+/**
+ * Schema of the policy of a presentation definition: rules that must all
+ * hold for the presentation to be accepted
+ *
+ * @public
+ */
+export const verificationPolicySchema = z.array(
+  policyRuleSchema.refine(
+    (rule) =>
+      rule.operator !== 'within' || !!(rule.years || rule.months || rule.days),
+    'within needs years, months or days'
+  )
+);
+
+export type PolicyRule = z.infer<typeof policyRuleSchema>;
+
+export type VerificationPolicy = z.infer<typeof verificationPolicySchema>;
+
+/**
+ * Outcome of one rule
+ *
+ * @public
+ */
+export interface PolicyRuleOutcome {
+  /** Description of the rule, e.g. `age_over_18 == true` */
+  rule: string;
+  /** Whether the rule holds */
+  passed: boolean;
+  /** Why the rule does not hold */
+  reason?: string;
+}
+
+/**
+ * Outcome of a policy
+ *
+ * @public
+ */
+export interface PolicyEvaluation {
+  /** `accept` when every rule holds, otherwise `reject` */
+  decision: 'accept' | 'reject';
+  /** Outcome of each rule in policy order */
+  outcomes: PolicyRuleOutcome[];
+}
+
+/**
+ * Verified documents: claims keyed by document type
+ * @private
+ */
+type Documents = Record<string, Record<string, unknown>>[];
+
+/**
+ * Unwraps CBOR tagged values, e.g. `full-date` (tag 1004)
+ * @private
+ */
+const unwrap = (value: unknown): unknown =>
+  value instanceof Tag ? unwrap(value.value) : value;
+
+/**
+ * Formats a claim path
+ * @private
+ */
+const claimName = (claim: PolicyRule['claim']) =>
+  Array.isArray(claim) ? claim.join('.') : claim;
+
+/**
+ * Describes a rule
+ *
+ * @param rule - Policy rule
+ * @returns The description of the rule, or a generated one such as
+ *   `issuing_country in [JP, US]`
+ *
+ * @public
+ */
+export const describePolicyRule = (rule: PolicyRule): string => {
+  if (rule.description) {
+    return rule.description;
+  }
+  const claim = claimName(rule.claim);
+  switch (rule.operator) {
+    case 'equals':
+      return `${claim} == ${JSON.stringify(rule.value)}`;
+    case 'in':
+      return `${claim} in [${rule.values.join(', ')}]`;
+    case 'within':
+      return `${claim} within ${[
+        rule.years && `${rule.years} years`,
+        rule.months && `${rule.months} months`,
+        rule.days && `${rule.days} days`,
+      ]
+        .filter(Boolean)
+        .join(' ')}`;
+    case 'notExpired':
+      return `${claim} not expired`;
+  }
+};
+
+/**
+ * Reads the value of a claim from the verified documents
+ * @private
+ */
+const readClaim = (
+  documents: Documents,
+  { claim, docType }: PolicyRule
+): unknown => {
+  const path = Array.isArray(claim) ? claim : [claim];
+  for (const document of documents) {
+    for (const [type, claims] of Object.entries(document ?? {})) {
+      if (docType && type !== docType) {
+        continue;
+      }
+      const value = path.reduce<unknown>(
+        (node, key) =>
+          node && typeof node === 'object'
+            ? (node as Record<string, unknown>)[key]
+            : undefined,
+        claims
+      );
+      if (value !== undefined) {
+        return unwrap(value);
+      }
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Reads a claim value as a date
+ *
+ * `full-date` values (`2030-01-31`) are read as the end of the day, so that
+ * a document expiring on a date is valid throughout that day.
+ * @private
+ */
+const readDate = (value: unknown, endOfDay: boolean): Date | undefined => {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const fullDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(
+    fullDate && endOfDay ? `${value}T23:59:59.999Z` : value
+  );
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Formats a claim value for a failure reason
+ * @private
+ */
+const formatValue = (value: unknown): string =>
+  value instanceof Date ? value.toISOString() : JSON.stringify(value);
+
+/**
+ * Evaluates one rule
+ * @private
+ */
+const evaluateRule = (
+  rule: PolicyRule,
+  documents: Documents,
+  now: Date
+): Omit<PolicyRuleOutcome, 'rule'> => {
+  const value = readClaim(documents, rule);
+  if (value === undefined) {
+    return { passed: false, reason: 'claim not disclosed' };
+  }
+
+  switch (rule.operator) {
+    case 'equals':
+      return value === rule.value
+        ? { passed: true }
+        : { passed: false, reason: `was ${formatValue(value)}` };
+    case 'in': {
+      const values = Array.isArray(value) ? value.map(unwrap) : [value];
+      return values.some((v) => rule.values.includes(v as string | number))
+        ? { passed: true }
+        : { passed: false, reason: `was ${formatValue(value)}` };
+    }
+    case 'within': {
+      const date = readDate(value, false);
+      if (!date) {
+        return { passed: false, reason: `not a date: ${formatValue(value)}` };
+      }
+      const since = new Date(now);
+      since.setUTCFullYear(
+        since.getUTCFullYear() - (rule.years ?? 0),
+        since.getUTCMonth() - (rule.months ?? 0),
+        since.getUTCDate() - (rule.days ?? 0)
+      );
+      return date >= since && date <= now
+        ? { passed: true }
+        : { passed: false, reason: `was ${formatValue(value)}` };
+    }
+    case 'notExpired': {
+      const date = readDate(value, true);
+      if (!date) {
+        return { passed: false, reason: `not a date: ${formatValue(value)}` };
+      }
+      return date >= now
+        ? { passed: true }
+        : { passed: false, reason: `expired ${formatValue(value)}` };
+    }
+  }
+};
+
+/**
+ * Evaluates a policy against the claims of verified documents
+ *
+ * A rule whose claim was not disclosed does not hold.
+ *
+ * @example
+ * ```typescript
+ * const { decision, outcomes } = evaluatePolicy(
+ *   [{ operator: 'in', claim: 'issuing_country', values: ['JP', 'US'] }],
+ *   response.documents
+ * );
+ * ```
+ *
+ * @param policy - Rules to evaluate
+ * @param documents - Verified documents keyed by document type
+ * @param now - Time dates are compared with
+ * @returns The outcome of each rule and the overall decision
+ *
+ * @public
+ */
+export const evaluatePolicy = (
+  policy: VerificationPolicy,
+  documents: Documents | undefined,
+  now: Date = new Date()
+): PolicyEvaluation => {
+  const outcomes = policy.map((rule) => ({
+    rule: describePolicyRule(rule),
+    ...evaluateRule(rule, documents ?? [], now),
+  }));
+  return {
+    decision: outcomes.every(({ passed }) => passed) ? 'accept' : 'reject',
+    outcomes,
+  };
+};
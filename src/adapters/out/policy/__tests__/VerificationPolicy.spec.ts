@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { Tag } from 'cbor-x';
+import {
+  describePolicyRule,
+  evaluatePolicy,
+  verificationPolicySchema,
+} from '../VerificationPolicy';
+
+const now = new Date('2025-06-01T00:00:00Z');
+
+const documents: Record<string, Record<string, unknown>>[] = [
+  {
+    'org.iso.18013.5.1.mDL': {
+      age_over_18: true,
+      issuing_country: 'JP',
+      issue_date: new Tag('2022-04-01', 1004),
+      expiry_date: new Tag('2025-06-01', 1004),
+    },
+  },
+  {
+    'urn:eudi:pid:1': {
+      nationalities: ['DE', 'US'],
+      age_equal_or_over: { '18': true, '21': false },
+    },
+  },
+];
+
+describe('VerificationPolicy', () => {
+  it('should describe rules', () => {
+    const policy = verificationPolicySchema.parse([
+      { operator: 'notExpired', claim: 'expiry_date' },
+      { operator: 'equals', claim: 'age_over_18', value: true },
+      { operator: 'in', claim: 'issuing_country', values: ['JP', 'US'] },
+      { operator: 'within', claim: 'issue_date', years: 5 },
+      {
+        operator: 'equals',
+        claim: 'age_over_21',
+        value: true,
+        description: 'Holder is an adult',
+      },
+    ]);
+
+    expect(policy.map(describePolicyRule)).toEqual([
+      'expiry_date not expired',
+      'age_over_18 == true',
+      'issuing_country in [JP, US]',
+      'issue_date within 5 years',
+      'Holder is an adult',
+    ]);
+  });
+
+  it('should reject within rules without a duration', () => {
+    expect(
+      verificationPolicySchema.safeParse([
+        { operator: 'within', claim: 'issue_date' },
+      ]).success
+    ).toBe(false);
+  });
+
+  it('should accept when every rule holds', () => {
+    const evaluation = evaluatePolicy(
+      [
+        { operator: 'notExpired', claim: 'expiry_date' },
+        { operator: 'equals', claim: 'age_over_18', value: true },
+        { operator: 'in', claim: 'issuing_country', values: ['JP', 'US'] },
+        { operator: 'within', claim: 'issue_date', years: 5 },
+        { operator: 'in', claim: 'nationalities', values: ['US'] },
+        {
+          operator: 'equals',
+          claim: ['age_equal_or_over', '18'],
+          docType: 'urn:eudi:pid:1',
+          value: true,
+        },
+      ],
+      documents,
+      now
+    );
+
+    expect(evaluation.decision).toBe('accept');
+    expect(evaluation.outcomes.every(({ passed }) => passed)).toBe(true);
+  });
+
+  it('should reject when a rule does not hold', () => {
+    const evaluation = evaluatePolicy(
+      [
+        { operator: 'equals', claim: 'age_over_18', value: true },
+        { operator: 'in', claim: 'issuing_country', values: ['US'] },
+        { operator: 'within', claim: 'issue_date', years: 2 },
+        { operator: 'equals', claim: 'family_name', value: 'Doe' },
+        {
+          operator: 'equals',
+          claim: 'age_over_18',
+          docType: 'urn:eudi:pid:1',
+          value: true,
+        },
+      ],
+      documents,
+      now
+    );
+
+    expect(evaluation).toEqual({
+      decision: 'reject',
+      outcomes: [
+        { rule: 'age_over_18 == true', passed: true },
+        {
+          rule: 'issuing_country in [US]',
+          passed: false,
+          reason: 'was "JP"',
+        },
+        {
+          rule: 'issue_date within 2 years',
+          passed: false,
+          reason: 'was "2022-04-01"',
+        },
+        {
+          rule: 'family_name == "Doe"',
+          passed: false,
+          reason: 'claim not disclosed',
+        },
+        {
+          rule: 'age_over_18 == true',
+          passed: false,
+          reason: 'claim not disclosed',
+        },
+      ],
+    });
+  });
+
+  it('should treat a document as valid throughout its expiry date', () => {
+    const policy = verificationPolicySchema.parse([
+      { operator: 'notExpired', claim: 'expiry_date' },
+    ]);
+
+    expect(
+      evaluatePolicy(policy, documents, new Date('2025-06-01T23:00:00Z'))
+        .decision
+    ).toBe('accept');
+    expect(
+      evaluatePolicy(policy, documents, new Date('2025-06-02T00:00:00Z'))
+        .outcomes
+    ).toEqual([
+      {
+        rule: 'expiry_date not expired',
+        passed: false,
+        reason: 'expired "2025-06-01"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,484 @@
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  InputDescriptorJSON,
+  PresentationDefinitionJSON,
+} from '@vecrea/oid4vc-prex';
+import { GeneratePresentationDefinition } from '@vecrea/oid4vc-verifier-frontend-core';
+import { DcqlQuery, dcqlQuerySchema, dcqlQueryVctValues } from '../dcql';
+import { VerificationPolicy, verificationPolicySchema } from '../policy';
+import { createConfigLoader, parseConfigDocument } from '../config';
+import { mDLDifinition } from './mDL';
+import { unifiedIDDefinition } from './unifiedID';
+import { pidMsoMdocDefinition, pidSdJwtVcDefinition } from './pid';
+import {
+  AGE_VERIFICATION_KEY,
+  ageVerificationDefinition,
+} from './ageVerification';
+
+/**
+ * Map of presentation definition generators keyed by registry key
+ *
+ * Used as the type parameter of the core ports so that any key loaded
+ * into the registry is accepted by `initTransaction(key)`.
+ *
+ * @public
+ */
+export type PresentationDefinitions = Record<
+  string,
+  GeneratePresentationDefinition
+>;
+
+/**
+ * Generator of the empty placeholder definition sent for DCQL queries
+ *
+ * Transactions of DCQL entries are initiated with
+ * `createDcqlInitTransactionService`, which sends the DCQL query instead of
+ * a presentation definition.
+ *
+ * @public
+ */
+export const dcqlPlaceholderPresentationDefinition: GeneratePresentationDefinition =
+  () => ({ id: uuidv4(), input_descriptors: [] } as PresentationDefinitionJSON);
+
+/**
+ * Fields shared by all registry entries
+ * @private
+ */
+const entryBaseSchema = z.object({
+  key: z
+    .string()
+    .regex(
+      /^[a-zA-Z0-9\-_]+$/,
+      'key must only contain letters, digits, "-" and "_"'
+    ),
+  label: z.string().min(1),
+  description: z.string().optional(),
+  policy: verificationPolicySchema.optional(),
+});
+
+/**
+ * Schema of a single registry entry
+ *
+ * - `key`: URL-safe identifier, exposed as `/init/<key>`
+ * - `label`: Button label shown on the Home page
+ * - `description`: Optional helper text shown below the button
+ * - `policy`: Optional rules the verified claims are checked against
+ * - `queryLanguage`: `pex` (default) or `dcql`, selects what is sent to the backend
+ * - `presentationDefinition`: DIF Presentation Exchange definition (`pex`).
+ *   When `id` is omitted a fresh UUID is generated per transaction.
+ * - `dcqlQuery`: DCQL query (`dcql`)
+ *
+ * @public
+ */
+export const presentationDefinitionEntrySchema = z.union([
+  entryBaseSchema.extend({
+    queryLanguage: z.literal('pex').default('pex'),
+    presentationDefinition: z
+      .object({
+        id: z.string().min(1).optional(),
+        name: z.string().optional(),
+        purpose: z.string().optional(),
+        input_descriptors: z.array(z.record(z.unknown())).min(1),
+      })
+      .passthrough(),
+  }),
+  entryBaseSchema.extend({
+    queryLanguage: z.literal('dcql'),
+    dcqlQuery: dcqlQuerySchema,
+  }),
+]);
+
+/**
+ * Schema of the registry configuration document (JSON or YAML)
+ *
+ * ```yaml
+ * includeDefaults: true
+ * definitions:
+ *   - key: photoID
+ *     label: Photo ID Verification
+ *     policy:
+ *       - { operator: notExpired, claim: expiry_date }
+ *     presentationDefinition:
+ *       input_descriptors:
+ *         - id: org.iso.23220.photoID.1
+ *           format: { mso_mdoc: { alg: [ES256] } }
+ *           constraints:
+ *             fields:
+ *               - path: ["$['org.iso.23220.1']['family_name']"]
+ *                 intent_to_retain: false
+ *   - key: photoIDDcql
+ *     label: Photo ID Verification (DCQL)
+ *     queryLanguage: dcql
+ *     dcqlQuery:
+ *       credentials:
+ *         - id: photo_id
+ *           format: mso_mdoc
+ *           meta: { doctype_value: org.iso.23220.photoID.1 }
+ *           claims:
+ *             - path: [org.iso.23220.1, family_name]
+ * ```
+ *
+ * @public
+ */
+export const presentationDefinitionRegistrySchema = z
+  .object({
+    includeDefaults: z.boolean().default(true),
+    definitions: z.array(presentationDefinitionEntrySchema),
+  })
+  .superRefine(({ definitions }, ctx) => {
+    const seen = new Set<string>();
+    definitions.forEach(({ key }, index) => {
+      if (seen.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate presentation definition key: ${key}`,
+          path: ['definitions', index, 'key'],
+        });
+      }
+      seen.add(key);
+    });
+  });
+
+export type PresentationDefinitionEntry = z.infer<
+  typeof presentationDefinitionEntrySchema
+>;
+
+export type PresentationDefinitionRegistryConfig = z.infer<
+  typeof presentationDefinitionRegistrySchema
+>;
+
+/**
+ * Built-in entries available when no configuration is provided
+ *
+ * @public
+ */
+export const DEFAULT_PRESENTATION_DEFINITION_ENTRIES: PresentationDefinitionEntry[] =
+  [
+    {
+      key: 'mDL',
+      label: 'mDL Verification',
+      queryLanguage: 'pex',
+      presentationDefinition: {
+        id: 'org.iso.18013.5.1.mDL',
+        input_descriptors: [mDLDifinition],
+      },
+    },
+    {
+      key: 'unifiedID',
+      label: 'UnifiedID Verification',
+      queryLanguage: 'pex',
+      presentationDefinition: {
+        input_descriptors: [unifiedIDDefinition],
+      },
+    },
+    {
+      key: AGE_VERIFICATION_KEY,
+      label: 'Age Verification',
+      description: 'Requests only age_over_18 of an mDL',
+      queryLanguage: 'pex',
+      presentationDefinition: {
+        input_descriptors: [
+          ageVerificationDefinition() as unknown as Record<string, unknown>,
+        ],
+      },
+    },
+    {
+      key: 'pid',
+      label: 'EU PID Verification',
+      description: 'EUDI Wallet PID issued as mdoc',
+      queryLanguage: 'pex',
+      presentationDefinition: {
+        input_descriptors: [
+          pidMsoMdocDefinition() as unknown as Record<string, unknown>,
+        ],
+      },
+    },
+    {
+      key: 'pidSdJwt',
+      label: 'EU PID Verification (SD-JWT VC)',
+      description: 'EUDI Wallet PID issued as SD-JWT VC',
+      queryLanguage: 'pex',
+      presentationDefinition: {
+        input_descriptors: [
+          pidSdJwtVcDefinition() as unknown as Record<string, unknown>,
+        ],
+      },
+    },
+  ];
+
+/**
+ * Claim of a registry entry an operator can leave out of a request
+ *
+ * @public
+ */
+export interface SelectableClaim {
+  /** Field id of the claim */
+  id: string;
+  /** Name of the claim shown when selecting it */
+  label: string;
+}
+
+/**
+ * Reads the fields of an input descriptor
+ * @private
+ */
+const inputDescriptorFields = (descriptor: Record<string, unknown>) => {
+  const { fields } = (descriptor.constraints ?? {}) as { fields?: unknown };
+  return (Array.isArray(fields) ? fields : []) as Record<string, unknown>[];
+};
+
+/**
+ * Reads the `vct` values an input descriptor constrains its credential to
+ * @private
+ */
+const inputDescriptorVctValues = (descriptor: Record<string, unknown>) =>
+  inputDescriptorFields(descriptor).flatMap((field) => {
+    const { path, filter } = (field ?? {}) as {
+      path?: unknown;
+      filter?: { const?: unknown; enum?: unknown };
+    };
+    if (!Array.isArray(path) || !path.includes('$.vct') || !filter) {
+      return [];
+    }
+    return [
+      filter.const,
+      ...(Array.isArray(filter.enum) ? filter.enum : []),
+    ].filter((value): value is string => typeof value === 'string');
+  });
+
+/**
+ * Registry of presentation definitions offered by the verifier
+ *
+ * Each entry is exposed as an `/init/<key>` route and listed on the Home
+ * page, so operators can add credential types through configuration.
+ *
+ * @example
+ * ```typescript
+ * const registry = PresentationDefinitionRegistry.parse(env.PRESENTATION_DEFINITIONS);
+ * registry.has('photoID'); // true
+ * const generate = registry.generatePresentationDefinition('photoID');
+ * ```
+ *
+ * @public
+ */
+export class PresentationDefinitionRegistry {
+  readonly #entries: Map<string, PresentationDefinitionEntry>;
+
+  /**
+   * @param entries - Registry entries; later entries override earlier ones with the same key
+   */
+  constructor(entries: PresentationDefinitionEntry[]) {
+    this.#entries = new Map(entries.map((entry) => [entry.key, entry]));
+  }
+
+  /**
+   * Builds a registry from a JSON or YAML configuration document
+   *
+   * @param source - Configuration document
+   * @returns Registry containing the configured entries (and the defaults unless disabled)
+   * @throws {Error} When the document cannot be parsed or fails validation
+   */
+  static parse(source: string): PresentationDefinitionRegistry {
+    const { includeDefaults, definitions } = parseConfigDocument(
+      source,
+      presentationDefinitionRegistrySchema,
+      'presentation definition'
+    );
+    return new PresentationDefinitionRegistry(
+      includeDefaults
+        ? [...DEFAULT_PRESENTATION_DEFINITION_ENTRIES, ...definitions]
+        : definitions
+    );
+  }
+
+  /**
+   * Checks whether a key is registered
+   */
+  has(key: string): boolean {
+    return this.#entries.has(key);
+  }
+
+  /**
+   * Gets the entry registered under a key
+   */
+  get(key: string): PresentationDefinitionEntry | undefined {
+    return this.#entries.get(key);
+  }
+
+  /**
+   * Gets all registered keys in registration order
+   */
+  keys(): string[] {
+    return [...this.#entries.keys()];
+  }
+
+  /**
+   * Gets all registered entries in registration order
+   */
+  entries(): PresentationDefinitionEntry[] {
+    return [...this.#entries.values()];
+  }
+
+  /**
+   * Gets the DCQL query of a key
+   *
+   * @param key - Registry key
+   * @returns The DCQL query, or `undefined` when the entry uses Presentation Exchange
+   * @throws {Error} When the key is not registered
+   */
+  dcqlQuery(key: string): DcqlQuery | undefined {
+    const entry = this.#getOrThrow(key);
+    return entry.queryLanguage === 'dcql' ? entry.dcqlQuery : undefined;
+  }
+
+  /**
+   * Gets the verification policy of a key
+   *
+   * @param key - Registry key
+   * @returns The policy, or `undefined` when the entry declares none
+   * @throws {Error} When the key is not registered
+   */
+  policy(key: string): VerificationPolicy | undefined {
+    return this.#getOrThrow(key).policy;
+  }
+
+  /**
+   * Gets the SD-JWT VC credential types (`vct`) requested by an entry, or by
+   * any entry
+   *
+   * Collected from `meta.vct_values` of DCQL credential queries and from the
+   * `const`/`enum` filters of `$.vct` fields of input descriptors.
+   * Presentations returned through the backend must have one of the types of
+   * the entry their transaction was initiated with.
+   *
+   * @param key - Registry key; every entry when omitted
+   * @returns Credential types in registration order, without duplicates
+   * @throws {Error} When the key is not registered
+   */
+  vctValues(key?: string): string[] {
+    const entries =
+      key === undefined ? this.entries() : [this.#getOrThrow(key)];
+    const values = entries.flatMap((entry) =>
+      entry.queryLanguage === 'dcql'
+        ? dcqlQueryVctValues(entry.dcqlQuery)
+        : entry.presentationDefinition.input_descriptors.flatMap(
+            inputDescriptorVctValues
+          )
+    );
+    return [...new Set(values)];
+  }
+
+  /**
+   * Gets the claims an operator can leave out of a request for a key
+   *
+   * These are the input descriptor fields with an `id`; fields without one
+   * (e.g. the `$.vct` filter of SD-JWT VCs) are always requested. DCQL
+   * entries offer no choice.
+   *
+   * @param key - Registry key
+   * @returns Claims in definition order, labelled with the field `name`
+   * @throws {Error} When the key is not registered
+   */
+  selectableClaims(key: string): SelectableClaim[] {
+    const entry = this.#getOrThrow(key);
+    if (entry.queryLanguage === 'dcql') {
+      return [];
+    }
+    const claims = new Map<string, string>();
+    for (const descriptor of entry.presentationDefinition.input_descriptors) {
+      for (const { id, name } of inputDescriptorFields(descriptor)) {
+        if (typeof id === 'string' && !claims.has(id)) {
+          claims.set(id, typeof name === 'string' ? name : id);
+        }
+      }
+    }
+    return [...claims].map(([id, label]) => ({ id, label }));
+  }
+
+  /**
+   * Creates the presentation definition generator for a key
+   *
+   * DCQL entries return an empty placeholder definition; their
+   * transactions send the {@link dcqlQuery} to the backend instead.
+   *
+   * @param key - Registry key
+   * @param claims - Ids of the {@link selectableClaims} to request; all of them when omitted
+   * @returns Generator passed to the core InitTransaction service
+   * @throws {Error} When the key is not registered, or a claim is not selectable
+   */
+  generatePresentationDefinition(
+    key: string,
+    claims?: string[]
+  ): GeneratePresentationDefinition {
+    const entry = this.#getOrThrow(key);
+    if (claims) {
+      const selectable = this.selectableClaims(key).map(({ id }) => id);
+      const unknown = claims.filter((claim) => !selectable.includes(claim));
+      if (unknown.length > 0 || claims.length === 0) {
+        throw new Error(
+          `Invalid claims: ${
+            unknown.join(', ') || 'none'
+          } selected for presentation definition "${key}"`
+        );
+      }
+    }
+    if (entry.queryLanguage === 'dcql') {
+      return dcqlPlaceholderPresentationDefinition;
+    }
+
+    const { id, input_descriptors, ...rest } = entry.presentationDefinition;
+    const selected = claims
+      ? input_descriptors.map((descriptor) => ({
+          ...descriptor,
+          constraints: {
+            ...(descriptor.constraints as Record<string, unknown>),
+            fields: inputDescriptorFields(descriptor).filter(
+              (field) =>
+                typeof field.id !== 'string' || claims.includes(field.id)
+            ),
+          },
+        }))
+      : input_descriptors;
+    return () =>
+      ({
+        ...rest,
+        id: id ?? uuidv4(),
+        input_descriptors: selected as unknown as InputDescriptorJSON[],
+      } as PresentationDefinitionJSON);
+  }
+
+  #getOrThrow(key: string): PresentationDefinitionEntry {
+    const entry = this.#entries.get(key);
+    if (!entry) {
+      throw new Error(`Not found: presentation definition "${key}"`);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Registry used when no configuration is provided
+ * @private
+ */
+const defaultRegistry = new PresentationDefinitionRegistry(
+  DEFAULT_PRESENTATION_DEFINITION_ENTRIES
+);
+
+/**
+ * Loads the presentation definition registry for a configuration source
+ *
+ * Parsed registries are cached per source so that the configuration is
+ * validated once per isolate rather than once per request.
+ *
+ * @param source - JSON or YAML document, typically the `PRESENTATION_DEFINITIONS` binding
+ * @returns The configured registry, or the built-in defaults when `source` is empty
+ *
+ * @public
+ */
+export const loadPresentationDefinitionRegistry: (
+  source?: string
+) => PresentationDefinitionRegistry = createConfigLoader(
+  PresentationDefinitionRegistry.parse,
+  defaultRegistry
+);
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+/**
+ * Schema of the parts of a presentation submission used to pick a verifier
+ *
+ * @public
+ */
+export const submittedPresentationsSchema = z.object({
+  definition_id: z.string(),
+  descriptor_map: z.array(
+    z.object({ id: z.string(), format: z.string(), path: z.string() })
+  ),
+});
+
+export type SubmittedPresentations = z.infer<
+  typeof submittedPresentationsSchema
+>;
+
+/**
+ * Reads a presentation submission in its JSON form
+ *
+ * @param submission - Presentation submission of an authorization response, as object or JSON
+ * @returns The submission, or `undefined` when there is none or it is malformed
+ *
+ * @public
+ */
+export const readPresentationSubmission = (
+  submission: unknown
+): SubmittedPresentations | undefined => {
+  if (submission === undefined || submission === null) {
+    return undefined;
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(
+      typeof submission === 'string' ? submission : JSON.stringify(submission)
+    );
+  } catch {
+    return undefined;
+  }
+  const parsed = submittedPresentationsSchema.safeParse(json);
+  return parsed.success ? parsed.data : undefined;
+};
+
+/**
+ * Finds the format the wallet declared for the presentation at a path of
+ * the VP token
+ *
+ * @param submission - Presentation submission
+ * @param path - JSON path of the presentation; `$` when the VP token is a single presentation
+ * @returns The declared format, or `undefined` when no descriptor points at the path
+ *
+ * @public
+ */
+export const submittedFormat = (
+  submission: SubmittedPresentations | undefined,
+  path = '$'
+): string | undefined =>
+  submission?.descriptor_map.find((descriptor) => descriptor.path === path)
+    ?.format;
@@ -0,0 +1,394 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PRESENTATION_DEFINITION_ENTRIES,
+  PresentationDefinitionRegistry,
+  loadPresentationDefinitionRegistry,
+} from '../PresentationDefinitionRegistry';
+import { sdJwtVcInputDescriptor } from '../sdJwtVc';
+
+const photoIDDescriptor = {
+  id: 'org.iso.23220.photoID.1',
+  format: { mso_mdoc: { alg: ['ES256'] } },
+  constraints: {
+    fields: [
+      {
+        path: ["$['org.iso.23220.1']['family_name']"],
+        intent_to_retain: false,
+      },
+    ],
+  },
+};
+
+const yamlSource = `
+definitions:
+  - key: photoID
+    label: Photo ID Verification
+    description: ISO/IEC 23220 Photo ID
+    presentationDefinition:
+      id: photo-id
+      input_descriptors:
+        - id: org.iso.23220.photoID.1
+          format:
+            mso_mdoc:
+              alg: [ES256]
+          constraints:
+            fields:
+              - path: ["$['org.iso.23220.1']['family_name']"]
+                intent_to_retain: false
+  - key: photoIDDcql
+    label: Photo ID Verification (DCQL)
+    queryLanguage: dcql
+    dcqlQuery:
+      credentials:
+        - id: photo_id
+          format: mso_mdoc
+          meta:
+            doctype_value: org.iso.23220.photoID.1
+          claims:
+            - path: [org.iso.23220.1, family_name]
+`;
+
+describe('PresentationDefinitionRegistry', () => {
+  describe('parse', () => {
+    it('should parse a YAML document and keep the defaults', () => {
+      const registry = PresentationDefinitionRegistry.parse(yamlSource);
+
+      expect(registry.keys()).toEqual([
+        'mDL',
+        'unifiedID',
+        'age',
+        'pid',
+        'pidSdJwt',
+        'photoID',
+        'photoIDDcql',
+      ]);
+      expect(registry.get('photoID')).toMatchObject({
+        label: 'Photo ID Verification',
+        description: 'ISO/IEC 23220 Photo ID',
+      });
+    });
+
+    it('should parse a JSON document', () => {
+      const registry = PresentationDefinitionRegistry.parse(
+        JSON.stringify({
+          includeDefaults: false,
+          definitions: [
+            {
+              key: 'photoID',
+              label: 'Photo ID Verification',
+              presentationDefinition: {
+                input_descriptors: [photoIDDescriptor],
+              },
+            },
+          ],
+        })
+      );
+
+      expect(registry.keys()).toEqual(['photoID']);
+    });
+
+    it('should let configured entries override defaults with the same key', () => {
+      const registry = PresentationDefinitionRegistry.parse(
+        JSON.stringify({
+          definitions: [
+            {
+              key: 'mDL',
+              label: 'Driving Licence',
+              presentationDefinition: {
+                input_descriptors: [photoIDDescriptor],
+              },
+            },
+          ],
+        })
+      );
+
+      expect(registry.keys()).toEqual([
+        'mDL',
+        'unifiedID',
+        'age',
+        'pid',
+        'pidSdJwt',
+      ]);
+      expect(registry.get('mDL')?.label).toBe('Driving Licence');
+    });
+
+    it('should reject malformed documents', () => {
+      expect(() =>
+        PresentationDefinitionRegistry.parse('definitions: [')
+      ).toThrow('Invalid presentation definition configuration');
+    });
+
+    it('should reject entries without input descriptors', () => {
+      expect(() =>
+        PresentationDefinitionRegistry.parse(
+          JSON.stringify({
+            definitions: [
+              {
+                key: 'empty',
+                label: 'Empty',
+                presentationDefinition: { input_descriptors: [] },
+              },
+            ],
+          })
+        )
+      ).toThrow('Invalid presentation definition configuration');
+    });
+
+    it('should reject keys that are not URL safe', () => {
+      expect(() =>
+        PresentationDefinitionRegistry.parse(
+          JSON.stringify({
+            definitions: [
+              {
+                key: 'photo/ID',
+                label: 'Photo ID',
+                presentationDefinition: {
+                  input_descriptors: [photoIDDescriptor],
+                },
+              },
+            ],
+          })
+        )
+      ).toThrow('Invalid presentation definition configuration');
+    });
+
+    it('should reject DCQL entries without a valid query', () => {
+      expect(() =>
+        PresentationDefinitionRegistry.parse(
+          JSON.stringify({
+            definitions: [
+              {
+                key: 'dcql',
+                label: 'DCQL',
+                queryLanguage: 'dcql',
+                dcqlQuery: { credentials: [] },
+              },
+            ],
+          })
+        )
+      ).toThrow('Invalid presentation definition configuration');
+    });
+
+    it('should reject duplicate keys', () => {
+      const entry = {
+        key: 'photoID',
+        label: 'Photo ID',
+        presentationDefinition: { input_descriptors: [photoIDDescriptor] },
+      };
+
+      expect(() =>
+        PresentationDefinitionRegistry.parse(
+          JSON.stringify({ definitions: [entry, entry] })
+        )
+      ).toThrow('Duplicate presentation definition key: photoID');
+    });
+  });
+
+  describe('generatePresentationDefinition', () => {
+    it('should keep a configured id', () => {
+      const registry = PresentationDefinitionRegistry.parse(yamlSource);
+      const definition = registry.generatePresentationDefinition('photoID')();
+
+      expect(definition.id).toBe('photo-id');
+      expect(definition.input_descriptors).toEqual([photoIDDescriptor]);
+    });
+
+    it('should generate a fresh id when none is configured', () => {
+      const registry = new PresentationDefinitionRegistry(
+        DEFAULT_PRESENTATION_DEFINITION_ENTRIES
+      );
+      const generate = registry.generatePresentationDefinition('unifiedID');
+
+      expect(generate().id).not.toBe(generate().id);
+    });
+
+    it('should return a placeholder definition for DCQL entries', () => {
+      const registry = PresentationDefinitionRegistry.parse(yamlSource);
+      const definition =
+        registry.generatePresentationDefinition('photoIDDcql')();
+
+      expect(definition.input_descriptors).toEqual([]);
+    });
+
+    it('should throw a not found error for unknown keys', () => {
+      const registry = new PresentationDefinitionRegistry([]);
+
+      expect(() => registry.generatePresentationDefinition('unknown')).toThrow(
+        'Not found'
+      );
+    });
+
+    it('should request only the selected claims', () => {
+      const registry = new PresentationDefinitionRegistry(
+        DEFAULT_PRESENTATION_DEFINITION_ENTRIES
+      );
+
+      const [descriptor] = registry.generatePresentationDefinition('pidSdJwt', [
+        'birth_date',
+        'age_over_18',
+      ])().input_descriptors;
+
+      expect(descriptor.constraints.fields?.map(({ path }) => path)).toEqual([
+        ['$.vct'],
+        ['$.birthdate'],
+        ["$.age_equal_or_over['18']"],
+      ]);
+    });
+
+    it('should reject claims that are not selectable', () => {
+      const registry = new PresentationDefinitionRegistry(
+        DEFAULT_PRESENTATION_DEFINITION_ENTRIES
+      );
+
+      expect(() =>
+        registry.generatePresentationDefinition('pid', ['portrait'])
+      ).toThrow(
+        'Invalid claims: portrait selected for presentation definition "pid"'
+      );
+      expect(() => registry.generatePresentationDefinition('pid', [])).toThrow(
+        'Invalid claims: none selected'
+      );
+    });
+  });
+
+  describe('selectableClaims', () => {
+    it('should list the fields with an id, labelled with their name', () => {
+      const registry = new PresentationDefinitionRegistry(
+        DEFAULT_PRESENTATION_DEFINITION_ENTRIES
+      );
+
+      expect(registry.selectableClaims('pid')).toEqual([
+        { id: 'family_name', label: 'Family name' },
+        { id: 'given_name', label: 'Given name' },
+        { id: 'birth_date', label: 'Birth date' },
+        { id: 'nationality', label: 'Nationality' },
+        { id: 'age_over_18', label: 'Age over 18' },
+        { id: 'age_over_21', label: 'Age over 21' },
+        { id: 'issuing_country', label: 'Issuing country' },
+      ]);
+      expect(registry.selectableClaims('pidSdJwt')).toEqual(
+        registry.selectableClaims('pid')
+      );
+      expect(registry.selectableClaims('mDL')).toEqual([]);
+    });
+  });
+
+  describe('dcqlQuery', () => {
+    it('should return the DCQL query of DCQL entries only', () => {
+      const registry = PresentationDefinitionRegistry.parse(yamlSource);
+
+      expect(registry.dcqlQuery('photoID')).toBeUndefined();
+      expect(registry.dcqlQuery('photoIDDcql')?.credentials[0].id).toBe(
+        'photo_id'
+      );
+    });
+  });
+
+  describe('policy', () => {
+    it('should return the verification policy of an entry', () => {
+      const registry = PresentationDefinitionRegistry.parse(`
+definitions:
+  - key: photoID
+    label: Photo ID Verification
+    policy:
+      - { operator: notExpired, claim: expiry_date }
+      - { operator: in, claim: issuing_country, values: [JP, US] }
+    presentationDefinition:
+      input_descriptors:
+        - id: org.iso.23220.photoID.1
+`);
+
+      expect(registry.policy('photoID')).toEqual([
+        { operator: 'notExpired', claim: 'expiry_date' },
+        { operator: 'in', claim: 'issuing_country', values: ['JP', 'US'] },
+      ]);
+      expect(registry.policy('mDL')).toBeUndefined();
+    });
+
+    it('should reject unknown policy operators', () => {
+      expect(() =>
+        PresentationDefinitionRegistry.parse(`
+definitions:
+  - key: photoID
+    label: Photo ID Verification
+    policy:
+      - { operator: matches, claim: family_name }
+    presentationDefinition:
+      input_descriptors:
+        - id: org.iso.23220.photoID.1
+`)
+      ).toThrow('Invalid presentation definition configuration');
+    });
+  });
+
+  describe('vctValues', () => {
+    it('should collect the credential types of SD-JWT VC entries', () => {
+      const registry = new PresentationDefinitionRegistry([
+        ...DEFAULT_PRESENTATION_DEFINITION_ENTRIES,
+        {
+          key: 'pid',
+          label: 'PID',
+          queryLanguage: 'pex',
+          presentationDefinition: {
+            input_descriptors: [
+              sdJwtVcInputDescriptor({
+                id: 'pid',
+                vct: 'urn:eudi:pid:1',
+                claims: ['family_name'],
+              }) as unknown as Record<string, unknown>,
+            ],
+          },
+        },
+        {
+          key: 'pidDcql',
+          label: 'PID (DCQL)',
+          queryLanguage: 'dcql',
+          dcqlQuery: {
+            credentials: [
+              {
+                id: 'pid',
+                format: 'dc+sd-jwt',
+                meta: { vct_values: ['urn:eudi:pid:1', 'urn:eudi:pid:de:1'] },
+              },
+            ],
+          },
+        },
+      ]);
+
+      expect(registry.vctValues()).toEqual([
+        'urn:eudi:pid:1',
+        'urn:eudi:pid:de:1',
+      ]);
+      expect(registry.vctValues('pidDcql')).toEqual([
+        'urn:eudi:pid:1',
+        'urn:eudi:pid:de:1',
+      ]);
+      expect(registry.vctValues('mDL')).toEqual([]);
+    });
+  });
+
+  describe('loadPresentationDefinitionRegistry', () => {
+    it('should return the defaults when no source is configured', () => {
+      expect(loadPresentationDefinitionRegistry().keys()).toEqual([
+        'mDL',
+        'unifiedID',
+        'age',
+        'pid',
+        'pidSdJwt',
+      ]);
+      expect(loadPresentationDefinitionRegistry('  ').keys()).toEqual([
+        'mDL',
+        'unifiedID',
+        'age',
+        'pid',
+        'pidSdJwt',
+      ]);
+    });
+
+    it('should cache registries per source', () => {
+      expect(loadPresentationDefinitionRegistry(yamlSource)).toBe(
+        loadPresentationDefinitionRegistry(yamlSource)
+      );
+    });
+  });
+});
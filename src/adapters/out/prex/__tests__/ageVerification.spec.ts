@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ageVerificationDefinition,
+  ageVerificationPresentationDefinition,
+} from '../ageVerification';
+
+describe('Age Verification Presentation Definition', () => {
+  it('should request only age_over_18 by default', () => {
+    const descriptor = ageVerificationDefinition();
+
+    expect(descriptor.id).toBe('org.iso.18013.5.1.mDL');
+    expect(descriptor.format?.mso_mdoc).toBeDefined();
+    expect(descriptor.constraints.fields).toEqual([
+      {
+        path: ["$['org.iso.18013.5.1']['age_over_18']"],
+        intent_to_retain: false,
+      },
+    ]);
+  });
+
+  it('should request the age_over_NN element of the given age', () => {
+    const definition = ageVerificationPresentationDefinition(20)();
+
+    expect(definition.input_descriptors).toHaveLength(1);
+    expect(definition.input_descriptors[0].purpose).toBe(
+      'We need to verify that you are over 20'
+    );
+    expect(definition.input_descriptors[0].constraints.fields).toEqual([
+      {
+        path: ["$['org.iso.18013.5.1']['age_over_20']"],
+        intent_to_retain: false,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { msoMdocInputDescriptor } from '../msoMdoc';
+import { unifiedIDDefinition } from '../unifiedID';
+
+describe('msoMdocInputDescriptor', () => {
+  it('should request every element of the document type by default', () => {
+    expect(unifiedIDDefinition).toEqual({
+      id: 'com.dentsusoken.vecrea.UnifiedID',
+      name: 'Unified ID',
+      purpose: 'We need to verify your unified ID',
+      format: { mso_mdoc: { alg: ['ES256', 'ES384', 'ES512'] } },
+      constraints: {
+        fields: [
+          'type',
+          'service',
+          'user_id',
+          'unified_id',
+          'issue_date',
+          'expiry_date',
+        ].map((element) => ({
+          path: [`$['com.dentsusoken.vecrea']['${element}']`],
+          intent_to_retain: false,
+        })),
+      },
+    });
+  });
+
+  it('should request only the given elements', () => {
+    const descriptor = msoMdocInputDescriptor({
+      docType: 'org.iso.23220.photoID.1',
+      claims: {
+        'org.iso.23220.1': ['family_name'],
+        'org.iso.23220.photoID.1': ['person_id'],
+      },
+    });
+
+    expect(descriptor.constraints.fields).toEqual([
+      {
+        path: ["$['org.iso.23220.1']['family_name']"],
+        intent_to_retain: false,
+      },
+      {
+        path: ["$['org.iso.23220.photoID.1']['person_id']"],
+        intent_to_retain: false,
+      },
+    ]);
+  });
+
+  it('should reject elements the schema does not define', () => {
+    expect(() =>
+      msoMdocInputDescriptor({
+        docType: 'eu.europa.ec.eudi.pid.1',
+        claims: { 'eu.europa.ec.eudi.pid.1': ['favourite_colour'] },
+      })
+    ).toThrow(
+      'Invalid claim: favourite_colour is not defined in eu.europa.ec.eudi.pid.1'
+    );
+  });
+
+  it('should reject namespaces of another document type', () => {
+    expect(() =>
+      msoMdocInputDescriptor({
+        docType: 'eu.europa.ec.eudi.pid.1',
+        claims: { 'com.dentsusoken.vecrea': ['user_id'] },
+      })
+    ).toThrow(
+      'Invalid claim: namespace com.dentsusoken.vecrea is not registered for eu.europa.ec.eudi.pid.1'
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EU_PID_VCT,
+  pidMsoMdocDefinition,
+  pidPresentationDefinition,
+  pidSdJwtVcDefinition,
+} from '../pid';
+
+describe('EU PID Presentation Definitions', () => {
+  it('should request the PID attributes as mdoc data elements', () => {
+    const descriptor = pidMsoMdocDefinition(['family_name', 'age_over_18']);
+
+    expect(descriptor.id).toBe('eu.europa.ec.eudi.pid.1');
+    expect(descriptor.format?.mso_mdoc).toBeDefined();
+    expect(descriptor.constraints.fields).toEqual([
+      {
+        id: 'family_name',
+        name: 'Family name',
+        path: ["$['eu.europa.ec.eudi.pid.1']['family_name']"],
+        intent_to_retain: false,
+      },
+      {
+        id: 'age_over_18',
+        name: 'Age over 18',
+        path: ["$['eu.europa.ec.eudi.pid.1']['age_over_18']"],
+        intent_to_retain: false,
+      },
+    ]);
+  });
+
+  it('should request the PID attributes as SD-JWT VC claims', () => {
+    const descriptor = pidSdJwtVcDefinition(['nationality', 'issuing_country']);
+
+    expect(descriptor.format?.['dc+sd-jwt']).toBeDefined();
+    expect(descriptor.constraints.fields).toEqual([
+      { path: ['$.vct'], filter: { type: 'string', const: EU_PID_VCT } },
+      {
+        id: 'nationality',
+        name: 'Nationality',
+        path: ['$.nationalities'],
+        intent_to_retain: false,
+      },
+      {
+        id: 'issuing_country',
+        name: 'Issuing country',
+        path: ['$.issuing_country'],
+        intent_to_retain: false,
+      },
+    ]);
+  });
+
+  it('should request every attribute by default', () => {
+    const [descriptor] = pidPresentationDefinition().input_descriptors;
+
+    expect(descriptor.constraints.fields?.map(({ id }) => id)).toEqual([
+      'family_name',
+      'given_name',
+      'birth_date',
+      'nationality',
+      'age_over_18',
+      'age_over_21',
+      'issuing_country',
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { InputDescriptorJSON } from '@vecrea/oid4vc-prex';
+import { GeneratePresentationDefinition } from '@vecrea/oid4vc-verifier-frontend-core';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_AGE_THRESHOLD, ageOverElement } from '../mdoc/AgeOver';
+
+/**
+ * Registry key of the age verification entry, exposed as `/init/age`
+ *
+ * @public
+ */
+export const AGE_VERIFICATION_KEY = 'age';
+
+/**
+ * Creates an input descriptor requesting only the `age_over_NN` attestation
+ * of an mDL
+ *
+ * No other data element (name, portrait, document number) is requested,
+ * so the wallet discloses nothing but whether the holder is over the age.
+ *
+ * @param age - Age to attest; 18 when omitted
+ * @returns The input descriptor
+ *
+ * @public
+ */
+export const ageVerificationDefinition = (
+  age: number = DEFAULT_AGE_THRESHOLD
+): InputDescriptorJSON => ({
+  id: 'org.iso.18013.5.1.mDL',
+  name: 'Age Verification',
+  purpose: `We need to verify that you are over ${age}`,
+  format: {
+    mso_mdoc: {
+      alg: ['ES256', 'ES384', 'ES512'],
+    },
+  },
+  constraints: {
+    fields: [
+      {
+        path: [`$['org.iso.18013.5.1']['${ageOverElement(age)}']`],
+        intent_to_retain: false,
+      },
+    ],
+  },
+});
+
+/**
+ * Creates the presentation definition of an age verification
+ *
+ * @param age - Age to attest; 18 when omitted
+ * @returns Generator passed to the core InitTransaction service
+ *
+ * @public
+ */
+export const ageVerificationPresentationDefinition =
+  (age: number = DEFAULT_AGE_THRESHOLD): GeneratePresentationDefinition =>
+  () => ({
+    id: uuidv4(),
+    input_descriptors: [ageVerificationDefinition(age)],
+  });
@@ -1,7 +1,9 @@
-import { mDLPresentationDefinition } from './mDL';
-import { unifiedIDPresentationDefinition } from './unifiedID';
-
-export const PRESENTATION_DEFINITIONS = {
-  mDL: mDLPresentationDefinition,
-  unifiedID: unifiedIDPresentationDefinition,
-} as const;
+export * from './mDL';
+export * from './unifiedID';
+export * from './msoMdoc';
+export * from './pid';
+export * from './ageVerification';
+export * from './PresentationDefinitionRegistry';
+export * from './sdJwtVc';
+export * from './jwtVcJson';
+export * from './PresentationSubmission';
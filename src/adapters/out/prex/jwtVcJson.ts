@@ -0,0 +1,68 @@
+import { InputDescriptorJSON } from '@vecrea/oid4vc-prex';
+
+/**
+ * Parameters of {@link jwtVcJsonInputDescriptor}
+ *
+ * @public
+ */
+export interface JwtVcJsonInputDescriptorParams {
+  /** Input descriptor id */
+  id: string;
+  /** Credential type to request, e.g. `VerifiableId` */
+  type: string;
+  /** Name shown by the wallet */
+  name?: string;
+  /** Purpose shown by the wallet */
+  purpose?: string;
+  /** Claims to request, as JSON paths below `credentialSubject` (e.g. `address.locality`) */
+  claims: string[];
+}
+
+/**
+ * Creates an input descriptor requesting a W3C credential signed as JWT
+ * (`jwt_vc_json`) inside a presentation signed as JWT (`jwt_vp_json`)
+ *
+ * Paths are given both below the `vc` claim of the credential JWT and at the
+ * credential root, as wallets evaluate either.
+ *
+ * @example
+ * ```typescript
+ * const descriptor = jwtVcJsonInputDescriptor({
+ *   id: 'verifiable-id',
+ *   type: 'VerifiableId',
+ *   claims: ['familyName', 'firstName', 'dateOfBirth'],
+ * });
+ * ```
+ *
+ * @public
+ */
+export const jwtVcJsonInputDescriptor = ({
+  id,
+  type,
+  name,
+  purpose,
+  claims,
+}: JwtVcJsonInputDescriptorParams): InputDescriptorJSON => ({
+  id,
+  ...(name && { name }),
+  ...(purpose && { purpose }),
+  format: {
+    jwt_vc_json: { alg: ['ES256', 'ES384', 'EdDSA'] },
+    jwt_vp_json: { alg: ['ES256', 'ES384', 'EdDSA'] },
+  },
+  constraints: {
+    fields: [
+      {
+        path: ['$.vc.type', '$.type'],
+        filter: { type: 'array', contains: { const: type } },
+      },
+      ...claims.map((claim) => ({
+        path: [
+          `$.vc.credentialSubject.${claim}`,
+          `$.credentialSubject.${claim}`,
+        ],
+        intent_to_retain: false,
+      })),
+    ],
+  },
+});
@@ -0,0 +1,92 @@
+import { InputDescriptorJSON } from '@vecrea/oid4vc-prex';
+import {
+  NamespaceSchemaRegistry,
+  defaultNamespaceSchemaRegistry,
+} from '../mdoc/namespaces';
+
+/**
+ * Parameters of {@link msoMdocInputDescriptor}
+ *
+ * @public
+ */
+export interface MsoMdocInputDescriptorParams {
+  /** Document type to request; also the input descriptor id */
+  docType: string;
+  /** Name shown by the wallet */
+  name?: string;
+  /** Purpose shown by the wallet */
+  purpose?: string;
+  /** Data elements to request keyed by namespace; every element of the document type when omitted */
+  claims?: Record<string, string[]>;
+  /** Whether operators can leave elements out of a request; fields are then identified by element identifier */
+  selectable?: boolean;
+  /** Registry the namespaces are looked up in */
+  registry?: NamespaceSchemaRegistry;
+}
+
+/**
+ * Creates an input descriptor requesting an mdoc (`mso_mdoc`) whose
+ * namespaces are registered in a {@link NamespaceSchemaRegistry}
+ *
+ * @example
+ * ```typescript
+ * const descriptor = msoMdocInputDescriptor({
+ *   docType: 'eu.europa.ec.eudi.pid.1',
+ *   claims: { 'eu.europa.ec.eudi.pid.1': ['family_name', 'age_over_18'] },
+ * });
+ * ```
+ *
+ * @throws {Error} `Invalid claim ...` when an element is not defined by the schema of its namespace
+ *
+ * @public
+ */
+export const msoMdocInputDescriptor = ({
+  docType,
+  name,
+  purpose,
+  claims,
+  selectable = false,
+  registry = defaultNamespaceSchemaRegistry,
+}: MsoMdocInputDescriptorParams): InputDescriptorJSON => {
+  const requested =
+    claims ??
+    Object.fromEntries(
+      registry
+        .namespacesOf(docType)
+        .map(({ namespace }) => [namespace, registry.claimNames(namespace)])
+    );
+  const fields = Object.entries(requested).flatMap(([namespace, elements]) => {
+    const entry = registry.get(namespace);
+    if (entry?.docType !== docType) {
+      throw new Error(
+        `Invalid claim: namespace ${namespace} is not registered for ${docType}`
+      );
+    }
+    const known = registry.claimNames(namespace);
+    const labels = registry.documentLabels()[docType].claims;
+    return elements.map((element) => {
+      if (!known.includes(element)) {
+        throw new Error(
+          `Invalid claim: ${element} is not defined in ${namespace}`
+        );
+      }
+      return {
+        ...(selectable && { id: element, name: labels[element] ?? element }),
+        path: [`$['${namespace}']['${element}']`],
+        intent_to_retain: false,
+      };
+    });
+  });
+
+  return {
+    id: docType,
+    ...(name && { name }),
+    ...(purpose && { purpose }),
+    format: {
+      mso_mdoc: {
+        alg: ['ES256', 'ES384', 'ES512'],
+      },
+    },
+    constraints: { fields },
+  };
+};
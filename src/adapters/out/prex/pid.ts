@@ -0,0 +1,99 @@
+import { InputDescriptorJSON } from '@vecrea/oid4vc-prex';
+import { GeneratePresentationDefinition } from '@vecrea/oid4vc-verifier-frontend-core';
+import { v4 as uuidv4 } from 'uuid';
+import { EU_PID_DOCTYPE, euPidSchema } from '../mdoc/namespaces';
+import { msoMdocInputDescriptor } from './msoMdoc';
+import { sdJwtVcInputDescriptor } from './sdJwtVc';
+
+/**
+ * Credential type (`vct`) of the EU PID issued as SD-JWT VC
+ *
+ * @public
+ */
+export const EU_PID_VCT = 'urn:eudi:pid:1';
+
+/**
+ * PID attributes an operator can request, with the claim each is
+ * disclosed as in the SD-JWT VC encoding of the PID rulebook
+ *
+ * The keys are the mdoc data elements and the field ids of both
+ * presentation definitions.
+ *
+ * @public
+ */
+export const PID_ATTRIBUTES = {
+  family_name: 'family_name',
+  given_name: 'given_name',
+  birth_date: 'birthdate',
+  nationality: 'nationalities',
+  age_over_18: "age_equal_or_over['18']",
+  age_over_21: "age_equal_or_over['21']",
+  issuing_country: 'issuing_country',
+} as const;
+
+/**
+ * Identifier of a PID attribute
+ *
+ * @public
+ */
+export type PidAttribute = keyof typeof PID_ATTRIBUTES;
+
+/**
+ * All PID attributes, in the order they are offered
+ * @private
+ */
+const ALL_PID_ATTRIBUTES = Object.keys(PID_ATTRIBUTES) as PidAttribute[];
+
+/**
+ * Creates the input descriptor of a PID issued as mdoc (`mso_mdoc`)
+ *
+ * @param attributes - Attributes to request; all of them when omitted
+ * @returns The input descriptor
+ *
+ * @public
+ */
+export const pidMsoMdocDefinition = (
+  attributes: PidAttribute[] = ALL_PID_ATTRIBUTES
+): InputDescriptorJSON =>
+  msoMdocInputDescriptor({
+    docType: EU_PID_DOCTYPE,
+    name: 'EU Person Identification Data',
+    purpose: 'We need to verify your identity',
+    claims: { [EU_PID_DOCTYPE]: attributes },
+    selectable: true,
+  });
+
+/**
+ * Creates the input descriptor of a PID issued as SD-JWT VC (`dc+sd-jwt`)
+ *
+ * @param attributes - Attributes to request; all of them when omitted
+ * @returns The input descriptor
+ *
+ * @public
+ */
+export const pidSdJwtVcDefinition = (
+  attributes: PidAttribute[] = ALL_PID_ATTRIBUTES
+): InputDescriptorJSON =>
+  sdJwtVcInputDescriptor({
+    id: 'eu.europa.ec.eudi.pid.1',
+    vct: EU_PID_VCT,
+    name: 'EU Person Identification Data',
+    purpose: 'We need to verify your identity',
+    claims: attributes.map((attribute) => ({
+      id: attribute,
+      name: euPidSchema.shape[attribute].description,
+      path: PID_ATTRIBUTES[attribute],
+    })),
+  });
+
+export const pidPresentationDefinition: GeneratePresentationDefinition =
+  () => ({
+    id: uuidv4(),
+    input_descriptors: [pidMsoMdocDefinition()],
+  });
+
+export const pidSdJwtVcPresentationDefinition: GeneratePresentationDefinition =
+  () => ({
+    id: uuidv4(),
+    input_descriptors: [pidSdJwtVcDefinition()],
+  });
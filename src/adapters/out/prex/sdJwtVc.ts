@@ -0,0 +1,86 @@
+import { InputDescriptorJSON } from '@vecrea/oid4vc-prex';
+
+/**
+ * Claim of {@link sdJwtVcInputDescriptor} an operator can leave out of a request
+ *
+ * @public
+ */
+export interface SdJwtVcClaim {
+  /** JSON path below the credential root */
+  path: string;
+  /** Field id requests select the claim with */
+  id: string;
+  /** Name of the claim shown when selecting it */
+  name?: string;
+}
+
+/**
+ * Parameters of {@link sdJwtVcInputDescriptor}
+ *
+ * @public
+ */
+export interface SdJwtVcInputDescriptorParams {
+  /** Input descriptor id */
+  id: string;
+  /** Credential type (`vct`) to request */
+  vct: string;
+  /** Name shown by the wallet */
+  name?: string;
+  /** Purpose shown by the wallet */
+  purpose?: string;
+  /** Claims to request, as JSON paths below the credential root (e.g. `address.locality`) */
+  claims: (string | SdJwtVcClaim)[];
+}
+
+/**
+ * Creates an input descriptor requesting an SD-JWT VC (`dc+sd-jwt`)
+ *
+ * The credential type is constrained with a `$.vct` field, which is also
+ * what the verifier accepts as `vct` of the returned presentation.
+ *
+ * @example
+ * ```typescript
+ * const descriptor = sdJwtVcInputDescriptor({
+ *   id: 'pid',
+ *   vct: 'urn:eudi:pid:1',
+ *   claims: ['family_name', 'given_name', 'address.locality'],
+ * });
+ * ```
+ *
+ * @public
+ */
+export const sdJwtVcInputDescriptor = ({
+  id,
+  vct,
+  name,
+  purpose,
+  claims,
+}: SdJwtVcInputDescriptorParams): InputDescriptorJSON => ({
+  id,
+  ...(name && { name }),
+  ...(purpose && { purpose }),
+  format: {
+    'dc+sd-jwt': {
+      'sd-jwt_alg_values': ['ES256', 'ES384', 'ES512'],
+      'kb-jwt_alg_values': ['ES256', 'ES384', 'ES512'],
+    },
+  },
+  constraints: {
+    fields: [
+      {
+        path: ['$.vct'],
+        filter: { type: 'string', const: vct },
+      },
+      ...claims.map((claim) =>
+        typeof claim === 'string'
+          ? { path: [`$.${claim}`], intent_to_retain: false }
+          : {
+              id: claim.id,
+              ...(claim.name && { name: claim.name }),
+              path: [`$.${claim.path}`],
+              intent_to_retain: false,
+            }
+      ),
+    ],
+  },
+});
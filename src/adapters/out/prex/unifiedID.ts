@@ -1,45 +1,14 @@
 import { InputDescriptorJSON } from '@vecrea/oid4vc-prex';
 import { GeneratePresentationDefinition } from '@vecrea/oid4vc-verifier-frontend-core';
 import { v4 as uuidv4 } from 'uuid';
+import { UNIFIED_ID_DOCTYPE } from '../mdoc/namespaces';
+import { msoMdocInputDescriptor } from './msoMdoc';
 
-export const unifiedIDDefinition: InputDescriptorJSON = {
-  id: 'com.dentsusoken.vecrea.UnifiedID',
+export const unifiedIDDefinition: InputDescriptorJSON = msoMdocInputDescriptor({
+  docType: UNIFIED_ID_DOCTYPE,
   name: 'Unified ID',
   purpose: 'We need to verify your unified ID',
-  format: {
-    mso_mdoc: {
-      alg: ['ES256', 'ES384', 'ES512'],
-    },
-  },
-  constraints: {
-    fields: [
-      {
-        path: ["$['com.dentsusoken.vecrea']['type']"],
-        intent_to_retain: false,
-      },
-      {
-        path: ["$['com.dentsusoken.vecrea']['service']"],
-        intent_to_retain: false,
-      },
-      {
-        path: ["$['com.dentsusoken.vecrea']['user_id']"],
-        intent_to_retain: false,
-      },
-      {
-        path: ["$['com.dentsusoken.vecrea']['unified_id']"],
-        intent_to_retain: false,
-      },
-      {
-        path: ["$['com.dentsusoken.vecrea']['issue_date']"],
-        intent_to_retain: false,
-      },
-      {
-        path: ["$['com.dentsusoken.vecrea']['expiry_date']"],
-        intent_to_retain: false,
-      },
-    ],
-  },
-};
+});
 
 export const unifiedIDPresentationDefinition: GeneratePresentationDefinition =
   () => ({
@@ -0,0 +1,329 @@
+import {
+  CRLDistributionPointsExtension,
+  X509Certificate,
+  X509Crl,
+} from '@peculiar/x509';
+import { Buffer } from 'node:buffer';
+import type { Fetcher } from '@vecrea/oid4vc-verifier-frontend-core';
+import { RevocationCache } from '../../../ports/out/revocation';
+import { RawContent, rawContentSchema } from '../http/RawContentFetcher';
+import {
+  STATUS_INVALID,
+  STATUS_SUSPENDED,
+  STATUS_VALID,
+  StatusReference,
+  parseStatusListToken,
+  readStatus,
+} from './StatusList';
+
+/**
+ * Default time revocation data is cached (1 hour)
+ * @private
+ */
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Result of a revocation check
+ *
+ * @public
+ */
+export interface RevocationStatus {
+  /** Whether the certificate or credential is revoked or suspended */
+  revoked: boolean;
+  /** Why it is revoked */
+  reason?: string;
+}
+
+/**
+ * Options of {@link RevocationChecker}
+ *
+ * @public
+ */
+export interface RevocationCheckerOptions {
+  /** Maximum time revocation data is cached (ms) */
+  cacheTtlMs?: number;
+  /** Current time, for tests */
+  now?: () => Date;
+}
+
+/**
+ * Cached revocation list of a CRL
+ * @private
+ */
+interface CachedCrl {
+  serialNumbers: string[];
+}
+
+/**
+ * Cached status list of a Status List Token
+ * @private
+ */
+interface CachedStatusList {
+  bits: number;
+  lst: string;
+}
+
+/**
+ * Reads the HTTP(S) CRL distribution points of a certificate
+ * @private
+ */
+const crlDistributionPoints = (certificate: X509Certificate) =>
+  (
+    certificate.getExtension(CRLDistributionPointsExtension)
+      ?.distributionPoints ?? []
+  )
+    .flatMap(({ distributionPoint }) => distributionPoint?.fullName ?? [])
+    .map(({ uniformResourceIdentifier }) => uniformResourceIdentifier)
+    .filter((url): url is string => !!url && /^https?:\/\//.test(url));
+
+/**
+ * Checks certificates against their CRLs and credentials against their
+ * IETF Token Status List
+ *
+ * - Revocation data is fetched through a {@link Fetcher} returning
+ *   {@link RawContent}, e.g. `RawContentFetcher`
+ * - CRLs and Status List Tokens are verified before use and cached until
+ *   their next update / expiration, at most `cacheTtlMs`; status lists are
+ *   cached per set of trusted roots they were verified under
+ * - Callers only check certificates and credentials of anchored issuers, as
+ *   the URIs to fetch are read from them
+ * - Failures to fetch or verify revocation data are thrown, so that the
+ *   presentation is not accepted when its status is unknown
+ *
+ * @example
+ * ```typescript
+ * const checker = new RevocationChecker(new RawContentFetcher(), cache);
+ * const { revoked } = await checker.checkCertificate(documentSigner, iaca);
+ * ```
+ *
+ * @public
+ */
+export class RevocationChecker {
+  readonly #fetcher: Fetcher;
+  readonly #cache: RevocationCache;
+  readonly #cacheTtlMs: number;
+  readonly #now: () => Date;
+
+  /**
+   * @param fetcher - Fetcher of revocation data
+   * @param cache - Cache of verified revocation data
+   * @param options - Cache options
+   */
+  constructor(
+    fetcher: Fetcher,
+    cache: RevocationCache,
+    {
+      cacheTtlMs = DEFAULT_CACHE_TTL_MS,
+      now = () => new Date(),
+    }: RevocationCheckerOptions = {}
+  ) {
+    if (!fetcher) {
+      throw new TypeError('fetcher is required');
+    }
+    if (!cache) {
+      throw new TypeError('cache is required');
+    }
+    this.#fetcher = fetcher;
+    this.#cache = cache;
+    this.#cacheTtlMs = cacheTtlMs;
+    this.#now = now;
+  }
+
+  /**
+   * Checks a certificate against the CRL of its distribution points
+   *
+   * @param certificate - Certificate to check
+   * @param issuer - Issuer of the certificate, which signs the CRL
+   * @returns Revocation status; not revoked when the certificate has no distribution point
+   * @throws {Error} `Revocation check failed ...` when no CRL could be fetched and verified
+   */
+  async checkCertificate(
+    certificate: X509Certificate,
+    issuer: X509Certificate
+  ): Promise<RevocationStatus> {
+    const urls = crlDistributionPoints(certificate);
+    if (urls.length === 0) {
+      return { revoked: false };
+    }
+
+    const errors: string[] = [];
+    for (const url of urls) {
+      try {
+        const { serialNumbers } = await this.#loadCrl(url, issuer);
+        return serialNumbers.includes(certificate.serialNumber)
+          ? {
+              revoked: true,
+              reason: `Certificate is revoked: ${certificate.subject}`,
+            }
+          : { revoked: false };
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    throw new Error(`Revocation check failed: ${errors.join('; ')}`);
+  }
+
+  /**
+   * Checks the status of a credential in its status list
+   *
+   * @param reference - Status list reference of the credential
+   * @param roots - Trusted roots of the status issuer
+   * @returns Revocation status; revoked unless the status is valid
+   * @throws {Error} `Revocation check failed ...` when the status list could not be fetched and verified
+   */
+  async checkStatus(
+    reference: StatusReference,
+    roots: string[]
+  ): Promise<RevocationStatus> {
+    let status: number;
+    try {
+      const { bits, lst } = await this.#loadStatusList(reference.uri, roots);
+      status = await readStatus(
+        bits,
+        new Uint8Array(Buffer.from(lst, 'base64url')),
+        reference.idx
+      );
+    } catch (error) {
+      throw new Error(
+        `Revocation check failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    switch (status) {
+      case STATUS_VALID:
+        return { revoked: false };
+      case STATUS_INVALID:
+        return { revoked: true, reason: 'Credential is revoked' };
+      case STATUS_SUSPENDED:
+        return { revoked: true, reason: 'Credential is suspended' };
+      default:
+        return { revoked: true, reason: `Credential status is ${status}` };
+    }
+  }
+
+  /**
+   * Loads the revoked serial numbers of a CRL, from the cache when possible
+   * @private
+   */
+  async #loadCrl(url: string, issuer: X509Certificate): Promise<CachedCrl> {
+    const issuerThumbprint = Buffer.from(await issuer.getThumbprint()).toString(
+      'hex'
+    );
+    const key = `crl:${issuerThumbprint}:${url}`;
+    const cached = await this.#cache.get(key);
+    if (cached) {
+      return JSON.parse(cached) as CachedCrl;
+    }
+
+    const { body } = await this.#fetch(url, 'application/pkix-crl');
+    let crl: X509Crl;
+    try {
+      crl = new X509Crl(new Uint8Array(Buffer.from(body, 'base64')));
+    } catch {
+      throw new Error(`Invalid CRL: ${url}`);
+    }
+    if (
+      crl.issuer !== issuer.subject ||
+      !(await crl.verify({ publicKey: issuer }))
+    ) {
+      throw new Error(`CRL is not signed by ${issuer.subject}: ${url}`);
+    }
+    const now = this.#now();
+    if (crl.nextUpdate && crl.nextUpdate < now) {
+      throw new Error(`CRL is outdated: ${url}`);
+    }
+
+    const value: CachedCrl = {
+      serialNumbers: crl.entries.map(({ serialNumber }) => serialNumber),
+    };
+    await this.#cache.put(
+      key,
+      JSON.stringify(value),
+      this.#expiresAt(crl.nextUpdate)
+    );
+    return value;
+  }
+
+  /**
+   * Loads a status list, from the cache when possible
+   * @private
+   */
+  async #loadStatusList(
+    uri: string,
+    roots: string[]
+  ): Promise<CachedStatusList> {
+    // A list verified under some roots must not be served to a check
+    // trusting other roots
+    const rootsDigest = Buffer.from(
+      await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode([...roots].sort().join('\n'))
+      )
+    ).toString('hex');
+    const key = `status:${rootsDigest}:${uri}`;
+    const cached = await this.#cache.get(key);
+    if (cached) {
+      return JSON.parse(cached) as CachedStatusList;
+    }
+
+    const { contentType, body } = await this.#fetch(
+      uri,
+      'application/statuslist+jwt, application/statuslist+cwt'
+    );
+    const bytes = Buffer.from(body, 'base64');
+    const now = this.#now();
+    const isJwt =
+      contentType.includes('jwt') ||
+      bytes.subarray(0, 3).toString('latin1') === 'eyJ';
+    const token = await parseStatusListToken(
+      isJwt ? bytes.toString('utf8') : new Uint8Array(bytes),
+      roots,
+      now
+    );
+    if (token.subject !== uri) {
+      throw new Error(`Status list token is not published at ${uri}`);
+    }
+
+    const value: CachedStatusList = {
+      bits: token.bits,
+      lst: Buffer.from(token.lst).toString('base64url'),
+    };
+    const ttlExpiry =
+      token.ttl !== undefined
+        ? new Date(now.getTime() + token.ttl * 1000)
+        : undefined;
+    await this.#cache.put(
+      key,
+      JSON.stringify(value),
+      this.#expiresAt(token.expiresAt, ttlExpiry)
+    );
+    return value;
+  }
+
+  /**
+   * Fetches revocation data
+   * @private
+   */
+  async #fetch(url: string, accept: string): Promise<RawContent> {
+    const { data } = await this.#fetcher.get(url, '', {}, rawContentSchema, {
+      headers: { Accept: accept },
+    });
+    return data;
+  }
+
+  /**
+   * Earliest of the given times and the maximum cache time
+   * @private
+   */
+  #expiresAt(...times: (Date | undefined)[]) {
+    const limit = this.#now().getTime() + this.#cacheTtlMs;
+    return new Date(
+      Math.min(
+        limit,
+        ...times.flatMap((time) => (time ? [time.getTime()] : []))
+      )
+    );
+  }
+}
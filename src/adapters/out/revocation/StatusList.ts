@@ -0,0 +1,273 @@
+import { X509Certificate } from '@peculiar/x509';
+import { Buffer } from 'node:buffer';
+import { decodeProtectedHeader, importX509, jwtVerify } from 'jose';
+import { z } from 'zod';
+import { mdocCbor } from '../mdoc/MdocCbor';
+import { validateCertificateChain, verifyCoseX5ChainSignature } from '../trust';
+
+/**
+ * Status of a valid credential
+ *
+ * @public
+ */
+export const STATUS_VALID = 0;
+
+/**
+ * Status of a revoked credential
+ *
+ * @public
+ */
+export const STATUS_INVALID = 1;
+
+/**
+ * Status of a suspended credential
+ *
+ * @public
+ */
+export const STATUS_SUSPENDED = 2;
+
+/**
+ * CWT claim keys of a Status List Token
+ * @private
+ */
+const CWT_SUB = 2;
+const CWT_EXP = 4;
+const CWT_IAT = 6;
+const CWT_TTL = 65534;
+const CWT_STATUS_LIST = 65533;
+
+/**
+ * COSE header label of the content type (`typ`)
+ * @private
+ */
+const COSE_TYP = 16;
+
+/**
+ * Reference to an entry of a status list (`status.status_list` of the MSO)
+ *
+ * @public
+ */
+export interface StatusReference {
+  /** Index of the entry */
+  idx: number;
+  /** URI of the Status List Token */
+  uri: string;
+}
+
+/**
+ * Verified Status List Token (IETF Token Status List)
+ *
+ * @public
+ */
+export interface StatusListToken {
+  /** URI the token was published at (`sub`) */
+  subject: string;
+  /** Expiration time (`exp`) */
+  expiresAt?: Date;
+  /** Maximum time the token may be cached, in seconds (`ttl`) */
+  ttl?: number;
+  /** Bits per entry */
+  bits: number;
+  /** Compressed (zlib) list of entries */
+  lst: Uint8Array;
+}
+
+/**
+ * Schema of the status list of a JWT Status List Token
+ * @private
+ */
+const jwtStatusListSchema = z.object({
+  sub: z.string(),
+  exp: z.number().optional(),
+  ttl: z.number().optional(),
+  status_list: z.object({
+    bits: z.union([z.literal(1), z.literal(2), z.literal(4), z.literal(8)]),
+    lst: z.string(),
+  }),
+});
+
+/**
+ * Reads the status list reference of an MSO `status` field
+ *
+ * @param status - Decoded `status` of the MobileSecurityObject
+ * @returns The reference, or `undefined` when the MSO has no status list
+ *
+ * @public
+ */
+export const readStatusReference = (
+  status: unknown
+): StatusReference | undefined => {
+  const statusList =
+    status instanceof Map ? status.get('status_list') : undefined;
+  if (!(statusList instanceof Map)) {
+    return undefined;
+  }
+  const idx = statusList.get('idx');
+  const uri = statusList.get('uri');
+  if (!Number.isInteger(idx) || idx < 0 || typeof uri !== 'string') {
+    throw new Error('Invalid MSO: malformed status_list');
+  }
+  return { idx, uri };
+};
+
+/**
+ * Verifies a JWT Status List Token signed with the key of its `x5c` header
+ * @private
+ */
+const parseJwtToken = async (
+  token: string,
+  roots: string[],
+  date: Date
+): Promise<StatusListToken> => {
+  const { x5c, alg } = decodeProtectedHeader(token);
+  if (!x5c || x5c.length === 0 || !alg) {
+    throw new Error('Invalid status list token: missing x5c');
+  }
+  const { trusted, reason } = await validateCertificateChain(
+    x5c.map((certificate) => new X509Certificate(certificate)),
+    roots,
+    date
+  );
+  if (!trusted) {
+    throw new Error(
+      `Invalid status list token: signer is not trusted (${reason})`
+    );
+  }
+
+  const key = await importX509(new X509Certificate(x5c[0]).toString(), alg);
+  const { payload } = await jwtVerify(token, key, {
+    typ: 'statuslist+jwt',
+    currentDate: date,
+  }).catch((error: Error) => {
+    throw new Error(`Invalid status list token: ${error.message}`);
+  });
+  const claims = jwtStatusListSchema.safeParse(payload);
+  if (!claims.success) {
+    throw new Error('Invalid status list token: malformed status_list');
+  }
+
+  const { sub, exp, ttl, status_list } = claims.data;
+  return {
+    subject: sub,
+    ...(exp !== undefined && { expiresAt: new Date(exp * 1000) }),
+    ...(ttl !== undefined && { ttl }),
+    bits: status_list.bits,
+    lst: new Uint8Array(Buffer.from(status_list.lst, 'base64url')),
+  };
+};
+
+/**
+ * Verifies a CWT Status List Token signed with the key of its `x5chain` header
+ * @private
+ */
+const parseCwtToken = async (
+  token: Uint8Array,
+  roots: string[],
+  date: Date
+): Promise<StatusListToken> => {
+  let decoded: unknown;
+  try {
+    decoded = mdocCbor.decode(token);
+  } catch {
+    throw new Error('Invalid status list token: not CBOR');
+  }
+  const { protectedHeader, payload } = await verifyCoseX5ChainSignature(
+    decoded,
+    roots,
+    date,
+    'status list token'
+  );
+  if (protectedHeader.get(COSE_TYP) !== 'application/statuslist+cwt') {
+    throw new Error('Invalid status list token: unexpected type');
+  }
+
+  const claims = mdocCbor.decode(payload);
+  const statusList =
+    claims instanceof Map ? claims.get(CWT_STATUS_LIST) : undefined;
+  if (
+    !(claims instanceof Map) ||
+    typeof claims.get(CWT_SUB) !== 'string' ||
+    !(statusList instanceof Map) ||
+    ![1, 2, 4, 8].includes(statusList.get('bits')) ||
+    !(statusList.get('lst') instanceof Uint8Array)
+  ) {
+    throw new Error('Invalid status list token: malformed status_list');
+  }
+  const exp = claims.get(CWT_EXP);
+  if (typeof exp === 'number' && exp * 1000 <= date.getTime()) {
+    throw new Error('Invalid status list token: expired');
+  }
+  if (typeof claims.get(CWT_IAT) !== 'number') {
+    throw new Error('Invalid status list token: missing iat');
+  }
+  const ttl = claims.get(CWT_TTL);
+
+  return {
+    subject: claims.get(CWT_SUB),
+    ...(typeof exp === 'number' && { expiresAt: new Date(exp * 1000) }),
+    ...(typeof ttl === 'number' && { ttl }),
+    bits: statusList.get('bits'),
+    lst: new Uint8Array(statusList.get('lst')),
+  };
+};
+
+/**
+ * Verifies a Status List Token in JWT or CWT format
+ *
+ * The token must be signed by the certificate in its `x5c` (JWT) or
+ * `x5chain` (CWT) header, and that chain must be issued by one of `roots`.
+ * Expired tokens are rejected.
+ *
+ * @param token - Compact JWT, or encoded CWT
+ * @param roots - Trusted roots of the status issuer
+ * @param date - Validation time
+ * @returns The verified token
+ * @throws {Error} `Invalid status list token ...` when the token cannot be verified
+ *
+ * @public
+ */
+export const parseStatusListToken = (
+  token: string | Uint8Array,
+  roots: string[],
+  date: Date = new Date()
+): Promise<StatusListToken> =>
+  typeof token === 'string'
+    ? parseJwtToken(token, roots, date)
+    : parseCwtToken(token, roots, date);
+
+/**
+ * Reads the status of an entry of a compressed status list
+ *
+ * @param bits - Bits per entry
+ * @param lst - Compressed (zlib) list of entries
+ * @param idx - Index of the entry
+ * @returns Status of the entry, e.g. {@link STATUS_VALID}
+ * @throws {Error} When the list cannot be decompressed or the index is out of range
+ *
+ * @public
+ */
+export const readStatus = async (
+  bits: number,
+  lst: Uint8Array,
+  idx: number
+): Promise<number> => {
+  let list: Uint8Array;
+  try {
+    list = new Uint8Array(
+      await new Response(
+        new Blob([new Uint8Array(lst)])
+          .stream()
+          .pipeThrough(new DecompressionStream('deflate'))
+      ).arrayBuffer()
+    );
+  } catch {
+    throw new Error('Invalid status list: not zlib compressed');
+  }
+
+  const position = idx * bits;
+  const byte = list[Math.floor(position / 8)];
+  if (byte === undefined) {
+    throw new Error(`Invalid status list: index ${idx} is out of range`);
+  }
+  return (byte >> position % 8) & ((1 << bits) - 1);
+};
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+/**
+ * Key prefix of the revocation data stored in the session storage
+ *
+ * @public
+ */
+export const REVOCATION_CACHE_PREFIX = 'revocation:';
+
+/**
+ * Schema of a stored cache entry
+ * @private
+ */
+const storedRevocationSchema = z.object({
+  value: z.string(),
+  expiresAt: z.number(),
+});
+
+/**
+ * Wraps a value with its expiration time for storage
+ *
+ * @param value - Cached value
+ * @param expiresAt - Expiration time
+ * @returns Stored JSON value
+ *
+ * @public
+ */
+export const encodeStoredRevocation = (value: string, expiresAt: Date) =>
+  JSON.stringify({ value, expiresAt: expiresAt.getTime() });
+
+/**
+ * Reads a stored cache entry
+ *
+ * Storage backends only remove expired entries eventually, so the
+ * expiration time is checked again here. Unreadable entries are treated as
+ * missing.
+ *
+ * @param stored - Stored JSON value
+ * @param now - Current time
+ * @returns The cached value, or `undefined` when missing or expired
+ *
+ * @public
+ */
+export const decodeStoredRevocation = (
+  stored: string | null | undefined,
+  now: Date = new Date()
+): string | undefined => {
+  if (!stored) {
+    return undefined;
+  }
+  let document: unknown;
+  try {
+    document = JSON.parse(stored);
+  } catch {
+    return undefined;
+  }
+  const result = storedRevocationSchema.safeParse(document);
+  return result.success && result.data.expiresAt > now.getTime()
+    ? result.data.value
+    : undefined;
+};
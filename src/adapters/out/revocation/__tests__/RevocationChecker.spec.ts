@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, Mock } from 'vitest';
+import { X509CrlGenerator } from '@peculiar/x509';
+import { Buffer } from 'node:buffer';
+import type { Fetcher } from '@vecrea/oid4vc-verifier-frontend-core';
+import { RevocationChecker } from '../RevocationChecker';
+import { RevocationCache } from '../../../../ports/out/revocation';
+import { issueCertificates } from '../../trust/__tests__/certificates';
+import { jwtStatusListToken } from './statusListToken';
+
+const crlUrl = 'https://iaca.example.com/crl';
+const uri = 'https://status.example.com/lists/1';
+
+const createCache = (): RevocationCache & { entries: Map<string, string> } => {
+  const entries = new Map<string, string>();
+  return {
+    entries,
+    get: async (key) => entries.get(key),
+    put: async (key, value) => {
+      entries.set(key, value);
+    },
+  };
+};
+
+const createFetcher = (contentType: string, body: Uint8Array | string) => {
+  const get: Fetcher['get'] = async (_baseUrl, _path, _query, schema) => ({
+    data: schema.parse({
+      contentType,
+      body: Buffer.from(body).toString('base64'),
+    }),
+    metadata: { status: 200, statusText: 'OK', headers: {}, url: '', ok: true },
+  });
+  return {
+    // The mock type drops the type parameter of get
+    get: vi.fn(get) as Mock<Fetcher['get']> & Fetcher['get'],
+    post: vi.fn(),
+  };
+};
+
+const setup = async (revoked: boolean) => {
+  const now = new Date();
+  const certificates = await issueCertificates(
+    'Example IACA',
+    new Date(now.getTime() - 24 * 60 * 60 * 1000),
+    crlUrl
+  );
+  const crl = await X509CrlGenerator.create({
+    issuer: certificates.root.subject,
+    thisUpdate: now,
+    nextUpdate: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+    signingAlgorithm: { name: 'ECDSA', hash: 'SHA-256' },
+    signingKey: certificates.rootKey,
+    entries: revoked
+      ? [
+          {
+            serialNumber: certificates.documentSigner.serialNumber,
+            revocationDate: now,
+          },
+        ]
+      : [],
+  });
+  return {
+    ...certificates,
+    fetcher: createFetcher('application/pkix-crl', new Uint8Array(crl.rawData)),
+  };
+};
+
+describe('RevocationChecker.checkCertificate', () => {
+  it('should report certificates listed in the CRL', async () => {
+    const { root, documentSigner, fetcher } = await setup(true);
+    const checker = new RevocationChecker(fetcher, createCache());
+
+    const status = await checker.checkCertificate(documentSigner, root);
+
+    expect(status.revoked).toBe(true);
+    expect(fetcher.get).toHaveBeenCalledWith(
+      crlUrl,
+      '',
+      {},
+      expect.anything(),
+      { headers: { Accept: 'application/pkix-crl' } }
+    );
+  });
+
+  it('should accept certificates missing from the CRL', async () => {
+    const { root, documentSigner, fetcher } = await setup(false);
+    const checker = new RevocationChecker(fetcher, createCache());
+
+    expect(await checker.checkCertificate(documentSigner, root)).toEqual({
+      revoked: false,
+    });
+  });
+
+  it('should not check certificates without distribution points', async () => {
+    const { root, fetcher } = await setup(false);
+    const checker = new RevocationChecker(fetcher, createCache());
+
+    expect(await checker.checkCertificate(root, root)).toEqual({
+      revoked: false,
+    });
+    expect(fetcher.get).not.toHaveBeenCalled();
+  });
+
+  it('should reuse cached CRLs', async () => {
+    const { root, documentSigner, fetcher } = await setup(true);
+    const checker = new RevocationChecker(fetcher, createCache());
+
+    await checker.checkCertificate(documentSigner, root);
+    const status = await checker.checkCertificate(documentSigner, root);
+
+    expect(status.revoked).toBe(true);
+    expect(fetcher.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject CRLs of another issuer', async () => {
+    const { documentSigner, fetcher } = await setup(false);
+    const { root: otherRoot } = await issueCertificates('Other IACA');
+    const checker = new RevocationChecker(fetcher, createCache());
+
+    await expect(
+      checker.checkCertificate(documentSigner, otherRoot)
+    ).rejects.toThrow('Revocation check failed');
+  });
+});
+
+describe('RevocationChecker.checkStatus', () => {
+  const setupStatus = async (statuses: number[]) => {
+    const { root, documentSigner, signingKey } = await issueCertificates(
+      'Example Status Issuer',
+      new Date(Date.now() - 24 * 60 * 60 * 1000)
+    );
+    const token = await jwtStatusListToken(
+      { certificate: documentSigner, signingKey },
+      uri,
+      statuses,
+      { bits: 2 }
+    );
+    return {
+      roots: [root.toString('pem')],
+      fetcher: createFetcher('application/statuslist+jwt', token),
+    };
+  };
+
+  it('should accept valid credentials', async () => {
+    const { roots, fetcher } = await setupStatus([0, 1, 2]);
+    const checker = new RevocationChecker(fetcher, createCache());
+
+    expect(await checker.checkStatus({ idx: 0, uri }, roots)).toEqual({
+      revoked: false,
+    });
+  });
+
+  it('should report revoked and suspended credentials', async () => {
+    const { roots, fetcher } = await setupStatus([0, 1, 2]);
+    const checker = new RevocationChecker(fetcher, createCache());
+
+    expect(await checker.checkStatus({ idx: 1, uri }, roots)).toEqual({
+      revoked: true,
+      reason: 'Credential is revoked',
+    });
+    expect(await checker.checkStatus({ idx: 2, uri }, roots)).toEqual({
+      revoked: true,
+      reason: 'Credential is suspended',
+    });
+    expect(fetcher.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not reuse a status list verified under other roots', async () => {
+    const { roots, fetcher } = await setupStatus([0]);
+    const { root: otherRoot } = await issueCertificates('Other IACA');
+    const checker = new RevocationChecker(fetcher, createCache());
+    await checker.checkStatus({ idx: 0, uri }, roots);
+
+    await expect(
+      checker.checkStatus({ idx: 0, uri }, [otherRoot.toString('pem')])
+    ).rejects.toThrow('signer is not trusted');
+    expect(fetcher.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject tokens published at another URI', async () => {
+    const { roots, fetcher } = await setupStatus([0]);
+    const checker = new RevocationChecker(fetcher, createCache());
+
+    await expect(
+      checker.checkStatus({ idx: 0, uri: `${uri}/other` }, roots)
+    ).rejects.toThrow('Revocation check failed');
+  });
+});
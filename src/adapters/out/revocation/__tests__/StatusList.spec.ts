@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  STATUS_INVALID,
+  STATUS_SUSPENDED,
+  STATUS_VALID,
+  parseStatusListToken,
+  readStatus,
+  readStatusReference,
+} from '../StatusList';
+import { issueCertificates } from '../../trust/__tests__/certificates';
+import {
+  compressStatuses,
+  cwtStatusListToken,
+  jwtStatusListToken,
+} from './statusListToken';
+
+const uri = 'https://status.example.com/lists/1';
+
+const setup = async () => {
+  const { root, documentSigner, signingKey } = await issueCertificates(
+    'Example Status Issuer',
+    new Date(Date.now() - 24 * 60 * 60 * 1000)
+  );
+  return { root, signer: { certificate: documentSigner, signingKey } };
+};
+
+describe('readStatus', () => {
+  it('should read the entries of a compressed list', async () => {
+    const lst = await compressStatuses([0, 1, 0, 1, 1, 0, 0, 0, 1]);
+
+    expect(await readStatus(1, lst, 0)).toBe(STATUS_VALID);
+    expect(await readStatus(1, lst, 1)).toBe(STATUS_INVALID);
+    expect(await readStatus(1, lst, 8)).toBe(STATUS_INVALID);
+  });
+
+  it('should read multi-bit entries', async () => {
+    const lst = await compressStatuses([0, 2, 1, 3], 2);
+
+    expect(await readStatus(2, lst, 1)).toBe(STATUS_SUSPENDED);
+    expect(await readStatus(2, lst, 3)).toBe(3);
+  });
+
+  it('should reject indexes out of range', async () => {
+    const lst = await compressStatuses([0]);
+
+    await expect(readStatus(1, lst, 8)).rejects.toThrow('out of range');
+  });
+});
+
+describe('readStatusReference', () => {
+  it('should read the status_list of an MSO status', () => {
+    const status = new Map([
+      [
+        'status_list',
+        new Map<string, unknown>([
+          ['idx', 3],
+          ['uri', uri],
+        ]),
+      ],
+    ]);
+
+    expect(readStatusReference(status)).toEqual({ idx: 3, uri });
+    expect(readStatusReference(undefined)).toBeUndefined();
+  });
+
+  it('should reject malformed references', () => {
+    const status = new Map([['status_list', new Map([['idx', -1]])]]);
+
+    expect(() => readStatusReference(status)).toThrow('Invalid MSO');
+  });
+});
+
+describe('parseStatusListToken', () => {
+  it('should verify a JWT token', async () => {
+    const { root, signer } = await setup();
+    const token = await jwtStatusListToken(signer, uri, [0, 1]);
+
+    const parsed = await parseStatusListToken(token, [root.toString('pem')]);
+
+    expect(parsed.subject).toBe(uri);
+    expect(parsed.bits).toBe(1);
+    expect(await readStatus(parsed.bits, parsed.lst, 1)).toBe(STATUS_INVALID);
+  });
+
+  it('should verify a CWT token', async () => {
+    const { root, signer } = await setup();
+    const token = await cwtStatusListToken(signer, uri, [0, 2, 0], 2);
+
+    const parsed = await parseStatusListToken(token, [root.toString('pem')]);
+
+    expect(parsed.subject).toBe(uri);
+    expect(await readStatus(parsed.bits, parsed.lst, 1)).toBe(STATUS_SUSPENDED);
+  });
+
+  it('should reject expired tokens', async () => {
+    const { root, signer } = await setup();
+    const token = await jwtStatusListToken(signer, uri, [0], {
+      exp: Math.floor(Date.now() / 1000) - 60,
+    });
+
+    await expect(
+      parseStatusListToken(token, [root.toString('pem')])
+    ).rejects.toThrow('Invalid status list token');
+  });
+
+  it('should reject tokens of untrusted signers', async () => {
+    const { signer } = await setup();
+    const { root: otherRoot } = await issueCertificates('Other IACA');
+    const token = await cwtStatusListToken(signer, uri, [0]);
+
+    await expect(
+      parseStatusListToken(token, [otherRoot.toString('pem')])
+    ).rejects.toThrow('Invalid status list token');
+  });
+});
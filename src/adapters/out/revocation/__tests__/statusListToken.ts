@@ -0,0 +1,111 @@
+import { X509Certificate } from '@peculiar/x509';
+import { Tag } from 'cbor-x';
+import { Buffer } from 'node:buffer';
+import { SignJWT } from 'jose';
+import { mdocCbor } from '../../mdoc/MdocCbor';
+
+/**
+ * Packs statuses into a zlib compressed status list
+ */
+export const compressStatuses = async (
+  statuses: number[],
+  bits = 1
+): Promise<Uint8Array> => {
+  const list = new Uint8Array(Math.ceil((statuses.length * bits) / 8));
+  statuses.forEach((status, idx) => {
+    const position = idx * bits;
+    list[Math.floor(position / 8)] |= status << position % 8;
+  });
+  return new Uint8Array(
+    await new Response(
+      new Blob([list]).stream().pipeThrough(new CompressionStream('deflate'))
+    ).arrayBuffer()
+  );
+};
+
+/**
+ * Signer of Status List Tokens
+ */
+export interface StatusListSigner {
+  certificate: X509Certificate;
+  signingKey: CryptoKey;
+}
+
+/**
+ * Issues a JWT Status List Token published at `uri`
+ */
+export const jwtStatusListToken = async (
+  { certificate, signingKey }: StatusListSigner,
+  uri: string,
+  statuses: number[],
+  { bits = 1, exp }: { bits?: number; exp?: number } = {}
+): Promise<string> => {
+  const jwt = new SignJWT({
+    status_list: {
+      bits,
+      lst: Buffer.from(await compressStatuses(statuses, bits)).toString(
+        'base64url'
+      ),
+    },
+  })
+    .setProtectedHeader({
+      alg: 'ES256',
+      typ: 'statuslist+jwt',
+      x5c: [certificate.toString('base64')],
+    })
+    .setSubject(uri)
+    .setIssuedAt();
+  if (exp !== undefined) {
+    jwt.setExpirationTime(exp);
+  }
+  return jwt.sign(signingKey);
+};
+
+/**
+ * Issues a CWT Status List Token published at `uri`
+ */
+export const cwtStatusListToken = async (
+  { certificate, signingKey }: StatusListSigner,
+  uri: string,
+  statuses: number[],
+  bits = 1
+): Promise<Uint8Array> => {
+  const protectedHeader = mdocCbor.encode(
+    new Map<number, unknown>([
+      [1, -7],
+      [16, 'application/statuslist+cwt'],
+      [33, new Uint8Array(certificate.rawData)],
+    ])
+  );
+  const payload = mdocCbor.encode(
+    new Map<number, unknown>([
+      [2, uri],
+      [6, Math.floor(Date.now() / 1000)],
+      [
+        65533,
+        new Map<string, unknown>([
+          ['bits', bits],
+          ['lst', await compressStatuses(statuses, bits)],
+        ]),
+      ],
+    ])
+  );
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    signingKey,
+    new Uint8Array(
+      mdocCbor.encode([
+        'Signature1',
+        protectedHeader,
+        new Uint8Array(0),
+        payload,
+      ])
+    )
+  );
+  return mdocCbor.encode(
+    new Tag(
+      [protectedHeader, new Map(), payload, new Uint8Array(signature)],
+      18
+    )
+  );
+};
@@ -0,0 +1,45 @@
+import { DynamoDB } from '@vecrea/oid4vc-core';
+import { RevocationCache } from '../../../../ports/out/revocation';
+import {
+  REVOCATION_CACHE_PREFIX,
+  decodeStoredRevocation,
+  encodeStoredRevocation,
+} from '../StoredRevocation';
+
+/**
+ * Revocation cache implementation using DynamoDB
+ *
+ * - Stores values with `revocation:<key>` prefix, with their expiration time
+ * - Entries expire through the TTL of the session table
+ *
+ * @public
+ */
+export class RevocationCacheDynamoDB implements RevocationCache {
+  readonly #dynamoDB: DynamoDB;
+
+  /**
+   * @param dynamoDB - Wrapped DynamoDB client of the session table
+   */
+  constructor(dynamoDB: DynamoDB) {
+    this.#dynamoDB = dynamoDB;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return decodeStoredRevocation(
+      await this.#dynamoDB.get(REVOCATION_CACHE_PREFIX + key)
+    );
+  }
+
+  async put(key: string, value: string, expiresAt: Date): Promise<void> {
+    await this.#dynamoDB.put(
+      REVOCATION_CACHE_PREFIX + key,
+      encodeStoredRevocation(value, expiresAt),
+      {
+        expirationTtl: Math.max(
+          1,
+          Math.ceil((expiresAt.getTime() - Date.now()) / 1000)
+        ),
+      }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { DurableObjectBase } from '../../database/cloudflare';
+import { RevocationCache } from '../../../../ports/out/revocation';
+import {
+  REVOCATION_CACHE_PREFIX,
+  decodeStoredRevocation,
+  encodeStoredRevocation,
+} from '../StoredRevocation';
+
+/**
+ * Name of the Durable Object instance shared as revocation cache
+ *
+ * @public
+ */
+export const REVOCATION_CACHE_NAME = 'revocation';
+
+/**
+ * Revocation cache implementation using Cloudflare Durable Object
+ *
+ * - Stores values with `revocation:<key>` prefix, with their expiration time
+ * - Entries are also removed by the garbage collection of the session storage
+ *   once they expire
+ *
+ * @public
+ */
+export class RevocationCacheDurableObject implements RevocationCache {
+  readonly #stub: DurableObjectStub<DurableObjectBase>;
+
+  /**
+   * @param stub - Durable Object stub holding the cache
+   */
+  constructor(stub: DurableObjectStub<DurableObjectBase>) {
+    this.#stub = stub;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return decodeStoredRevocation(
+      await this.#stub.get(REVOCATION_CACHE_PREFIX + key)
+    );
+  }
+
+  async put(key: string, value: string, expiresAt: Date): Promise<void> {
+    await this.#stub.save(
+      REVOCATION_CACHE_PREFIX + key,
+      encodeStoredRevocation(value, expiresAt),
+      Math.max(1, Math.ceil((expiresAt.getTime() - Date.now()) / 1000))
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { RevocationCache } from '../../../../ports/out/revocation';
+import {
+  REVOCATION_CACHE_PREFIX,
+  decodeStoredRevocation,
+  encodeStoredRevocation,
+} from '../StoredRevocation';
+
+/**
+ * Shortest expiration time Cloudflare KV accepts, in seconds
+ * @private
+ */
+const MIN_KV_EXPIRATION_TTL = 60;
+
+/**
+ * Revocation cache implementation using Cloudflare KV
+ *
+ * - Stores values with `revocation:<key>` prefix, with their expiration time
+ * - Entries expire through the TTL of KV, which is at least a minute
+ *
+ * @public
+ */
+export class RevocationCacheKV implements RevocationCache {
+  readonly #kv: KVNamespace;
+
+  /**
+   * @param kv - KV namespace of the sessions
+   */
+  constructor(kv: KVNamespace) {
+    this.#kv = kv;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return decodeStoredRevocation(
+      await this.#kv.get(REVOCATION_CACHE_PREFIX + key)
+    );
+  }
+
+  async put(key: string, value: string, expiresAt: Date): Promise<void> {
+    await this.#kv.put(
+      REVOCATION_CACHE_PREFIX + key,
+      encodeStoredRevocation(value, expiresAt),
+      {
+        expirationTtl: Math.max(
+          MIN_KV_EXPIRATION_TTL,
+          Math.ceil((expiresAt.getTime() - Date.now()) / 1000)
+        ),
+      }
+    );
+  }
+}
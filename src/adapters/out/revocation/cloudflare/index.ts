@@ -0,0 +1,2 @@
+export * from './RevocationCacheDurableObject';
+export * from './RevocationCacheKV';
@@ -0,0 +1,3 @@
+export * from './RevocationChecker';
+export * from './StatusList';
+export * from './StoredRevocation';
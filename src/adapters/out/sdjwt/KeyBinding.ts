@@ -0,0 +1,107 @@
+import {
+  JWK,
+  decodeJwt,
+  decodeProtectedHeader,
+  importJWK,
+  jwtVerify,
+} from 'jose';
+import { parseSdJwt, sdHash } from './SdJwt';
+
+/**
+ * Maximum age of a Key Binding JWT (5 minutes)
+ * @private
+ */
+const DEFAULT_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * Request parameters a Key Binding JWT must be bound to
+ *
+ * @public
+ */
+export interface KeyBindingExpectations {
+  /** `nonce` of the request; not checked when omitted */
+  nonce?: string;
+  /** Client identifier the presentation is intended for (`aud`); not checked when omitted */
+  audience?: string;
+  /** When the presentation was received, e.g. to check a stored one again; the validation time when omitted */
+  presentedAt?: Date;
+}
+
+/**
+ * Options of {@link verifyKeyBinding}
+ *
+ * @public
+ */
+export interface VerifyKeyBindingOptions extends KeyBindingExpectations {
+  /** Validation time */
+  now?: Date;
+  /** Tolerated clock skew in milliseconds; none when omitted */
+  clockSkew?: number;
+  /** Maximum age of the Key Binding JWT, in seconds */
+  maxAgeSeconds?: number;
+}
+
+/**
+ * Verifies the Key Binding JWT of an SD-JWT presentation
+ *
+ * The Key Binding JWT (`typ` `kb+jwt`) must be signed with the holder key
+ * of the `cnf` claim of the issuer-signed JWT, cover the presented
+ * disclosures with its `sd_hash` and be recent, as of `presentedAt` when
+ * given. Its `nonce` and `aud` must match the request, when given.
+ *
+ * The issuer signature is not verified here, so this can run before the
+ * presentation is verified as a whole.
+ *
+ * @param presentation - SD-JWT in compact form
+ * @param options - Expected request parameters and validation time
+ * @throws {Error} `Invalid key binding ...` when the presentation is not bound to the holder key or the request
+ *
+ * @public
+ */
+export const verifyKeyBinding = async (
+  presentation: string,
+  {
+    nonce,
+    audience,
+    now = new Date(),
+    presentedAt = now,
+    clockSkew = 0,
+    maxAgeSeconds = DEFAULT_MAX_AGE_SECONDS,
+  }: VerifyKeyBindingOptions = {}
+): Promise<void> => {
+  const { issuerJwt, keyBindingJwt } = parseSdJwt(presentation);
+  if (!keyBindingJwt) {
+    throw new Error('Invalid key binding: missing Key Binding JWT');
+  }
+
+  const { cnf } = decodeJwt(issuerJwt) as { cnf?: { jwk?: JWK } };
+  if (!cnf?.jwk) {
+    throw new Error('Invalid key binding: missing cnf.jwk');
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    const { alg } = decodeProtectedHeader(keyBindingJwt);
+    const key = await importJWK(cnf.jwk, alg);
+    ({ payload } = await jwtVerify(keyBindingJwt, key, {
+      typ: 'kb+jwt',
+      currentDate: presentedAt,
+      clockTolerance: clockSkew / 1000,
+      maxTokenAge: maxAgeSeconds,
+      ...(audience !== undefined && { audience }),
+    }));
+  } catch (error) {
+    throw new Error(
+      `Invalid key binding: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (nonce !== undefined && payload.nonce !== nonce) {
+    throw new Error('Invalid key binding: nonce does not match the request');
+  }
+  if (payload.sd_hash !== (await sdHash(presentation))) {
+    throw new Error('Invalid key binding: sd_hash does not match');
+  }
+};
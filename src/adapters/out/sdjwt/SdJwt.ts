@@ -0,0 +1,216 @@
+import { Buffer } from 'node:buffer';
+
+/**
+ * Credential format identifier of SD-JWT VCs
+ *
+ * @public
+ */
+export const SD_JWT_VC_FORMAT = 'dc+sd-jwt';
+
+/**
+ * Key of the digests of the selectively disclosable claims of an object
+ * @private
+ */
+const SD_KEY = '_sd';
+
+/**
+ * Key of the digest of a selectively disclosable array element
+ * @private
+ */
+const ARRAY_ELEMENT_KEY = '...';
+
+/**
+ * SD-JWT split into its parts
+ *
+ * @public
+ */
+export interface SdJwt {
+  /** Issuer-signed JWT */
+  issuerJwt: string;
+  /** Disclosures, base64url encoded */
+  disclosures: string[];
+  /** Key Binding JWT, when the presentation has one */
+  keyBindingJwt?: string;
+}
+
+/**
+ * Tells whether a presentation is an SD-JWT (`<jwt>~<disclosure>~...~<kb-jwt>`)
+ *
+ * @param presentation - Presentation taken from a VP token
+ *
+ * @public
+ */
+export const isSdJwt = (presentation: string): boolean =>
+  /^[\w-]+\.[\w-]+\.[\w-]+~/.test(presentation);
+
+/**
+ * Splits an SD-JWT into the issuer-signed JWT, the disclosures and the
+ * Key Binding JWT
+ *
+ * @param presentation - SD-JWT in compact form
+ * @returns The parts of the SD-JWT
+ * @throws {Error} `Invalid SD-JWT ...` when the presentation is malformed
+ *
+ * @public
+ */
+export const parseSdJwt = (presentation: string): SdJwt => {
+  if (!isSdJwt(presentation)) {
+    throw new Error('Invalid SD-JWT: not an SD-JWT');
+  }
+  const [issuerJwt, ...rest] = presentation.split('~');
+  const keyBindingJwt = rest.pop();
+  if (rest.some((disclosure) => !/^[\w-]+$/.test(disclosure))) {
+    throw new Error('Invalid SD-JWT: malformed disclosure');
+  }
+  return {
+    issuerJwt,
+    disclosures: rest,
+    ...(keyBindingJwt && { keyBindingJwt }),
+  };
+};
+
+/**
+ * Hashes a string with SHA-256, base64url encoded
+ * @private
+ */
+const sha256 = async (value: string) =>
+  Buffer.from(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  ).toString('base64url');
+
+/**
+ * Computes the `sd_hash` a Key Binding JWT must carry: the SHA-256 digest
+ * of the issuer-signed JWT and the disclosures, including the final `~`
+ *
+ * @param presentation - SD-JWT in compact form
+ *
+ * @public
+ */
+export const sdHash = (presentation: string): Promise<string> =>
+  sha256(presentation.slice(0, presentation.lastIndexOf('~') + 1));
+
+/**
+ * Decodes a disclosure
+ * @private
+ */
+const decodeDisclosure = (disclosure: string): unknown[] => {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(disclosure, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid SD-JWT: disclosure is not JSON');
+  }
+  if (
+    !Array.isArray(decoded) ||
+    (decoded.length !== 2 && decoded.length !== 3) ||
+    typeof decoded[0] !== 'string'
+  ) {
+    throw new Error('Invalid SD-JWT: malformed disclosure');
+  }
+  return decoded;
+};
+
+/**
+ * Replaces the digests of an SD-JWT payload with the disclosed claims
+ *
+ * Digests without a disclosure (decoys, or claims not disclosed) are
+ * dropped. Every disclosure must be referenced exactly once.
+ *
+ * @param payload - Payload of the issuer-signed JWT
+ * @param disclosures - Disclosures of the presentation
+ * @returns The payload with the disclosed claims, without `_sd` and `_sd_alg`
+ * @throws {Error} `Invalid SD-JWT ...` when the disclosures do not match the payload
+ *
+ * @public
+ */
+export const disclose = async (
+  payload: Record<string, unknown>,
+  disclosures: string[]
+): Promise<Record<string, unknown>> => {
+  const sdAlg = payload._sd_alg ?? 'sha-256';
+  if (sdAlg !== 'sha-256') {
+    throw new Error(`Invalid SD-JWT: unsupported _sd_alg ${String(sdAlg)}`);
+  }
+
+  const byDigest = new Map<string, unknown[]>();
+  for (const disclosure of disclosures) {
+    const digest = await sha256(disclosure);
+    if (byDigest.has(digest)) {
+      throw new Error('Invalid SD-JWT: duplicate disclosure');
+    }
+    byDigest.set(digest, decodeDisclosure(disclosure));
+  }
+
+  const used = new Set<string>();
+  const take = (digest: unknown) => {
+    if (typeof digest !== 'string' || !byDigest.has(digest)) {
+      return undefined;
+    }
+    if (used.has(digest)) {
+      throw new Error('Invalid SD-JWT: disclosure referenced twice');
+    }
+    used.add(digest);
+    return byDigest.get(digest);
+  };
+
+  const process = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.flatMap((element) => {
+        const keys =
+          element && typeof element === 'object' && !Array.isArray(element)
+            ? Object.keys(element)
+            : [];
+        if (keys.length !== 1 || keys[0] !== ARRAY_ELEMENT_KEY) {
+          return [process(element)];
+        }
+        const disclosure = take(
+          (element as Record<string, unknown>)[ARRAY_ELEMENT_KEY]
+        );
+        if (!disclosure) {
+          return [];
+        }
+        if (disclosure.length !== 2) {
+          throw new Error('Invalid SD-JWT: expected an array element');
+        }
+        return [process(disclosure[1])];
+      });
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const { [SD_KEY]: digests, ...claims } = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const [name, claim] of Object.entries(claims)) {
+      result[name] = process(claim);
+    }
+    if (digests !== undefined && !Array.isArray(digests)) {
+      throw new Error('Invalid SD-JWT: _sd is not an array');
+    }
+    for (const digest of digests ?? []) {
+      const disclosure = take(digest);
+      if (!disclosure) {
+        continue;
+      }
+      const [, name, claim] = disclosure;
+      if (
+        disclosure.length !== 3 ||
+        typeof name !== 'string' ||
+        name === SD_KEY ||
+        name === ARRAY_ELEMENT_KEY ||
+        name in result
+      ) {
+        throw new Error('Invalid SD-JWT: expected an object property');
+      }
+      result[name] = process(claim);
+    }
+    return result;
+  };
+
+  const { _sd_alg, ...rest } = payload;
+  const disclosed = process(rest) as Record<string, unknown>;
+  if (used.size !== byDigest.size) {
+    throw new Error('Invalid SD-JWT: disclosure is not referenced');
+  }
+  return disclosed;
+};
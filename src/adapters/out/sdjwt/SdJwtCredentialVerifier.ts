@@ -0,0 +1,66 @@
+import {
+  CredentialVerification,
+  CredentialVerifier,
+} from '../../../ports/out/verifier';
+import { isSdJwt } from './SdJwt';
+import { SdJwtVcExpectations, SdJwtVcVerifier } from './SdJwtVcVerifier';
+
+/**
+ * {@link CredentialVerifier} of SD-JWT VC presentations (`dc+sd-jwt`)
+ *
+ * The disclosed claims are reported as a document keyed by `vct`. When the
+ * {@link SdJwtVcVerifier} anchors issuers to a trust store, the trust status
+ * of the issuer is reported in `issuers`.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new SdJwtCredentialVerifier(
+ *   new SdJwtVcVerifier({ trustStore }),
+ *   async () => ({ nonce, audience })
+ * );
+ * ```
+ *
+ * @public
+ */
+export class SdJwtCredentialVerifier implements CredentialVerifier {
+  readonly #verifier: SdJwtVcVerifier;
+
+  readonly #expectations: () => Promise<SdJwtVcExpectations>;
+
+  /**
+   * @param verifier - SD-JWT VC verifier
+   * @param expectations - Request parameters and credential types presentations are checked against; none when omitted
+   */
+  constructor(
+    verifier: SdJwtVcVerifier = new SdJwtVcVerifier(),
+    expectations: () => Promise<SdJwtVcExpectations> = async () => ({})
+  ) {
+    this.#verifier = verifier;
+    this.#expectations = expectations;
+  }
+
+  accepts(presentation: string): boolean {
+    return isSdJwt(presentation);
+  }
+
+  async verify(presentation: string): Promise<CredentialVerification> {
+    const { valid, vct, issuer, trusted, claims, error } =
+      await this.#verifier.verify(presentation, await this.#expectations());
+    return {
+      valid,
+      documents: valid && vct && claims ? [{ [vct]: claims }] : [],
+      ...(trusted !== undefined &&
+        vct &&
+        issuer && {
+          issuers: [
+            {
+              docType: vct,
+              issuingAuthority: issuer,
+              trusted,
+              ...(!trusted && error && { reason: error }),
+            },
+          ],
+        }),
+    };
+  }
+}
@@ -0,0 +1,362 @@
+import {
+  SubjectAlternativeNameExtension,
+  X509Certificate,
+} from '@peculiar/x509';
+import type { Fetcher } from '@vecrea/oid4vc-verifier-frontend-core';
+import {
+  JWTPayload,
+  KeyLike,
+  ProtectedHeaderParameters,
+  decodeJwt,
+  decodeProtectedHeader,
+  importJWK,
+  importX509,
+  jwtVerify,
+} from 'jose';
+import { z } from 'zod';
+import { TrustStore } from '../../../ports/out/trust';
+import { validateCertificateChain } from '../trust/CertificateChain';
+import { KeyBindingExpectations, verifyKeyBinding } from './KeyBinding';
+import { disclose, parseSdJwt } from './SdJwt';
+
+/**
+ * Media types of the issuer-signed JWT of an SD-JWT VC
+ *
+ * `vc+sd-jwt` is the name used by earlier drafts.
+ * @private
+ */
+const SD_JWT_VC_TYPES = ['dc+sd-jwt', 'vc+sd-jwt'];
+
+/**
+ * Claims describing the credential rather than the subject, left out of the
+ * disclosed claims
+ * @private
+ */
+const CREDENTIAL_CLAIMS = [
+  'iss',
+  'nbf',
+  'exp',
+  'iat',
+  'cnf',
+  'vct',
+  'vct#integrity',
+  'status',
+];
+
+/**
+ * Schema of a JWK Set
+ * @private
+ */
+const jwksSchema = z.object({
+  keys: z.array(
+    z.object({ kty: z.string(), kid: z.string().optional() }).passthrough()
+  ),
+});
+
+/**
+ * Schema of the JWT VC Issuer Metadata
+ * @private
+ */
+const issuerMetadataSchema = z.object({
+  issuer: z.string(),
+  jwks: jwksSchema.optional(),
+  jwks_uri: z.string().url().optional(),
+});
+
+/**
+ * Checks an SD-JWT VC presentation must pass besides its signatures
+ *
+ * @public
+ */
+export interface SdJwtVcExpectations extends KeyBindingExpectations {
+  /** Accepted credential types (`vct`); any type is accepted when omitted */
+  vctValues?: string[];
+}
+
+/**
+ * Options of {@link SdJwtVcVerifier}
+ *
+ * @public
+ */
+export interface SdJwtVcVerifierOptions {
+  /** Trusted roots per credential type; issuers are not anchored when omitted */
+  trustStore?: TrustStore;
+  /** Fetcher of JWT VC Issuer Metadata, for issuers signing without `x5c` */
+  fetcher?: Fetcher;
+  /** Current time */
+  now?: () => Date;
+  /** Tolerated clock skew in milliseconds; none when omitted */
+  clockSkew?: number;
+}
+
+/**
+ * Result of verifying an SD-JWT VC presentation
+ *
+ * @public
+ */
+export interface SdJwtVcVerifyResult {
+  /** Whether the presentation is valid */
+  valid: boolean;
+  /** Credential type */
+  vct?: string;
+  /** Issuer identifier (`iss`) */
+  issuer?: string;
+  /** Whether the issuer certificate chain ends at a trusted root; only with a trust store */
+  trusted?: boolean;
+  /** Claims of the credential subject, with the disclosed claims */
+  claims?: Record<string, unknown>;
+  /** Why the presentation is invalid */
+  error?: string;
+}
+
+/**
+ * URL of the JWT VC Issuer Metadata of an issuer
+ * @private
+ */
+const issuerMetadataUrl = (issuer: string) => {
+  const url = new URL(issuer);
+  const path = url.pathname === '/' ? '' : url.pathname.replace(/\/$/, '');
+  return `${url.origin}/.well-known/jwt-vc-issuer${path}`;
+};
+
+/**
+ * Whether a certificate names an issuer: by a URI subject alternative name
+ * equal to `iss` or, for an HTTPS `iss`, a DNS name equal to its host
+ * @private
+ */
+const namesIssuer = (certificate: X509Certificate, issuer: string) => {
+  const names =
+    certificate.getExtension(SubjectAlternativeNameExtension)?.names.items ??
+    [];
+  if (names.some(({ type, value }) => type === 'url' && value === issuer)) {
+    return true;
+  }
+  let url: URL;
+  try {
+    url = new URL(issuer);
+  } catch {
+    return false;
+  }
+  return (
+    url.protocol === 'https:' &&
+    names.some(
+      ({ type, value }) =>
+        type === 'dns' && value.toLowerCase() === url.hostname
+    )
+  );
+};
+
+/**
+ * Verifier of SD-JWT VC presentations (`dc+sd-jwt`)
+ *
+ * - The issuer-signed JWT must be signed with the key of its `x5c` header or,
+ *   without `x5c`, a key of the JWT VC Issuer Metadata of its `iss`
+ * - With `x5c`, `iss` must be a URI subject alternative name of the leaf
+ *   certificate or, for an HTTPS `iss`, have its host as a DNS name of it
+ * - With a trust store, the `x5c` chain must end at a root trusted for the
+ *   `vct`; issuers without `x5c` are not trusted
+ * - The disclosures must match the digests of the payload
+ * - The Key Binding JWT must be signed with the `cnf` key and, when
+ *   expected, be bound to the `nonce` and audience of the request
+ * - `vct` must be one of the expected types, when given
+ *
+ * @example
+ * ```typescript
+ * const verifier = new SdJwtVcVerifier({ trustStore });
+ * const { valid, vct, claims } = await verifier.verify(presentation, {
+ *   nonce,
+ *   audience: 'x509_san_dns:verifier.example.com',
+ * });
+ * ```
+ *
+ * @public
+ */
+export class SdJwtVcVerifier {
+  readonly #trustStore: TrustStore | undefined;
+  readonly #fetcher: Fetcher | undefined;
+  readonly #now: () => Date;
+  readonly #clockSkew: number;
+
+  /**
+   * @param options - Trust store, metadata fetcher and clock
+   */
+  constructor({
+    trustStore,
+    fetcher,
+    now = () => new Date(),
+    clockSkew = 0,
+  }: SdJwtVcVerifierOptions = {}) {
+    this.#trustStore = trustStore;
+    this.#fetcher = fetcher;
+    this.#now = now;
+    this.#clockSkew = clockSkew;
+  }
+
+  /**
+   * Verifies an SD-JWT VC presentation
+   *
+   * @param presentation - SD-JWT in compact form
+   * @param expectations - Request parameters and credential types to check
+   * @returns The verification result; `error` tells why an invalid presentation was rejected
+   */
+  async verify(
+    presentation: string,
+    { vctValues, ...keyBinding }: SdJwtVcExpectations = {}
+  ): Promise<SdJwtVcVerifyResult> {
+    let vct: string | undefined;
+    let issuer: string | undefined;
+    let trusted: boolean | undefined;
+    try {
+      const { issuerJwt, disclosures } = parseSdJwt(presentation);
+      ({ vct, iss: issuer } = decodeJwt(issuerJwt) as {
+        vct?: string;
+        iss?: string;
+      });
+      if (typeof vct !== 'string' || !vct) {
+        throw new Error('Invalid SD-JWT VC: missing vct');
+      }
+      if (typeof issuer !== 'string' || !issuer) {
+        throw new Error('Invalid SD-JWT VC: missing iss');
+      }
+      if (vctValues && !vctValues.includes(vct)) {
+        throw new Error(`Invalid SD-JWT VC: unexpected vct ${vct}`);
+      }
+
+      const header = decodeProtectedHeader(issuerJwt);
+      const trust = await this.#anchor(header.x5c, vct);
+      trusted = trust?.trusted;
+      if (trust && !trust.trusted) {
+        throw new Error(`Issuer is not trusted: ${trust.reason}`);
+      }
+      const key = await this.#issuerKey(header, issuer);
+      const payload = await this.#verifyIssuerJwt(issuerJwt, key);
+      await verifyKeyBinding(presentation, {
+        ...keyBinding,
+        now: this.#now(),
+        clockSkew: this.#clockSkew,
+      });
+
+      const disclosed = await disclose(payload, disclosures);
+      const claims = Object.fromEntries(
+        Object.entries(disclosed).filter(
+          ([name]) => !CREDENTIAL_CLAIMS.includes(name)
+        )
+      );
+      return {
+        valid: true,
+        vct,
+        issuer,
+        ...(trusted !== undefined && { trusted }),
+        claims,
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        ...(vct && { vct }),
+        ...(issuer && { issuer }),
+        ...(trusted !== undefined && { trusted }),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Verifies the signature, type and validity period of the issuer-signed JWT
+   * @private
+   */
+  async #verifyIssuerJwt(issuerJwt: string, key: KeyLike | Uint8Array) {
+    const { typ } = decodeProtectedHeader(issuerJwt);
+    if (!typ || !SD_JWT_VC_TYPES.includes(typ)) {
+      throw new Error(`Invalid SD-JWT VC: unexpected typ ${typ}`);
+    }
+    try {
+      const { payload } = await jwtVerify(issuerJwt, key, {
+        currentDate: this.#now(),
+        clockTolerance: this.#clockSkew / 1000,
+      });
+      return payload as JWTPayload & Record<string, unknown>;
+    } catch (error) {
+      throw new Error(
+        `Invalid SD-JWT VC: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Anchors the `x5c` chain of the issuer-signed JWT to the roots trusted for
+   * the credential type
+   * @private
+   */
+  async #anchor(x5c: string[] | undefined, vct: string) {
+    if (!this.#trustStore) {
+      return undefined;
+    }
+    if (!x5c || x5c.length === 0) {
+      return { trusted: false, reason: 'no x5c certificate chain' };
+    }
+    return validateCertificateChain(
+      x5c.map((certificate) => new X509Certificate(certificate)),
+      await this.#trustStore.roots(vct),
+      this.#now()
+    );
+  }
+
+  /**
+   * Resolves the issuer key, from the `x5c` header or the issuer metadata
+   * @private
+   */
+  async #issuerKey(
+    { alg, x5c, kid }: ProtectedHeaderParameters,
+    issuer: string
+  ) {
+    if (!alg || alg === 'none') {
+      throw new Error('Invalid SD-JWT VC: missing alg');
+    }
+    if (x5c && x5c.length > 0) {
+      const certificate = new X509Certificate(x5c[0]);
+      if (!namesIssuer(certificate, issuer)) {
+        throw new Error(
+          `Invalid SD-JWT VC: iss ${issuer} is not a name of the x5c certificate`
+        );
+      }
+      return importX509(certificate.toString(), alg);
+    }
+    return importJWK(await this.#metadataKey(issuer, kid), alg);
+  }
+
+  /**
+   * Finds the issuer key in the JWT VC Issuer Metadata
+   * @private
+   */
+  async #metadataKey(issuer: string, kid: string | undefined) {
+    if (!this.#fetcher) {
+      throw new Error('Invalid SD-JWT VC: missing x5c');
+    }
+    const { data: metadata } = await this.#fetcher.get(
+      issuerMetadataUrl(issuer),
+      '',
+      {},
+      issuerMetadataSchema
+    );
+    if (metadata.issuer !== issuer) {
+      throw new Error('Invalid issuer metadata: issuer does not match');
+    }
+    const { keys }: z.infer<typeof jwksSchema> =
+      metadata.jwks ??
+      (metadata.jwks_uri
+        ? (await this.#fetcher.get(metadata.jwks_uri, '', {}, jwksSchema)).data
+        : { keys: [] });
+    const key =
+      kid !== undefined
+        ? keys.find((candidate) => candidate.kid === kid)
+        : keys.length === 1
+        ? keys[0]
+        : undefined;
+    if (!key) {
+      throw new Error('Invalid issuer metadata: issuer key not found');
+    }
+    return key;
+  }
+}
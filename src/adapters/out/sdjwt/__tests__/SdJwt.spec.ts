@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { disclose, isSdJwt, parseSdJwt } from '../SdJwt';
+import { createDisclosure } from './sdJwtVc';
+
+describe('parseSdJwt', () => {
+  it('should split an SD-JWT into its parts', () => {
+    expect(parseSdJwt('a.b.c~d1~d2~k.b.j')).toEqual({
+      issuerJwt: 'a.b.c',
+      disclosures: ['d1', 'd2'],
+      keyBindingJwt: 'k.b.j',
+    });
+    expect(parseSdJwt('a.b.c~d1~')).toEqual({
+      issuerJwt: 'a.b.c',
+      disclosures: ['d1'],
+    });
+  });
+
+  it('should tell SD-JWTs from other presentations', () => {
+    expect(isSdJwt('a.b.c~')).toBe(true);
+    expect(isSdJwt('a.b.c')).toBe(false);
+    expect(isSdJwt('o2dkb2N1bWVudHM')).toBe(false);
+  });
+});
+
+describe('disclose', () => {
+  it('should replace digests with the disclosed claims', async () => {
+    const name = await createDisclosure('given_name', 'Taro');
+    const locality = await createDisclosure('locality', 'Tokyo');
+    const nationality = await createDisclosure('JP');
+
+    const claims = await disclose(
+      {
+        _sd_alg: 'sha-256',
+        _sd: [name.digest, 'decoy'],
+        address: { _sd: [locality.digest], country: 'JP' },
+        nationalities: [{ '...': nationality.digest }, { '...': 'decoy' }],
+      },
+      [name.encoded, locality.encoded, nationality.encoded]
+    );
+
+    expect(claims).toEqual({
+      given_name: 'Taro',
+      address: { country: 'JP', locality: 'Tokyo' },
+      nationalities: ['JP'],
+    });
+  });
+
+  it('should reject disclosures the payload does not reference', async () => {
+    const name = await createDisclosure('given_name', 'Taro');
+
+    await expect(disclose({ _sd: [] }, [name.encoded])).rejects.toThrow(
+      'Invalid SD-JWT: disclosure is not referenced'
+    );
+  });
+
+  it('should reject disclosures overriding plain claims', async () => {
+    const name = await createDisclosure('given_name', 'Taro');
+
+    await expect(
+      disclose({ given_name: 'Jiro', _sd: [name.digest] }, [name.encoded])
+    ).rejects.toThrow('Invalid SD-JWT');
+  });
+});
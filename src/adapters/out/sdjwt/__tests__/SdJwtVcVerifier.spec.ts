@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, Mock } from 'vitest';
+import { exportJWK, generateKeyPair } from 'jose';
+import type { Fetcher } from '@vecrea/oid4vc-verifier-frontend-core';
+import { SdJwtVcVerifier } from '../SdJwtVcVerifier';
+import { StaticTrustStore } from '../../trust';
+import { SubjectAlternativeNameExtension } from '@peculiar/x509';
+import {
+  issueCertificate,
+  issueCertificates,
+} from '../../trust/__tests__/certificates';
+import { issueSdJwtVc } from './sdJwtVc';
+
+const vct = 'urn:example:credential:1';
+const audience = 'x509_san_dns:verifier.example.com';
+
+const setup = async () => {
+  const { root, documentSigner, signingKey } = await issueCertificates(
+    'Example Issuer',
+    new Date(Date.now() - 24 * 60 * 60 * 1000)
+  );
+  const presentation = await issueSdJwtVc({
+    signer: { certificate: documentSigner, signingKey },
+    claims: { nationality: 'JP' },
+    disclosed: { given_name: 'Taro', birthdate: '2000-01-01' },
+    nonce: 'n-0S6_WzA2Mj',
+    audience,
+  });
+  return { root, presentation };
+};
+
+describe('SdJwtVcVerifier', () => {
+  it('should verify a presentation and return the disclosed claims', async () => {
+    const { presentation } = await setup();
+
+    const result = await new SdJwtVcVerifier().verify(presentation, {
+      nonce: 'n-0S6_WzA2Mj',
+      audience,
+      vctValues: [vct],
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      vct,
+      issuer: 'https://issuer.example.com',
+      claims: {
+        nationality: 'JP',
+        given_name: 'Taro',
+        birthdate: '2000-01-01',
+      },
+    });
+  });
+
+  it('should reject presentations bound to another request', async () => {
+    const { presentation } = await setup();
+    const verifier = new SdJwtVcVerifier();
+
+    const wrongNonce = await verifier.verify(presentation, { nonce: 'other' });
+    const wrongAudience = await verifier.verify(presentation, {
+      audience: 'x509_san_dns:other.example.com',
+    });
+
+    expect(wrongNonce.valid).toBe(false);
+    expect(wrongNonce.error).toContain('nonce');
+    expect(wrongAudience.valid).toBe(false);
+    expect(wrongAudience.error).toContain('Invalid key binding');
+  });
+
+  it('should reject unexpected credential types', async () => {
+    const { presentation } = await setup();
+
+    const result = await new SdJwtVcVerifier().verify(presentation, {
+      vctValues: ['urn:example:other:1'],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('unexpected vct');
+  });
+
+  it('should verify at the time of its clock, tolerating the clock skew', async () => {
+    const { presentation } = await setup();
+    const now = () => new Date(Date.now() - 60 * 1000);
+
+    const late = await new SdJwtVcVerifier({ now }).verify(presentation);
+    const tolerated = await new SdJwtVcVerifier({
+      now,
+      clockSkew: 2 * 60 * 1000,
+    }).verify(presentation);
+
+    expect(late.valid).toBe(false);
+    expect(tolerated.valid).toBe(true);
+  });
+
+  it('should check the Key Binding JWT as of when it was presented', async () => {
+    const { presentation } = await setup();
+    const presentedAt = new Date();
+    const verifier = new SdJwtVcVerifier({
+      now: () => new Date(presentedAt.getTime() + 10 * 60 * 1000),
+    });
+
+    const now = await verifier.verify(presentation);
+    const stored = await verifier.verify(presentation, { presentedAt });
+
+    expect(now.valid).toBe(false);
+    expect(now.error).toContain('Invalid key binding');
+    expect(stored.valid).toBe(true);
+  });
+
+  it('should reject presentations with removed disclosures', async () => {
+    const { presentation } = await setup();
+    const [issuerJwt, first, , ...rest] = presentation.split('~');
+
+    const result = await new SdJwtVcVerifier().verify(
+      [issuerJwt, first, ...rest].join('~')
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('sd_hash');
+  });
+
+  it('should anchor the x5c chain with a trust store', async () => {
+    const { root, presentation } = await setup();
+    const { root: otherRoot } = await issueCertificates('Other Issuer');
+
+    const trusted = await new SdJwtVcVerifier({
+      trustStore: new StaticTrustStore([{ certificate: root.toString('pem') }]),
+    }).verify(presentation);
+    const untrusted = await new SdJwtVcVerifier({
+      trustStore: new StaticTrustStore([
+        { certificate: otherRoot.toString('pem') },
+      ]),
+    }).verify(presentation);
+
+    expect(trusted).toMatchObject({ valid: true, trusted: true });
+    expect(untrusted).toMatchObject({ valid: false, trusted: false });
+  });
+
+  it('should reject an iss that the x5c certificate does not name', async () => {
+    const { root, documentSigner, signingKey } = await issueCertificates(
+      'Example Issuer',
+      new Date(Date.now() - 24 * 60 * 60 * 1000)
+    );
+    const presentation = await issueSdJwtVc({
+      signer: { certificate: documentSigner, signingKey },
+      iss: 'https://other.example.com',
+    });
+
+    const result = await new SdJwtVcVerifier({
+      trustStore: new StaticTrustStore([{ certificate: root.toString('pem') }]),
+    }).verify(presentation);
+
+    expect(result).toMatchObject({
+      valid: false,
+      issuer: 'https://other.example.com',
+      trusted: true,
+    });
+    expect(result.error).toContain(
+      'iss https://other.example.com is not a name of the x5c certificate'
+    );
+  });
+
+  it('should accept an iss named by a URI of the x5c certificate', async () => {
+    const { root, rootKey } = await issueCertificates(
+      'Example Issuer',
+      new Date(Date.now() - 24 * 60 * 60 * 1000)
+    );
+    const { certificate, key } = await issueCertificate(
+      'Example Issuer Signer',
+      root,
+      rootKey,
+      [
+        new SubjectAlternativeNameExtension([
+          { type: 'url', value: 'https://issuer.example.org/tenant' },
+        ]),
+      ]
+    );
+    const presentation = await issueSdJwtVc({
+      signer: { certificate, signingKey: key },
+      iss: 'https://issuer.example.org/tenant',
+    });
+
+    const result = await new SdJwtVcVerifier().verify(presentation);
+
+    expect(result).toMatchObject({
+      valid: true,
+      issuer: 'https://issuer.example.org/tenant',
+    });
+  });
+
+  it('should resolve issuer keys from the issuer metadata', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('ES256');
+    const presentation = await issueSdJwtVc({
+      signer: { signingKey: privateKey as CryptoKey, kid: 'key-1' },
+      iss: 'https://issuer.example.com/tenant',
+    });
+    const jwk = await exportJWK(publicKey);
+    const get: Fetcher['get'] = async (_baseUrl, _path, _query, schema) => ({
+      data: schema.parse({
+        issuer: 'https://issuer.example.com/tenant',
+        jwks: { keys: [{ ...jwk, kid: 'key-1' }] },
+      }),
+      metadata: {
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        url: '',
+        ok: true,
+      },
+    });
+    const fetcher = {
+      // The mock type drops the type parameter of get
+      get: vi.fn(get) as Mock<Fetcher['get']> & Fetcher['get'],
+      post: vi.fn(),
+    };
+
+    const result = await new SdJwtVcVerifier({ fetcher }).verify(presentation);
+
+    expect(result.valid).toBe(true);
+    expect(fetcher.get).toHaveBeenCalledWith(
+      'https://issuer.example.com/.well-known/jwt-vc-issuer/tenant',
+      '',
+      {},
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { X509Certificate } from '@peculiar/x509';
+import { Buffer } from 'node:buffer';
+import { SignJWT, exportJWK, generateKeyPair } from 'jose';
+import { sdHash } from '../SdJwt';
+
+/**
+ * Creates a disclosure and its digest
+ */
+export const createDisclosure = async (...disclosure: unknown[]) => {
+  const encoded = Buffer.from(
+    JSON.stringify([crypto.randomUUID(), ...disclosure])
+  ).toString('base64url');
+  const digest = Buffer.from(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(encoded))
+  ).toString('base64url');
+  return { encoded, digest };
+};
+
+/**
+ * Options of {@link issueSdJwtVc}
+ */
+export interface IssueSdJwtVcOptions {
+  /** Signer of the issuer-signed JWT, named in `x5c` when it has a certificate */
+  signer: {
+    certificate?: X509Certificate;
+    signingKey: CryptoKey;
+    kid?: string;
+  };
+  vct?: string;
+  iss?: string;
+  /** Claims that are always disclosed */
+  claims?: Record<string, unknown>;
+  /** Selectively disclosable claims, all presented */
+  disclosed?: Record<string, unknown>;
+  nonce?: string;
+  audience?: string;
+}
+
+/**
+ * Issues an SD-JWT VC and presents it with a Key Binding JWT
+ */
+export const issueSdJwtVc = async ({
+  signer,
+  vct = 'urn:example:credential:1',
+  iss = 'https://issuer.example.com',
+  claims = {},
+  disclosed = {},
+  nonce = 'nonce',
+  audience = 'x509_san_dns:verifier.example.com',
+}: IssueSdJwtVcOptions): Promise<string> => {
+  const holder = await generateKeyPair('ES256');
+  const disclosures = await Promise.all(
+    Object.entries(disclosed).map(([name, value]) =>
+      createDisclosure(name, value)
+    )
+  );
+
+  const issuerJwt = await new SignJWT({
+    vct,
+    ...claims,
+    _sd: disclosures.map(({ digest }) => digest),
+    _sd_alg: 'sha-256',
+    cnf: { jwk: await exportJWK(holder.publicKey) },
+  })
+    .setProtectedHeader({
+      alg: 'ES256',
+      typ: 'dc+sd-jwt',
+      ...(signer.certificate && {
+        x5c: [signer.certificate.toString('base64')],
+      }),
+      ...(signer.kid && { kid: signer.kid }),
+    })
+    .setIssuer(iss)
+    .setIssuedAt()
+    .sign(signer.signingKey);
+
+  const sdJwt = `${[
+    issuerJwt,
+    ...disclosures.map(({ encoded }) => encoded),
+  ].join('~')}~`;
+  const keyBindingJwt = await new SignJWT({
+    nonce,
+    sd_hash: await sdHash(sdJwt),
+  })
+    .setProtectedHeader({ alg: 'ES256', typ: 'kb+jwt' })
+    .setAudience(audience)
+    .setIssuedAt()
+    .sign(holder.privateKey);
+  return `${sdJwt}${keyBindingJwt}`;
+};
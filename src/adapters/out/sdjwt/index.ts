@@ -0,0 +1,4 @@
+export * from './SdJwt';
+export * from './KeyBinding';
+export * from './SdJwtVcVerifier';
+export * from './SdJwtCredentialVerifier';
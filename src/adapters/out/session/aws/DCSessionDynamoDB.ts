@@ -1,4 +1,4 @@
-import { DynamoDB } from '@vecrea/oid4vc-core';
+import { ConsumableDynamoDB } from '../../database/aws';
 import { DigitalCredentialsSession } from '../../../../ports/out/session';
 
 /**
@@ -13,7 +13,7 @@ import { DigitalCredentialsSession } from '../../../../ports/out/session';
 const DC_SESSION_PREFIX = 'dc:';
 
 export class DCSessionDynamoDB implements DigitalCredentialsSession {
-  readonly #dynamoDB: DynamoDB;
+  readonly #dynamoDB: ConsumableDynamoDB;
   readonly #sessionId: string;
   readonly #ttl: number;
 
@@ -22,7 +22,7 @@ export class DCSessionDynamoDB implements DigitalCredentialsSession {
    * @param sessionId - Session ID
    * @param ttl - Expiration time (seconds)
    */
-  constructor(dynamoDB: DynamoDB, sessionId: string, ttl: number) {
+  constructor(dynamoDB: ConsumableDynamoDB, sessionId: string, ttl: number) {
     this.#dynamoDB = dynamoDB;
     this.#sessionId = sessionId;
     this.#ttl = ttl;
@@ -43,4 +43,11 @@ export class DCSessionDynamoDB implements DigitalCredentialsSession {
   async get(): Promise<string | null | undefined> {
     return await this.#dynamoDB.get(DC_SESSION_PREFIX + this.#sessionId);
   }
+
+  /**
+   * Get value and delete it in a single request
+   */
+  async consume(): Promise<string | null | undefined> {
+    return await this.#dynamoDB.take(DC_SESSION_PREFIX + this.#sessionId);
+  }
 }
@@ -0,0 +1,51 @@
+import { TransactionHandleStore } from '../../../../ports/out/session';
+import { ConsumableDynamoDB } from '../../database/aws';
+
+/**
+ * Transaction handle store implementation using DynamoDB
+ *
+ * - Stores the session id with `transaction:<handle>` as key
+ * - Uses TTL for expiration management
+ * - Resolving takes the item with a single `DeleteItem` request
+ *
+ * @since 1.0.0
+ */
+
+const TRANSACTION_HANDLE_PREFIX = 'transaction:';
+
+export class TransactionHandleDynamoDB implements TransactionHandleStore {
+  readonly #dynamoDB: ConsumableDynamoDB;
+  readonly #ttl: number;
+
+  /**
+   * @param dynamoDB - Wrapped DynamoDB client
+   * @param ttl - Expiration time (seconds)
+   */
+  constructor(dynamoDB: ConsumableDynamoDB, ttl: number) {
+    this.#dynamoDB = dynamoDB;
+    this.#ttl = ttl;
+  }
+
+  /**
+   * Bind handle to session (with TTL)
+   */
+  async bind(handle: string, sessionId: string): Promise<void> {
+    await this.#dynamoDB.put(TRANSACTION_HANDLE_PREFIX + handle, sessionId, {
+      expirationTtl: this.#ttl,
+    });
+  }
+
+  /**
+   * Get session of handle
+   */
+  async find(handle: string): Promise<string | null | undefined> {
+    return this.#dynamoDB.get(TRANSACTION_HANDLE_PREFIX + handle);
+  }
+
+  /**
+   * Get session of handle and delete it
+   */
+  async resolve(handle: string): Promise<string | null | undefined> {
+    return this.#dynamoDB.take(TRANSACTION_HANDLE_PREFIX + handle);
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DCSessionDynamoDB } from '../DCSessionDynamoDB';
+import { ConsumableDynamoDB } from '../../../database/aws';
+
+/**
+ * In-memory table answering the commands of the document client
+ *
+ * Every command yields once, so concurrent callers interleave the way
+ * separate requests to DynamoDB do.
+ */
+const createClient = () => {
+  const items = new Map<string, Record<string, unknown>>();
+  const send = vi.fn(async (command: unknown) => {
+    await Promise.resolve();
+    if (command instanceof PutCommand) {
+      const item = command.input.Item!;
+      items.set(item.key, item);
+      return {};
+    }
+    if (command instanceof GetCommand) {
+      return { Item: items.get(command.input.Key!.key) };
+    }
+    if (command instanceof DeleteCommand) {
+      const { key } = command.input.Key!;
+      const item = items.get(key);
+      items.delete(key);
+      return command.input.ReturnValues === 'ALL_OLD' && item
+        ? { Attributes: item }
+        : {};
+    }
+    throw new Error('Unexpected command');
+  });
+  return { items, send };
+};
+
+describe('DCSessionDynamoDB', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+  let client: ReturnType<typeof createClient>;
+  let dynamoDB: ConsumableDynamoDB;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    client = createClient();
+    dynamoDB = new ConsumableDynamoDB(
+      client as unknown as DynamoDBDocumentClient,
+      'table'
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep the state under dc:<sessionId> with the TTL', async () => {
+    await new DCSessionDynamoDB(dynamoDB, 'session-id', 600).save('state');
+
+    expect(client.items.get('dc:session-id')).toEqual({
+      key: 'dc:session-id',
+      value: 'state',
+      expiresAt: now / 1000 + 600,
+    });
+  });
+
+  it('should consume the state with a single delete', async () => {
+    const session = new DCSessionDynamoDB(dynamoDB, 'session-id', 600);
+    await session.save('state');
+    client.send.mockClear();
+
+    await expect(session.consume()).resolves.toBe('state');
+    await expect(session.get()).resolves.toBeNull();
+
+    const [[command]] = client.send.mock.calls;
+    expect(command).toBeInstanceOf(DeleteCommand);
+    expect((command as DeleteCommand).input).toEqual({
+      TableName: 'table',
+      Key: { key: 'dc:session-id' },
+      ReturnValues: 'ALL_OLD',
+    });
+  });
+
+  it('should hand the state to only one of concurrent consumers', async () => {
+    await new DCSessionDynamoDB(dynamoDB, 'session-id', 600).save('state');
+
+    const consumed = await Promise.all(
+      Array.from({ length: 3 }, () =>
+        new DCSessionDynamoDB(dynamoDB, 'session-id', 600).consume()
+      )
+    );
+
+    expect(consumed.filter((value) => value === 'state')).toHaveLength(1);
+    expect(consumed.filter((value) => value === null)).toHaveLength(2);
+  });
+
+  it('should not consume an expired state', async () => {
+    const session = new DCSessionDynamoDB(dynamoDB, 'session-id', 600);
+    await session.save('state');
+
+    vi.setSystemTime(now + 600_000);
+
+    await expect(session.consume()).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { TransactionHandleDynamoDB } from '../TransactionHandleDynamoDB';
+import { ConsumableDynamoDB } from '../../../database/aws';
+
+/**
+ * In-memory table answering the commands of the document client
+ *
+ * Every command yields once, so concurrent callers interleave the way
+ * separate requests to DynamoDB do.
+ */
+const createClient = () => {
+  const items = new Map<string, Record<string, unknown>>();
+  const send = vi.fn(async (command: unknown) => {
+    await Promise.resolve();
+    if (command instanceof PutCommand) {
+      const item = command.input.Item!;
+      items.set(item.key, item);
+      return {};
+    }
+    if (command instanceof GetCommand) {
+      return { Item: items.get(command.input.Key!.key) };
+    }
+    if (command instanceof DeleteCommand) {
+      const { key } = command.input.Key!;
+      const item = items.get(key);
+      items.delete(key);
+      return command.input.ReturnValues === 'ALL_OLD' && item
+        ? { Attributes: item }
+        : {};
+    }
+    throw new Error('Unexpected command');
+  });
+  return { items, send };
+};
+
+describe('TransactionHandleDynamoDB', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+  let client: ReturnType<typeof createClient>;
+  let handles: TransactionHandleDynamoDB;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    client = createClient();
+    handles = new TransactionHandleDynamoDB(
+      new ConsumableDynamoDB(
+        client as unknown as DynamoDBDocumentClient,
+        'table'
+      ),
+      600
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep the session id under transaction:<handle> with the TTL', async () => {
+    await handles.bind('handle', 'session-id');
+
+    expect(client.items.get('transaction:handle')).toEqual({
+      key: 'transaction:handle',
+      value: 'session-id',
+      expiresAt: now / 1000 + 600,
+    });
+  });
+
+  it('should find the session id without removing the binding', async () => {
+    await handles.bind('handle', 'session-id');
+
+    await expect(handles.find('handle')).resolves.toBe('session-id');
+    await expect(handles.find('handle')).resolves.toBe('session-id');
+  });
+
+  it('should resolve the handle with a single delete', async () => {
+    await handles.bind('handle', 'session-id');
+    client.send.mockClear();
+
+    await expect(handles.resolve('handle')).resolves.toBe('session-id');
+    await expect(handles.find('handle')).resolves.toBeNull();
+
+    const [[command]] = client.send.mock.calls;
+    expect(command).toBeInstanceOf(DeleteCommand);
+    expect((command as DeleteCommand).input.ReturnValues).toBe('ALL_OLD');
+  });
+
+  it('should resolve the handle for only one of concurrent requests', async () => {
+    await handles.bind('handle', 'session-id');
+
+    const resolved = await Promise.all(
+      Array.from({ length: 3 }, () => handles.resolve('handle'))
+    );
+
+    expect(resolved.filter((value) => value === 'session-id')).toHaveLength(1);
+    expect(resolved.filter((value) => value === null)).toHaveLength(2);
+  });
+});
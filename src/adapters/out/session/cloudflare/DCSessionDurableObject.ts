@@ -5,7 +5,7 @@ import { DigitalCredentialsSession } from '../../../../ports/out/session';
  * Digital Credentials session implementation using Cloudflare Durable Object
  *
  * - Stores values with `dc:<sessionId>` prefix
- * - Provides minimal API for `save`/`get`
+ * - Provides minimal API for `save`/`get`/`consume`
  *
  * @since 1.0.0
  */
@@ -15,21 +15,32 @@ const DC_SESSION_PREFIX = 'dc:';
 export class DCSessionDurableObject implements DigitalCredentialsSession {
   readonly #stub: DurableObjectStub<DurableObjectBase>;
   readonly #sessionId: string;
+  readonly #ttl: number;
 
   /**
    * @param stub - Durable Object stub
    * @param sessionId - Session ID
+   * @param ttl - Expiration time (seconds)
    */
-  constructor(stub: DurableObjectStub<DurableObjectBase>, sessionId: string) {
+  constructor(
+    stub: DurableObjectStub<DurableObjectBase>,
+    sessionId: string,
+    ttl: number
+  ) {
     this.#stub = stub;
     this.#sessionId = sessionId;
+    this.#ttl = ttl;
   }
 
   /**
-   * Save value
+   * Save value (with TTL)
    */
   async save(value: string): Promise<void> {
-    await this.#stub.save(DC_SESSION_PREFIX + this.#sessionId, value);
+    await this.#stub.save(
+      DC_SESSION_PREFIX + this.#sessionId,
+      value,
+      this.#ttl
+    );
   }
 
   /**
@@ -39,4 +50,12 @@ export class DCSessionDurableObject implements DigitalCredentialsSession {
   async get(): Promise<string | null | undefined> {
     return this.#stub.get(DC_SESSION_PREFIX + this.#sessionId);
   }
+
+  /**
+   * Get session value and remove it in a single Durable Object call
+   * @returns Stored value or null/undefined
+   */
+  async consume(): Promise<string | null | undefined> {
+    return this.#stub.take(DC_SESSION_PREFIX + this.#sessionId);
+  }
 }
@@ -0,0 +1,58 @@
+import { DigitalCredentialsSession } from '../../../../ports/out/session';
+
+/**
+ * Digital Credentials session implementation using Cloudflare KV
+ *
+ * - Stores values with `dc:<sessionId>` as key
+ * - Uses TTL for expiration management
+ * - `consume` reads and deletes in two calls, as KV offers no atomic take
+ *
+ * @since 1.0.0
+ */
+
+const DC_SESSION_PREFIX = 'dc:';
+
+export class DCSessionKV implements DigitalCredentialsSession {
+  readonly #kv: KVNamespace;
+  readonly #sessionId: string;
+  readonly #ttl: number;
+
+  /**
+   * @param kv - KV namespace
+   * @param sessionId - Session ID
+   * @param ttl - Expiration time (seconds, at least 60)
+   */
+  constructor(kv: KVNamespace, sessionId: string, ttl: number) {
+    this.#kv = kv;
+    this.#sessionId = sessionId;
+    this.#ttl = ttl;
+  }
+
+  /**
+   * Save value (with TTL)
+   */
+  async save(value: string): Promise<void> {
+    await this.#kv.put(DC_SESSION_PREFIX + this.#sessionId, value, {
+      expirationTtl: this.#ttl,
+    });
+  }
+
+  /**
+   * Get value
+   */
+  async get(): Promise<string | null | undefined> {
+    return await this.#kv.get(DC_SESSION_PREFIX + this.#sessionId);
+  }
+
+  /**
+   * Get value and delete it
+   */
+  async consume(): Promise<string | null | undefined> {
+    const key = DC_SESSION_PREFIX + this.#sessionId;
+    const value = await this.#kv.get(key);
+    if (value) {
+      await this.#kv.delete(key);
+    }
+    return value;
+  }
+}
@@ -9,12 +9,23 @@ import { DurableObjectBase } from '../../database/cloudflare';
 export class SessionDurableObject implements Session<SessionSchemas> {
   readonly #stub: DurableObjectStub<DurableObjectBase>;
   readonly #sessionId: string;
+  readonly #ttl: number;
 
   #loaded?: SessionSchemas;
 
-  constructor(stub: DurableObjectStub<DurableObjectBase>, sessionId: string) {
+  /**
+   * @param stub - Durable Object stub
+   * @param sessionId - Session ID
+   * @param ttl - Expiration time (seconds)
+   */
+  constructor(
+    stub: DurableObjectStub<DurableObjectBase>,
+    sessionId: string,
+    ttl: number
+  ) {
     this.#stub = stub;
     this.#sessionId = sessionId;
+    this.#ttl = ttl;
   }
 
   /**
@@ -162,7 +173,11 @@ export class SessionDurableObject implements Session<SessionSchemas> {
   }
 
   async save(): Promise<void> {
-    await this.#stub.save(this.#sessionId, JSON.stringify(this.#loaded));
+    await this.#stub.save(
+      this.#sessionId,
+      JSON.stringify(this.#loaded),
+      this.#ttl
+    );
   }
 
   async load(): Promise<void> {
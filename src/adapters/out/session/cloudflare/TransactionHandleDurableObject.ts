@@ -0,0 +1,65 @@
+import { DurableObjectBase } from '../../database/cloudflare';
+import { TransactionHandleStore } from '../../../../ports/out/session';
+
+/**
+ * Transaction handle store implementation using Cloudflare Durable Object
+ *
+ * - Stores the session id with `transaction:<handle>` as key, in the Durable
+ *   Object of that name
+ * - Resolving takes the value in a single Durable Object call
+ *
+ * @since 1.0.0
+ */
+
+const TRANSACTION_HANDLE_PREFIX = 'transaction:';
+
+export class TransactionHandleDurableObject implements TransactionHandleStore {
+  readonly #namespace: DurableObjectNamespace<DurableObjectBase>;
+  readonly #ttl: number;
+
+  /**
+   * @param namespace - Durable Object namespace
+   * @param ttl - Expiration time (seconds)
+   */
+  constructor(
+    namespace: DurableObjectNamespace<DurableObjectBase>,
+    ttl: number
+  ) {
+    this.#namespace = namespace;
+    this.#ttl = ttl;
+  }
+
+  /**
+   * Bind handle to session (with TTL)
+   */
+  async bind(handle: string, sessionId: string): Promise<void> {
+    const key = TRANSACTION_HANDLE_PREFIX + handle;
+    await this.#stub(key).save(key, sessionId, this.#ttl);
+  }
+
+  /**
+   * Get session of handle
+   * @returns Session id or undefined
+   */
+  async find(handle: string): Promise<string | null | undefined> {
+    const key = TRANSACTION_HANDLE_PREFIX + handle;
+    return this.#stub(key).get(key);
+  }
+
+  /**
+   * Get session of handle and remove it
+   * @returns Session id or null/undefined
+   */
+  async resolve(handle: string): Promise<string | null | undefined> {
+    const key = TRANSACTION_HANDLE_PREFIX + handle;
+    return this.#stub(key).take(key);
+  }
+
+  /**
+   * Durable Object of the key
+   * @private
+   */
+  #stub(key: string): DurableObjectStub<DurableObjectBase> {
+    return this.#namespace.get(this.#namespace.idFromName(key));
+  }
+}
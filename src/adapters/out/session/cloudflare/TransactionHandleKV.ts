@@ -0,0 +1,57 @@
+import { TransactionHandleStore } from '../../../../ports/out/session';
+
+/**
+ * Transaction handle store implementation using Cloudflare KV
+ *
+ * - Stores the session id with `transaction:<handle>` as key
+ * - Uses TTL for expiration management
+ * - `resolve` reads and deletes in two calls, as KV offers no atomic take
+ *
+ * @since 1.0.0
+ */
+
+const TRANSACTION_HANDLE_PREFIX = 'transaction:';
+
+export class TransactionHandleKV implements TransactionHandleStore {
+  readonly #kv: KVNamespace;
+  readonly #ttl: number;
+
+  /**
+   * @param kv - KV namespace
+   * @param ttl - Expiration time (seconds, at least 60)
+   */
+  constructor(kv: KVNamespace, ttl: number) {
+    this.#kv = kv;
+    this.#ttl = ttl;
+  }
+
+  /**
+   * Bind handle to session (with TTL)
+   */
+  async bind(handle: string, sessionId: string): Promise<void> {
+    await this.#kv.put(TRANSACTION_HANDLE_PREFIX + handle, sessionId, {
+      expirationTtl: this.#ttl,
+    });
+  }
+
+  /**
+   * Get session of handle
+   */
+  async find(handle: string): Promise<string | null | undefined> {
+    return this.#kv.get(TRANSACTION_HANDLE_PREFIX + handle);
+  }
+
+  /**
+   * Get session of handle and delete it
+   *
+   * Best effort: the value is read before it is deleted.
+   */
+  async resolve(handle: string): Promise<string | null | undefined> {
+    const key = TRANSACTION_HANDLE_PREFIX + handle;
+    const sessionId = await this.#kv.get(key);
+    if (sessionId) {
+      await this.#kv.delete(key);
+    }
+    return sessionId;
+  }
+}
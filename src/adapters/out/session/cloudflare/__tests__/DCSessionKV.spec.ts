@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import { DCSessionKV } from '../DCSessionKV';
+
+interface MockKVNamespace {
+  get: Mock;
+  put: Mock;
+  delete: Mock;
+}
+
+describe('DCSessionKV', () => {
+  let mockKv: MockKVNamespace;
+  let dcSession: DCSessionKV;
+
+  beforeEach(() => {
+    mockKv = {
+      get: vi.fn(),
+      put: vi.fn(),
+      delete: vi.fn(),
+    };
+    dcSession = new DCSessionKV(mockKv as any, 'test-session-id', 3600);
+  });
+
+  it('should save the value under the prefixed key with TTL', async () => {
+    await dcSession.save('state');
+
+    expect(mockKv.put).toHaveBeenCalledWith('dc:test-session-id', 'state', {
+      expirationTtl: 3600,
+    });
+  });
+
+  it('should get the value', async () => {
+    mockKv.get.mockResolvedValue('state');
+
+    await expect(dcSession.get()).resolves.toBe('state');
+    expect(mockKv.delete).not.toHaveBeenCalled();
+  });
+
+  it('should delete the value when consumed', async () => {
+    mockKv.get.mockResolvedValue('state');
+
+    await expect(dcSession.consume()).resolves.toBe('state');
+    expect(mockKv.delete).toHaveBeenCalledWith('dc:test-session-id');
+  });
+
+  it('should not delete a missing value', async () => {
+    mockKv.get.mockResolvedValue(null);
+
+    await expect(dcSession.consume()).resolves.toBeNull();
+    expect(mockKv.delete).not.toHaveBeenCalled();
+  });
+});
@@ -1,3 +1,6 @@
 export * from './SessionKV';
+export * from './DCSessionKV';
+export * from './TransactionHandleKV';
 export * from './SessionDurableObject';
 export * from './DCSessionDurableObject';
+export * from './TransactionHandleDurableObject';
@@ -0,0 +1,44 @@
+/**
+ * Query parameter carrying the transaction handle in the wallet response
+ * redirect
+ *
+ * @public
+ */
+export const TRANSACTION_HANDLE_PARAM = 'transaction';
+
+/**
+ * Number of random bytes of a transaction handle
+ * @private
+ */
+const TRANSACTION_HANDLE_BYTES = 32;
+
+/**
+ * Pattern of a transaction handle: 32 bytes, base64url encoded
+ * @private
+ */
+const TRANSACTION_HANDLE_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Generates a transaction handle
+ *
+ * The handle identifies the session of a same-device transaction in the
+ * wallet response redirect, so that the result can be retrieved when the
+ * redirect opens in a browser without the session cookie. It is unguessable
+ * and unrelated to the session id, which never leaves the cookie.
+ *
+ * @returns 256 random bits, base64url encoded
+ *
+ * @public
+ */
+export const generateTransactionHandle = (): string =>
+  Buffer.from(
+    crypto.getRandomValues(new Uint8Array(TRANSACTION_HANDLE_BYTES))
+  ).toString('base64url');
+
+/**
+ * Tells whether a value has the shape of a transaction handle
+ *
+ * @public
+ */
+export const isTransactionHandle = (value: unknown): value is string =>
+  typeof value === 'string' && TRANSACTION_HANDLE_PATTERN.test(value);
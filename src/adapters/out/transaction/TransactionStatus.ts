@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import { Fetcher } from '@vecrea/oid4vc-verifier-frontend-core';
+
+/**
+ * Time a transaction waits for the wallet when none is configured
+ *
+ * @public
+ */
+export const DEFAULT_TRANSACTION_TIMEOUT_SECONDS = 300;
+
+/**
+ * State of a transaction
+ *
+ * - `pending`: waiting for the wallet
+ * - `completed`: the wallet responded; the result can be retrieved
+ * - `failed`: the response of the wallet could not be verified
+ * - `expired`: the wallet did not respond in time
+ *
+ * @public
+ */
+export type TransactionState = 'pending' | 'completed' | 'failed' | 'expired';
+
+/**
+ * Transaction kept in the session
+ *
+ * @public
+ */
+export interface TransactionRecord {
+  /** Presentation id the backend assigned to the transaction */
+  transactionId: string;
+  /** Time the transaction was initiated, in milliseconds since the epoch */
+  startedAt: number;
+  /** Outcome recorded once the wallet responded */
+  state?: 'completed' | 'failed';
+  /** Whether the wallet answers with a redirect to the result page, which records the outcome */
+  sameDevice?: boolean;
+  /** Last time the backend was asked whether the wallet responded, in milliseconds since the epoch */
+  probedAt?: number;
+}
+
+/**
+ * Status of a transaction returned by the status endpoint
+ *
+ * @public
+ */
+export interface TransactionStatus {
+  transactionId: string;
+  status: TransactionState;
+  /** ISO 8601 time the transaction was initiated */
+  startedAt: string;
+  /** ISO 8601 time the transaction expires unless the wallet responded */
+  expiresAt: string;
+}
+
+/**
+ * Reads the transaction timeout from configuration
+ *
+ * @param value - Timeout in seconds, e.g. `TRANSACTION_TIMEOUT_SECONDS`
+ * @returns The timeout in milliseconds; 5 minutes when not configured
+ * @throws {Error} `Invalid transaction timeout ...` when the value is not a positive number
+ *
+ * @public
+ */
+export const parseTransactionTimeout = (value?: string): number => {
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_TRANSACTION_TIMEOUT_SECONDS * 1000;
+  }
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`Invalid transaction timeout: ${value}`);
+  }
+  return seconds * 1000;
+};
+
+/**
+ * Tells whether a state is final
+ *
+ * @public
+ */
+export const isFinalTransactionState = (state: TransactionState): boolean =>
+  state !== 'pending';
+
+/**
+ * Determines the status of a transaction from its record
+ *
+ * A recorded outcome wins; otherwise the transaction is `pending` until it
+ * times out, then `expired`.
+ *
+ * @param record - Transaction kept in the session
+ * @param now - Current time
+ * @param timeout - Transaction timeout in milliseconds
+ * @returns The status
+ *
+ * @public
+ */
+export const resolveTransactionStatus = (
+  { transactionId, startedAt, state }: TransactionRecord,
+  now: Date,
+  timeout: number
+): TransactionStatus => {
+  const expiresAt = startedAt + timeout;
+  return {
+    transactionId,
+    status: state ?? (now.getTime() > expiresAt ? 'expired' : 'pending'),
+    startedAt: new Date(startedAt).toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+};
+
+/**
+ * Checks with the backend whether the wallet responded to a transaction
+ *
+ * Only asks the wallet response endpoint of the backend whether a response
+ * is available; the response is neither decrypted nor verified, which is
+ * left to the result page. Without a response code, this only works for
+ * cross-device transactions.
+ *
+ * @public
+ */
+export class WalletResponseProbe {
+  readonly #fetcher: Fetcher;
+  readonly #apiBaseUrl: string;
+  readonly #walletResponsePath: string;
+
+  /**
+   * @param fetcher - Fetcher reaching the backend
+   * @param apiBaseUrl - Base URL of the backend
+   * @param walletResponsePath - Path of the wallet response endpoint
+   */
+  constructor(
+    fetcher: Fetcher,
+    apiBaseUrl: string,
+    walletResponsePath: string
+  ) {
+    if (!fetcher) {
+      throw new TypeError('fetcher is required');
+    }
+    this.#fetcher = fetcher;
+    this.#apiBaseUrl = apiBaseUrl;
+    this.#walletResponsePath = walletResponsePath;
+  }
+
+  /**
+   * Whether the wallet responded
+   *
+   * @param transactionId - Presentation id of the transaction
+   * @returns `true` once the backend holds the response; `false` while it
+   *   answers with a client error
+   * @throws {Error} When the backend cannot be reached or fails
+   */
+  async responded(transactionId: string): Promise<boolean> {
+    try {
+      await this.#fetcher.get(
+        this.#apiBaseUrl,
+        `${this.#walletResponsePath}/${encodeURIComponent(transactionId)}`,
+        {},
+        z.unknown()
+      );
+      return true;
+    } catch (error) {
+      const status = (error as { status?: unknown })?.status;
+      if (typeof status === 'number' && status >= 400 && status < 500) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
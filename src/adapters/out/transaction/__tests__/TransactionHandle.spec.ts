@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateTransactionHandle,
+  isTransactionHandle,
+} from '../TransactionHandle';
+
+describe('TransactionHandle', () => {
+  it('should generate distinct base64url handles', () => {
+    const handle = generateTransactionHandle();
+
+    expect(handle).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(isTransactionHandle(handle)).toBe(true);
+    expect(generateTransactionHandle()).not.toBe(handle);
+  });
+
+  it.each([undefined, '', 'short', `${'a'.repeat(42)}=`, 'a'.repeat(44)])(
+    'should reject %s',
+    (value) => {
+      expect(isTransactionHandle(value)).toBe(false);
+    }
+  );
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Fetcher } from '@vecrea/oid4vc-verifier-frontend-core';
+import {
+  WalletResponseProbe,
+  isFinalTransactionState,
+  parseTransactionTimeout,
+  resolveTransactionStatus,
+} from '../TransactionStatus';
+
+const startedAt = Date.parse('2024-01-01T00:00:00Z');
+const timeout = 300_000;
+
+const fetcherError = (status: number) =>
+  Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('TransactionStatus', () => {
+  describe('parseTransactionTimeout', () => {
+    it('should default to 5 minutes', () => {
+      expect(parseTransactionTimeout()).toBe(300_000);
+      expect(parseTransactionTimeout(' ')).toBe(300_000);
+    });
+
+    it('should read seconds', () => {
+      expect(parseTransactionTimeout('90')).toBe(90_000);
+    });
+
+    it.each(['0', '-1', 'abc'])('should reject %s', (value) => {
+      expect(() => parseTransactionTimeout(value)).toThrow(
+        'Invalid transaction timeout'
+      );
+    });
+  });
+
+  describe('resolveTransactionStatus', () => {
+    it('should be pending until the transaction times out', () => {
+      expect(
+        resolveTransactionStatus(
+          { transactionId: 'tx', startedAt },
+          new Date(startedAt + timeout),
+          timeout
+        )
+      ).toEqual({
+        transactionId: 'tx',
+        status: 'pending',
+        startedAt: '2024-01-01T00:00:00.000Z',
+        expiresAt: '2024-01-01T00:05:00.000Z',
+      });
+    });
+
+    it('should expire after the timeout', () => {
+      const { status } = resolveTransactionStatus(
+        { transactionId: 'tx', startedAt },
+        new Date(startedAt + timeout + 1),
+        timeout
+      );
+
+      expect(status).toBe('expired');
+      expect(isFinalTransactionState(status)).toBe(true);
+    });
+
+    it('should keep a recorded outcome', () => {
+      const { status } = resolveTransactionStatus(
+        { transactionId: 'tx', startedAt, state: 'failed' },
+        new Date(startedAt + timeout + 1),
+        timeout
+      );
+
+      expect(status).toBe('failed');
+    });
+  });
+
+  describe('WalletResponseProbe', () => {
+    const probe = (get: ReturnType<typeof vi.fn>) =>
+      new WalletResponseProbe(
+        { get } as unknown as Fetcher,
+        'https://backend.example.com',
+        '/ui/presentations'
+      );
+
+    it('should report a response held by the backend', async () => {
+      const get = vi.fn().mockResolvedValue({ vp_token: 'token' });
+
+      await expect(probe(get).responded('tx/1')).resolves.toBe(true);
+      expect(get).toHaveBeenCalledWith(
+        'https://backend.example.com',
+        '/ui/presentations/tx%2F1',
+        {},
+        expect.anything()
+      );
+    });
+
+    it('should report no response while the backend answers with a client error', async () => {
+      const get = vi.fn().mockRejectedValue(fetcherError(400));
+
+      await expect(probe(get).responded('tx')).resolves.toBe(false);
+    });
+
+    it('should rethrow other errors', async () => {
+      const get = vi.fn().mockRejectedValue(fetcherError(502));
+
+      await expect(probe(get).responded('tx')).rejects.toThrow('HTTP 502');
+    });
+
+    it('should throw TypeError without a fetcher', () => {
+      expect(
+        () => new WalletResponseProbe(null as any, 'https://backend', '/path')
+      ).toThrow(TypeError);
+    });
+  });
+});
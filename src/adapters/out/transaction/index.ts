@@ -0,0 +1,2 @@
+export * from './TransactionStatus';
+export * from './TransactionHandle';
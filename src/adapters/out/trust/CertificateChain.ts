@@ -0,0 +1,161 @@
+import {
+  BasicConstraintsExtension,
+  ExtendedKeyUsageExtension,
+  KeyUsageFlags,
+  KeyUsagesExtension,
+  X509Certificate,
+  cryptoProvider,
+} from '@peculiar/x509';
+import { Buffer } from 'node:buffer';
+
+cryptoProvider.set(crypto);
+
+/**
+ * Extended key usage of mdoc document signer certificates (ISO/IEC 18013-5)
+ *
+ * @public
+ */
+export const MDOC_DS_EXTENDED_KEY_USAGE = '1.0.18013.5.1.2';
+
+/**
+ * Result of anchoring a certificate chain to the trusted roots
+ *
+ * @public
+ */
+export interface ChainValidationResult {
+  /** Whether the chain ends at a trusted root */
+  trusted: boolean;
+  /** Why the chain is not trusted */
+  reason?: string;
+  /** Root the chain was anchored to */
+  root?: X509Certificate;
+}
+
+/**
+ * Checks that a certificate is valid at a date
+ * @private
+ */
+const isValidAt = (certificate: X509Certificate, date: Date) =>
+  certificate.notBefore <= date && date <= certificate.notAfter;
+
+/**
+ * Checks that a certificate may issue certificates: a CA in its basic
+ * constraints, with the `keyCertSign` key usage
+ * @private
+ */
+const isCertificateAuthority = (certificate: X509Certificate) => {
+  const keyUsages = certificate.getExtension(KeyUsagesExtension);
+  return (
+    certificate.getExtension(BasicConstraintsExtension)?.ca === true &&
+    keyUsages !== null &&
+    (keyUsages.usages & KeyUsageFlags.keyCertSign) !== 0
+  );
+};
+
+/**
+ * Checks that a certificate was issued by another one
+ * @private
+ */
+const isIssuedBy = async (
+  certificate: X509Certificate,
+  issuer: X509Certificate
+) =>
+  certificate.issuer === issuer.subject &&
+  (await certificate.verify({ publicKey: issuer, signatureOnly: true }));
+
+/**
+ * Validates a certificate chain against trusted root certificates
+ *
+ * Every certificate must be valid at `date` and signed by the next one; the
+ * last certificate must be a trusted root or be signed by one. Every issuing
+ * certificate, the root included, must be a CA allowed to sign certificates.
+ *
+ * @param chain - Certificates, leaf first (e.g. the mdoc `x5chain`)
+ * @param roots - Trusted root certificates (PEM or base64 DER)
+ * @param date - Validation time
+ * @param extendedKeyUsage - Extended key usage the leaf certificate must
+ *   declare, e.g. {@link MDOC_DS_EXTENDED_KEY_USAGE}
+ * @returns Whether the chain is trusted, with the reason when it is not
+ * @throws {Error} When a root certificate cannot be parsed
+ *
+ * @public
+ */
+export const validateCertificateChain = async (
+  chain: X509Certificate[],
+  roots: string[],
+  date: Date = new Date(),
+  extendedKeyUsage?: string
+): Promise<ChainValidationResult> => {
+  if (chain.length === 0) {
+    return { trusted: false, reason: 'Empty certificate chain' };
+  }
+  if (roots.length === 0) {
+    return { trusted: false, reason: 'No trusted root configured' };
+  }
+
+  if (
+    extendedKeyUsage &&
+    !chain[0]
+      .getExtension(ExtendedKeyUsageExtension)
+      ?.usages.includes(extendedKeyUsage)
+  ) {
+    return {
+      trusted: false,
+      reason: `Certificate is not valid for ${extendedKeyUsage}: ${chain[0].subject}`,
+    };
+  }
+
+  for (const [i, certificate] of chain.entries()) {
+    if (!isValidAt(certificate, date)) {
+      return {
+        trusted: false,
+        reason: `Certificate is not valid at ${date.toISOString()}: ${
+          certificate.subject
+        }`,
+      };
+    }
+    const issuer = chain[i + 1];
+    if (issuer && !(await isIssuedBy(certificate, issuer))) {
+      return {
+        trusted: false,
+        reason: `Certificate is not issued by the next one in the chain: ${certificate.subject}`,
+      };
+    }
+    if (issuer && !isCertificateAuthority(issuer)) {
+      return {
+        trusted: false,
+        reason: `Certificate is not a CA: ${issuer.subject}`,
+      };
+    }
+  }
+
+  const last = chain[chain.length - 1];
+  const lastThumbprint = Buffer.from(await last.getThumbprint()).toString(
+    'hex'
+  );
+  for (const source of roots) {
+    let root: X509Certificate;
+    try {
+      root = new X509Certificate(source);
+    } catch {
+      throw new Error('Invalid trusted root certificate');
+    }
+    if (!isValidAt(root, date)) {
+      continue;
+    }
+    const rootThumbprint = Buffer.from(await root.getThumbprint()).toString(
+      'hex'
+    );
+    if (
+      rootThumbprint === lastThumbprint ||
+      (isCertificateAuthority(root) && (await isIssuedBy(last, root)))
+    ) {
+      return { trusted: true, root };
+    }
+  }
+
+  return {
+    trusted: false,
+    reason: `No trusted root issued the chain: ${last.issuer}`,
+  };
+};
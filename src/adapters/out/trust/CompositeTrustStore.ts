@@ -0,0 +1,43 @@
+import { TrustStore } from '../../../ports/out/trust';
+
+/**
+ * Trust store combining the roots of several trust stores
+ *
+ * @public
+ */
+export class CompositeTrustStore implements TrustStore {
+  readonly #stores: TrustStore[];
+
+  /**
+   * @param stores - Trust stores whose roots are all trusted
+   */
+  constructor(stores: TrustStore[]) {
+    this.#stores = stores;
+  }
+
+  async roots(docType: string): Promise<string[]> {
+    const roots = await Promise.all(
+      this.#stores.map((store) => store.roots(docType))
+    );
+    return roots.flat();
+  }
+}
+
+/**
+ * Combines the configured trust stores
+ *
+ * @param stores - Trust stores, `undefined` when not configured
+ * @returns A store trusting the roots of every configured store, or `undefined` when none is configured
+ *
+ * @public
+ */
+export const combineTrustStores = (
+  ...stores: (TrustStore | undefined)[]
+): TrustStore | undefined => {
+  const configured = stores.filter(
+    (store): store is TrustStore => store !== undefined
+  );
+  return configured.length > 1
+    ? new CompositeTrustStore(configured)
+    : configured[0];
+};
@@ -0,0 +1,130 @@
+import { X509Certificate } from '@peculiar/x509';
+import { Tag } from 'cbor-x';
+import { COSE_ALGORITHMS, mdocCbor, readCoseSign1 } from '../mdoc/MdocCbor';
+import { validateCertificateChain } from './CertificateChain';
+
+/**
+ * COSE header label of the certificate chain (`x5chain`)
+ * @private
+ */
+const X5CHAIN = 33;
+
+/**
+ * CBOR tag of a CWT
+ * @private
+ */
+const CWT_TAG = 61;
+
+/**
+ * COSE_Sign1 whose signature has been verified
+ *
+ * @public
+ */
+export interface VerifiedCoseSign1 {
+  /** Decoded protected header */
+  protectedHeader: Map<unknown, unknown>;
+  /** Signed payload */
+  payload: Uint8Array;
+  /** Certificate chain of the signer, leaf first */
+  chain: X509Certificate[];
+}
+
+/**
+ * Reads the certificate chain of the signer from the headers
+ * @private
+ */
+const readX5Chain = (
+  protectedHeader: Map<unknown, unknown>,
+  unprotectedHeader: Map<unknown, unknown>,
+  name: string
+) => {
+  const x5chain =
+    protectedHeader.get(X5CHAIN) ?? unprotectedHeader.get(X5CHAIN);
+  const certificates = Array.isArray(x5chain) ? x5chain : [x5chain];
+  if (!certificates.every((value) => value instanceof Uint8Array)) {
+    throw new Error(`Invalid ${name}: missing x5chain`);
+  }
+  return certificates.map(
+    (certificate: Uint8Array) =>
+      new X509Certificate(new Uint8Array(certificate))
+  );
+};
+
+/**
+ * Verifies a COSE_Sign1 signed by the certificate in its `x5chain` header
+ *
+ * Accepts the structure untagged, tagged (18) or wrapped as a CWT (61).
+ * The signature must use ES256/384/512, and with `roots` the signer chain
+ * must be issued by one of them.
+ *
+ * @param value - Decoded CBOR value
+ * @param roots - Trusted roots of the signer (PEM or base64 DER); the chain is not anchored when omitted
+ * @param date - Validation time of the signer chain
+ * @param name - Name of the structure used in error messages, e.g. `VICAL`
+ * @returns The verified structure
+ * @throws {Error} `Invalid <name> ...` when the structure is malformed, its signer is not trusted or the signature does not verify
+ *
+ * @public
+ */
+export const verifyCoseX5ChainSignature = async (
+  value: unknown,
+  roots: string[] | undefined,
+  date: Date,
+  name: string
+): Promise<VerifiedCoseSign1> => {
+  const sign1 = readCoseSign1(
+    value instanceof Tag && value.tag === CWT_TAG ? value.value : value
+  );
+  if (!sign1 || !sign1.payload) {
+    throw new Error(`Invalid ${name}: not a COSE_Sign1`);
+  }
+
+  const protectedHeader =
+    sign1.protectedHeader.length > 0
+      ? mdocCbor.decode(sign1.protectedHeader)
+      : new Map();
+  if (!(protectedHeader instanceof Map)) {
+    throw new Error(`Invalid ${name}: malformed protected header`);
+  }
+  const algorithm = COSE_ALGORITHMS[protectedHeader.get(1)];
+  if (!algorithm) {
+    throw new Error(
+      `Invalid ${name}: unsupported algorithm ${protectedHeader.get(1)}`
+    );
+  }
+
+  const chain = readX5Chain(protectedHeader, sign1.unprotectedHeader, name);
+  if (roots) {
+    const { trusted, reason } = await validateCertificateChain(
+      chain,
+      roots,
+      date
+    );
+    if (!trusted) {
+      throw new Error(`Invalid ${name}: signer is not trusted (${reason})`);
+    }
+  }
+
+  const publicKey = await chain[0].publicKey.export(
+    { name: 'ECDSA', namedCurve: algorithm.namedCurve },
+    ['verify']
+  );
+  const valid = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: algorithm.hash },
+    publicKey,
+    new Uint8Array(sign1.signature),
+    new Uint8Array(
+      mdocCbor.encode([
+        'Signature1',
+        sign1.protectedHeader,
+        new Uint8Array(0),
+        sign1.payload,
+      ])
+    )
+  );
+  if (!valid) {
+    throw new Error(`Invalid ${name}: signature does not verify`);
+  }
+
+  return { protectedHeader, payload: sign1.payload, chain };
+};
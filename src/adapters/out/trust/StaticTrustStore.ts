@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { createConfigLoader, parseConfigDocument } from '../config';
+import { TrustStore } from '../../../ports/out/trust';
+
+/**
+ * Schema of a trusted IACA root certificate
+ *
+ * - `certificate`: PEM or base64 DER encoded certificate
+ * - `docTypes`: Document types the root is trusted for; all when omitted
+ * - `name`: Optional label of the issuing authority
+ *
+ * @public
+ */
+export const trustAnchorSchema = z.object({
+  certificate: z.string().min(1),
+  docTypes: z.array(z.string().min(1)).min(1).optional(),
+  name: z.string().optional(),
+});
+
+/**
+ * Schema of the trust store configuration document (JSON or YAML)
+ *
+ * ```yaml
+ * anchors:
+ *   - name: Example IACA
+ *     docTypes: [org.iso.18013.5.1.mDL]
+ *     certificate: |
+ *       -----BEGIN CERTIFICATE-----
+ *       ...
+ *       -----END CERTIFICATE-----
+ * ```
+ *
+ * @public
+ */
+export const trustStoreConfigSchema = z.object({
+  anchors: z.array(trustAnchorSchema),
+});
+
+export type TrustAnchor = z.infer<typeof trustAnchorSchema>;
+
+/**
+ * Trust store backed by a configuration document
+ *
+ * @example
+ * ```typescript
+ * const trustStore = StaticTrustStore.parse(env.IACA_TRUST_ANCHORS);
+ * const roots = await trustStore.roots('org.iso.18013.5.1.mDL');
+ * ```
+ *
+ * @public
+ */
+export class StaticTrustStore implements TrustStore {
+  readonly #anchors: TrustAnchor[];
+
+  /**
+   * @param anchors - Trusted root certificates
+   */
+  constructor(anchors: TrustAnchor[]) {
+    this.#anchors = anchors;
+  }
+
+  /**
+   * Builds a trust store from a JSON or YAML configuration document
+   *
+   * @param source - Configuration document
+   * @returns Trust store containing the configured anchors
+   * @throws {Error} When the document cannot be parsed or fails validation
+   */
+  static parse(source: string): StaticTrustStore {
+    const { anchors } = parseConfigDocument(
+      source,
+      trustStoreConfigSchema,
+      'trust store'
+    );
+    return new StaticTrustStore(anchors);
+  }
+
+  async roots(docType: string): Promise<string[]> {
+    return this.#anchors
+      .filter(({ docTypes }) => !docTypes || docTypes.includes(docType))
+      .map(({ certificate }) => certificate);
+  }
+}
+
+/**
+ * Loads the trust store for a configuration source
+ *
+ * @param source - JSON or YAML document, typically the `IACA_TRUST_ANCHORS` binding
+ * @returns The configured trust store, or `undefined` when `source` is empty
+ *
+ * @public
+ */
+export const loadTrustStore: (source?: string) => StaticTrustStore | undefined =
+  createConfigLoader(StaticTrustStore.parse, undefined);
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+/**
+ * Key prefix of the roots stored in KV / DynamoDB: `iaca:<docType>`
+ *
+ * @public
+ */
+export const TRUST_STORE_PREFIX = 'iaca:';
+
+/**
+ * Document type of the roots trusted for every document type (`iaca:*`)
+ *
+ * @public
+ */
+export const ANY_DOC_TYPE = '*';
+
+/**
+ * Schema of a stored value: a JSON array of PEM or base64 DER certificates
+ * @private
+ */
+const storedRootsSchema = z.array(z.string().min(1));
+
+/**
+ * Parses a stored list of root certificates
+ *
+ * @param key - Key the value was read from, used in error messages
+ * @param value - Stored JSON value
+ * @returns Root certificates, empty when nothing is stored
+ * @throws {Error} When the value is not a JSON array of strings
+ *
+ * @public
+ */
+export const parseStoredRoots = (
+  key: string,
+  value: string | null | undefined
+): string[] => {
+  if (!value) {
+    return [];
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(value);
+  } catch {
+    throw new Error(`Invalid trust store entry ${key}: not JSON`);
+  }
+
+  const result = storedRootsSchema.safeParse(document);
+  if (!result.success) {
+    throw new Error(
+      `Invalid trust store entry ${key}: expected an array of certificates`
+    );
+  }
+  return result.data;
+};
@@ -0,0 +1,32 @@
+import { Buffer } from 'node:buffer';
+
+/**
+ * Key of the VICAL copy stored in a Durable Object / DynamoDB
+ *
+ * @public
+ */
+export const VICAL_KEY = 'vical';
+
+/**
+ * Encodes a signed VICAL for storage as a string (base64)
+ *
+ * @param vical - Encoded COSE_Sign1 of the list
+ * @returns Stored value
+ *
+ * @public
+ */
+export const encodeStoredVical = (vical: Uint8Array): string =>
+  Buffer.from(vical).toString('base64');
+
+/**
+ * Decodes a stored VICAL copy
+ *
+ * @param value - Stored value
+ * @returns Encoded COSE_Sign1 of the list, `undefined` when nothing is stored
+ *
+ * @public
+ */
+export const decodeStoredVical = (
+  value: string | null | undefined
+): Uint8Array | undefined =>
+  value ? new Uint8Array(Buffer.from(value, 'base64')) : undefined;
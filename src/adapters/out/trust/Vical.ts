@@ -0,0 +1,146 @@
+import { X509Certificate } from '@peculiar/x509';
+import { Buffer } from 'node:buffer';
+import { mdocCbor } from '../mdoc/MdocCbor';
+import { verifyCoseX5ChainSignature } from './CoseX5ChainSignature';
+
+/**
+ * Trusted IACA root listed in a VICAL
+ *
+ * @public
+ */
+export interface VicalEntry {
+  /** Root certificate, base64 DER */
+  certificate: string;
+  /** Document types the root is trusted for */
+  docTypes: string[];
+  /** Start of the validity period */
+  notBefore: Date;
+  /** End of the validity period */
+  notAfter: Date;
+  /** Name of the issuing authority, when listed */
+  issuingAuthority?: string;
+}
+
+/**
+ * Verified Issuer Certificate Authority List (ISO/IEC 18013-5 Annex C)
+ *
+ * @public
+ */
+export interface Vical {
+  /** Operator of the list */
+  provider: string;
+  /** Issue date of the list */
+  date: Date;
+  /** Identifier of this issue, increasing with every issue */
+  issueId?: number;
+  /** Date of the next planned issue */
+  nextUpdate?: Date;
+  /** Listed roots */
+  entries: VicalEntry[];
+}
+
+/**
+ * Reads a CBOR tdate (tag 0 / tag 1 are decoded to `Date` by cbor-x)
+ * @private
+ */
+const readDate = (value: unknown): Date | undefined => {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === 'string'
+      ? new Date(value)
+      : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+};
+
+/**
+ * Reads one CertificateInfo of the list
+ * @private
+ */
+const readEntry = (info: unknown): VicalEntry => {
+  if (
+    !(info instanceof Map) ||
+    !(info.get('certificate') instanceof Uint8Array)
+  ) {
+    throw new Error('Invalid VICAL: malformed CertificateInfo');
+  }
+  const docTypes = info.get('docType');
+  if (
+    !Array.isArray(docTypes) ||
+    !docTypes.every((docType) => typeof docType === 'string')
+  ) {
+    throw new Error('Invalid VICAL: CertificateInfo without docType');
+  }
+
+  const der = new Uint8Array(info.get('certificate'));
+  let certificate: X509Certificate;
+  try {
+    certificate = new X509Certificate(der);
+  } catch {
+    throw new Error('Invalid VICAL: malformed certificate');
+  }
+  const issuingAuthority = info.get('issuingAuthority');
+
+  return {
+    certificate: Buffer.from(der).toString('base64'),
+    docTypes,
+    notBefore: readDate(info.get('notBefore')) ?? certificate.notBefore,
+    notAfter: readDate(info.get('notAfter')) ?? certificate.notAfter,
+    ...(typeof issuingAuthority === 'string' && { issuingAuthority }),
+  };
+};
+
+/**
+ * Verifies and reads a signed VICAL
+ *
+ * The list must be a COSE_Sign1 signed with ES256/384/512 by a certificate
+ * carried in its `x5chain` header, and that chain must be issued by one of
+ * the VICAL signer roots.
+ *
+ * @param signed - Encoded COSE_Sign1 of the list
+ * @param signerRoots - Trusted roots of the VICAL signer (PEM or base64 DER)
+ * @param date - Validation time of the signer chain
+ * @returns The verified list
+ * @throws {Error} `Invalid VICAL ...` when the list is malformed, not signed by a trusted signer or the signature does not verify
+ *
+ * @public
+ */
+export const parseVical = async (
+  signed: Uint8Array,
+  signerRoots: string[],
+  date: Date = new Date()
+): Promise<Vical> => {
+  let decoded: unknown;
+  try {
+    decoded = mdocCbor.decode(signed);
+  } catch {
+    throw new Error('Invalid VICAL: not CBOR');
+  }
+  const { payload } = await verifyCoseX5ChainSignature(
+    decoded,
+    signerRoots,
+    date,
+    'VICAL'
+  );
+
+  const vical = mdocCbor.decode(payload);
+  if (!(vical instanceof Map)) {
+    throw new Error('Invalid VICAL: malformed list');
+  }
+  const provider = vical.get('vicalProvider');
+  const issued = readDate(vical.get('date'));
+  const infos = vical.get('certificateInfos');
+  if (typeof provider !== 'string' || !issued || !Array.isArray(infos)) {
+    throw new Error('Invalid VICAL: malformed list');
+  }
+  const issueId = vical.get('vicalIssueID');
+  const nextUpdate = readDate(vical.get('nextUpdate'));
+
+  return {
+    provider,
+    date: issued,
+    ...(typeof issueId === 'number' && { issueId }),
+    ...(nextUpdate && { nextUpdate }),
+    entries: infos.map(readEntry),
+  };
+};
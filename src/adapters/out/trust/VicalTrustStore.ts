@@ -0,0 +1,155 @@
+import { TrustStore, VicalSource } from '../../../ports/out/trust';
+import { Vical, parseVical } from './Vical';
+
+/**
+ * Default time a loaded VICAL is used before its source is read again (1 hour)
+ * @private
+ */
+const DEFAULT_REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Options of {@link VicalTrustStore}
+ *
+ * @public
+ */
+export interface VicalTrustStoreOptions {
+  /** Key of the shared cache; stores with the same key share the loaded list */
+  cacheKey?: string;
+  /** Time a loaded list is used before the source is read again (ms) */
+  refreshIntervalMs?: number;
+  /** Current time, for tests */
+  now?: () => Date;
+}
+
+/**
+ * VICAL loaded from a source
+ * @private
+ */
+interface CachedVical {
+  vical: Vical | undefined;
+  loadedAt: number;
+}
+
+/**
+ * Verified lists kept across requests, keyed by cache key
+ * @private
+ */
+const vicalCache = new Map<string, CachedVical>();
+
+/**
+ * Trust store backed by a VICAL
+ *
+ * - The list is verified against the VICAL signer roots when it is loaded
+ * - Verified lists are cached across requests and read again from the source
+ *   after `refreshIntervalMs`, or once `nextUpdate` has passed
+ * - A list older than the cached one is ignored, and a list that fails to
+ *   load keeps the cached one in use
+ * - Only roots within their validity period are returned
+ *
+ * @example
+ * ```typescript
+ * const trustStore = new VicalTrustStore(source, signerRoots);
+ * const roots = await trustStore.roots('org.iso.18013.5.1.mDL');
+ * ```
+ *
+ * @public
+ */
+export class VicalTrustStore implements TrustStore {
+  readonly #source: VicalSource;
+  readonly #signerRoots: string[];
+  readonly #cacheKey: string;
+  readonly #refreshIntervalMs: number;
+  readonly #now: () => Date;
+
+  /**
+   * @param source - Source of the signed VICAL
+   * @param signerRoots - Trusted roots of the VICAL signer (PEM or base64 DER)
+   * @param options - Cache options
+   * @throws {TypeError} When no signer root is given
+   */
+  constructor(
+    source: VicalSource,
+    signerRoots: string[],
+    {
+      cacheKey = 'vical',
+      refreshIntervalMs = DEFAULT_REFRESH_INTERVAL_MS,
+      now = () => new Date(),
+    }: VicalTrustStoreOptions = {}
+  ) {
+    if (signerRoots.length === 0) {
+      throw new TypeError('signerRoots must not be empty');
+    }
+    this.#source = source;
+    this.#signerRoots = signerRoots;
+    this.#cacheKey = cacheKey;
+    this.#refreshIntervalMs = refreshIntervalMs;
+    this.#now = now;
+  }
+
+  async roots(docType: string): Promise<string[]> {
+    const vical = await this.current();
+    const now = this.#now();
+    return (vical?.entries ?? [])
+      .filter(
+        ({ docTypes, notBefore, notAfter }) =>
+          docTypes.includes(docType) && notBefore <= now && now <= notAfter
+      )
+      .map(({ certificate }) => certificate);
+  }
+
+  /**
+   * Get the cached VICAL, reading the source again when it is stale
+   *
+   * @returns The VICAL, or `undefined` when the source has none
+   */
+  async current(): Promise<Vical | undefined> {
+    const cached = vicalCache.get(this.#cacheKey);
+    if (cached && !this.#isStale(cached)) {
+      return cached.vical;
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Read the VICAL from the source and replace the cached one
+   *
+   * @returns The VICAL in use after the refresh
+   * @throws {Error} `Invalid VICAL ...` when the list fails to load and none is cached
+   */
+  async refresh(): Promise<Vical | undefined> {
+    const cached = vicalCache.get(this.#cacheKey)?.vical;
+    const now = this.#now();
+
+    let loaded: Vical | undefined;
+    try {
+      const signed = await this.#source.load();
+      loaded = signed
+        ? await parseVical(signed, this.#signerRoots, now)
+        : undefined;
+    } catch (error) {
+      if (!cached) {
+        throw error;
+      }
+      console.warn('Failed to refresh VICAL, keeping the cached list:', error);
+      loaded = undefined;
+    }
+
+    const vical =
+      cached && (!loaded || loaded.date < cached.date) ? cached : loaded;
+    vicalCache.set(this.#cacheKey, { vical, loadedAt: now.getTime() });
+    return vical;
+  }
+
+  /**
+   * Checks whether the source should be read again
+   * @private
+   */
+  #isStale({ vical, loadedAt }: CachedVical) {
+    const now = this.#now().getTime();
+    const nextUpdate = vical?.nextUpdate?.getTime();
+    return (
+      now - loadedAt >= this.#refreshIntervalMs ||
+      (nextUpdate !== undefined && loadedAt < nextUpdate && nextUpdate <= now)
+    );
+  }
+}
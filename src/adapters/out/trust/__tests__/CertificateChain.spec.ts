@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BasicConstraintsExtension,
+  ExtendedKeyUsageExtension,
+  KeyUsageFlags,
+  KeyUsagesExtension,
+  X509CertificateGenerator,
+} from '@peculiar/x509';
+import {
+  MDOC_DS_EXTENDED_KEY_USAGE,
+  validateCertificateChain,
+} from '../CertificateChain';
+import { issueCertificate, issueCertificates } from './certificates';
+
+const date = new Date('2026-06-01T00:00:00Z');
+
+describe('validateCertificateChain', () => {
+  it('should trust a chain issued by a configured root', async () => {
+    const { root, documentSigner } = await issueCertificates();
+
+    const result = await validateCertificateChain(
+      [documentSigner],
+      [root.toString('pem')],
+      date
+    );
+
+    expect(result.trusted).toBe(true);
+    expect(result.root?.subject).toBe(root.subject);
+  });
+
+  it('should trust a chain ending at a configured root', async () => {
+    const { root, documentSigner } = await issueCertificates();
+
+    const result = await validateCertificateChain(
+      [documentSigner, root],
+      [root.toString('base64')],
+      date
+    );
+
+    expect(result.trusted).toBe(true);
+  });
+
+  it('should not trust a chain issued by another root', async () => {
+    const { documentSigner } = await issueCertificates();
+    const other = await issueCertificates();
+
+    const result = await validateCertificateChain(
+      [documentSigner],
+      [other.root.toString('pem')],
+      date
+    );
+
+    expect(result).toEqual({
+      trusted: false,
+      reason: `No trusted root issued the chain: ${documentSigner.issuer}`,
+    });
+  });
+
+  it('should not trust an expired certificate', async () => {
+    const { root, documentSigner } = await issueCertificates();
+
+    const result = await validateCertificateChain(
+      [documentSigner],
+      [root.toString('pem')],
+      new Date('2028-01-01T00:00:00Z')
+    );
+
+    expect(result.trusted).toBe(false);
+    expect(result.reason).toContain('Certificate is not valid at');
+  });
+
+  it('should not trust any chain without roots', async () => {
+    const { documentSigner } = await issueCertificates();
+
+    expect(await validateCertificateChain([documentSigner], [], date)).toEqual({
+      trusted: false,
+      reason: 'No trusted root configured',
+    });
+  });
+
+  it('should trust a chain through a CA intermediate', async () => {
+    const { root, rootKey } = await issueCertificates();
+    const intermediate = await issueCertificate('Intermediate', root, rootKey, [
+      new BasicConstraintsExtension(true, undefined, true),
+      new KeyUsagesExtension(KeyUsageFlags.keyCertSign, true),
+    ]);
+    const { certificate: leaf } = await issueCertificate(
+      'Leaf',
+      intermediate.certificate,
+      intermediate.key
+    );
+
+    const result = await validateCertificateChain(
+      [leaf, intermediate.certificate],
+      [root.toString('pem')],
+      date
+    );
+
+    expect(result.trusted).toBe(true);
+  });
+
+  it.each([
+    ['without basic constraints', []],
+    [
+      'which is not a CA',
+      [
+        new BasicConstraintsExtension(false, undefined, true),
+        new KeyUsagesExtension(KeyUsageFlags.keyCertSign, true),
+      ],
+    ],
+    [
+      'without the keyCertSign key usage',
+      [
+        new BasicConstraintsExtension(true, undefined, true),
+        new KeyUsagesExtension(KeyUsageFlags.digitalSignature, true),
+      ],
+    ],
+  ])(
+    'should not trust a chain through an intermediate %s',
+    async (_, extensions) => {
+      const { root, rootKey, signingKey, documentSigner } =
+        await issueCertificates();
+      // A certificate of the chain issuing another one
+      const { certificate: leaf } = await issueCertificate(
+        'Leaf',
+        documentSigner,
+        signingKey
+      );
+      const intermediate = await issueCertificate(
+        'Intermediate',
+        root,
+        rootKey,
+        extensions
+      );
+      const { certificate: forged } = await issueCertificate(
+        'Forged',
+        intermediate.certificate,
+        intermediate.key
+      );
+
+      for (const chain of [
+        [leaf, documentSigner],
+        [forged, intermediate.certificate],
+      ]) {
+        const result = await validateCertificateChain(
+          chain,
+          [root.toString('pem')],
+          date
+        );
+        expect(result).toEqual({
+          trusted: false,
+          reason: `Certificate is not a CA: ${chain[1].subject}`,
+        });
+      }
+    }
+  );
+
+  it('should not trust a chain issued by a root which is not a CA', async () => {
+    const keys = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    );
+    const root = await X509CertificateGenerator.createSelfSigned({
+      serialNumber: '01',
+      name: 'CN=Not a CA, C=JP',
+      notBefore: new Date('2026-01-01T00:00:00Z'),
+      notAfter: new Date('2027-01-01T00:00:00Z'),
+      signingAlgorithm: { name: 'ECDSA', hash: 'SHA-256' },
+      keys,
+    });
+    const { certificate: leaf } = await issueCertificate(
+      'Leaf',
+      root,
+      keys.privateKey
+    );
+
+    const result = await validateCertificateChain(
+      [leaf],
+      [root.toString('pem')],
+      date
+    );
+
+    expect(result.trusted).toBe(false);
+  });
+
+  it('should require the extended key usage of the leaf', async () => {
+    const { root, rootKey, documentSigner } = await issueCertificates();
+    const { certificate: other } = await issueCertificate(
+      'Other Signer',
+      root,
+      rootKey,
+      [new ExtendedKeyUsageExtension(['1.0.18013.5.1.8'])]
+    );
+
+    expect(
+      (
+        await validateCertificateChain(
+          [documentSigner],
+          [root.toString('pem')],
+          date,
+          MDOC_DS_EXTENDED_KEY_USAGE
+        )
+      ).trusted
+    ).toBe(true);
+    expect(
+      await validateCertificateChain(
+        [other],
+        [root.toString('pem')],
+        date,
+        MDOC_DS_EXTENDED_KEY_USAGE
+      )
+    ).toEqual({
+      trusted: false,
+      reason: `Certificate is not valid for ${MDOC_DS_EXTENDED_KEY_USAGE}: ${other.subject}`,
+    });
+  });
+
+  it('should reject malformed roots', async () => {
+    const { documentSigner } = await issueCertificates();
+
+    await expect(
+      validateCertificateChain([documentSigner], ['not a certificate'], date)
+    ).rejects.toThrow('Invalid trusted root certificate');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { StaticTrustStore, loadTrustStore } from '../StaticTrustStore';
+
+const yamlSource = `
+anchors:
+  - name: mDL IACA
+    docTypes: [org.iso.18013.5.1.mDL]
+    certificate: MDL_ROOT
+  - name: Any IACA
+    certificate: ANY_ROOT
+`;
+
+describe('StaticTrustStore', () => {
+  it('should return the roots trusted for a document type', async () => {
+    const trustStore = StaticTrustStore.parse(yamlSource);
+
+    expect(await trustStore.roots('org.iso.18013.5.1.mDL')).toEqual([
+      'MDL_ROOT',
+      'ANY_ROOT',
+    ]);
+    expect(await trustStore.roots('com.dentsusoken.vecrea.UnifiedID')).toEqual([
+      'ANY_ROOT',
+    ]);
+  });
+
+  it('should reject invalid configurations', () => {
+    expect(() =>
+      StaticTrustStore.parse(JSON.stringify({ anchors: [{ name: 'x' }] }))
+    ).toThrow('Invalid trust store configuration');
+  });
+
+  it('should load nothing from an empty source', () => {
+    expect(loadTrustStore()).toBeUndefined();
+    expect(loadTrustStore('  ')).toBeUndefined();
+  });
+
+  it('should cache loaded trust stores', () => {
+    expect(loadTrustStore(yamlSource)).toBe(loadTrustStore(yamlSource));
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseVical } from '../Vical';
+import { issueCertificates } from './certificates';
+import { signedVical } from './signedVical';
+
+const date = new Date('2026-06-01T00:00:00Z');
+
+const setup = async () => {
+  const vicalSigner = await issueCertificates('Example VICAL');
+  const iaca = await issueCertificates('Example IACA');
+  return {
+    signerRoot: vicalSigner.root.toString('pem'),
+    signer: {
+      certificate: vicalSigner.documentSigner,
+      signingKey: vicalSigner.signingKey,
+    },
+    iaca: iaca.root,
+  };
+};
+
+describe('parseVical', () => {
+  it('should read the roots of a VICAL signed by a trusted signer', async () => {
+    const { signerRoot, signer, iaca } = await setup();
+
+    const vical = await parseVical(
+      await signedVical(signer, [iaca], {
+        nextUpdate: new Date('2026-07-01T00:00:00Z'),
+      }),
+      [signerRoot],
+      date
+    );
+
+    expect(vical).toEqual({
+      provider: 'Example VICAL Provider',
+      date: new Date('2026-01-01T00:00:00Z'),
+      nextUpdate: new Date('2026-07-01T00:00:00Z'),
+      entries: [
+        {
+          certificate: iaca.toString('base64'),
+          docTypes: ['org.iso.18013.5.1.mDL'],
+          notBefore: iaca.notBefore,
+          notAfter: iaca.notAfter,
+          issuingAuthority: 'Example IACA',
+        },
+      ],
+    });
+  });
+
+  it('should reject a VICAL signed by an untrusted signer', async () => {
+    const { signer, iaca } = await setup();
+    const other = await issueCertificates('Other VICAL');
+
+    await expect(
+      parseVical(
+        await signedVical(signer, [iaca]),
+        [other.root.toString('pem')],
+        date
+      )
+    ).rejects.toThrow('Invalid VICAL: signer is not trusted');
+  });
+
+  it('should reject a VICAL whose signature does not verify', async () => {
+    const { signerRoot, signer, iaca } = await setup();
+    const vical = await signedVical(signer, [iaca]);
+    vical[vical.length - 1] ^= 0xff;
+
+    await expect(parseVical(vical, [signerRoot], date)).rejects.toThrow(
+      'Invalid VICAL: signature does not verify'
+    );
+  });
+
+  it('should reject data that is not a COSE_Sign1', async () => {
+    const { signerRoot } = await setup();
+
+    await expect(
+      parseVical(new Uint8Array([0xa0]), [signerRoot], date)
+    ).rejects.toThrow('Invalid VICAL: not a COSE_Sign1');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { VicalSource } from '../../../../ports/out/trust';
+import { VicalTrustStore } from '../VicalTrustStore';
+import { issueCertificates } from './certificates';
+import { signedVical } from './signedVical';
+
+const mdl = 'org.iso.18013.5.1.mDL';
+const HOUR = 60 * 60 * 1000;
+
+const setup = async () => {
+  const vicalSigner = await issueCertificates('Example VICAL');
+  const iaca = await issueCertificates('Example IACA');
+  const signer = {
+    certificate: vicalSigner.documentSigner,
+    signingKey: vicalSigner.signingKey,
+  };
+  let now = new Date('2026-06-01T00:00:00Z');
+  const source = {
+    load: vi.fn<VicalSource['load']>(async () =>
+      signedVical(signer, [iaca.root])
+    ),
+  };
+  const trustStore = new VicalTrustStore(
+    source,
+    [vicalSigner.root.toString('pem')],
+    { cacheKey: crypto.randomUUID(), refreshIntervalMs: HOUR, now: () => now }
+  );
+  return {
+    signer,
+    iaca: iaca.root,
+    source,
+    trustStore,
+    advance: (ms: number) => {
+      now = new Date(now.getTime() + ms);
+    },
+  };
+};
+
+describe('VicalTrustStore', () => {
+  it('should trust the listed roots for their document types', async () => {
+    const { trustStore, iaca } = await setup();
+
+    expect(await trustStore.roots(mdl)).toEqual([iaca.toString('base64')]);
+    expect(await trustStore.roots('org.iso.23220.photoID.1')).toEqual([]);
+  });
+
+  it('should cache the list until the refresh interval', async () => {
+    const { trustStore, source, advance } = await setup();
+
+    await trustStore.roots(mdl);
+    advance(HOUR / 2);
+    await trustStore.roots(mdl);
+    expect(source.load).toHaveBeenCalledTimes(1);
+
+    advance(HOUR);
+    await trustStore.roots(mdl);
+    expect(source.load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not replace the list with an older one', async () => {
+    const { trustStore, source, signer, advance } = await setup();
+    await trustStore.roots(mdl);
+
+    const older = await issueCertificates('Older IACA');
+    source.load.mockResolvedValueOnce(
+      await signedVical(signer, [older.root], {
+        date: new Date('2025-12-01T00:00:00Z'),
+      })
+    );
+    advance(HOUR);
+
+    expect(await trustStore.roots(mdl)).not.toContain(
+      older.root.toString('base64')
+    );
+  });
+
+  it('should keep the cached list when the refresh fails', async () => {
+    const { trustStore, source, iaca, advance } = await setup();
+    await trustStore.roots(mdl);
+
+    source.load.mockResolvedValueOnce(new Uint8Array([0xff]));
+    advance(HOUR);
+
+    expect(await trustStore.roots(mdl)).toEqual([iaca.toString('base64')]);
+  });
+
+  it('should fail when no list could ever be loaded', async () => {
+    const { trustStore, source } = await setup();
+    source.load.mockResolvedValueOnce(new Uint8Array([0xff]));
+
+    await expect(trustStore.roots(mdl)).rejects.toThrow('Invalid VICAL');
+  });
+
+  it('should drop roots outside their validity period', async () => {
+    const { trustStore, advance } = await setup();
+    await trustStore.roots(mdl);
+
+    advance(365 * 24 * HOUR);
+
+    expect(await trustStore.roots(mdl)).toEqual([]);
+  });
+
+  it('should trust nothing without a copy of the list', async () => {
+    const { trustStore, source } = await setup();
+    source.load.mockResolvedValueOnce(undefined);
+
+    expect(await trustStore.roots(mdl)).toEqual([]);
+  });
+});
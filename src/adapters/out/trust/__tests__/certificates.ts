@@ -0,0 +1,109 @@
+import {
+  BasicConstraintsExtension,
+  CRLDistributionPointsExtension,
+  ExtendedKeyUsageExtension,
+  Extension,
+  KeyUsageFlags,
+  KeyUsagesExtension,
+  SubjectAlternativeNameExtension,
+  X509Certificate,
+  X509CertificateGenerator,
+  cryptoProvider,
+} from '@peculiar/x509';
+import { MDOC_DS_EXTENDED_KEY_USAGE } from '../CertificateChain';
+
+cryptoProvider.set(crypto);
+
+const algorithm = { name: 'ECDSA', namedCurve: 'P-256', hash: 'SHA-256' };
+
+const keys = () =>
+  crypto.subtle.generateKey(algorithm, true, ['sign', 'verify']);
+
+/**
+ * Issues an IACA root and a document signer certificate, valid for a year
+ * from `notBefore`, with the private keys of both
+ *
+ * The document signer certificate declares the mdoc DS extended key usage
+ * and `issuer.example.com` as DNS name, the host of the SD-JWT VC fixtures.
+ * With `crlUrl`, it also names it as CRL distribution point.
+ */
+export const issueCertificates = async (
+  name = 'Example IACA',
+  notBefore = new Date('2026-01-01T00:00:00Z'),
+  crlUrl?: string
+): Promise<{
+  root: X509Certificate;
+  rootKey: CryptoKey;
+  documentSigner: X509Certificate;
+  signingKey: CryptoKey;
+}> => {
+  const notAfter = new Date(notBefore.getTime() + 365 * 24 * 60 * 60 * 1000);
+  const rootKeys = await keys();
+  const root = await X509CertificateGenerator.createSelfSigned({
+    serialNumber: '01',
+    name: `CN=${name}, O=${name}, C=JP`,
+    notBefore,
+    notAfter,
+    signingAlgorithm: algorithm,
+    keys: rootKeys,
+    extensions: [
+      new BasicConstraintsExtension(true, 0, true),
+      new KeyUsagesExtension(
+        KeyUsageFlags.keyCertSign | KeyUsageFlags.cRLSign,
+        true
+      ),
+    ],
+  });
+
+  const signerKeys = await keys();
+  const documentSigner = await X509CertificateGenerator.create({
+    serialNumber: '02',
+    subject: `CN=${name} Document Signer, O=${name}, C=JP`,
+    issuer: root.subject,
+    notBefore,
+    notAfter,
+    signingAlgorithm: algorithm,
+    publicKey: signerKeys.publicKey,
+    signingKey: rootKeys.privateKey,
+    extensions: [
+      new KeyUsagesExtension(KeyUsageFlags.digitalSignature, true),
+      new ExtendedKeyUsageExtension([MDOC_DS_EXTENDED_KEY_USAGE], true),
+      new SubjectAlternativeNameExtension([
+        { type: 'dns', value: 'issuer.example.com' },
+      ]),
+      ...(crlUrl ? [new CRLDistributionPointsExtension([crlUrl])] : []),
+    ],
+  });
+
+  return {
+    root,
+    rootKey: rootKeys.privateKey,
+    documentSigner,
+    signingKey: signerKeys.privateKey,
+  };
+};
+
+/**
+ * Issues a certificate signed by another one, valid as long as its issuer,
+ * with its private key
+ */
+export const issueCertificate = async (
+  name: string,
+  issuer: X509Certificate,
+  issuerKey: CryptoKey,
+  extensions: Extension[] = []
+): Promise<{ certificate: X509Certificate; key: CryptoKey }> => {
+  const certificateKeys = await keys();
+  const certificate = await X509CertificateGenerator.create({
+    serialNumber: '03',
+    subject: `CN=${name}, C=JP`,
+    issuer: issuer.subject,
+    notBefore: issuer.notBefore,
+    notAfter: issuer.notAfter,
+    signingAlgorithm: algorithm,
+    publicKey: certificateKeys.publicKey,
+    signingKey: issuerKey,
+    extensions,
+  });
+  return { certificate, key: certificateKeys.privateKey };
+};
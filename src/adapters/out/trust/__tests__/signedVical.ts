@@ -0,0 +1,65 @@
+import { X509Certificate } from '@peculiar/x509';
+import { Tag } from 'cbor-x';
+import { mdocCbor } from '../../mdoc/MdocCbor';
+
+/**
+ * Builds a VICAL listing `roots` for the mDL, signed as a COSE_Sign1 by
+ * `signer` with its certificate in the x5chain header
+ */
+export const signedVical = async (
+  signer: { certificate: X509Certificate; signingKey: CryptoKey },
+  roots: X509Certificate[],
+  {
+    date = new Date('2026-01-01T00:00:00Z'),
+    nextUpdate,
+  }: { date?: Date; nextUpdate?: Date } = {}
+): Promise<Uint8Array> => {
+  const payload = mdocCbor.encode(
+    new Map<string, unknown>([
+      ['version', '1.0'],
+      ['vicalProvider', 'Example VICAL Provider'],
+      ['date', new Tag(date.toISOString(), 0)],
+      ...(nextUpdate
+        ? [['nextUpdate', new Tag(nextUpdate.toISOString(), 0)] as const]
+        : []),
+      [
+        'certificateInfos',
+        roots.map(
+          (root) =>
+            new Map<string, unknown>([
+              ['certificate', new Uint8Array(root.rawData)],
+              ['serialNumber', new Uint8Array([1])],
+              ['ski', new Uint8Array(20)],
+              ['docType', ['org.iso.18013.5.1.mDL']],
+              ['issuingAuthority', root.subjectName.getField('O')[0]],
+            ])
+        ),
+      ],
+    ])
+  );
+  const protectedHeader = mdocCbor.encode(
+    new Map<number, unknown>([
+      [1, -7],
+      [33, new Uint8Array(signer.certificate.rawData)],
+    ])
+  );
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    signer.signingKey,
+    new Uint8Array(
+      mdocCbor.encode([
+        'Signature1',
+        protectedHeader,
+        new Uint8Array(0),
+        payload,
+      ])
+    )
+  );
+
+  return mdocCbor.encode(
+    new Tag(
+      [protectedHeader, new Map(), payload, new Uint8Array(signature)],
+      18
+    )
+  );
+};
@@ -0,0 +1,37 @@
+import { DynamoDB } from '@vecrea/oid4vc-core';
+import { TrustStore } from '../../../../ports/out/trust';
+import {
+  ANY_DOC_TYPE,
+  TRUST_STORE_PREFIX,
+  parseStoredRoots,
+} from '../StoredRoots';
+
+/**
+ * Trust store implementation using DynamoDB
+ *
+ * - Reads `iaca:<docType>` and `iaca:*` (roots trusted for every document type)
+ * - Each value is a JSON array of PEM or base64 DER certificates
+ *
+ * @public
+ */
+export class DynamoDBTrustStore implements TrustStore {
+  readonly #dynamoDB: DynamoDB;
+
+  /**
+   * @param dynamoDB - Wrapped DynamoDB client of the table holding the roots
+   */
+  constructor(dynamoDB: DynamoDB) {
+    this.#dynamoDB = dynamoDB;
+  }
+
+  async roots(docType: string): Promise<string[]> {
+    const keys = [
+      TRUST_STORE_PREFIX + docType,
+      TRUST_STORE_PREFIX + ANY_DOC_TYPE,
+    ];
+    const values = await Promise.all(
+      keys.map((key) => this.#dynamoDB.get(key))
+    );
+    return keys.flatMap((key, i) => parseStoredRoots(key, values[i]));
+  }
+}
@@ -0,0 +1,39 @@
+import { DynamoDB } from '@vecrea/oid4vc-core';
+import { VicalSource } from '../../../../ports/out/trust';
+import {
+  VICAL_KEY,
+  decodeStoredVical,
+  encodeStoredVical,
+} from '../StoredVical';
+
+/**
+ * VICAL source implementation using DynamoDB
+ *
+ * - Reads the copy stored under `vical` (base64)
+ * - `save` replaces the copy, e.g. from a job downloading the latest list
+ *
+ * @public
+ */
+export class DynamoDBVicalSource implements VicalSource {
+  readonly #dynamoDB: DynamoDB;
+
+  /**
+   * @param dynamoDB - Wrapped DynamoDB client of the table holding the copy
+   */
+  constructor(dynamoDB: DynamoDB) {
+    this.#dynamoDB = dynamoDB;
+  }
+
+  async load(): Promise<Uint8Array | undefined> {
+    return decodeStoredVical(await this.#dynamoDB.get(VICAL_KEY));
+  }
+
+  /**
+   * Store a new copy of the VICAL
+   *
+   * @param vical - Encoded COSE_Sign1 of the list
+   */
+  async save(vical: Uint8Array): Promise<void> {
+    await this.#dynamoDB.put(VICAL_KEY, encodeStoredVical(vical));
+  }
+}
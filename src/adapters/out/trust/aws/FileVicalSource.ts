@@ -0,0 +1,32 @@
+import { readFile } from 'node:fs/promises';
+import { VicalSource } from '../../../../ports/out/trust';
+
+/**
+ * VICAL source implementation reading a local file
+ *
+ * - The file holds the signed VICAL as published (binary CBOR)
+ * - Replacing the file is picked up at the next refresh
+ *
+ * @public
+ */
+export class FileVicalSource implements VicalSource {
+  readonly #path: string;
+
+  /**
+   * @param path - Path of the VICAL file
+   */
+  constructor(path: string) {
+    this.#path = path;
+  }
+
+  async load(): Promise<Uint8Array | undefined> {
+    try {
+      return new Uint8Array(await readFile(this.#path));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from './DynamoDBTrustStore';
+export * from './DynamoDBVicalSource';
+export * from './FileVicalSource';
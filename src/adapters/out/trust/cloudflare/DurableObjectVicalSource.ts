@@ -0,0 +1,39 @@
+import { DurableObjectBase } from '../../database/cloudflare';
+import { VicalSource } from '../../../../ports/out/trust';
+import {
+  VICAL_KEY,
+  decodeStoredVical,
+  encodeStoredVical,
+} from '../StoredVical';
+
+/**
+ * VICAL source implementation using Cloudflare Durable Object
+ *
+ * - Reads the copy stored under `vical` (base64), kept without expiration
+ * - `save` replaces the copy, e.g. from a job downloading the latest list
+ *
+ * @public
+ */
+export class DurableObjectVicalSource implements VicalSource {
+  readonly #stub: DurableObjectStub<DurableObjectBase>;
+
+  /**
+   * @param stub - Durable Object stub holding the copy
+   */
+  constructor(stub: DurableObjectStub<DurableObjectBase>) {
+    this.#stub = stub;
+  }
+
+  async load(): Promise<Uint8Array | undefined> {
+    return decodeStoredVical(await this.#stub.get(VICAL_KEY));
+  }
+
+  /**
+   * Store a new copy of the VICAL
+   *
+   * @param vical - Encoded COSE_Sign1 of the list
+   */
+  async save(vical: Uint8Array): Promise<void> {
+    await this.#stub.persist(VICAL_KEY, encodeStoredVical(vical));
+  }
+}
@@ -0,0 +1,34 @@
+import { TrustStore } from '../../../../ports/out/trust';
+import {
+  ANY_DOC_TYPE,
+  TRUST_STORE_PREFIX,
+  parseStoredRoots,
+} from '../StoredRoots';
+
+/**
+ * Trust store implementation using Cloudflare KV
+ *
+ * - Reads `iaca:<docType>` and `iaca:*` (roots trusted for every document type)
+ * - Each value is a JSON array of PEM or base64 DER certificates
+ *
+ * @public
+ */
+export class KVTrustStore implements TrustStore {
+  readonly #kv: KVNamespace;
+
+  /**
+   * @param kv - KV namespace holding the roots
+   */
+  constructor(kv: KVNamespace) {
+    this.#kv = kv;
+  }
+
+  async roots(docType: string): Promise<string[]> {
+    const keys = [
+      TRUST_STORE_PREFIX + docType,
+      TRUST_STORE_PREFIX + ANY_DOC_TYPE,
+    ];
+    const values = await Promise.all(keys.map((key) => this.#kv.get(key)));
+    return keys.flatMap((key, i) => parseStoredRoots(key, values[i]));
+  }
+}
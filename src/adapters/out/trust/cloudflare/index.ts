@@ -0,0 +1,2 @@
+export * from './KVTrustStore';
+export * from './DurableObjectVicalSource';
@@ -0,0 +1,8 @@
+export * from './CertificateChain';
+export * from './CoseX5ChainSignature';
+export * from './StaticTrustStore';
+export * from './StoredRoots';
+export * from './CompositeTrustStore';
+export * from './Vical';
+export * from './VicalTrustStore';
+export * from './StoredVical';
@@ -0,0 +1,92 @@
+import type { MdocVerifyHandlerImpl } from 'mdoc-cbor-ts';
+import { Clock } from '../../../ports/out/clock';
+import { TrustStore } from '../../../ports/out/trust';
+import { CredentialVerifiers } from '../../../ports/out/verifier';
+import { RevocationChecker } from '../revocation';
+import {
+  MSO_MDOC_FORMAT,
+  MdocCredentialVerifier,
+} from '../mdoc/MdocCredentialVerifier';
+import {
+  SD_JWT_VC_FORMAT,
+  SdJwtCredentialVerifier,
+  SdJwtVcExpectations,
+  SdJwtVcVerifier,
+} from '../sdjwt';
+import {
+  JWT_VC_JSON_FORMAT,
+  JWT_VP_JSON_FORMAT,
+  JwtVpCredentialVerifier,
+  JwtVpJsonExpectations,
+  JwtVpJsonVerifier,
+} from '../w3c';
+
+/**
+ * Options of {@link createCredentialVerifiers}
+ *
+ * @public
+ */
+export interface CredentialVerifiersOptions {
+  /** Trusted IACA roots; issuers are not checked when omitted */
+  trustStore?: TrustStore;
+  /** Revocation checker of mdocs; revocation is not checked when omitted */
+  revocationChecker?: RevocationChecker;
+  /** Clock mdoc validity periods are checked against; not checked when omitted */
+  clock?: Clock;
+  /** Tolerated clock skew in milliseconds */
+  clockSkew?: number;
+  /** Verifier of SD-JWT VC presentations; one using `trustStore`, `clock` and `clockSkew` when omitted */
+  sdJwtVerifier?: SdJwtVcVerifier;
+  /** Request parameters and credential types SD-JWT VC presentations are checked against */
+  sdJwtExpectations?: () => Promise<SdJwtVcExpectations>;
+  /** Verifier of W3C `jwt_vp_json` presentations; one resolving `did:key` and `did:jwk` when omitted */
+  jwtVpVerifier?: JwtVpJsonVerifier;
+  /** Request parameters and credential types `jwt_vp_json` presentations are checked against */
+  jwtVpExpectations?: () => Promise<JwtVpJsonExpectations>;
+}
+
+/**
+ * Creates the credential verifiers of the supported formats
+ *
+ * - `mso_mdoc`: {@link MdocCredentialVerifier}
+ * - `dc+sd-jwt` (and `vc+sd-jwt` of earlier drafts): {@link SdJwtCredentialVerifier}
+ * - `jwt_vc_json` / `jwt_vp_json`: {@link JwtVpCredentialVerifier}
+ *
+ * @param mdocVerifyHandler - Verifier of a single DeviceResponse
+ * @param options - Issuer checks and request parameters; none when omitted
+ * @returns Credential verifiers keyed by format
+ *
+ * @public
+ */
+export const createCredentialVerifiers = (
+  mdocVerifyHandler: Pick<MdocVerifyHandlerImpl, 'verify'>,
+  {
+    trustStore,
+    revocationChecker,
+    clock,
+    clockSkew,
+    sdJwtVerifier = new SdJwtVcVerifier({
+      trustStore,
+      ...(clock && { now: () => clock.now() }),
+      clockSkew,
+    }),
+    sdJwtExpectations,
+    jwtVpVerifier,
+    jwtVpExpectations,
+  }: CredentialVerifiersOptions = {}
+): CredentialVerifiers => {
+  const sdJwt = new SdJwtCredentialVerifier(sdJwtVerifier, sdJwtExpectations);
+  const jwtVp = new JwtVpCredentialVerifier(jwtVpVerifier, jwtVpExpectations);
+  return {
+    [MSO_MDOC_FORMAT]: new MdocCredentialVerifier(mdocVerifyHandler, {
+      trustStore,
+      revocationChecker,
+      clock,
+      clockSkew,
+    }),
+    [SD_JWT_VC_FORMAT]: sdJwt,
+    'vc+sd-jwt': sdJwt,
+    [JWT_VC_JSON_FORMAT]: jwtVp,
+    [JWT_VP_JSON_FORMAT]: jwtVp,
+  };
+};
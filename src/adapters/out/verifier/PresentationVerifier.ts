@@ -0,0 +1,227 @@
+import { DcqlQuery, matchDcqlResponse, parseDcqlVpToken } from '../dcql';
+import { SubmittedPresentations, submittedFormat } from '../prex';
+import {
+  CredentialVerification,
+  CredentialVerifiers,
+  DocumentRevocation,
+  DocumentValidity,
+  IssuerTrust,
+  VerifiedDocument,
+} from '../../../ports/out/verifier';
+
+/**
+ * Documents verified for one DCQL credential id
+ * @public
+ */
+export interface CredentialDocuments {
+  /** Credential id declared in the DCQL query */
+  id: string;
+  /** Documents extracted from the presentations returned for the id */
+  documents: VerifiedDocument[];
+}
+
+/**
+ * Verification result extended with the DCQL credential mapping
+ *
+ * `credentials` is only present when the VP token is a DCQL response,
+ * `issuers` and `revocations` when the credential verifiers check them, and
+ * `error` when the token was rejected as a whole.
+ *
+ * @public
+ */
+export type PresentationVerifyResult = CredentialVerification & {
+  credentials?: CredentialDocuments[];
+  /** Reason the VP token was rejected before its presentations were verified */
+  error?: string;
+};
+
+/**
+ * Options of {@link PresentationVerifier}
+ *
+ * @public
+ */
+export interface PresentationVerifierOptions {
+  /** Presentation submission of the response, naming the format of the presentation */
+  presentationSubmission?: () => SubmittedPresentations | undefined;
+  /** DCQL query of the transaction, which the VP token must answer */
+  dcqlQuery?: () => Promise<DcqlQuery | undefined>;
+}
+
+/**
+ * Verifier of VP tokens, handing each presentation to the
+ * {@link CredentialVerifier} of its format
+ *
+ * Presentation Exchange tokens are a single presentation, verified by the
+ * verifier of the format the presentation submission declares for it. DCQL
+ * tokens are objects keyed by credential id; every presentation is verified
+ * and the documents are merged, while `credentials` keeps track of which
+ * credential id produced which documents. DCQL tokens and responses without
+ * a submission are dispatched by the shape of each presentation. The token
+ * is valid only when every presentation is valid; presentations of a format
+ * without a verifier are invalid. DCQL tokens without presentations are
+ * invalid, and so are tokens not answering the DCQL query of the
+ * transaction when one is given (see {@link matchDcqlResponse}).
+ *
+ * @example
+ * ```typescript
+ * const verifier = new PresentationVerifier({
+ *   mso_mdoc: new MdocCredentialVerifier(new MdocVerifyHandlerImpl()),
+ * });
+ * const { valid, documents, credentials } = await verifier.verify(vpToken);
+ * ```
+ *
+ * @public
+ */
+export class PresentationVerifier {
+  readonly #verifiers: CredentialVerifiers;
+
+  readonly #presentationSubmission: () => SubmittedPresentations | undefined;
+
+  readonly #dcqlQuery: () => Promise<DcqlQuery | undefined>;
+
+  /**
+   * @param verifiers - Credential verifiers keyed by format
+   * @param options - Presentation submission and DCQL query of the response
+   */
+  constructor(
+    verifiers: CredentialVerifiers,
+    {
+      presentationSubmission = () => undefined,
+      dcqlQuery = async () => undefined,
+    }: PresentationVerifierOptions = {}
+  ) {
+    if (!verifiers) {
+      throw new TypeError('verifiers is required');
+    }
+    this.#verifiers = verifiers;
+    this.#presentationSubmission = presentationSubmission;
+    this.#dcqlQuery = dcqlQuery;
+  }
+
+  /**
+   * Verifies a VP token
+   *
+   * @param vpToken - Presentation Exchange or DCQL VP token
+   * @returns Verification result with merged documents
+   */
+  async verify(vpToken: string): Promise<PresentationVerifyResult> {
+    const query = await this.#dcqlQuery();
+    const dcqlVpToken = parseDcqlVpToken(vpToken);
+    if (!dcqlVpToken) {
+      if (query) {
+        return {
+          valid: false,
+          documents: [],
+          error: 'Invalid vp_token: not a DCQL response',
+        };
+      }
+      return this.#verifyPresentation(
+        vpToken,
+        submittedFormat(this.#presentationSubmission())
+      );
+    }
+
+    if (Object.keys(dcqlVpToken).length === 0) {
+      return {
+        valid: false,
+        documents: [],
+        error: 'Invalid vp_token: no presentations',
+      };
+    }
+    if (query) {
+      try {
+        matchDcqlResponse(query, dcqlVpToken);
+      } catch (error) {
+        return {
+          valid: false,
+          documents: [],
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    const credentials: CredentialDocuments[] = [];
+    const allIssuers: IssuerTrust[] = [];
+    const allRevocations: DocumentRevocation[] = [];
+    const allValidities: DocumentValidity[] = [];
+    let checksIssuers = false;
+    let checksRevocations = false;
+    let checksValidities = false;
+    let valid = true;
+    for (const [id, presentations] of Object.entries(dcqlVpToken)) {
+      const documents: VerifiedDocument[] = [];
+      for (const presentation of presentations) {
+        const verified = await this.#verifyPresentation(presentation);
+        valid = valid && verified.valid;
+        documents.push(...(verified.documents ?? []));
+        allIssuers.push(...(verified.issuers ?? []));
+        allRevocations.push(...(verified.revocations ?? []));
+        allValidities.push(...(verified.validities ?? []));
+        checksIssuers = checksIssuers || !!verified.issuers;
+        checksRevocations = checksRevocations || !!verified.revocations;
+        checksValidities = checksValidities || !!verified.validities;
+      }
+      credentials.push({ id, documents });
+    }
+
+    return {
+      valid,
+      documents: credentials.flatMap(({ documents }) => documents),
+      credentials,
+      ...(checksIssuers && { issuers: allIssuers }),
+      ...(checksRevocations && { revocations: allRevocations }),
+      ...(checksValidities && { validities: allValidities }),
+    };
+  }
+
+  /**
+   * Verifies one presentation with the verifier of its format
+   * @private
+   */
+  async #verifyPresentation(
+    presentation: string,
+    format?: string
+  ): Promise<CredentialVerification> {
+    const verifier =
+      format !== undefined
+        ? Object.prototype.hasOwnProperty.call(this.#verifiers, format)
+          ? this.#verifiers[format]
+          : undefined
+        : Object.values(this.#verifiers).find((candidate) =>
+            candidate.accepts(presentation)
+          );
+    if (!verifier) {
+      return { valid: false, documents: [] };
+    }
+    return verifier.verify(presentation);
+  }
+}
+
+/**
+ * Groups verified documents by the credential ids of a DCQL query
+ *
+ * Used for responses that carry a single DeviceResponse instead of
+ * presentations keyed by credential id (e.g. `org-iso-mdoc`): a document is
+ * assigned to the `mso_mdoc` credentials whose `doctype_value` matches.
+ *
+ * @param query - DCQL query of the request
+ * @param documents - Verified documents keyed by document type
+ * @returns Documents per credential id, omitting ids without documents
+ *
+ * @public
+ */
+export const groupDocumentsByDoctype = (
+  query: DcqlQuery,
+  documents: VerifiedDocument[] | undefined
+): CredentialDocuments[] =>
+  query.credentials
+    .filter(({ format }) => format === 'mso_mdoc')
+    .map(({ id, meta }) => ({
+      id,
+      documents: (documents ?? []).filter(
+        (document) =>
+          typeof meta?.doctype_value === 'string' &&
+          meta.doctype_value in document
+      ),
+    }))
+    .filter(({ documents }) => documents.length > 0);
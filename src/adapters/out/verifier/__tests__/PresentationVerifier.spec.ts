@@ -0,0 +1,538 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CredentialVerifiersOptions,
+  PresentationVerifier,
+  PresentationVerifierOptions,
+  createCredentialVerifiers,
+  groupDocumentsByDoctype,
+} from '..';
+import { CredentialVerifier } from '../../../../ports/out/verifier';
+import { StaticTrustStore } from '../../trust';
+import { RevocationChecker } from '../../revocation';
+import { issueSdJwtVc } from '../../sdjwt/__tests__/sdJwtVc';
+import {
+  createDidKeyPair,
+  issueJwtVc,
+  presentJwtVp,
+} from '../../w3c/__tests__/jwtVpJson';
+import { issueCertificates } from '../../trust/__tests__/certificates';
+import { issuerSignedDeviceResponse } from '../../mdoc/__tests__/issuerSignedDeviceResponse';
+
+const documentOf = (name: string) => ({
+  'org.iso.18013.5.1.mDL': { family_name: name },
+});
+
+const createVerifier = () => ({
+  verify: vi.fn(async (vpToken: string) => ({
+    valid: !vpToken.startsWith('invalid'),
+    documents: [documentOf(vpToken)],
+  })),
+});
+
+const createPresentationVerifier = (
+  mdocVerifyHandler: { verify: (vpToken: string) => Promise<unknown> },
+  {
+    presentationSubmission,
+    dcqlQuery,
+    ...options
+  }: CredentialVerifiersOptions & PresentationVerifierOptions = {}
+) =>
+  new PresentationVerifier(
+    createCredentialVerifiers(mdocVerifyHandler as any, options),
+    { presentationSubmission, dcqlQuery }
+  );
+
+describe('PresentationVerifier', () => {
+  it('should delegate Presentation Exchange tokens', async () => {
+    const inner = createVerifier();
+    const verifier = createPresentationVerifier(inner as any);
+
+    const result = await verifier.verify('device-response');
+
+    expect(inner.verify).toHaveBeenCalledWith('device-response');
+    expect(result).toEqual({
+      valid: true,
+      documents: [documentOf('device-response')],
+    });
+  });
+
+  it('should verify every presentation of a DCQL token', async () => {
+    const inner = createVerifier();
+    const verifier = createPresentationVerifier(inner as any);
+
+    const result = await verifier.verify({
+      mdl: ['first', 'second'],
+      pid: ['third'],
+    } as any);
+
+    expect(inner.verify).toHaveBeenCalledTimes(3);
+    expect(result.valid).toBe(true);
+    expect(result.documents).toEqual([
+      documentOf('first'),
+      documentOf('second'),
+      documentOf('third'),
+    ]);
+    expect(result.credentials).toEqual([
+      { id: 'mdl', documents: [documentOf('first'), documentOf('second')] },
+      { id: 'pid', documents: [documentOf('third')] },
+    ]);
+  });
+
+  it('should be invalid when any presentation is invalid', async () => {
+    const verifier = createPresentationVerifier(createVerifier() as any);
+
+    const result = await verifier.verify(
+      JSON.stringify({ mdl: ['valid'], pid: ['invalid'] })
+    );
+
+    expect(result.valid).toBe(false);
+  });
+
+  it('should reject a DCQL token without presentations', async () => {
+    const inner = createVerifier();
+    const verifier = createPresentationVerifier(inner as any);
+
+    const result = await verifier.verify('{}');
+
+    expect(result).toEqual({
+      valid: false,
+      documents: [],
+      error: 'Invalid vp_token: no presentations',
+    });
+    expect(inner.verify).not.toHaveBeenCalled();
+  });
+});
+
+describe('PresentationVerifier with the DCQL query of the transaction', () => {
+  const dcqlQuery = async () => ({
+    credentials: [
+      {
+        id: 'mdl',
+        format: 'mso_mdoc',
+        meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+      },
+      {
+        id: 'pid',
+        format: 'mso_mdoc',
+        meta: { doctype_value: 'eu.europa.ec.eudi.pid.1' },
+      },
+    ],
+  });
+
+  it('should verify a token answering the query', async () => {
+    const verifier = createPresentationVerifier(createVerifier() as any, {
+      dcqlQuery,
+    });
+
+    const result = await verifier.verify(
+      JSON.stringify({ mdl: ['first'], pid: ['second'] })
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.credentials).toEqual([
+      { id: 'mdl', documents: [documentOf('first')] },
+      { id: 'pid', documents: [documentOf('second')] },
+    ]);
+  });
+
+  it.each([
+    ['an empty token', '{}', 'Invalid vp_token: no presentations'],
+    [
+      'a token of undeclared credential ids',
+      JSON.stringify({ mdl: ['first'], other: ['second'] }),
+      'Invalid vp_token: undeclared credential id "other"',
+    ],
+    [
+      'a token missing a required credential',
+      JSON.stringify({ mdl: ['first'] }),
+      'Missing credentials for query: pid',
+    ],
+    [
+      'a Presentation Exchange token',
+      'device-response',
+      'Invalid vp_token: not a DCQL response',
+    ],
+  ])('should reject %s', async (_, vpToken, error) => {
+    const inner = createVerifier();
+    const verifier = createPresentationVerifier(inner as any, { dcqlQuery });
+
+    const result = await verifier.verify(vpToken);
+
+    expect(result).toEqual({ valid: false, documents: [], error });
+    expect(inner.verify).not.toHaveBeenCalled();
+  });
+});
+
+describe('groupDocumentsByDoctype', () => {
+  it('should assign documents to the credential ids of their doctype', () => {
+    const photoID = { 'org.iso.23220.photoID.1': { family_name: 'Photo' } };
+
+    const credentials = groupDocumentsByDoctype(
+      {
+        credentials: [
+          {
+            id: 'photo_id',
+            format: 'mso_mdoc',
+            meta: { doctype_value: 'org.iso.23220.photoID.1' },
+          },
+          {
+            id: 'mdl',
+            format: 'mso_mdoc',
+            meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+          },
+          {
+            id: 'pid',
+            format: 'mso_mdoc',
+            meta: { doctype_value: 'eu.europa.ec.eudi.pid.1' },
+          },
+        ],
+      },
+      [documentOf('Doe'), photoID]
+    );
+
+    expect(credentials).toEqual([
+      { id: 'photo_id', documents: [photoID] },
+      { id: 'mdl', documents: [documentOf('Doe')] },
+    ]);
+  });
+});
+
+describe('PresentationVerifier with a trust store', () => {
+  const mdl = 'org.iso.18013.5.1.mDL';
+
+  const setup = async () => {
+    const { root, documentSigner } = await issueCertificates(
+      'Example IACA',
+      new Date(Date.now() - 24 * 60 * 60 * 1000)
+    );
+    const inner = {
+      verify: vi.fn(async () => ({ valid: true, documents: [] })),
+    };
+    return {
+      root,
+      token: issuerSignedDeviceResponse(mdl, documentSigner),
+      inner,
+    };
+  };
+
+  it('should report trusted issuers', async () => {
+    const { root, token, inner } = await setup();
+    const verifier = createPresentationVerifier(inner as any, {
+      trustStore: new StaticTrustStore([{ certificate: root.toString('pem') }]),
+    });
+
+    const result = await verifier.verify({ mdl: [token] } as any);
+
+    expect(result.valid).toBe(true);
+    expect(result.issuers).toEqual([
+      { docType: mdl, issuingAuthority: 'Example IACA', trusted: true },
+    ]);
+  });
+
+  it('should be invalid when an issuer is not trusted', async () => {
+    const { token, inner } = await setup();
+    const verifier = createPresentationVerifier(inner as any, {
+      trustStore: new StaticTrustStore([]),
+    });
+
+    const result = await verifier.verify(token);
+
+    expect(result.valid).toBe(false);
+    expect(result.issuers?.[0].trusted).toBe(false);
+  });
+});
+
+describe('PresentationVerifier with a clock', () => {
+  const mdl = 'org.iso.18013.5.1.mDL';
+  const validityInfo = new Map([
+    ['signed', new Date('2025-01-01T00:00:00Z')],
+    ['validFrom', new Date('2025-01-01T00:00:00Z')],
+    ['validUntil', new Date('2026-01-01T00:00:00Z')],
+  ]);
+
+  const verifyAt = async (now: string) => {
+    const { documentSigner } = await issueCertificates('Example IACA');
+    const inner = {
+      verify: vi.fn(async () => ({
+        valid: true,
+        documents: [{ [mdl]: { family_name: 'Doe' } }],
+      })),
+    };
+    const verifier = createPresentationVerifier(inner as any, {
+      clock: { now: () => new Date(now) },
+    });
+    return verifier.verify({
+      mdl: [
+        issuerSignedDeviceResponse(
+          mdl,
+          documentSigner,
+          undefined,
+          validityInfo
+        ),
+      ],
+    } as any);
+  };
+
+  it('should report the validity of valid documents', async () => {
+    const result = await verifyAt('2025-06-01T00:00:00Z');
+
+    expect(result.valid).toBe(true);
+    expect(result.validities).toEqual([
+      {
+        docType: mdl,
+        valid: true,
+        signed: '2025-01-01T00:00:00.000Z',
+        validFrom: '2025-01-01T00:00:00.000Z',
+        validUntil: '2026-01-01T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('should be invalid when a document has expired', async () => {
+    const result = await verifyAt('2026-02-01T00:00:00Z');
+
+    expect(result.valid).toBe(false);
+    expect(result.validities?.[0].reason).toBe(
+      'Expired: valid until 2026-01-01T00:00:00.000Z'
+    );
+  });
+});
+
+describe('PresentationVerifier with a revocation checker', () => {
+  const mdl = 'org.iso.18013.5.1.mDL';
+  const status = new Map([
+    [
+      'status_list',
+      new Map<string, unknown>([
+        ['idx', 0],
+        ['uri', 'https://status.example.com/lists/1'],
+      ]),
+    ],
+  ]);
+
+  const setup = async (revoked: boolean) => {
+    const { root, documentSigner } = await issueCertificates(
+      'Example IACA',
+      new Date(Date.now() - 24 * 60 * 60 * 1000)
+    );
+    const checker = {
+      checkCertificate: vi.fn(async () => ({ revoked: false })),
+      checkStatus: vi.fn(async () =>
+        revoked
+          ? { revoked: true, reason: 'Credential is revoked' }
+          : { revoked: false }
+      ),
+    } as unknown as RevocationChecker;
+    const inner = {
+      verify: vi.fn(async () => ({ valid: true, documents: [] })),
+    };
+    const verifier = createPresentationVerifier(inner as any, {
+      trustStore: new StaticTrustStore([{ certificate: root.toString('pem') }]),
+      revocationChecker: checker,
+    });
+    return {
+      verifier,
+      inner,
+      checker,
+      root,
+      token: issuerSignedDeviceResponse(mdl, documentSigner, status),
+    };
+  };
+
+  it('should report credentials that are not revoked', async () => {
+    const { verifier, checker, root, token } = await setup(false);
+
+    const result = await verifier.verify(token);
+
+    expect(result.valid).toBe(true);
+    expect(result.revocations).toEqual([{ docType: mdl, revoked: false }]);
+    expect(checker.checkStatus).toHaveBeenCalledWith(
+      { idx: 0, uri: 'https://status.example.com/lists/1' },
+      [root.toString('pem')]
+    );
+  });
+
+  it('should not check revocation without a trust store', async () => {
+    const { inner, checker, token } = await setup(false);
+    const verifier = createPresentationVerifier(inner as any, {
+      revocationChecker: checker,
+    });
+
+    const result = await verifier.verify(token);
+
+    expect(result.valid).toBe(true);
+    expect(result.revocations).toBeUndefined();
+    expect(checker.checkStatus).not.toHaveBeenCalled();
+  });
+
+  it('should not check revocation of untrusted issuers', async () => {
+    const { inner, checker, token } = await setup(false);
+    const verifier = createPresentationVerifier(inner as any, {
+      trustStore: new StaticTrustStore([]),
+      revocationChecker: checker,
+    });
+
+    const result = await verifier.verify(token);
+
+    expect(result.valid).toBe(false);
+    expect(result.revocations).toBeUndefined();
+    expect(checker.checkStatus).not.toHaveBeenCalled();
+  });
+
+  it('should be invalid when a credential is revoked', async () => {
+    const { verifier, token } = await setup(true);
+
+    const result = await verifier.verify(token);
+
+    expect(result.valid).toBe(false);
+    expect(result.revocations).toEqual([
+      { docType: mdl, revoked: true, reason: 'Credential is revoked' },
+    ]);
+  });
+});
+
+describe('PresentationVerifier with SD-JWT VC presentations', () => {
+  it('should report the disclosed claims keyed by vct', async () => {
+    const { documentSigner, signingKey } = await issueCertificates();
+    const presentation = await issueSdJwtVc({
+      signer: { certificate: documentSigner, signingKey },
+      vct: 'urn:eudi:pid:1',
+      disclosed: { family_name: 'Yamada' },
+      nonce: 'nonce-1',
+    });
+    const inner = createVerifier();
+    const verifier = createPresentationVerifier(inner as any, {
+      sdJwtExpectations: async () => ({
+        nonce: 'nonce-1',
+        vctValues: ['urn:eudi:pid:1'],
+      }),
+    });
+
+    const result = await verifier.verify(
+      JSON.stringify({ pid: [presentation] })
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.credentials).toEqual([
+      {
+        id: 'pid',
+        documents: [{ 'urn:eudi:pid:1': { family_name: 'Yamada' } }],
+      },
+    ]);
+    expect(inner.verify).not.toHaveBeenCalled();
+  });
+
+  it('should be invalid when the key binding does not match', async () => {
+    const { documentSigner, signingKey } = await issueCertificates();
+    const presentation = await issueSdJwtVc({
+      signer: { certificate: documentSigner, signingKey },
+      nonce: 'nonce-1',
+    });
+    const verifier = createPresentationVerifier(createVerifier() as any, {
+      sdJwtExpectations: async () => ({ nonce: 'nonce-2' }),
+    });
+
+    const result = await verifier.verify(presentation);
+
+    expect(result.valid).toBe(false);
+    expect(result.documents).toEqual([]);
+  });
+});
+
+describe('PresentationVerifier with jwt_vp_json presentations', () => {
+  const presentation = async () => {
+    const issuer = await createDidKeyPair();
+    const holder = await createDidKeyPair();
+    return presentJwtVp({
+      holder,
+      credentials: [
+        await issueJwtVc({
+          issuer,
+          subject: holder.did,
+          claims: { familyName: 'Yamada' },
+        }),
+      ],
+      nonce: 'nonce-1',
+    });
+  };
+
+  it('should pick the verifier by the format of the presentation submission', async () => {
+    const inner = createVerifier();
+    const verifier = createPresentationVerifier(inner as any, {
+      jwtVpExpectations: async () => ({ nonce: 'nonce-1' }),
+      presentationSubmission: () => ({
+        definition_id: 'verifiable-id',
+        descriptor_map: [
+          { id: 'verifiable-id', format: 'jwt_vp_json', path: '$' },
+        ],
+      }),
+    });
+
+    const result = await verifier.verify(await presentation());
+
+    expect(result).toEqual({
+      valid: true,
+      documents: [{ VerifiableId: { familyName: 'Yamada' } }],
+    });
+    expect(inner.verify).not.toHaveBeenCalled();
+  });
+
+  it('should be invalid when the submission declares another format', async () => {
+    const inner = createVerifier();
+    const verifier = createPresentationVerifier(inner as any, {
+      presentationSubmission: () => ({
+        definition_id: 'verifiable-id',
+        descriptor_map: [{ id: 'verifiable-id', format: 'ldp_vp', path: '$' }],
+      }),
+    });
+
+    const result = await verifier.verify(await presentation());
+
+    expect(result.valid).toBe(false);
+    expect(inner.verify).not.toHaveBeenCalled();
+  });
+});
+
+describe('PresentationVerifier with another format', () => {
+  const fake = (): CredentialVerifier => ({
+    accepts: (presentation) => presentation.startsWith('fake:'),
+    verify: vi.fn(async (presentation: string) => ({
+      valid: true,
+      documents: [{ 'org.example.fake': { value: presentation } }],
+    })),
+  });
+
+  it('should hand the presentation to the verifier of its format', async () => {
+    const verifier = new PresentationVerifier(
+      { fake_vp: fake() },
+      {
+        presentationSubmission: () => ({
+          definition_id: 'fake',
+          descriptor_map: [{ id: 'fake', format: 'fake_vp', path: '$' }],
+        }),
+      }
+    );
+
+    const result = await verifier.verify('fake:1');
+
+    expect(result).toEqual({
+      valid: true,
+      documents: [{ 'org.example.fake': { value: 'fake:1' } }],
+    });
+  });
+
+  it('should pick the verifier accepting a DCQL presentation', async () => {
+    const inner = createVerifier();
+    const verifiers = {
+      fake_vp: fake(),
+      ...createCredentialVerifiers(inner as any),
+    };
+    const verifier = new PresentationVerifier(verifiers);
+
+    const result = await verifier.verify({ fake: ['fake:2'] } as any);
+
+    expect(result.valid).toBe(true);
+    expect(verifiers.fake_vp.verify).toHaveBeenCalledWith('fake:2');
+    expect(inner.verify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,2 @@
+export * from './PresentationVerifier';
+export * from './CredentialVerifiers';
@@ -0,0 +1,67 @@
+import {
+  CredentialVerification,
+  CredentialVerifier,
+} from '../../../ports/out/verifier';
+import {
+  JwtVpJsonExpectations,
+  JwtVpJsonVerifier,
+  isJwt,
+} from './JwtVpJsonVerifier';
+
+/**
+ * {@link CredentialVerifier} of W3C presentations (`jwt_vp_json` carrying
+ * `jwt_vc_json` credentials)
+ *
+ * Each credential is reported as a document keyed by its type. When the
+ * {@link JwtVpJsonVerifier} checks issuers against trusted DIDs, their trust
+ * status is reported in `issuers`.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new JwtVpCredentialVerifier(
+ *   new JwtVpJsonVerifier({ didResolver: new DidResolver(fetcher) }),
+ *   async () => ({ nonce, audience })
+ * );
+ * ```
+ *
+ * @public
+ */
+export class JwtVpCredentialVerifier implements CredentialVerifier {
+  readonly #verifier: JwtVpJsonVerifier;
+
+  readonly #expectations: () => Promise<JwtVpJsonExpectations>;
+
+  /**
+   * @param verifier - `jwt_vp_json` verifier
+   * @param expectations - Request parameters and credential types presentations are checked against; none when omitted
+   */
+  constructor(
+    verifier: JwtVpJsonVerifier = new JwtVpJsonVerifier(),
+    expectations: () => Promise<JwtVpJsonExpectations> = async () => ({})
+  ) {
+    this.#verifier = verifier;
+    this.#expectations = expectations;
+  }
+
+  accepts(presentation: string): boolean {
+    return isJwt(presentation);
+  }
+
+  async verify(presentation: string): Promise<CredentialVerification> {
+    const { valid, credentials = [] } = await this.#verifier.verify(
+      presentation,
+      await this.#expectations()
+    );
+    return {
+      valid,
+      documents: credentials.map(({ type, claims }) => ({ [type]: claims })),
+      ...(credentials.some(({ trusted }) => trusted !== undefined) && {
+        issuers: credentials.map(({ type, issuer, trusted }) => ({
+          docType: type,
+          issuingAuthority: issuer,
+          trusted: !!trusted,
+        })),
+      }),
+    };
+  }
+}
@@ -0,0 +1,347 @@
+import { decodeJwt, decodeProtectedHeader, importJWK, jwtVerify } from 'jose';
+import { z } from 'zod';
+import { DidResolver, VerificationRelationship } from '../did';
+
+/**
+ * Format identifier of W3C Verifiable Presentations signed as JWT
+ *
+ * @public
+ */
+export const JWT_VP_JSON_FORMAT = 'jwt_vp_json';
+
+/**
+ * Format identifier of W3C Verifiable Credentials signed as JWT
+ *
+ * @public
+ */
+export const JWT_VC_JSON_FORMAT = 'jwt_vc_json';
+
+/**
+ * Base type every W3C credential carries, too generic to name a credential
+ * @private
+ */
+const BASE_CREDENTIAL_TYPE = 'VerifiableCredential';
+
+/**
+ * Schema of the `vp` claim of a presentation JWT
+ * @private
+ */
+const presentationClaimsSchema = z.object({
+  iss: z.string().optional(),
+  nonce: z.string().optional(),
+  vp: z.object({
+    holder: z.string().optional(),
+    verifiableCredential: z.array(z.string()).min(1),
+  }),
+});
+
+/**
+ * Schema of the `vc` claim of a credential JWT
+ * @private
+ */
+const credentialClaimsSchema = z.object({
+  iss: z.string().optional(),
+  sub: z.string().optional(),
+  vc: z.object({
+    type: z.array(z.string()).min(1),
+    issuer: z
+      .union([z.string(), z.object({ id: z.string() }).passthrough()])
+      .optional(),
+    credentialSubject: z.record(z.unknown()),
+  }),
+});
+
+/**
+ * Checks a `jwt_vp_json` presentation must pass besides its signatures
+ *
+ * @public
+ */
+export interface JwtVpJsonExpectations {
+  /** `nonce` of the request; not checked when omitted */
+  nonce?: string;
+  /** Client identifier the presentation is intended for (`aud`); not checked when omitted */
+  audience?: string;
+  /** Accepted credential types; any type is accepted when omitted */
+  types?: string[];
+}
+
+/**
+ * Options of {@link JwtVpJsonVerifier}
+ *
+ * @public
+ */
+export interface JwtVpJsonVerifierOptions {
+  /** Resolver of holder and issuer DIDs; one resolving `did:key` and `did:jwk` only when omitted */
+  didResolver?: DidResolver;
+  /** DIDs of trusted issuers; issuers are not checked when omitted */
+  trustedIssuers?: string[];
+  /** Current time, for tests */
+  now?: () => Date;
+}
+
+/**
+ * Verified credential of a `jwt_vp_json` presentation
+ *
+ * @public
+ */
+export interface W3cCredential {
+  /** Most specific credential type */
+  type: string;
+  /** Issuer DID */
+  issuer: string;
+  /** Whether the issuer is trusted; only with trusted issuers */
+  trusted?: boolean;
+  /** Claims of the credential subject, without its `id` */
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Result of verifying a `jwt_vp_json` presentation
+ *
+ * @public
+ */
+export interface JwtVpJsonVerifyResult {
+  /** Whether the presentation is valid */
+  valid: boolean;
+  /** Holder DID */
+  holder?: string;
+  /** Credentials of the presentation, when valid */
+  credentials?: W3cCredential[];
+  /** Why the presentation is invalid */
+  error?: string;
+}
+
+/**
+ * Tells whether a presentation is a compact JWT
+ *
+ * @param presentation - Presentation taken from a VP token
+ *
+ * @public
+ */
+export const isJwt = (presentation: string): boolean =>
+  /^[\w-]+\.[\w-]+\.[\w-]+$/.test(presentation);
+
+/**
+ * Reads a list of trusted issuer DIDs
+ *
+ * @param value - JSON array or comma separated list of DIDs
+ * @returns The DIDs, or `undefined` when the list is empty
+ * @throws {Error} `Invalid trusted issuers ...` when an entry is not a DID
+ *
+ * @public
+ */
+export const parseTrustedIssuers = (value?: string): string[] | undefined => {
+  if (!value || !value.trim()) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  const items: unknown = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split(',');
+  if (!Array.isArray(items)) {
+    throw new Error(`Invalid trusted issuers: ${value}`);
+  }
+  const dids = items.map((item) => String(item).trim()).filter(Boolean);
+  const invalid = dids.find((did) => !did.startsWith('did:'));
+  if (invalid) {
+    throw new Error(`Invalid trusted issuers: ${invalid} is not a DID`);
+  }
+  return dids;
+};
+
+/**
+ * Tells whether a key id belongs to a DID
+ * @private
+ */
+const belongsTo = (kid: string, did: string) =>
+  kid === did || kid.startsWith(`${did}#`);
+
+/**
+ * Verifier of W3C Verifiable Presentations signed as JWT (`jwt_vp_json`)
+ * carrying credentials signed as JWT (`jwt_vc_json`)
+ *
+ * - The presentation must be signed with an `authentication` key of the
+ *   holder DID (`iss`) and, when expected, be bound to the `nonce` and
+ *   audience of the request
+ * - Every credential must be signed with an `assertionMethod` key of its
+ *   issuer DID, be within its validity period and name the holder as subject
+ * - With trusted issuers, every issuer must be one of them
+ * - The type of every credential must be one of the expected types, when given
+ *
+ * Keys are looked up with the `kid` header, or the DID itself when the
+ * header is missing.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new JwtVpJsonVerifier({
+ *   didResolver: new DidResolver(fetcher),
+ * });
+ * const { valid, credentials } = await verifier.verify(presentation, {
+ *   nonce,
+ *   audience: 'x509_san_dns:verifier.example.com',
+ * });
+ * ```
+ *
+ * @public
+ */
+export class JwtVpJsonVerifier {
+  readonly #didResolver: DidResolver;
+  readonly #trustedIssuers: string[] | undefined;
+  readonly #now: () => Date;
+
+  /**
+   * @param options - DID resolver, trusted issuers and clock
+   */
+  constructor({
+    didResolver = new DidResolver(),
+    trustedIssuers,
+    now = () => new Date(),
+  }: JwtVpJsonVerifierOptions = {}) {
+    this.#didResolver = didResolver;
+    this.#trustedIssuers = trustedIssuers;
+    this.#now = now;
+  }
+
+  /**
+   * Verifies a `jwt_vp_json` presentation
+   *
+   * @param presentation - Presentation JWT in compact form
+   * @param expectations - Request parameters and credential types to check
+   * @returns The verification result; `error` tells why an invalid presentation was rejected
+   */
+  async verify(
+    presentation: string,
+    { nonce, audience, types }: JwtVpJsonExpectations = {}
+  ): Promise<JwtVpJsonVerifyResult> {
+    let holder: string | undefined;
+    try {
+      const claims = this.#decode(presentation, presentationClaimsSchema, 'VP');
+      holder = claims.iss ?? claims.vp.holder;
+      if (!holder?.startsWith('did:')) {
+        throw new Error('Invalid VP: holder is not a DID');
+      }
+
+      await this.#verifySignature(
+        presentation,
+        holder,
+        'authentication',
+        'VP',
+        {
+          ...(audience !== undefined && { audience }),
+        }
+      );
+      if (nonce !== undefined && claims.nonce !== nonce) {
+        throw new Error('Invalid VP: nonce does not match the request');
+      }
+
+      const credentials: W3cCredential[] = [];
+      for (const credential of claims.vp.verifiableCredential) {
+        credentials.push(await this.#verifyCredential(credential, holder));
+      }
+      const unexpected = credentials.find(
+        ({ type }) => types && !types.includes(type)
+      );
+      if (unexpected) {
+        throw new Error(`Invalid VC: unexpected type ${unexpected.type}`);
+      }
+      return { valid: true, holder, credentials };
+    } catch (error) {
+      return {
+        valid: false,
+        ...(holder && { holder }),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Verifies a `jwt_vc_json` credential of the presentation
+   * @private
+   */
+  async #verifyCredential(
+    credential: string,
+    holder: string
+  ): Promise<W3cCredential> {
+    const { iss, sub, vc } = this.#decode(
+      credential,
+      credentialClaimsSchema,
+      'VC'
+    );
+    const issuer =
+      iss ?? (typeof vc.issuer === 'string' ? vc.issuer : vc.issuer?.id);
+    if (!issuer?.startsWith('did:')) {
+      throw new Error('Invalid VC: issuer is not a DID');
+    }
+    const trusted = this.#trustedIssuers?.includes(issuer);
+    if (trusted === false) {
+      throw new Error(`Issuer is not trusted: ${issuer}`);
+    }
+
+    await this.#verifySignature(credential, issuer, 'assertionMethod', 'VC');
+    const { id: subject, ...claims } = vc.credentialSubject;
+    if ((sub ?? subject) !== holder) {
+      throw new Error('Invalid VC: credential subject is not the holder');
+    }
+
+    const specificTypes = vc.type.filter(
+      (type) => type !== BASE_CREDENTIAL_TYPE
+    );
+    return {
+      type: specificTypes[specificTypes.length - 1] ?? BASE_CREDENTIAL_TYPE,
+      issuer,
+      ...(trusted !== undefined && { trusted }),
+      claims,
+    };
+  }
+
+  /**
+   * Verifies a JWT with the key of a DID, identified by the `kid` header
+   * @private
+   */
+  async #verifySignature(
+    jwt: string,
+    did: string,
+    relationship: VerificationRelationship,
+    label: 'VP' | 'VC',
+    options: { audience?: string } = {}
+  ): Promise<void> {
+    const { alg, kid = did } = decodeProtectedHeader(jwt);
+    if (!alg || alg === 'none') {
+      throw new Error(`Invalid ${label}: missing alg`);
+    }
+    if (!belongsTo(kid, did)) {
+      throw new Error(`Invalid ${label}: kid does not belong to ${did}`);
+    }
+    try {
+      const key = await importJWK(
+        await this.#didResolver.resolveKey(kid, relationship),
+        alg
+      );
+      await jwtVerify(jwt, key, { currentDate: this.#now(), ...options });
+    } catch (error) {
+      throw new Error(
+        `Invalid ${label}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Decodes the claims of a JWT without verifying it
+   * @private
+   */
+  #decode<T>(jwt: string, schema: z.ZodType<T>, label: 'VP' | 'VC'): T {
+    let payload: unknown;
+    try {
+      payload = decodeJwt(jwt);
+    } catch {
+      throw new Error(`Invalid ${label}: not a JWT`);
+    }
+    const claims = schema.safeParse(payload);
+    if (!claims.success) {
+      throw new Error(`Invalid ${label}: missing ${label.toLowerCase()} claim`);
+    }
+    return claims.data;
+  }
+}
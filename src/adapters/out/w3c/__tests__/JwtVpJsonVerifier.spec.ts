@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { DidResolver } from '../../did';
+import { stubFetcher } from '../../did/__tests__/dids';
+import { JwtVpJsonVerifier, parseTrustedIssuers } from '../JwtVpJsonVerifier';
+import { createDidKeyPair, issueJwtVc, presentJwtVp } from './jwtVpJson';
+
+const audience = 'x509_san_dns:verifier.example.com';
+
+const setup = async () => {
+  const issuer = await createDidKeyPair('did:web:issuer.example.com');
+  const holder = await createDidKeyPair();
+  const didResolver = new DidResolver(
+    stubFetcher({
+      'https://issuer.example.com/.well-known/did.json': {
+        id: issuer.did,
+        verificationMethod: [
+          {
+            id: issuer.kid,
+            type: 'JsonWebKey2020',
+            controller: issuer.did,
+            publicKeyJwk: issuer.publicJwk,
+          },
+        ],
+        assertionMethod: [issuer.kid],
+      },
+    })
+  );
+  const credential = await issueJwtVc({
+    issuer,
+    subject: holder.did,
+    claims: { familyName: 'Yamada', dateOfBirth: '2000-01-01' },
+  });
+  return { issuer, holder, didResolver, credential };
+};
+
+describe('JwtVpJsonVerifier', () => {
+  it('should verify a presentation and return the credential claims', async () => {
+    const { issuer, holder, didResolver, credential } = await setup();
+    const presentation = await presentJwtVp({
+      holder,
+      credentials: [credential],
+      nonce: 'n-0S6_WzA2Mj',
+    });
+
+    const result = await new JwtVpJsonVerifier({ didResolver }).verify(
+      presentation,
+      { nonce: 'n-0S6_WzA2Mj', audience, types: ['VerifiableId'] }
+    );
+
+    expect(result).toEqual({
+      valid: true,
+      holder: holder.did,
+      credentials: [
+        {
+          type: 'VerifiableId',
+          issuer: issuer.did,
+          claims: { familyName: 'Yamada', dateOfBirth: '2000-01-01' },
+        },
+      ],
+    });
+  });
+
+  it('should reject presentations bound to another request', async () => {
+    const { holder, didResolver, credential } = await setup();
+    const presentation = await presentJwtVp({
+      holder,
+      credentials: [credential],
+    });
+    const verifier = new JwtVpJsonVerifier({ didResolver });
+
+    const wrongNonce = await verifier.verify(presentation, { nonce: 'other' });
+    const wrongAudience = await verifier.verify(presentation, {
+      audience: 'x509_san_dns:other.example.com',
+    });
+
+    expect(wrongNonce.valid).toBe(false);
+    expect(wrongNonce.error).toContain('nonce');
+    expect(wrongAudience.valid).toBe(false);
+    expect(wrongAudience.error).toContain('Invalid VP');
+  });
+
+  it('should reject credentials of another holder', async () => {
+    const { issuer, didResolver } = await setup();
+    const holder = await createDidKeyPair();
+    const other = await createDidKeyPair();
+    const presentation = await presentJwtVp({
+      holder,
+      credentials: [await issueJwtVc({ issuer, subject: other.did })],
+    });
+
+    const result = await new JwtVpJsonVerifier({ didResolver }).verify(
+      presentation
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('not the holder');
+  });
+
+  it('should reject expired credentials and forged signatures', async () => {
+    const { issuer, holder, didResolver } = await setup();
+    const forger = await createDidKeyPair(issuer.did);
+    const verifier = new JwtVpJsonVerifier({ didResolver });
+
+    const expired = await verifier.verify(
+      await presentJwtVp({
+        holder,
+        credentials: [
+          await issueJwtVc({ issuer, subject: holder.did, expiresIn: '-1s' }),
+        ],
+      })
+    );
+    const forged = await verifier.verify(
+      await presentJwtVp({
+        holder,
+        credentials: [
+          await issueJwtVc({ issuer: forger, subject: holder.did }),
+        ],
+      })
+    );
+
+    expect(expired.valid).toBe(false);
+    expect(expired.error).toContain('Invalid VC');
+    expect(forged.valid).toBe(false);
+    expect(forged.error).toContain('signature verification failed');
+  });
+
+  it('should only accept trusted issuers when they are configured', async () => {
+    const { issuer, holder, didResolver, credential } = await setup();
+    const presentation = await presentJwtVp({
+      holder,
+      credentials: [credential],
+    });
+
+    const trusted = await new JwtVpJsonVerifier({
+      didResolver,
+      trustedIssuers: [issuer.did],
+    }).verify(presentation);
+    const untrusted = await new JwtVpJsonVerifier({
+      didResolver,
+      trustedIssuers: ['did:web:other.example.com'],
+    }).verify(presentation);
+
+    expect(trusted.valid).toBe(true);
+    expect(trusted.credentials?.[0].trusted).toBe(true);
+    expect(untrusted.valid).toBe(false);
+    expect(untrusted.error).toContain('Issuer is not trusted');
+  });
+});
+
+describe('parseTrustedIssuers', () => {
+  it('should read JSON arrays and comma separated lists of DIDs', () => {
+    expect(parseTrustedIssuers(undefined)).toBeUndefined();
+    expect(parseTrustedIssuers('did:web:a.example, did:web:b.example')).toEqual(
+      ['did:web:a.example', 'did:web:b.example']
+    );
+    expect(parseTrustedIssuers('["did:web:a.example"]')).toEqual([
+      'did:web:a.example',
+    ]);
+    expect(() => parseTrustedIssuers('https://a.example')).toThrow(
+      'is not a DID'
+    );
+  });
+});
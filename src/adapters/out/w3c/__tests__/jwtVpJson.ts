@@ -0,0 +1,85 @@
+import { JWK, SignJWT, exportJWK, generateKeyPair } from 'jose';
+import { didJwk } from '../../did/__tests__/dids';
+
+/**
+ * Key pair identified by a DID
+ */
+export interface DidKeyPair {
+  did: string;
+  kid: string;
+  publicJwk: JWK;
+  privateKey: CryptoKey;
+}
+
+/**
+ * Creates a key pair identified by its `did:jwk`, or by the given DID
+ */
+export const createDidKeyPair = async (did?: string): Promise<DidKeyPair> => {
+  const { publicKey, privateKey } = await generateKeyPair<CryptoKey>('ES256');
+  const publicJwk = await exportJWK(publicKey);
+  const id = did ?? didJwk(publicJwk);
+  return {
+    did: id,
+    kid: `${id}#${did ? 'key-1' : '0'}`,
+    publicJwk,
+    privateKey,
+  };
+};
+
+/**
+ * Issues a `jwt_vc_json` credential
+ */
+export const issueJwtVc = async ({
+  issuer,
+  subject,
+  type = 'VerifiableId',
+  claims = {},
+  expiresIn = '1y',
+}: {
+  issuer: DidKeyPair;
+  subject: string;
+  type?: string;
+  claims?: Record<string, unknown>;
+  expiresIn?: string | number;
+}) =>
+  new SignJWT({
+    vc: {
+      '@context': ['https://www.w3.org/2018/credentials/v1'],
+      type: ['VerifiableCredential', type],
+      credentialSubject: { id: subject, ...claims },
+    },
+  })
+    .setProtectedHeader({ alg: 'ES256', typ: 'JWT', kid: issuer.kid })
+    .setIssuer(issuer.did)
+    .setSubject(subject)
+    .setNotBefore('-1m')
+    .setExpirationTime(expiresIn)
+    .sign(issuer.privateKey);
+
+/**
+ * Presents credentials as a `jwt_vp_json` presentation
+ */
+export const presentJwtVp = async ({
+  holder,
+  credentials,
+  nonce = 'nonce',
+  audience = 'x509_san_dns:verifier.example.com',
+}: {
+  holder: DidKeyPair;
+  credentials: string[];
+  nonce?: string;
+  audience?: string;
+}) =>
+  new SignJWT({
+    nonce,
+    vp: {
+      '@context': ['https://www.w3.org/2018/credentials/v1'],
+      type: ['VerifiablePresentation'],
+      verifiableCredential: credentials,
+    },
+  })
+    .setProtectedHeader({ alg: 'ES256', typ: 'JWT', kid: holder.kid })
+    .setIssuer(holder.did)
+    .setAudience(audience)
+    .setIssuedAt()
+    .sign(holder.privateKey);
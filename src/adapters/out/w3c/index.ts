@@ -0,0 +1,2 @@
+export * from './JwtVpJsonVerifier';
+export * from './JwtVpCredentialVerifier';
@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { handle } from 'hono/aws-lambda';
 import { FrontendApi } from './adapters/input/FrontendApi';
+import { TransactionApi } from './adapters/input/TransactionApi';
 import { ConfigurationImpl, getDI } from './di/aws-lambda';
 import {
   sessionMiddleware,
@@ -11,11 +12,14 @@ import { secretsManagerMiddleware } from '@squilla/hono-aws-middlewares/secrets-
 import { AwsEnv } from './env';
 
 const configuration = new ConfigurationImpl();
+const transactionApi = new TransactionApi(getDI);
+
 const api = new FrontendApi(
   configuration.homeViewPath(),
   configuration.initTransactionViewPath(),
   configuration.resultViewPath(),
   getDI,
+  transactionApi.paths.transactions,
 );
 
 const app = new Hono<AwsEnv>()
@@ -24,6 +28,7 @@ const app = new Hono<AwsEnv>()
   .use(setupLambdaMiddleware)
   .use(sessionMiddleware)
   .get('/', (c) => c.redirect(`${c.env.PUBLIC_URL}${configuration.homeViewPath()}`))
+  .route('/', transactionApi.route)
   .route('/', api.route);
 
 export const handler = handle(app);
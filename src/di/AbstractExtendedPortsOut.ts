@@ -1,11 +1,573 @@
 import {
   AbstractPortsOut,
+  Fetcher,
   GeneratePresentationDefinition,
+  GenerateWalletResponseRedirectUriTemplate,
+  Session,
+  SessionSchemas,
 } from '@vecrea/oid4vc-verifier-frontend-core';
-import { DigitalCredentialsSession } from '../ports/out/session';
+import {
+  DigitalCredentialsSession,
+  SessionRotator,
+  TransactionHandleStore,
+} from '../ports/out/session';
+import {
+  PresentationDefinitionRegistry,
+  ageVerificationPresentationDefinition,
+} from '../adapters/out/prex';
+import {
+  DcqlQuery,
+  DcqlQueryRegistry,
+  dcqlQueryVctValues,
+} from '../adapters/out/dcql';
+import { RequestObjectSigner } from '../adapters/out/jose';
+import { TrustStore } from '../ports/out/trust';
+import { RawContentFetcher } from '../adapters/out/http';
+import { RevocationChecker } from '../adapters/out/revocation';
+import { createMdocVerifyHandler } from '../adapters/out/mdoc/MdocVerifier';
+import {
+  NamespaceSchemaRegistry,
+  defaultNamespaceSchemaRegistry,
+} from '../adapters/out/mdoc/namespaces';
+import {
+  CredentialVerifiersOptions,
+  PresentationVerifier,
+  createCredentialVerifiers,
+} from '../adapters/out/verifier';
+import { CredentialVerifiers } from '../ports/out/verifier';
+import { SdJwtVcVerifier } from '../adapters/out/sdjwt';
+import { JwtVpJsonVerifier } from '../adapters/out/w3c';
+import { DidResolver } from '../adapters/out/did';
+import { VerificationPolicy } from '../adapters/out/policy';
+import { systemClock } from '../adapters/out/clock';
+import { Clock } from '../ports/out/clock';
+import {
+  TRANSACTION_HANDLE_PARAM,
+  TransactionRecord,
+  generateTransactionHandle,
+} from '../adapters/out/transaction';
+import {
+  SubmittedPresentations,
+  readPresentationSubmission,
+} from '../adapters/out/prex';
+
+/**
+ * JARM verification function of the core ports
+ * @private
+ */
+type VerifyJarmJwt = ReturnType<AbstractPortsOut<never>['verifyJarmJwt']>;
+
+/**
+ * Session keys kept next to those of the core services
+ * @private
+ */
+type TransactionSessionSchemas = SessionSchemas & {
+  /** Registry key the transaction was initiated with */
+  presentationDefinitionKey?: string;
+  /** SD-JWT VC credential types (`vct`) the transaction requested */
+  vctValues?: string[];
+  /** DCQL query the transaction requested, when it did not use Presentation Exchange */
+  dcqlQuery?: DcqlQuery;
+  /** Time the transaction was initiated, in milliseconds since the epoch */
+  transactionStartedAt?: number;
+  /** Outcome of the transaction once the wallet responded */
+  transactionState?: TransactionRecord['state'];
+  /** Whether the wallet of the transaction answers with a redirect */
+  transactionSameDevice?: boolean;
+  /** Last time the backend was asked whether the wallet responded */
+  transactionProbedAt?: number;
+};
 
 export abstract class AbstractExtendedPortsOut<
   T extends Record<string, GeneratePresentationDefinition>
 > extends AbstractPortsOut<T> {
+  /**
+   * Presentation submission of the wallet response verified last
+   * @private
+   */
+  #presentationSubmission: SubmittedPresentations | undefined;
+
+  /**
+   * Claims selected for the presentation definition of the current transaction
+   * @private
+   */
+  #selectedClaims: string[] | undefined;
+
+  /**
+   * Age the current transaction only asks to attest
+   * @private
+   */
+  #ageOver: number | undefined;
+
+  /**
+   * DCQL query given inline for the current transaction
+   * @private
+   */
+  #inlineDcqlQuery: DcqlQuery | undefined;
+
+  /**
+   * Handle issued in the wallet response redirect of the current transaction
+   * @private
+   */
+  #transactionHandle: string | undefined;
+
   abstract dcSession(): DigitalCredentialsSession;
+
+  /**
+   * Id of the session of the request
+   */
+  abstract sessionId(): string;
+
+  /**
+   * Store of the sessions transaction handles were issued for
+   */
+  abstract transactionHandles(): TransactionHandleStore;
+
+  /**
+   * Transaction handle the session of the request was found with, when a
+   * wallet response redirect was served from the session of its transaction
+   */
+  abstract requestTransactionHandle(): string | undefined;
+
+  /**
+   * Rotation of the session id of the request
+   *
+   * Controllers rotate the id when a transaction starts and once its result
+   * was retrieved.
+   */
+  abstract sessionRotator(): SessionRotator;
+
+  abstract presentationDefinitionRegistry(): PresentationDefinitionRegistry;
+
+  abstract dcqlQueryRegistry(): DcqlQueryRegistry;
+
+  /**
+   * Signer for Digital Credentials API request objects
+   *
+   * @returns The signer, or `undefined` when requests are sent unsigned
+   */
+  abstract requestObjectSigner(): RequestObjectSigner | undefined;
+
+  /**
+   * Trusted IACA roots for mdoc issuer verification
+   *
+   * @returns The trust store, or `undefined` when issuers are not checked
+   */
+  abstract trustStore(): TrustStore | undefined;
+
+  /**
+   * Revocation checker for mdoc issuer certificates and credentials
+   *
+   * Revocation data is only fetched for issuers anchored to
+   * {@link trustStore}, so no checker is needed without one.
+   *
+   * @returns The checker, or `undefined` when revocation is not checked
+   */
+  abstract revocationChecker(): RevocationChecker | undefined;
+
+  /**
+   * DIDs of trusted issuers of W3C credentials
+   *
+   * @returns The DIDs, or `undefined` when issuers are not checked
+   */
+  abstract trustedDidIssuers(): string[] | undefined;
+
+  /**
+   * Clock skew tolerated when checking validity periods
+   *
+   * @returns The skew in milliseconds
+   */
+  abstract clockSkew(): number;
+
+  /**
+   * Time a transaction waits for the wallet before it expires
+   *
+   * @returns The timeout in milliseconds
+   */
+  abstract transactionTimeout(): number;
+
+  /**
+   * Clock validity periods of credentials are checked against
+   *
+   * Override to verify at a fixed time, e.g. in tests.
+   */
+  clock(): Clock {
+    return systemClock;
+  }
+
+  /**
+   * Wallet response redirect URI template of same-device transactions
+   *
+   * Keeps the path of the public URL and carries, next to the response code,
+   * a transaction handle the result can be retrieved with when the redirect
+   * opens in a browser without the session cookie. The handle is bound to the
+   * session by {@link startTransaction}.
+   */
+  generateWalletResponseRedirectUriTemplate(): GenerateWalletResponseRedirectUriTemplate {
+    return (baseUrl, path, placeholder) => {
+      this.#transactionHandle = generateTransactionHandle();
+      const url = new URL(`${baseUrl}${path}`);
+      url.searchParams.set(TRANSACTION_HANDLE_PARAM, this.#transactionHandle);
+      url.searchParams.set('response_code', placeholder);
+      return decodeURIComponent(url.toString());
+    };
+  }
+
+  /**
+   * Schemas of the mdoc namespaces verified documents are validated and
+   * labelled with
+   *
+   * Override to register the namespaces of further document types.
+   */
+  namespaceSchemaRegistry(): NamespaceSchemaRegistry {
+    return defaultNamespaceSchemaRegistry;
+  }
+
+  /**
+   * Credential verifiers keyed by format
+   *
+   * mdoc and SD-JWT VC issuers are anchored to {@link trustStore}; W3C
+   * credential issuers are checked against {@link trustedDidIssuers}. Override
+   * to add a format or to swap a verifier, e.g. for a fake in tests.
+   *
+   * @param options - Request parameters presentations are checked against
+   * @returns The verifiers of every supported format
+   */
+  credentialVerifiers(
+    options: Pick<
+      CredentialVerifiersOptions,
+      'sdJwtExpectations' | 'jwtVpExpectations'
+    > = {}
+  ): CredentialVerifiers {
+    const trustStore = this.trustStore();
+    const clock = this.clock();
+    const clockSkew = this.clockSkew();
+    const mdocVerifyHandler = createMdocVerifyHandler(
+      this.namespaceSchemaRegistry()
+    );
+    return createCredentialVerifiers(mdocVerifyHandler, {
+      trustStore,
+      revocationChecker: this.revocationChecker(),
+      clock,
+      clockSkew,
+      sdJwtVerifier: new SdJwtVcVerifier({
+        trustStore,
+        fetcher: this.issuerMetadataFetcher(),
+        now: () => clock.now(),
+        clockSkew,
+      }),
+      jwtVpVerifier: new JwtVpJsonVerifier({
+        didResolver: new DidResolver(this.issuerMetadataFetcher()),
+        trustedIssuers: this.trustedDidIssuers(),
+      }),
+      ...options,
+    });
+  }
+
+  /**
+   * Verifier of VP tokens returned by the Digital Credentials API
+   *
+   * @param presentedAt - When a stored VP token was received; its Key Binding
+   *   JWTs must have been recent then rather than now
+   * @returns The verifier
+   */
+  presentationVerifier(presentedAt?: Date): PresentationVerifier {
+    return new PresentationVerifier(
+      this.credentialVerifiers(
+        presentedAt && { sdJwtExpectations: async () => ({ presentedAt }) }
+      )
+    );
+  }
+
+  /**
+   * Verifier of VP tokens returned through the backend
+   *
+   * SD-JWT VC and `jwt_vp_json` presentations must carry the nonce of the
+   * transaction kept in the session and name the verifier as audience, and
+   * SD-JWT VCs must have a type requested by the transaction, as kept in the
+   * session by {@link startTransaction}. Tokens of a DCQL transaction must
+   * answer the query kept there. The verifier of each presentation is
+   * picked by the format of the presentation submission of the response.
+   *
+   * @param audience - Client id the backend presents the verifier with to wallets
+   * @returns The verifier
+   */
+  protected walletResponseVerifier(
+    audience: string | undefined
+  ): PresentationVerifier {
+    const request = async () => {
+      if (!audience) {
+        throw new Error(
+          'Missing VERIFIER_CLIENT_ID for SD-JWT VC and jwt_vp_json presentations'
+        );
+      }
+      const nonce = await this.session().get('nonce');
+      if (!nonce) {
+        throw new Error('Nonce not found in session');
+      }
+      return { nonce: String(nonce), audience };
+    };
+    return new PresentationVerifier(
+      this.credentialVerifiers({
+        sdJwtExpectations: async () => ({
+          ...(await request()),
+          vctValues: (await this.#transactionSession().get('vctValues')) ?? [],
+        }),
+        jwtVpExpectations: request,
+      }),
+      {
+        presentationSubmission: () => this.#presentationSubmission,
+        dcqlQuery: () => this.#transactionSession().get('dcqlQuery'),
+      }
+    );
+  }
+
+  /**
+   * JARM verification of the core GetWalletResponse service
+   *
+   * Keeps the presentation submission of the verified response, which the
+   * core service does not hand on to the VP token verifier.
+   */
+  verifyJarmJwt(): VerifyJarmJwt {
+    const verify = super.verifyJarmJwt();
+    return async (...args: Parameters<VerifyJarmJwt>) => {
+      const result = await verify(...args);
+      this.#presentationSubmission = result.isSuccess()
+        ? readPresentationSubmission(result.value.presentationSubmission)
+        : undefined;
+      return result;
+    };
+  }
+
+  /**
+   * Narrows the presentation definition of the current transaction
+   *
+   * @param claims - Ids of the selectable claims of the registry entry to request
+   */
+  selectClaims(claims: string[]): void {
+    this.#selectedClaims = claims;
+  }
+
+  /**
+   * Narrows the current transaction to an age verification
+   *
+   * Only the `age_over_NN` attestation of an mDL is requested, whichever
+   * key the transaction is initiated with.
+   *
+   * @param age - Age to attest
+   */
+  requestAgeOver(age: number): void {
+    this.#ageOver = age;
+  }
+
+  /**
+   * Requests a DCQL query given inline instead of a registry entry for the
+   * current transaction
+   *
+   * @param query - DCQL query sent to the backend
+   */
+  requestDcqlQuery(query: DcqlQuery): void {
+    this.#inlineDcqlQuery = query;
+  }
+
+  /**
+   * Core session, typed with the keys kept next to those of the core
+   *
+   * Session stores persist the session as a whole, so further keys survive
+   * alongside the core ones.
+   * @private
+   */
+  #transactionSession(): Session<TransactionSessionSchemas> {
+    return this.session() as unknown as Session<TransactionSessionSchemas>;
+  }
+
+  /**
+   * Records the start of the current transaction in the session
+   *
+   * Keeps the registry key, so that its policy can be evaluated when the
+   * wallet response comes back, the SD-JWT VC types the transaction
+   * requested, which returned SD-JWT VCs must have, the DCQL query the VP
+   * token must answer, and the start time the
+   * status of the transaction is followed from. The transaction handle of a
+   * same-device transaction is bound to the session, and the transaction is
+   * marked as same-device.
+   *
+   * @param key - Registry key the transaction was initiated with, or
+   *   `undefined` for a transaction of an inline DCQL query
+   */
+  async startTransaction(key: string | undefined): Promise<void> {
+    const session = this.#transactionSession();
+    if (key === undefined) {
+      await session.delete('presentationDefinitionKey');
+    } else {
+      await session.set('presentationDefinitionKey', key);
+    }
+    await session.set('vctValues', this.#requestedVctValues(key));
+    const dcqlQuery =
+      key === undefined ? this.#inlineDcqlQuery : this.dcqlQuery(key);
+    if (dcqlQuery) {
+      await session.set('dcqlQuery', dcqlQuery);
+    } else {
+      await session.delete('dcqlQuery');
+    }
+    await session.delete('transactionState');
+    await session.delete('transactionProbedAt');
+    await session.set('transactionStartedAt', this.clock().now().getTime());
+    await session.set(
+      'transactionSameDevice',
+      this.#transactionHandle !== undefined
+    );
+
+    if (this.#transactionHandle) {
+      await this.transactionHandles().bind(
+        this.#transactionHandle,
+        this.sessionId()
+      );
+    }
+  }
+
+  /**
+   * SD-JWT VC credential types (`vct`) the current transaction requests
+   * @private
+   */
+  #requestedVctValues(key: string | undefined): string[] {
+    if (this.#ageOver !== undefined) {
+      return [];
+    }
+    if (this.#inlineDcqlQuery) {
+      return dcqlQueryVctValues(this.#inlineDcqlQuery);
+    }
+    return key === undefined
+      ? []
+      : this.presentationDefinitionRegistry().vctValues(key);
+  }
+
+  /**
+   * Transaction kept in the session
+   *
+   * @returns The transaction, or `undefined` when none was initiated
+   */
+  async transactionRecord(): Promise<TransactionRecord | undefined> {
+    const {
+      presentationId,
+      transactionStartedAt,
+      transactionState,
+      transactionSameDevice,
+      transactionProbedAt,
+    } = await this.#transactionSession().getBatch(
+      'presentationId',
+      'transactionStartedAt',
+      'transactionState',
+      'transactionSameDevice',
+      'transactionProbedAt'
+    );
+    if (!presentationId || typeof transactionStartedAt !== 'number') {
+      return undefined;
+    }
+    return {
+      transactionId: String(presentationId),
+      startedAt: transactionStartedAt,
+      ...(transactionState && { state: transactionState }),
+      ...(transactionSameDevice && { sameDevice: true }),
+      ...(typeof transactionProbedAt === 'number' && {
+        probedAt: transactionProbedAt,
+      }),
+    };
+  }
+
+  /**
+   * Records the outcome of the transaction kept in the session
+   *
+   * @param state - `completed` once the wallet responded, `failed` when its
+   *   response could not be verified
+   */
+  async saveTransactionState(state: 'completed' | 'failed'): Promise<void> {
+    await this.#transactionSession().set('transactionState', state);
+  }
+
+  /**
+   * Records when the backend was last asked whether the wallet of the
+   * transaction kept in the session responded
+   *
+   * @param time - Time of the request, in milliseconds since the epoch
+   */
+  async saveTransactionProbe(time: number): Promise<void> {
+    await this.#transactionSession().set('transactionProbedAt', time);
+  }
+
+  /**
+   * Id of the transaction kept in the session
+   *
+   * @returns The presentation id the backend assigned to the transaction,
+   *   or `undefined` when no transaction was initiated
+   */
+  async transactionId(): Promise<string | undefined> {
+    const presentationId = await this.#transactionSession().get(
+      'presentationId'
+    );
+    return presentationId ? String(presentationId) : undefined;
+  }
+
+  /**
+   * Verification policy of the transaction kept in the session
+   *
+   * @returns The policy of the registry entry, or `undefined` when it
+   *   declares none or the transaction is unknown
+   */
+  async verificationPolicy(): Promise<VerificationPolicy | undefined> {
+    const key = await this.#transactionSession().get(
+      'presentationDefinitionKey'
+    );
+    const registry = this.presentationDefinitionRegistry();
+    return key && registry.has(key) ? registry.policy(key) : undefined;
+  }
+
+  generatePresentationDefinition(key: keyof T): GeneratePresentationDefinition {
+    if (this.#ageOver !== undefined) {
+      return ageVerificationPresentationDefinition(this.#ageOver);
+    }
+    return this.presentationDefinitionRegistry().generatePresentationDefinition(
+      String(key),
+      this.#selectedClaims
+    );
+  }
+
+  /**
+   * DCQL query the current transaction is initiated with
+   *
+   * Transactions of a DCQL query send it to the backend as `dcql_query`
+   * instead of a presentation definition.
+   *
+   * @param key - Registry key the transaction is initiated with
+   * @returns The query given inline or of a DCQL registry entry, or
+   *   `undefined` when the transaction requests a presentation definition
+   */
+  dcqlQuery(key: keyof T): DcqlQuery | undefined {
+    if (this.#ageOver !== undefined) {
+      return undefined;
+    }
+    return (
+      this.#inlineDcqlQuery ??
+      this.presentationDefinitionRegistry().dcqlQuery(String(key))
+    );
+  }
+
+  /**
+   * Fetcher of revocation data (CRLs, Status List Tokens)
+   *
+   * Override to change the transport, e.g. to use a stub in tests.
+   */
+  protected revocationFetcher(): Fetcher {
+    return new RawContentFetcher();
+  }
+
+  /**
+   * Fetcher of JWT VC Issuer Metadata of SD-JWT VC issuers and of `did:web`
+   * documents
+   *
+   * Issuers are reached directly, never through the backend transport.
+   */
+  protected issuerMetadataFetcher(): Fetcher {
+    return super.fetcher();
+  }
 }
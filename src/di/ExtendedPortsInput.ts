@@ -0,0 +1,60 @@
+import {
+  Configuration,
+  GeneratePresentationDefinition,
+  InitTransaction,
+  PortsInputImpl,
+} from '@vecrea/oid4vc-verifier-frontend-core';
+import { createDcqlInitTransactionService } from '../adapters/out/dcql/DcqlInitTransaction';
+import { AbstractExtendedPortsOut } from './AbstractExtendedPortsOut';
+
+/**
+ * Input ports of the core, initiating transactions of DCQL queries as such
+ *
+ * Transactions are started with the core InitTransaction service, except
+ * when {@link AbstractExtendedPortsOut.dcqlQuery} names a DCQL query for the
+ * transaction; the query is then sent to the backend as `dcql_query`.
+ *
+ * @public
+ */
+export class ExtendedPortsInput<
+  T extends Record<string, GeneratePresentationDefinition>
+> extends PortsInputImpl<T> {
+  readonly #config: Configuration;
+  readonly #portsOut: AbstractExtendedPortsOut<T>;
+
+  constructor(config: Configuration, portsOut: AbstractExtendedPortsOut<T>) {
+    super(config, portsOut);
+    this.#config = config;
+    this.#portsOut = portsOut;
+  }
+
+  initTransaction(key: keyof T): InitTransaction {
+    const dcqlQuery = this.#portsOut.dcqlQuery(key);
+    if (!dcqlQuery) {
+      return super.initTransaction(key);
+    }
+
+    const config = this.#config;
+    const portsOut = this.#portsOut;
+    return createDcqlInitTransactionService({
+      apiBaseUrl: config.apiBaseUrl(),
+      apiPath: config.initTransactionApiPath(),
+      publicUrl: config.publicUrl(),
+      walletUrl: config.walletUrl(),
+      walletResponseRedirectPath: config.resultViewPath(),
+      walletResponseRedirectQueryTemplate:
+        config.walletResponseRedirectQueryTemplate(),
+      isMobile: portsOut.isMobile(),
+      tokenType: config.tokenType(),
+      generateNonce: portsOut.generateNonce(),
+      generateWalletResponseRedirectUriTemplate:
+        portsOut.generateWalletResponseRedirectUriTemplate(),
+      post: portsOut.fetcher().post,
+      session: portsOut.session(),
+      generateWalletRedirectUri: portsOut.generateWalletRedirectUri(),
+      generateEphemeralECDHPrivateJwk:
+        portsOut.generateEphemeralECDHPrivateJwk(),
+      dcqlQuery,
+    });
+  }
+}
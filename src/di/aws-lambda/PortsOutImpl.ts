@@ -1,14 +1,34 @@
-import { GenerateWalletResponseRedirectUriTemplate } from '@vecrea/oid4vc-verifier-frontend-core';
+import { DynamoDB } from '@vecrea/oid4vc-core';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { Context } from 'hono';
 import { AwsEnv } from '../../env';
-import { PRESENTATION_DEFINITIONS } from '../../adapters/out/prex';
-import { mdocVerifier } from '../../adapters/out/mdoc/MdocVerifier';
+import {
+  PresentationDefinitions,
+  loadPresentationDefinitionRegistry,
+} from '../../adapters/out/prex';
+import { loadDcqlQueryRegistry } from '../../adapters/out/dcql';
+import { createRequestObjectSigner } from '../../adapters/out/jose';
+import {
+  VicalTrustStore,
+  combineTrustStores,
+  loadTrustStore,
+  parseStoredRoots,
+} from '../../adapters/out/trust';
+import {
+  DynamoDBTrustStore,
+  DynamoDBVicalSource,
+  FileVicalSource,
+} from '../../adapters/out/trust/aws';
+import { RevocationChecker } from '../../adapters/out/revocation';
+import { RevocationCacheDynamoDB } from '../../adapters/out/revocation/aws';
+import { parseTrustedIssuers } from '../../adapters/out/w3c';
+import { parseClockSkew } from '../../adapters/out/clock';
+import { parseTransactionTimeout } from '../../adapters/out/transaction';
 import { AbstractExtendedPortsOut } from '../AbstractExtendedPortsOut';
+import { ConfigurationImpl } from './ConfigurationImpl';
 import { DigitalCredentialsSession } from '../../ports/out/session';
 
-export class PortsOutImpl extends AbstractExtendedPortsOut<
-  typeof PRESENTATION_DEFINITIONS
-> {
+export class PortsOutImpl extends AbstractExtendedPortsOut<PresentationDefinitions> {
   readonly #ctx: Context<AwsEnv>;
 
   constructor(ctx: Context<AwsEnv>) {
@@ -16,20 +36,91 @@ export class PortsOutImpl extends AbstractExtendedPortsOut<
     this.#ctx = ctx;
   }
 
-  generateWalletResponseRedirectUriTemplate(): GenerateWalletResponseRedirectUriTemplate {
-    return (baseUrl, path, placeholder) => {
-      const url = new URL(`${baseUrl}${path}`);
-      url.searchParams.set('response_code', placeholder);
-      return decodeURIComponent(url.toString());
-    };
+  presentationDefinitionRegistry() {
+    return loadPresentationDefinitionRegistry(
+      this.#ctx.env.PRESENTATION_DEFINITIONS
+    );
   }
 
-  generatePresentationDefinition(key: keyof typeof PRESENTATION_DEFINITIONS) {
-    return PRESENTATION_DEFINITIONS[key];
+  dcqlQueryRegistry() {
+    return loadDcqlQueryRegistry(this.#ctx.env.DCQL_QUERIES);
+  }
+
+  requestObjectSigner() {
+    return createRequestObjectSigner(this.#ctx.env);
+  }
+
+  trustStore() {
+    return combineTrustStores(this.#vicalTrustStore(), this.#iacaTrustStore());
+  }
+
+  /**
+   * IACA roots configured in DynamoDB or `IACA_TRUST_ANCHORS`
+   */
+  #iacaTrustStore() {
+    const table = this.#ctx.env.IACA_TRUST_STORE_TABLE;
+    if (table) {
+      return new DynamoDBTrustStore(this.#dynamoDB(table));
+    }
+    return loadTrustStore(this.#ctx.env.IACA_TRUST_ANCHORS);
+  }
+
+  /**
+   * IACA roots of the VICAL read from `VICAL_FILE` or the copy in `VICAL_TABLE`
+   */
+  #vicalTrustStore() {
+    const { VICAL_FILE, VICAL_TABLE, VICAL_SIGNER_ROOTS } = this.#ctx.env;
+    const source = VICAL_FILE
+      ? new FileVicalSource(VICAL_FILE)
+      : VICAL_TABLE
+      ? new DynamoDBVicalSource(this.#dynamoDB(VICAL_TABLE))
+      : undefined;
+    if (!source) {
+      return undefined;
+    }
+    return new VicalTrustStore(
+      source,
+      parseStoredRoots('VICAL_SIGNER_ROOTS', VICAL_SIGNER_ROOTS)
+    );
+  }
+
+  #dynamoDB(table: string) {
+    return new DynamoDB(
+      DynamoDBDocumentClient.from(this.#ctx.get('DynamoDB')),
+      table
+    );
+  }
+
+  /**
+   * Revocation checker caching in the session table, disabled by
+   * `REVOCATION_CHECK=disabled` or without a trust store anchoring issuers
+   */
+  revocationChecker() {
+    if (this.#ctx.env.REVOCATION_CHECK === 'disabled' || !this.trustStore()) {
+      return undefined;
+    }
+    return new RevocationChecker(
+      this.revocationFetcher(),
+      new RevocationCacheDynamoDB(
+        this.#dynamoDB(new ConfigurationImpl(this.#ctx).dynamoDBTable())
+      )
+    );
+  }
+
+  trustedDidIssuers() {
+    return parseTrustedIssuers(this.#ctx.env.DID_TRUSTED_ISSUERS);
+  }
+
+  clockSkew() {
+    return parseClockSkew(this.#ctx.env.CLOCK_SKEW_SECONDS);
+  }
+
+  transactionTimeout() {
+    return parseTransactionTimeout(this.#ctx.env.TRANSACTION_TIMEOUT_SECONDS);
   }
 
   mdocVerifier() {
-    return mdocVerifier;
+    return this.walletResponseVerifier(this.#ctx.env.VERIFIER_CLIENT_ID);
   }
 
   session() {
@@ -39,4 +130,20 @@ export class PortsOutImpl extends AbstractExtendedPortsOut<
   dcSession(): DigitalCredentialsSession {
     return this.#ctx.get('DC_SESSION');
   }
+
+  sessionId() {
+    return this.#ctx.get('SESSION_ID');
+  }
+
+  transactionHandles() {
+    return this.#ctx.get('TRANSACTION_HANDLES');
+  }
+
+  requestTransactionHandle() {
+    return this.#ctx.get('TRANSACTION_HANDLE');
+  }
+
+  sessionRotator() {
+    return this.#ctx.get('SESSION_ROTATOR');
+  }
 }
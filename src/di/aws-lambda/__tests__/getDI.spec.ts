@@ -61,19 +61,15 @@ vi.mock('../PortsOutImpl', () => ({
   PortsOutImpl: vi.fn(),
 }));
 
-vi.mock('@vecrea/oid4vc-verifier-frontend-core', async () => {
-  const actual = await vi.importActual('@vecrea/oid4vc-verifier-frontend-core');
-  return {
-    ...actual,
-    PortsInputImpl: vi.fn(),
-  };
-});
+vi.mock('../../ExtendedPortsInput', () => ({
+  ExtendedPortsInput: vi.fn(),
+}));
 
 // Import after mocking
 import { getDI } from '../getDI';
 import { ConfigurationImpl } from '../ConfigurationImpl';
 import { PortsOutImpl } from '../PortsOutImpl';
-import { PortsInputImpl } from '@vecrea/oid4vc-verifier-frontend-core';
+import { ExtendedPortsInput } from '../../ExtendedPortsInput';
 
 describe('getDI', () => {
   let mockContext: Context<AwsEnv>;
@@ -92,7 +88,9 @@ describe('getDI', () => {
     // Set up mock implementations
     vi.mocked(ConfigurationImpl).mockImplementation(() => mockConfig as any);
     vi.mocked(PortsOutImpl).mockImplementation(() => mockPortsOut as any);
-    vi.mocked(PortsInputImpl).mockImplementation(() => mockPortsInput as any);
+    vi.mocked(ExtendedPortsInput).mockImplementation(
+      () => mockPortsInput as any
+    );
 
     // Create mock context
     mockContext = {
@@ -157,14 +155,14 @@ describe('getDI', () => {
       expect(vi.mocked(PortsOutImpl)).toHaveBeenCalledTimes(1);
     });
 
-    it('should create PortsInputImpl with config and portsOut', () => {
+    it('should create ExtendedPortsInput with config and portsOut', () => {
       getDI(mockContext);
 
-      expect(vi.mocked(PortsInputImpl)).toHaveBeenCalledWith(
+      expect(vi.mocked(ExtendedPortsInput)).toHaveBeenCalledWith(
         mockConfig,
         mockPortsOut
       );
-      expect(vi.mocked(PortsInputImpl)).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(ExtendedPortsInput)).toHaveBeenCalledTimes(1);
     });
 
     it('should return correct instances', () => {
@@ -180,7 +178,7 @@ describe('getDI', () => {
 
       expect(vi.mocked(ConfigurationImpl)).toHaveBeenCalled();
       expect(vi.mocked(PortsOutImpl)).toHaveBeenCalled();
-      expect(vi.mocked(PortsInputImpl)).toHaveBeenCalled();
+      expect(vi.mocked(ExtendedPortsInput)).toHaveBeenCalled();
     });
   });
 
@@ -204,7 +202,7 @@ describe('getDI', () => {
 
       expect(vi.mocked(ConfigurationImpl)).not.toHaveBeenCalled();
       expect(vi.mocked(PortsOutImpl)).not.toHaveBeenCalled();
-      expect(vi.mocked(PortsInputImpl)).not.toHaveBeenCalled();
+      expect(vi.mocked(ExtendedPortsInput)).not.toHaveBeenCalled();
     });
   });
 
@@ -229,8 +227,8 @@ describe('getDI', () => {
       );
     });
 
-    it('should handle PortsInputImpl creation failure', () => {
-      vi.mocked(PortsInputImpl).mockImplementation(() => {
+    it('should handle ExtendedPortsInput creation failure', () => {
+      vi.mocked(ExtendedPortsInput).mockImplementation(() => {
         throw new Error('PortsInput initialization failed');
       });
 
@@ -276,10 +274,10 @@ describe('getDI', () => {
       expect(portsOutCall[1]).toBe(mockConfig);
     });
 
-    it('should pass config and portsOut to PortsInputImpl', () => {
+    it('should pass config and portsOut to ExtendedPortsInput', () => {
       getDI(mockContext);
 
-      const portsInputCall = vi.mocked(PortsInputImpl).mock.calls[0];
+      const portsInputCall = vi.mocked(ExtendedPortsInput).mock.calls[0];
       expect(portsInputCall[0]).toBe(mockConfig);
       expect(portsInputCall[1]).toBe(mockPortsOut);
     });
@@ -288,7 +286,7 @@ describe('getDI', () => {
       getDI(mockContext);
 
       const portsOutCall = vi.mocked(PortsOutImpl).mock.calls[0];
-      const portsInputCall = vi.mocked(PortsInputImpl).mock.calls[0];
+      const portsInputCall = vi.mocked(ExtendedPortsInput).mock.calls[0];
 
       expect(portsOutCall[1]).toBe(portsInputCall[0]);
     });
@@ -1,15 +1,37 @@
 import { Fetcher } from '@vecrea/oid4vc-verifier-frontend-core';
 import { Context } from 'hono';
 import { CloudflareEnv } from '../../env';
-import { PRESENTATION_DEFINITIONS } from '../../adapters/out/prex';
-import { mdocVerifier } from '../../adapters/out/mdoc/MdocVerifier';
+import {
+  PresentationDefinitions,
+  loadPresentationDefinitionRegistry,
+} from '../../adapters/out/prex';
+import { loadDcqlQueryRegistry } from '../../adapters/out/dcql';
+import { createRequestObjectSigner } from '../../adapters/out/jose';
 import { WorkerToWorkerFetcher } from '../../adapters/out/http/cloudflare';
+import {
+  VICAL_KEY,
+  VicalTrustStore,
+  combineTrustStores,
+  loadTrustStore,
+  parseStoredRoots,
+} from '../../adapters/out/trust';
+import {
+  DurableObjectVicalSource,
+  KVTrustStore,
+} from '../../adapters/out/trust/cloudflare';
+import { RevocationChecker } from '../../adapters/out/revocation';
+import {
+  REVOCATION_CACHE_NAME,
+  RevocationCacheDurableObject,
+  RevocationCacheKV,
+} from '../../adapters/out/revocation/cloudflare';
+import { parseTrustedIssuers } from '../../adapters/out/w3c';
+import { parseClockSkew } from '../../adapters/out/clock';
+import { parseTransactionTimeout } from '../../adapters/out/transaction';
 import { AbstractExtendedPortsOut } from '../AbstractExtendedPortsOut';
 import { DigitalCredentialsSession } from '../../ports/out/session';
 
-export class PortsOutImpl extends AbstractExtendedPortsOut<
-  typeof PRESENTATION_DEFINITIONS
-> {
+export class PortsOutImpl extends AbstractExtendedPortsOut<PresentationDefinitions> {
   readonly #ctx: Context<CloudflareEnv>;
 
   constructor(ctx: Context<CloudflareEnv>) {
@@ -17,12 +39,105 @@ export class PortsOutImpl extends AbstractExtendedPortsOut<
     this.#ctx = ctx;
   }
 
-  generatePresentationDefinition(key: keyof typeof PRESENTATION_DEFINITIONS) {
-    return PRESENTATION_DEFINITIONS[key];
+  presentationDefinitionRegistry() {
+    return loadPresentationDefinitionRegistry(
+      this.#ctx.env.PRESENTATION_DEFINITIONS
+    );
+  }
+
+  dcqlQueryRegistry() {
+    return loadDcqlQueryRegistry(this.#ctx.env.DCQL_QUERIES);
+  }
+
+  requestObjectSigner() {
+    return createRequestObjectSigner(this.#ctx.env);
+  }
+
+  trustStore() {
+    return combineTrustStores(this.#vicalTrustStore(), this.#iacaTrustStore());
+  }
+
+  /**
+   * IACA roots configured in KV or `IACA_TRUST_ANCHORS`
+   */
+  #iacaTrustStore() {
+    if (this.#ctx.env.IACA_KV) {
+      return new KVTrustStore(this.#ctx.env.IACA_KV);
+    }
+    return loadTrustStore(this.#ctx.env.IACA_TRUST_ANCHORS);
+  }
+
+  /**
+   * IACA roots of the VICAL copy stored in the `vical` Durable Object,
+   * enabled by `VICAL_SIGNER_ROOTS`
+   *
+   * @throws {Error} `Missing SESSION binding` without Durable Objects
+   */
+  #vicalTrustStore() {
+    const signerRoots = parseStoredRoots(
+      'VICAL_SIGNER_ROOTS',
+      this.#ctx.env.VICAL_SIGNER_ROOTS
+    );
+    if (signerRoots.length === 0) {
+      return undefined;
+    }
+    const { SESSION } = this.#ctx.env;
+    if (!SESSION) {
+      throw new Error('Missing SESSION binding');
+    }
+    return new VicalTrustStore(
+      new DurableObjectVicalSource(SESSION.get(SESSION.idFromName(VICAL_KEY))),
+      signerRoots
+    );
+  }
+
+  /**
+   * Revocation checker caching in the `revocation` Durable Object, or in
+   * `PRESENTATION_ID_KV` without Durable Objects, disabled by
+   * `REVOCATION_CHECK=disabled` or without a trust store anchoring issuers
+   */
+  revocationChecker() {
+    if (this.#ctx.env.REVOCATION_CHECK === 'disabled' || !this.trustStore()) {
+      return undefined;
+    }
+    return new RevocationChecker(
+      this.revocationFetcher(),
+      this.#revocationCache()
+    );
+  }
+
+  /**
+   * Revocation cache in the storage bound to the deployment
+   *
+   * @throws {Error} `Missing SESSION binding` when neither storage is bound
+   */
+  #revocationCache() {
+    const { SESSION, PRESENTATION_ID_KV } = this.#ctx.env;
+    if (SESSION) {
+      return new RevocationCacheDurableObject(
+        SESSION.get(SESSION.idFromName(REVOCATION_CACHE_NAME))
+      );
+    }
+    if (PRESENTATION_ID_KV) {
+      return new RevocationCacheKV(PRESENTATION_ID_KV);
+    }
+    throw new Error('Missing SESSION binding');
+  }
+
+  trustedDidIssuers() {
+    return parseTrustedIssuers(this.#ctx.env.DID_TRUSTED_ISSUERS);
+  }
+
+  clockSkew() {
+    return parseClockSkew(this.#ctx.env.CLOCK_SKEW_SECONDS);
+  }
+
+  transactionTimeout() {
+    return parseTransactionTimeout(this.#ctx.env.TRANSACTION_TIMEOUT_SECONDS);
   }
 
   mdocVerifier() {
-    return mdocVerifier;
+    return this.walletResponseVerifier(this.#ctx.env.VERIFIER_CLIENT_ID);
   }
 
   session() {
@@ -33,6 +148,22 @@ export class PortsOutImpl extends AbstractExtendedPortsOut<
     return this.#ctx.get('DC_SESSION');
   }
 
+  sessionId() {
+    return this.#ctx.get('SESSION_ID');
+  }
+
+  transactionHandles() {
+    return this.#ctx.get('TRANSACTION_HANDLES');
+  }
+
+  requestTransactionHandle() {
+    return this.#ctx.get('TRANSACTION_HANDLE');
+  }
+
+  sessionRotator() {
+    return this.#ctx.get('SESSION_ROTATOR');
+  }
+
   fetcher(): Fetcher {
     if (this.#ctx.env.BACKEND) {
       return new WorkerToWorkerFetcher(this.#ctx.env.BACKEND);
@@ -1,8 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { PortsOutImpl } from '../PortsOutImpl';
 import { Context } from 'hono';
 import { CloudflareEnv } from '../../../env';
 import { Configuration } from '@vecrea/oid4vc-verifier-frontend-core';
+import { sdJwtVcCredentialQuery } from '../../../adapters/out/dcql';
+import { issueSdJwtVc } from '../../../adapters/out/sdjwt/__tests__/sdJwtVc';
+import { issueCertificates } from '../../../adapters/out/trust/__tests__/certificates';
 
 describe('PortsOutImpl', () => {
   let mockContext: Partial<Context<CloudflareEnv>>;
@@ -73,6 +76,125 @@ describe('PortsOutImpl', () => {
     });
   });
 
+  describe('SD-JWT VC types', () => {
+    const audience = 'x509_san_dns:verifier.example.com';
+
+    const setup = async () => {
+      const values = new Map<string, unknown>([['nonce', 'nonce-1']]);
+      mockSession.get.mockImplementation(async (key: string) =>
+        values.get(key)
+      );
+      mockSession.set.mockImplementation(
+        async (key: string, value: unknown) => {
+          values.set(key, value);
+        }
+      );
+      (mockContext.env as any).VERIFIER_CLIENT_ID = audience;
+      const { documentSigner, signingKey } = await issueCertificates(
+        'Example Issuer',
+        new Date(Date.now() - 24 * 60 * 60 * 1000)
+      );
+      return (vct: string) =>
+        issueSdJwtVc({
+          signer: { certificate: documentSigner, signingKey },
+          vct,
+          nonce: 'nonce-1',
+          audience,
+        });
+    };
+
+    it('should accept the types of an inline DCQL query', async () => {
+      const issue = await setup();
+      portsOut.requestDcqlQuery({
+        credentials: [
+          sdJwtVcCredentialQuery('pid', ['urn:eudi:pid:1'], [['family_name']]),
+        ],
+      });
+      await portsOut.startTransaction(undefined);
+
+      const verifier = portsOut.mdocVerifier();
+      const requested = await verifier.verify(
+        JSON.stringify({ pid: [await issue('urn:eudi:pid:1')] })
+      );
+      const other = await verifier.verify(
+        JSON.stringify({ pid: [await issue('urn:example:other:1')] })
+      );
+
+      expect(mockSession.set).toHaveBeenCalledWith('vctValues', [
+        'urn:eudi:pid:1',
+      ]);
+      expect(requested.valid).toBe(true);
+      expect(other.valid).toBe(false);
+    });
+
+    it('should reject types requested by other registry entries', async () => {
+      const issue = await setup();
+      await portsOut.startTransaction('mDL');
+
+      const result = await portsOut
+        .mdocVerifier()
+        .verify(await issue('urn:eudi:pid:1'));
+
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject tokens not answering the DCQL query of the transaction', async () => {
+      const issue = await setup();
+      portsOut.requestDcqlQuery({
+        credentials: [
+          sdJwtVcCredentialQuery('pid', ['urn:eudi:pid:1'], [['family_name']]),
+        ],
+      });
+      await portsOut.startTransaction(undefined);
+
+      const verifier = portsOut.mdocVerifier();
+      const empty = await verifier.verify('{}');
+      const undeclared = await verifier.verify(
+        JSON.stringify({ other: [await issue('urn:eudi:pid:1')] })
+      );
+
+      expect(empty.valid).toBe(false);
+      expect(undeclared.valid).toBe(false);
+    });
+  });
+
+  describe('presentationVerifier', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should check Key Binding JWTs of a stored token as of when it was presented', async () => {
+      const { documentSigner, signingKey } = await issueCertificates(
+        'Example Issuer',
+        new Date(Date.now() - 24 * 60 * 60 * 1000)
+      );
+      const vpToken = JSON.stringify({
+        pid: [
+          await issueSdJwtVc({
+            signer: { certificate: documentSigner, signingKey },
+          }),
+        ],
+      });
+      const presentedAt = new Date();
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(presentedAt.getTime() + 10 * 60 * 1000);
+
+      const now = await portsOut.presentationVerifier().verify(vpToken);
+      const stored = await portsOut
+        .presentationVerifier(presentedAt)
+        .verify(vpToken);
+
+      expect(now.valid).toBe(false);
+      expect(stored.valid).toBe(true);
+    });
+  });
+
+  describe('revocationChecker', () => {
+    it('should not check revocation without a trust store', () => {
+      expect(portsOut.revocationChecker()).toBeUndefined();
+    });
+  });
+
   describe('session', () => {
     it('should return session from context', () => {
       const result = portsOut.session();
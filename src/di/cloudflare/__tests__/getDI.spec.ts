@@ -4,18 +4,14 @@ import { Context } from 'hono';
 import { CloudflareEnv } from '../../../env';
 import { ConfigurationImpl } from '../ConfigurationImpl';
 import { PortsOutImpl } from '../PortsOutImpl';
-import { PortsInputImpl } from '@vecrea/oid4vc-verifier-frontend-core';
+import { ExtendedPortsInput } from '../../ExtendedPortsInput';
 
 // Mock setup
 vi.mock('../ConfigurationImpl');
 vi.mock('../PortsOutImpl');
-vi.mock('@vecrea/oid4vc-verifier-frontend-core', async () => {
-  const actual = await vi.importActual('@vecrea/oid4vc-verifier-frontend-core');
-  return {
-    ...actual,
-    PortsInputImpl: vi.fn(),
-  };
-});
+vi.mock('../../ExtendedPortsInput', () => ({
+  ExtendedPortsInput: vi.fn(),
+}));
 
 describe('getDI', () => {
   let mockContext: Context<CloudflareEnv>;
@@ -45,7 +41,7 @@ describe('getDI', () => {
     // Setup mock constructors
     (ConfigurationImpl as any).mockImplementation(() => mockConfig);
     (PortsOutImpl as any).mockImplementation(() => mockPortsOut);
-    (PortsInputImpl as any).mockImplementation(() => mockPortsIn);
+    (ExtendedPortsInput as any).mockImplementation(() => mockPortsIn);
 
     mockContext = {
       env: {
@@ -75,7 +71,7 @@ describe('getDI', () => {
       // Verify constructors are called correctly
       expect(ConfigurationImpl).toHaveBeenCalledWith(mockContext);
       expect(PortsOutImpl).toHaveBeenCalledWith(mockContext, mockConfig);
-      expect(PortsInputImpl).toHaveBeenCalledWith(mockConfig, mockPortsOut);
+      expect(ExtendedPortsInput).toHaveBeenCalledWith(mockConfig, mockPortsOut);
     });
 
     it('should create dependencies in correct order', () => {
@@ -84,7 +80,8 @@ describe('getDI', () => {
       // Verify dependency creation order
       const configCall = (ConfigurationImpl as any).mock.invocationCallOrder[0];
       const portsOutCall = (PortsOutImpl as any).mock.invocationCallOrder[0];
-      const portsInCall = (PortsInputImpl as any).mock.invocationCallOrder[0];
+      const portsInCall = (ExtendedPortsInput as any).mock
+        .invocationCallOrder[0];
 
       expect(configCall).toBeLessThan(portsOutCall);
       expect(portsOutCall).toBeLessThan(portsInCall);
@@ -128,9 +125,9 @@ describe('getDI', () => {
       );
     });
 
-    it('should throw enhanced error when PortsInputImpl fails', () => {
+    it('should throw enhanced error when ExtendedPortsInput fails', () => {
       const portsInError = new Error('PortsIn setup failed');
-      (PortsInputImpl as any).mockImplementation(() => {
+      (ExtendedPortsInput as any).mockImplementation(() => {
         throw portsInError;
       });
 
@@ -155,7 +152,7 @@ describe('getDI', () => {
       // Restore actual classes by disabling mocks
       vi.mocked(ConfigurationImpl).mockRestore?.();
       vi.mocked(PortsOutImpl).mockRestore?.();
-      vi.mocked(PortsInputImpl).mockRestore?.();
+      vi.mocked(ExtendedPortsInput).mockRestore?.();
 
       expect(() => getDI(mockContext)).not.toThrow();
     });
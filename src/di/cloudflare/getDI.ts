@@ -1,10 +1,10 @@
 import { Context } from 'hono';
 import { ConfigurationImpl } from './ConfigurationImpl';
-import { PortsInputImpl } from '@vecrea/oid4vc-verifier-frontend-core';
 import { PortsOutImpl } from './PortsOutImpl';
 import { CloudflareEnv } from '../../env';
 import { GetDI } from '..';
-import { PRESENTATION_DEFINITIONS } from '../../adapters/out/prex';
+import { ExtendedPortsInput } from '../ExtendedPortsInput';
+import { PresentationDefinitions } from '../../adapters/out/prex';
 
 /**
  * Dependency injection factory function for Cloudflare Workers environment
@@ -75,7 +75,7 @@ export const getDI: GetDI<CloudflareEnv> = (c: Context<CloudflareEnv>) => {
     const portsOut = new PortsOutImpl(c);
 
     // Create input ports with dependency injection
-    const portsIn = new PortsInputImpl<typeof PRESENTATION_DEFINITIONS>(
+    const portsIn = new ExtendedPortsInput<PresentationDefinitions>(
       config,
       portsOut
     );
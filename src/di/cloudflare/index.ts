@@ -6,7 +6,7 @@
  * application. It includes:
  *
  * - **HonoConfiguration**: Environment-based configuration management
- * - **PortsInputImpl**: Input port implementations for business logic services
+ * - **ExtendedPortsInput**: Input port implementations for business logic services
  * - **PortsOutImpl**: Output port implementations for external dependencies
  * - **getDI**: Factory function for creating dependency injection containers
  *
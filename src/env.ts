@@ -3,7 +3,11 @@ import { Session, SessionSchemas } from '@vecrea/oid4vc-verifier-frontend-core';
 import { Env as DynamoDBEnv } from '@squilla/hono-aws-middlewares/dynamodb';
 import { Env as SecretsManagerEnv } from '@squilla/hono-aws-middlewares/secrets-manager';
 import { DurableObjectBase } from './adapters/out/database/cloudflare';
-import { DigitalCredentialsSession } from './ports/out/session';
+import {
+  DigitalCredentialsSession,
+  SessionRotator,
+  TransactionHandleStore,
+} from './ports/out/session';
 
 export type BaseBindings = {
   API_BASE_URL: string;
@@ -11,15 +15,43 @@ export type BaseBindings = {
   GET_WALLET_RESPONSE_PATH: string;
   WALLET_URL: string;
   PUBLIC_URL: string;
+  PRESENTATION_DEFINITIONS?: string;
+  DCQL_QUERIES?: string;
+  DC_API_REQUEST_MODE?: 'signed' | 'unsigned';
+  DC_API_CLIENT_ID?: string;
+  DC_API_SIGNING_JWK?: string;
+  DC_API_SIGNING_X5C?: string;
+  DC_API_VERIFIER_ATTESTATION?: string;
+  DC_API_EXPECTED_ORIGINS?: string;
+  IACA_TRUST_ANCHORS?: string;
+  VICAL_SIGNER_ROOTS?: string;
+  REVOCATION_CHECK?: 'enabled' | 'disabled';
+  VERIFIER_CLIENT_ID?: string;
+  DID_TRUSTED_ISSUERS?: string;
+  CLOCK_SKEW_SECONDS?: string;
+  TRANSACTION_TIMEOUT_SECONDS?: string;
+  SESSION_COOKIE_SECRET?: string;
+  SESSION_COOKIE_HOST_PREFIX?: 'true' | 'false';
+  SESSION_COOKIE_SECURE?: 'true' | 'false';
+  SESSION_COOKIE_SAME_SITE?: 'Strict' | 'Lax' | 'None';
+  SESSION_COOKIE_PATH?: string;
+  SESSION_COOKIE_MAX_AGE_SECONDS?: string;
+  SESSION_TTL_SECONDS?: string;
 };
 
 export type CloudflareBindings = BaseBindings & {
-  // PRESENTATION_ID_KV: KVNamespace;
+  PRESENTATION_ID_KV?: KVNamespace;
   BACKEND: Service;
-  SESSION: DurableObjectNamespace<DurableObjectBase>;
+  SESSION?: DurableObjectNamespace<DurableObjectBase>;
+  SESSION_STORE?: 'durable-object' | 'kv';
+  IACA_KV?: KVNamespace;
 };
 
-export type AwsSecrets = BaseBindings;
+export type AwsSecrets = BaseBindings & {
+  IACA_TRUST_STORE_TABLE?: string;
+  VICAL_FILE?: string;
+  VICAL_TABLE?: string;
+};
 
 export type AwsBindings = {
   event: LambdaEvent;
@@ -31,6 +63,10 @@ export type Bindings = CloudflareBindings | AwsBindings;
 export type Variables = {
   SESSION: Session<SessionSchemas>;
   DC_SESSION: DigitalCredentialsSession;
+  SESSION_ID: string;
+  TRANSACTION_HANDLES: TransactionHandleStore;
+  TRANSACTION_HANDLE?: string;
+  SESSION_ROTATOR: SessionRotator;
 };
 
 export type CloudflareEnv = {
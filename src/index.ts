@@ -3,13 +3,17 @@ import { FrontendApi } from './adapters/input/FrontendApi';
 import { ConfigurationImpl, getDI } from './di/cloudflare';
 import { sessionMiddleware } from './middleware/cloudflare';
 import { DigitalCredentialsApi } from './adapters/input/DigitalCredentialsApi';
+import { TransactionApi } from './adapters/input/TransactionApi';
 
 const configuration = new ConfigurationImpl();
+const transactionApi = new TransactionApi(getDI);
+
 const api = new FrontendApi(
   configuration.homeViewPath(),
   configuration.initTransactionViewPath(),
   configuration.resultViewPath(),
-  getDI
+  getDI,
+  transactionApi.paths.transactions
 );
 
 const digitalCredentialsApi = new DigitalCredentialsApi(getDI);
@@ -18,6 +22,7 @@ const app = new Hono()
   .use(sessionMiddleware)
   .get('/', (c) => c.redirect(configuration.homeViewPath()))
   .route('/', digitalCredentialsApi.route)
+  .route('/', transactionApi.route)
   .route('/', api.route);
 
 export { DurableObjectBase } from './adapters/out/database/cloudflare';
@@ -93,6 +93,7 @@ describe('AWS Lambda Session Middleware', () => {
         expect.anything(),
         'session',
         'mock-session-id',
+        expect.objectContaining({ httpOnly: true, path: '/' }),
       );
 
       // Verify SessionDynamoDB was created with correct parameters
@@ -257,6 +258,7 @@ describe('AWS Lambda Session Middleware', () => {
         expect.anything(),
         'session',
         'generated-uuid',
+        expect.objectContaining({ httpOnly: true, path: '/' }),
       );
     });
 
@@ -273,6 +275,7 @@ describe('AWS Lambda Session Middleware', () => {
         expect.anything(),
         'session',
         expect.any(String),
+        expect.objectContaining({ httpOnly: true, path: '/' }),
       );
     });
   });
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { Hono } from 'hono';
 import { getCookie, setCookie } from 'hono/cookie';
-import { sessionMiddleware } from '../cloudflare';
+import { createSessionStore, sessionMiddleware } from '../cloudflare';
 import type { CloudflareEnv } from '../../env';
 
 // Mock external dependencies
@@ -12,8 +12,12 @@ vi.mock('hono/cookie', () => ({
 
 vi.mock('../../adapters/out/session/cloudflare', () => ({
   SessionKV: vi.fn(),
+  DCSessionKV: vi.fn(),
+  TransactionHandleKV: vi.fn(),
 }));
 
+const cookieSessionId = '0b5c2b1e-7f3a-4c1d-9e2f-8a6b4c3d2e1f';
+
 // Mock crypto.randomUUID globally
 Object.defineProperty(global, 'crypto', {
   value: {
@@ -93,6 +97,7 @@ describe('Cloudflare Session Middleware', () => {
         expect.anything(),
         'session',
         'mock-session-id',
+        expect.objectContaining({ httpOnly: true, path: '/' }),
       );
 
       // Verify SessionKV was created with correct parameters
@@ -105,7 +110,7 @@ describe('Cloudflare Session Middleware', () => {
 
     it('should use existing session when cookie exists', async () => {
       // Arrange
-      const existingSessionId = 'existing-session-id';
+      const existingSessionId = cookieSessionId;
       mockGetCookie.mockReturnValue(existingSessionId);
       const mockSessionInstance = { id: existingSessionId };
       mockSessionKV.mockImplementation(() => mockSessionInstance);
@@ -181,7 +186,7 @@ describe('Cloudflare Session Middleware', () => {
   describe('Environment configuration', () => {
     it('should use KV namespace from environment', async () => {
       // Arrange
-      mockGetCookie.mockReturnValue('session-id');
+      mockGetCookie.mockReturnValue(cookieSessionId);
 
       // Act
       await app.request(
@@ -201,7 +206,7 @@ describe('Cloudflare Session Middleware', () => {
       // Assert
       expect(mockSessionKV).toHaveBeenCalledWith(
         mockKVNamespace,
-        'session-id',
+        cookieSessionId,
         60 * 60 * 24,
       );
     });
@@ -209,7 +214,7 @@ describe('Cloudflare Session Middleware', () => {
     it('should use correct TTL value', async () => {
       // Arrange
       const expectedTTL = 60 * 60 * 24; // 1 day
-      mockGetCookie.mockReturnValue('session-id');
+      mockGetCookie.mockReturnValue(cookieSessionId);
 
       // Act
       await app.request(
@@ -229,7 +234,7 @@ describe('Cloudflare Session Middleware', () => {
       // Assert
       expect(mockSessionKV).toHaveBeenCalledWith(
         expect.anything(),
-        'session-id',
+        cookieSessionId,
         expectedTTL,
       );
     });
@@ -238,7 +243,7 @@ describe('Cloudflare Session Middleware', () => {
   describe('Error handling', () => {
     it('should return 500 when SessionKV creation fails', async () => {
       // Arrange
-      mockGetCookie.mockReturnValue('session-id');
+      mockGetCookie.mockReturnValue(cookieSessionId);
       mockSessionKV.mockImplementation(() => {
         throw new Error('KV error');
       });
@@ -296,6 +301,7 @@ describe('Cloudflare Session Middleware', () => {
         expect.anything(),
         'session',
         'generated-uuid',
+        expect.objectContaining({ httpOnly: true, path: '/' }),
       );
     });
 
@@ -328,6 +334,7 @@ describe('Cloudflare Session Middleware', () => {
         expect.anything(),
         'session',
         expect.any(String),
+        expect.objectContaining({ httpOnly: true, path: '/' }),
       );
     });
   });
@@ -360,7 +367,7 @@ describe('Cloudflare Session Middleware', () => {
       expect(mockSetCookie).toHaveBeenCalled();
     });
 
-    it('should handle very long session ID from cookie', async () => {
+    it('should start a new session for a cookie not holding a session id', async () => {
       // Arrange
       const longSessionId = 'a'.repeat(1000);
       mockGetCookie.mockReturnValue(longSessionId);
@@ -384,11 +391,69 @@ describe('Cloudflare Session Middleware', () => {
 
       // Assert
       expect(response.status).toBe(200);
-      expect(mockSessionKV).toHaveBeenCalledWith(
+      expect(mockSessionKV).not.toHaveBeenCalledWith(
         expect.anything(),
         longSessionId,
         expect.any(Number),
       );
+      expect(mockSetCookie).toHaveBeenCalled();
+    });
+  });
+
+  describe('Session store selection', () => {
+    const env = {
+      API_BASE_URL: 'https://api.example.com',
+      INIT_TRANSACTION_PATH: '/init',
+      GET_WALLET_RESPONSE_PATH: '/response',
+      WALLET_URL: 'https://wallet.example.com',
+      PUBLIC_URL: 'https://public.example.com',
+      BACKEND: {} as Service,
+    };
+
+    it('should use KV without Durable Objects', () => {
+      const store = createSessionStore(
+        { ...env, PRESENTATION_ID_KV: mockKVNamespace },
+        600,
+      );
+
+      store.session(cookieSessionId);
+
+      expect(mockSessionKV).toHaveBeenCalledWith(
+        mockKVNamespace,
+        cookieSessionId,
+        600,
+      );
+    });
+
+    it('should require the binding of the chosen store', () => {
+      expect(() =>
+        createSessionStore({ ...env, SESSION_STORE: 'kv' }, 600),
+      ).toThrow('Missing PRESENTATION_ID_KV binding');
+      expect(() =>
+        createSessionStore(
+          {
+            ...env,
+            PRESENTATION_ID_KV: mockKVNamespace,
+            SESSION_STORE: 'durable-object',
+          },
+          600,
+        ),
+      ).toThrow('Missing SESSION binding');
+    });
+
+    it('should reject a TTL below 60 seconds on KV', () => {
+      expect(() =>
+        createSessionStore(
+          { ...env, PRESENTATION_ID_KV: mockKVNamespace, SESSION_STORE: 'kv' },
+          59,
+        ),
+      ).toThrow('Invalid session TTL for KV: 59');
+    });
+
+    it('should reject an unknown store', () => {
+      expect(() =>
+        createSessionStore({ ...env, SESSION_STORE: 'redis' as any }, 600),
+      ).toThrow('Invalid session store: redis');
     });
   });
 });
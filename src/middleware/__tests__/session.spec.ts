@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import {
+  SessionCookieOptions,
+  issueSessionId,
+  parseSessionCookieOptions,
+  parseSessionTtl,
+  readSessionId,
+  resolveSessionId,
+  rotateSession,
+} from '../session';
+import { generateTransactionHandle } from '../../adapters/out/transaction';
+
+const cookieSessionId = '0b5c2b1e-7f3a-4c1d-9e2f-8a6b4c3d2e1f';
+
+const cookieValue = (response: Response) =>
+  response.headers.get('Set-Cookie')?.split(';')[0].split('=')[1];
+
+describe('parseSessionTtl', () => {
+  it('should default to 1 day', () => {
+    expect(parseSessionTtl()).toBe(86400);
+    expect(parseSessionTtl(' ')).toBe(86400);
+  });
+
+  it('should read seconds', () => {
+    expect(parseSessionTtl('3600')).toBe(3600);
+  });
+
+  it.each(['0', '-1', '1.5', 'abc'])('should reject %s', (value) => {
+    expect(() => parseSessionTtl(value)).toThrow('Invalid session TTL');
+  });
+});
+
+describe('parseSessionCookieOptions', () => {
+  it('should default to a lax cookie for the whole site', () => {
+    expect(parseSessionCookieOptions({})).toEqual({
+      hostPrefix: false,
+      secure: false,
+      sameSite: 'Lax',
+      path: '/',
+      maxAge: 86400,
+    });
+  });
+
+  it('should make the cookie secure for an HTTPS deployment', () => {
+    expect(
+      parseSessionCookieOptions({ PUBLIC_URL: 'https://verifier.example.com' })
+        .secure,
+    ).toBe(true);
+  });
+
+  it('should read the configured attributes', () => {
+    expect(
+      parseSessionCookieOptions({
+        SESSION_COOKIE_SECRET: 'secret',
+        SESSION_COOKIE_HOST_PREFIX: 'true',
+        SESSION_COOKIE_SAME_SITE: 'Strict',
+        SESSION_COOKIE_MAX_AGE_SECONDS: '600',
+      }),
+    ).toEqual({
+      secret: 'secret',
+      hostPrefix: true,
+      secure: true,
+      sameSite: 'Strict',
+      path: '/',
+      maxAge: 600,
+    });
+  });
+
+  it.each([
+    [{ SESSION_COOKIE_SECURE: 'yes' }],
+    [{ SESSION_COOKIE_SAME_SITE: 'Loose' }],
+    [{ SESSION_COOKIE_PATH: 'verifier' }],
+    [{ SESSION_COOKIE_MAX_AGE_SECONDS: '0' }],
+    [{ SESSION_COOKIE_HOST_PREFIX: 'true', SESSION_COOKIE_SECURE: 'false' }],
+    [{ SESSION_COOKIE_HOST_PREFIX: 'true', SESSION_COOKIE_PATH: '/verifier' }],
+    [{ SESSION_COOKIE_SAME_SITE: 'None' }],
+  ])('should reject %o', (env) => {
+    expect(() => parseSessionCookieOptions(env as any)).toThrow(
+      'Invalid session cookie',
+    );
+  });
+});
+
+describe('session cookie', () => {
+  const request = (
+    options: SessionCookieOptions,
+    headers: Record<string, string> = {},
+  ) =>
+    new Hono()
+      .get('/', async (c) =>
+        c.text(
+          (await readSessionId(c, options)) ??
+            `issued:${await issueSessionId(c, options)}`,
+        ),
+      )
+      .request('/', { headers });
+
+  it('should issue an HttpOnly cookie with the configured attributes', async () => {
+    const response = await request(
+      parseSessionCookieOptions({ SESSION_COOKIE_SECURE: 'true' }),
+    );
+
+    const sessionId = (await response.text()).replace('issued:', '');
+    expect(response.headers.get('Set-Cookie')).toBe(
+      `session=${sessionId}; Max-Age=86400; Path=/; HttpOnly; Secure; SameSite=Lax`,
+    );
+  });
+
+  it('should name the cookie __Host-session with the host prefix', async () => {
+    const options = parseSessionCookieOptions({
+      SESSION_COOKIE_HOST_PREFIX: 'true',
+    });
+
+    const issued = await request(options);
+    expect(issued.headers.get('Set-Cookie')).toMatch(/^__Host-session=/);
+
+    const read = await request(options, {
+      Cookie: `__Host-session=${cookieSessionId}`,
+    });
+    expect(await read.text()).toBe(cookieSessionId);
+  });
+
+  it('should accept only cookies signed with the secret', async () => {
+    const options = parseSessionCookieOptions({
+      SESSION_COOKIE_SECRET: 'secret',
+    });
+    const signed = cookieValue(await request(options))!;
+
+    const read = await request(options, { Cookie: `session=${signed}` });
+    expect(await read.text()).toBe(decodeURIComponent(signed).split('.')[0]);
+
+    const tampered = await request(options, {
+      Cookie: `session=${cookieSessionId}.${signed.split('.')[1]}`,
+    });
+    expect(await tampered.text()).toMatch(/^issued:/);
+
+    const unsigned = await request(options, {
+      Cookie: `session=${cookieSessionId}`,
+    });
+    expect(await unsigned.text()).toMatch(/^issued:/);
+  });
+
+  it('should ignore cookies not holding a session id', async () => {
+    const response = await request(parseSessionCookieOptions({}), {
+      Cookie: 'session=../other-session',
+    });
+
+    expect(await response.text()).toMatch(/^issued:/);
+  });
+});
+
+describe('resolveSessionId', () => {
+  let find: ReturnType<typeof vi.fn>;
+  let resolve: ReturnType<typeof vi.fn>;
+  let app: Hono;
+
+  const handle = generateTransactionHandle();
+
+  beforeEach(() => {
+    find = vi.fn().mockResolvedValue('bound-session-id');
+    resolve = vi.fn();
+    app = new Hono().get('/result', async (c) => {
+      const { sessionId, transactionHandle } = await resolveSessionId(
+        c,
+        parseSessionCookieOptions({}),
+        () => ({ bind: vi.fn(), find, resolve }),
+      );
+      c.header('X-Transaction-Handle', transactionHandle);
+      return c.text(sessionId);
+    });
+  });
+
+  it('should use the session cookie', async () => {
+    const response = await app.request('/result', {
+      headers: { Cookie: `session=${cookieSessionId}` },
+    });
+
+    expect(await response.text()).toBe(cookieSessionId);
+    expect(response.headers.get('X-Transaction-Handle')).toBeNull();
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('should serve a redirect without cookie from the session of the handle', async () => {
+    const response = await app.request(
+      `/result?transaction=${handle}&response_code=code`,
+    );
+
+    expect(await response.text()).toBe('bound-session-id');
+    expect(response.headers.get('X-Transaction-Handle')).toBe(handle);
+    expect(find).toHaveBeenCalledWith(handle);
+    expect(response.headers.get('Set-Cookie')).toBeNull();
+  });
+
+  it('should serve a redirect from the session of the handle over the cookie of another session', async () => {
+    const response = await app.request(
+      `/result?transaction=${handle}&response_code=code`,
+      { headers: { Cookie: `session=${cookieSessionId}` } },
+    );
+
+    expect(await response.text()).toBe('bound-session-id');
+    expect(response.headers.get('X-Transaction-Handle')).toBe(handle);
+    expect(response.headers.get('Set-Cookie')).toBeNull();
+  });
+
+  it('should use the session cookie for an unknown handle', async () => {
+    find.mockResolvedValue(undefined);
+
+    const response = await app.request(
+      `/result?transaction=${handle}&response_code=code`,
+      { headers: { Cookie: `session=${cookieSessionId}` } },
+    );
+
+    expect(await response.text()).toBe(cookieSessionId);
+    expect(response.headers.get('X-Transaction-Handle')).toBeNull();
+  });
+
+  it('should leave the handle to be spent by the result page', async () => {
+    await app.request(`/result?transaction=${handle}&response_code=code`);
+
+    expect(resolve).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['without response code', `/result?transaction=${handle}`],
+    ['with a malformed handle', '/result?transaction=short&response_code=code'],
+  ])('should start a new session %s', async (_, path) => {
+    const response = await app.request(path);
+
+    const sessionId = await response.text();
+    expect(sessionId).not.toBe('bound-session-id');
+    expect(cookieValue(response)).toBe(sessionId);
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('should start a new session for an unknown handle', async () => {
+    find.mockResolvedValue(undefined);
+
+    const response = await app.request(
+      `/result?transaction=${handle}&response_code=code`,
+    );
+
+    expect(response.headers.get('Set-Cookie')).toMatch(/^session=/);
+  });
+});
+
+describe('rotateSession', () => {
+  it('should move the data of the session to a new session id', async () => {
+    const session = {
+      keys: vi.fn().mockResolvedValue(['presentationId']),
+      getBatch: vi.fn().mockResolvedValue({ presentationId: 'tx' }),
+      clear: vi.fn(),
+    };
+    const rotated = { setBatch: vi.fn() };
+    const open = vi.fn().mockReturnValue(rotated);
+
+    const response = await new Hono()
+      .get('/', async (c) => {
+        await rotateSession(
+          c,
+          parseSessionCookieOptions({}),
+          session as any,
+          open,
+        );
+        return c.text('ok');
+      })
+      .request('/', { headers: { Cookie: `session=${cookieSessionId}` } });
+
+    const sessionId = cookieValue(response);
+    expect(sessionId).not.toBe(cookieSessionId);
+    expect(open).toHaveBeenCalledWith(sessionId);
+    expect(session.clear).toHaveBeenCalled();
+    expect(rotated.setBatch).toHaveBeenCalledWith({ presentationId: 'tx' });
+  });
+});
@@ -1,38 +1,51 @@
 import { createMiddleware } from 'hono/factory';
 import { SessionDynamoDB } from '../adapters/out/session/aws';
 import { Context } from 'hono';
-import { getCookie, setCookie } from 'hono/cookie';
 import { AwsEnv } from '../env';
 import { ConfigurationImpl } from '../di/aws-lambda';
-import { DynamoDB } from '@vecrea/oid4vc-core';
+import { ConsumableDynamoDB } from '../adapters/out/database/aws';
 import { Env as SecretsManagerEnv } from '@squilla/hono-aws-middlewares/secrets-manager';
 import { Env } from '../env';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { DCSessionDynamoDB } from '../adapters/out/session/aws/DCSessionDynamoDB';
-
-const SESSION_COOKIE_NAME = 'session';
-const EXPIRATION_TTL = 60 * 60 * 24; // 1 day
-
-const generateAndSetSessionId = (c: Context) => {
-  const sessionId = crypto.randomUUID();
-  setCookie(c, SESSION_COOKIE_NAME, sessionId);
-  return sessionId;
-};
+import { TransactionHandleDynamoDB } from '../adapters/out/session/aws/TransactionHandleDynamoDB';
+import {
+  parseSessionCookieOptions,
+  parseSessionTtl,
+  resolveSessionId,
+  rotateSession,
+} from './session';
 
 export const sessionMiddleware = createMiddleware(
   async (c: Context<AwsEnv>, next: () => Promise<void>) => {
     const config = new ConfigurationImpl(c);
-    const sessionId =
-      getCookie(c, SESSION_COOKIE_NAME) || generateAndSetSessionId(c);
-    const dynamoDB = new DynamoDB(
-      DynamoDBDocumentClient.from(c.get('DynamoDB')),
-      config.dynamoDBTable()
-    );
-    c.set('SESSION', new SessionDynamoDB(dynamoDB, sessionId, EXPIRATION_TTL));
-    c.set(
-      'DC_SESSION',
-      new DCSessionDynamoDB(dynamoDB, sessionId, EXPIRATION_TTL)
+    const cookie = parseSessionCookieOptions(c.env);
+    const ttl = parseSessionTtl(c.env?.SESSION_TTL_SECONDS);
+    const createDynamoDB = () =>
+      new ConsumableDynamoDB(
+        DynamoDBDocumentClient.from(c.get('DynamoDB')),
+        config.dynamoDBTable()
+      );
+    const { sessionId, transactionHandle } = await resolveSessionId(
+      c,
+      cookie,
+      () => new TransactionHandleDynamoDB(createDynamoDB(), ttl)
     );
+    const dynamoDB = createDynamoDB();
+    const open = (sessionId: string) => {
+      const session = new SessionDynamoDB(dynamoDB, sessionId, ttl);
+      c.set('SESSION', session);
+      c.set('DC_SESSION', new DCSessionDynamoDB(dynamoDB, sessionId, ttl));
+      c.set('SESSION_ID', sessionId);
+      return session;
+    };
+
+    open(sessionId);
+    c.set('TRANSACTION_HANDLES', new TransactionHandleDynamoDB(dynamoDB, ttl));
+    c.set('TRANSACTION_HANDLE', transactionHandle);
+    c.set('SESSION_ROTATOR', {
+      rotate: () => rotateSession(c, cookie, c.get('SESSION'), open),
+    });
     await next();
   }
 );
@@ -1,27 +1,126 @@
 import { createMiddleware } from 'hono/factory';
+import { Session, SessionSchemas } from '@vecrea/oid4vc-verifier-frontend-core';
 import {
   SessionDurableObject,
   DCSessionDurableObject,
+  TransactionHandleDurableObject,
+  SessionKV,
+  DCSessionKV,
+  TransactionHandleKV,
 } from '../adapters/out/session/cloudflare';
 import { Context } from 'hono';
-import { getCookie, setCookie } from 'hono/cookie';
-import { CloudflareEnv } from '../env';
+import { CloudflareBindings, CloudflareEnv } from '../env';
+import {
+  DigitalCredentialsSession,
+  TransactionHandleStore,
+} from '../ports/out/session';
+import {
+  parseSessionCookieOptions,
+  parseSessionTtl,
+  resolveSessionId,
+  rotateSession,
+} from './session';
+
+/**
+ * Storage of the sessions of a deployment
+ *
+ * @public
+ */
+export interface SessionStore {
+  session(sessionId: string): Session<SessionSchemas>;
+  dcSession(sessionId: string): DigitalCredentialsSession;
+  transactionHandles(): TransactionHandleStore;
+}
 
-const SESSION_COOKIE_NAME = 'session';
+/** KV expires keys after at least 60 seconds */
+const MIN_KV_TTL_SECONDS = 60;
 
-const generateAndSetSessionId = (c: Context) => {
-  const sessionId = crypto.randomUUID();
-  setCookie(c, SESSION_COOKIE_NAME, sessionId);
-  return sessionId;
+/**
+ * Creates the session storage chosen by `SESSION_STORE`
+ *
+ * - `durable-object`: the `SESSION` Durable Object of each session id
+ * - `kv`: the `PRESENTATION_ID_KV` namespace, for deployments without
+ *   Durable Objects; TTLs must be at least 60 seconds
+ *
+ * Defaults to `durable-object` when `SESSION` is bound, `kv` otherwise.
+ *
+ * @param env - Bindings of the request
+ * @param ttl - Expiration time of session data in seconds
+ * @returns The storage
+ * @throws {Error} `Invalid session store ...` for an unknown store,
+ *   `Missing ... binding` when the store is not bound and
+ *   `Invalid session TTL ...` for a TTL below 60 seconds on KV
+ *
+ * @public
+ */
+export const createSessionStore = (
+  env: CloudflareBindings,
+  ttl: number
+): SessionStore => {
+  const store = env.SESSION_STORE || (env.SESSION ? 'durable-object' : 'kv');
+
+  if (store === 'kv') {
+    const kv = env.PRESENTATION_ID_KV;
+    if (!kv) {
+      throw new Error('Missing PRESENTATION_ID_KV binding');
+    }
+    if (ttl < MIN_KV_TTL_SECONDS) {
+      throw new Error(
+        `Invalid session TTL for KV: ${ttl} (at least ${MIN_KV_TTL_SECONDS} seconds)`
+      );
+    }
+    return {
+      session: (sessionId) => new SessionKV(kv, sessionId, ttl),
+      dcSession: (sessionId) => new DCSessionKV(kv, sessionId, ttl),
+      transactionHandles: () => new TransactionHandleKV(kv, ttl),
+    };
+  }
+
+  if (store !== 'durable-object') {
+    throw new Error(`Invalid session store: ${store}`);
+  }
+  const namespace = env.SESSION;
+  if (!namespace) {
+    throw new Error('Missing SESSION binding');
+  }
+  const stub = (sessionId: string) =>
+    namespace.get(namespace.idFromName(sessionId));
+  return {
+    session: (sessionId) =>
+      new SessionDurableObject(stub(sessionId), sessionId, ttl),
+    dcSession: (sessionId) =>
+      new DCSessionDurableObject(stub(sessionId), sessionId, ttl),
+    transactionHandles: () =>
+      new TransactionHandleDurableObject(namespace, ttl),
+  };
 };
 
 export const sessionMiddleware = createMiddleware(
   async (c: Context<CloudflareEnv>, next: () => Promise<void>) => {
-    const sessionId =
-      getCookie(c, SESSION_COOKIE_NAME) || generateAndSetSessionId(c);
-    const stub = c.env.SESSION.get(c.env.SESSION.idFromName(sessionId));
-    c.set('SESSION', new SessionDurableObject(stub, sessionId));
-    c.set('DC_SESSION', new DCSessionDurableObject(stub, sessionId));
+    const cookie = parseSessionCookieOptions(c.env);
+    const store = createSessionStore(
+      c.env,
+      parseSessionTtl(c.env.SESSION_TTL_SECONDS)
+    );
+    const open = (sessionId: string) => {
+      const session = store.session(sessionId);
+      c.set('SESSION', session);
+      c.set('DC_SESSION', store.dcSession(sessionId));
+      c.set('SESSION_ID', sessionId);
+      return session;
+    };
+
+    const { sessionId, transactionHandle } = await resolveSessionId(
+      c,
+      cookie,
+      () => store.transactionHandles()
+    );
+    open(sessionId);
+    c.set('TRANSACTION_HANDLES', store.transactionHandles());
+    c.set('TRANSACTION_HANDLE', transactionHandle);
+    c.set('SESSION_ROTATOR', {
+      rotate: () => rotateSession(c, cookie, c.get('SESSION'), open),
+    });
     await next();
   }
 );
@@ -0,0 +1,298 @@
+import { Context } from 'hono';
+import { Session, SessionSchemas } from '@vecrea/oid4vc-verifier-frontend-core';
+import {
+  getCookie,
+  getSignedCookie,
+  setCookie,
+  setSignedCookie,
+} from 'hono/cookie';
+import {
+  TRANSACTION_HANDLE_PARAM,
+  isTransactionHandle,
+} from '../adapters/out/transaction';
+import { TransactionHandleStore } from '../ports/out/session';
+import { BaseBindings } from '../env';
+
+export const SESSION_COOKIE_NAME = 'session';
+
+/** Default lifetime of the session cookie in seconds (1 day) */
+const DEFAULT_SESSION_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24;
+
+/**
+ * Time session data is kept when none is configured (1 day)
+ *
+ * @public
+ */
+export const DEFAULT_SESSION_TTL_SECONDS = 60 * 60 * 24;
+
+/** Session ids are UUIDs */
+const SESSION_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Attributes of the session cookie
+ *
+ * The cookie is always `HttpOnly`.
+ *
+ * @public
+ */
+export interface SessionCookieOptions {
+  /** Secret the cookie is signed with; unsigned when not configured */
+  secret?: string;
+  /** Whether the name carries the `__Host-` prefix (`__Host-session`) */
+  hostPrefix: boolean;
+  secure: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+  path: string;
+  /** Lifetime in seconds */
+  maxAge: number;
+}
+
+/**
+ * Reads the session TTL from configuration
+ *
+ * @param value - TTL in seconds, e.g. `SESSION_TTL_SECONDS`
+ * @returns The TTL in seconds; 1 day when not configured
+ * @throws {Error} `Invalid session TTL ...` when the value is not a positive
+ *   number of seconds
+ *
+ * @public
+ */
+export const parseSessionTtl = (value?: string): number => {
+  if (value === undefined || value.trim() === '') {
+    return DEFAULT_SESSION_TTL_SECONDS;
+  }
+  const ttl = Number(value);
+  if (!Number.isInteger(ttl) || ttl <= 0) {
+    throw new Error(`Invalid session TTL: ${value}`);
+  }
+  return ttl;
+};
+
+/**
+ * Reads the session cookie attributes from configuration
+ *
+ * - `SESSION_COOKIE_SECRET`: secret the cookie is signed with
+ * - `SESSION_COOKIE_HOST_PREFIX`: `true` to name the cookie `__Host-session`
+ * - `SESSION_COOKIE_SECURE`: defaults to `true` when `PUBLIC_URL` is HTTPS
+ * - `SESSION_COOKIE_SAME_SITE`: `Strict`, `Lax` (default) or `None`
+ * - `SESSION_COOKIE_PATH`: defaults to `/`
+ * - `SESSION_COOKIE_MAX_AGE_SECONDS`: defaults to 1 day
+ *
+ * @param env - Bindings of the request
+ * @returns The attributes
+ * @throws {Error} `Invalid session cookie ...` when a value is malformed or
+ *   the attributes contradict each other
+ *
+ * @public
+ */
+export const parseSessionCookieOptions = (
+  env: Partial<BaseBindings> = {}
+): SessionCookieOptions => {
+  const hostPrefix = parseFlag(
+    'SESSION_COOKIE_HOST_PREFIX',
+    env.SESSION_COOKIE_HOST_PREFIX,
+    false
+  );
+  const secure = parseFlag(
+    'SESSION_COOKIE_SECURE',
+    env.SESSION_COOKIE_SECURE,
+    hostPrefix || (env.PUBLIC_URL ?? '').startsWith('https:')
+  );
+  const sameSite = env.SESSION_COOKIE_SAME_SITE || 'Lax';
+  if (!['Strict', 'Lax', 'None'].includes(sameSite)) {
+    throw new Error(`Invalid session cookie SameSite: ${sameSite}`);
+  }
+  const path = env.SESSION_COOKIE_PATH || '/';
+  if (!path.startsWith('/')) {
+    throw new Error(`Invalid session cookie Path: ${path}`);
+  }
+  const maxAge = env.SESSION_COOKIE_MAX_AGE_SECONDS
+    ? Number(env.SESSION_COOKIE_MAX_AGE_SECONDS)
+    : DEFAULT_SESSION_COOKIE_MAX_AGE_SECONDS;
+  if (!Number.isInteger(maxAge) || maxAge <= 0) {
+    throw new Error(
+      `Invalid session cookie Max-Age: ${env.SESSION_COOKIE_MAX_AGE_SECONDS}`
+    );
+  }
+
+  if (hostPrefix && (!secure || path !== '/')) {
+    throw new Error(
+      'Invalid session cookie: the __Host- prefix requires Secure and Path=/'
+    );
+  }
+  if (sameSite === 'None' && !secure) {
+    throw new Error('Invalid session cookie: SameSite=None requires Secure');
+  }
+
+  return {
+    ...(env.SESSION_COOKIE_SECRET && { secret: env.SESSION_COOKIE_SECRET }),
+    hostPrefix,
+    secure,
+    sameSite: sameSite as SessionCookieOptions['sameSite'],
+    path,
+    maxAge,
+  };
+};
+
+/**
+ * Reads a `true`/`false` setting
+ * @private
+ */
+const parseFlag = (
+  name: string,
+  value: string | undefined,
+  defaultValue: boolean
+): boolean => {
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  if (value !== 'true' && value !== 'false') {
+    throw new Error(`Invalid session cookie ${name}: ${value}`);
+  }
+  return value === 'true';
+};
+
+/**
+ * Reads the session id from the session cookie
+ *
+ * @returns The id, or `undefined` when the cookie is missing, its signature
+ *   does not match or it is not a session id
+ *
+ * @public
+ */
+export const readSessionId = async (
+  c: Context,
+  options: SessionCookieOptions
+): Promise<string | undefined> => {
+  const sessionId = options.secret
+    ? await getSignedCookie(
+        c,
+        options.secret,
+        SESSION_COOKIE_NAME,
+        options.hostPrefix ? 'host' : undefined
+      )
+    : options.hostPrefix
+    ? getCookie(c, SESSION_COOKIE_NAME, 'host')
+    : getCookie(c, SESSION_COOKIE_NAME);
+  return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId)
+    ? sessionId
+    : undefined;
+};
+
+/**
+ * Starts a new session id and sets it in the session cookie
+ *
+ * @returns The id
+ *
+ * @public
+ */
+export const issueSessionId = async (
+  c: Context,
+  options: SessionCookieOptions
+): Promise<string> => {
+  const sessionId = crypto.randomUUID();
+  const cookie = {
+    httpOnly: true,
+    secure: options.secure,
+    sameSite: options.sameSite,
+    path: options.path,
+    maxAge: options.maxAge,
+    ...(options.hostPrefix && { prefix: 'host' as const }),
+  };
+  if (options.secret) {
+    await setSignedCookie(
+      c,
+      SESSION_COOKIE_NAME,
+      sessionId,
+      options.secret,
+      cookie
+    );
+  } else {
+    setCookie(c, SESSION_COOKIE_NAME, sessionId, cookie);
+  }
+  return sessionId;
+};
+
+/**
+ * Moves the data of a session to a new session id
+ *
+ * The previous session is cleared, so that its id, e.g. one planted in the
+ * browser by an attacker, no longer gives access to the data.
+ *
+ * @param c - Context of the request
+ * @param options - Attributes of the session cookie
+ * @param session - Session of the request
+ * @param open - Makes the session of an id the session of the request
+ *
+ * @public
+ */
+export const rotateSession = async (
+  c: Context,
+  options: SessionCookieOptions,
+  session: Session<SessionSchemas>,
+  open: (sessionId: string) => Session<SessionSchemas>
+): Promise<void> => {
+  const keys = await session.keys();
+  const data = keys.length > 0 ? await session.getBatch(...keys) : {};
+  await session.clear();
+
+  const rotated = open(await issueSessionId(c, options));
+  if (keys.length > 0) {
+    await rotated.setBatch(data);
+  }
+};
+
+/**
+ * Session a request is served from
+ *
+ * @public
+ */
+export interface ResolvedSession {
+  /** Id of the session */
+  sessionId: string;
+  /** Transaction handle the session was found with, to be spent by the result page */
+  transactionHandle?: string;
+}
+
+/**
+ * Determines the session of a request
+ *
+ * A wallet response redirect, carrying a response code and the handle of a
+ * same-device transaction, is served from the session the transaction was
+ * started in, so that the result can be retrieved when the redirect opens
+ * in another browser, e.g. the in-app browser of the wallet. A session
+ * cookie does not prevail over the handle: the browser that started the
+ * transaction holds the id of that session, and the cookie of any other
+ * session is left alone. Otherwise the session cookie is used or, without
+ * it, a new session is started.
+ *
+ * The handle is only looked up here: it is spent by the result page once the
+ * result has been retrieved and moved to a rotated session, so that a
+ * redirect failing before that can be retried. The session it resolves to is
+ * used for the request only: its id is never set as cookie, so a redirect
+ * cannot make a browser join another session. Cookies that are tampered with
+ * or do not hold a session id are not looked up.
+ *
+ * @param c - Context of the request
+ * @param options - Attributes of the session cookie
+ * @param handles - Creates the store of the sessions of transaction handles;
+ *   only called when a handle has to be looked up
+ * @returns The session, with the handle it was found with
+ */
+export const resolveSessionId = async (
+  c: Context,
+  options: SessionCookieOptions,
+  handles: () => TransactionHandleStore
+): Promise<ResolvedSession> => {
+  const handle = c.req.query(TRANSACTION_HANDLE_PARAM);
+  if (isTransactionHandle(handle) && c.req.query('response_code')) {
+    const boundSessionId = await handles().find(handle);
+    if (boundSessionId) {
+      return { sessionId: boundSessionId, transactionHandle: handle };
+    }
+  }
+
+  const sessionId = await readSessionId(c, options);
+  return { sessionId: sessionId ?? (await issueSessionId(c, options)) };
+};
@@ -0,0 +1,16 @@
+/**
+ * Source of the current time for validity checks
+ *
+ * - Injected so that tests can verify credentials at a fixed time
+ * - Implementation is the system clock in production
+ *
+ * @public
+ */
+export interface Clock {
+  /**
+   * Get the current time
+   *
+   * @returns The current time
+   */
+  now(): Date;
+}
@@ -0,0 +1,26 @@
+/**
+ * Cache of verified revocation data (CRLs, status lists)
+ *
+ * - Values are opaque strings written by the revocation checker
+ * - Implementation is delegated to the session storage (Durable Object, DynamoDB etc.)
+ *
+ * @public
+ */
+export interface RevocationCache {
+  /**
+   * Get a cached value
+   *
+   * @param key - Cache key, e.g. `crl:<url>`
+   * @returns The value, or `undefined` when missing or expired
+   */
+  get(key: string): Promise<string | undefined>;
+
+  /**
+   * Cache a value
+   *
+   * @param key - Cache key
+   * @param value - Value to cache
+   * @param expiresAt - Time after which the value must not be used
+   */
+  put(key: string, value: string, expiresAt: Date): Promise<void>;
+}
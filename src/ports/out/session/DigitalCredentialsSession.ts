@@ -11,4 +11,6 @@ export interface DigitalCredentialsSession {
   save(value: string): Promise<void>;
   /** Get value */
   get(): Promise<string | null | undefined>;
+  /** Get value and remove it, so that it can be read only once */
+  consume(): Promise<string | null | undefined>;
 }
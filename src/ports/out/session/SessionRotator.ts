@@ -0,0 +1,12 @@
+/**
+ * Rotation of the session id of a request
+ *
+ * @public
+ */
+export interface SessionRotator {
+  /**
+   * Moves the data of the session to a new session id, issued in the session
+   * cookie of the response; the previous id no longer resolves to it
+   */
+  rotate(): Promise<void>;
+}
@@ -0,0 +1,16 @@
+/**
+ * Store of the sessions transaction handles were issued for
+ *
+ * Lets the wallet response redirect find the session of a same-device
+ * transaction when it opens in a browser without the session cookie.
+ *
+ * @public
+ */
+export interface TransactionHandleStore {
+  /** Binds a handle to the session the transaction was started in */
+  bind(handle: string, sessionId: string): Promise<void>;
+  /** Get the session of a handle, keeping the binding */
+  find(handle: string): Promise<string | null | undefined>;
+  /** Get the session of a handle and remove the binding, so that it resolves only once */
+  resolve(handle: string): Promise<string | null | undefined>;
+}
@@ -1 +1,3 @@
 export * from './DigitalCredentialsSession';
+export * from './TransactionHandleStore';
+export * from './SessionRotator';
@@ -0,0 +1,17 @@
+/**
+ * Store of trusted issuer (IACA) root certificates for mdoc verification
+ *
+ * - Certificates are PEM or base64 DER strings
+ * - Implementation is delegated to a JSON document, Cloudflare KV, DynamoDB etc.
+ *
+ * @public
+ */
+export interface TrustStore {
+  /**
+   * Get the roots trusted for a document type
+   *
+   * @param docType - mdoc document type, e.g. `org.iso.18013.5.1.mDL`
+   * @returns Trusted root certificates, empty when none is configured
+   */
+  roots(docType: string): Promise<string[]>;
+}
@@ -0,0 +1,16 @@
+/**
+ * Source of a signed Verified Issuer Certificate Authority List (VICAL)
+ *
+ * - The VICAL is the COSE_Sign1 encoded list, as published
+ * - Implementation is delegated to a local file, Durable Object, DynamoDB etc.
+ *
+ * @public
+ */
+export interface VicalSource {
+  /**
+   * Read the current copy of the VICAL
+   *
+   * @returns Encoded VICAL, or `undefined` when no copy is available
+   */
+  load(): Promise<Uint8Array | undefined>;
+}
@@ -0,0 +1,2 @@
+export * from './TrustStore';
+export * from './VicalSource';
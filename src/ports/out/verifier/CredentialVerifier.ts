@@ -0,0 +1,118 @@
+/**
+ * Verified document, keyed by its type (mdoc `docType`, SD-JWT `vct`, W3C
+ * credential type) with the presented claims as value
+ *
+ * @public
+ */
+export type VerifiedDocument = Record<string, Record<string, unknown>>;
+
+/**
+ * Trust status of the issuer of one document
+ *
+ * @public
+ */
+export interface IssuerTrust {
+  /** Document type */
+  docType: string;
+  /** Issuing authority named by the document signer certificate */
+  issuingAuthority: string;
+  /** Whether the document signer chain ends at a trusted IACA root */
+  trusted: boolean;
+  /** Why the chain is not trusted */
+  reason?: string;
+}
+
+/**
+ * Revocation status of one document
+ *
+ * @public
+ */
+export interface DocumentRevocation {
+  /** Document type */
+  docType: string;
+  /** Whether the document signer certificate or the credential is revoked */
+  revoked: boolean;
+  /** Why it is revoked */
+  reason?: string;
+}
+
+/**
+ * Validity period of one document
+ *
+ * Times are ISO 8601 strings.
+ *
+ * @public
+ */
+export interface DocumentValidity {
+  /** Document type */
+  docType: string;
+  /** Whether the document is valid at the time of verification */
+  valid: boolean;
+  /** When the issuer signed the MSO */
+  signed?: string;
+  /** Start of the validity period of the MSO */
+  validFrom?: string;
+  /** End of the validity period of the MSO */
+  validUntil?: string;
+  /** When the issuer expects to update the MSO */
+  expectedUpdate?: string;
+  /** Expiry date of the document (`expiry_date`), when disclosed */
+  expiryDate?: string;
+  /** Whether `expectedUpdate` has passed; the document stays valid */
+  updateOverdue?: boolean;
+  /** Why the document is not valid */
+  reason?: string;
+}
+
+/**
+ * Result of verifying one presentation
+ *
+ * @public
+ */
+export interface CredentialVerification {
+  /** Whether the presentation is valid */
+  valid: boolean;
+  /** Documents of the presentation; empty when it is invalid */
+  documents?: VerifiedDocument[];
+  /** Trust status of the issuers, when the verifier checks them */
+  issuers?: IssuerTrust[];
+  /** Revocation status of the documents, when the verifier checks it */
+  revocations?: DocumentRevocation[];
+  /** Validity period of the documents, when the verifier checks it */
+  validities?: DocumentValidity[];
+}
+
+/**
+ * Verifier of the presentations of one credential format
+ *
+ * - Request parameters (nonce, audience) are bound when the verifier is created
+ * - Implementation is delegated to the mdoc, SD-JWT VC and W3C verifiers etc.
+ *
+ * @public
+ */
+export interface CredentialVerifier {
+  /**
+   * Tell whether a presentation has the shape of this format
+   *
+   * Used for presentations whose format the wallet did not declare.
+   *
+   * @param presentation - Presentation taken from a VP token
+   */
+  accepts(presentation: string): boolean;
+
+  /**
+   * Verify a presentation
+   *
+   * @param presentation - Presentation taken from a VP token
+   * @returns The verification result; invalid presentations resolve with `valid: false`
+   */
+  verify(presentation: string): Promise<CredentialVerification>;
+}
+
+/**
+ * Credential verifiers keyed by format identifier (`mso_mdoc`, `dc+sd-jwt`,
+ * `jwt_vc_json` etc.)
+ *
+ * @public
+ */
+export type CredentialVerifiers = Readonly<Record<string, CredentialVerifier>>;